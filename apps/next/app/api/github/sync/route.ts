@@ -0,0 +1,54 @@
+import { createClient } from '@supabase/supabase-js'
+import { createSupabaseETagStore, GitHubClient, pruneSupabaseETagStore } from 'app/utils/githubClient'
+import { syncStaleGitHubProfiles } from 'app/utils/githubSync'
+
+// Batch refresh of stale GitHub stats, meant to be called by a scheduler (e.g. Vercel Cron)
+//
+// Required environment variables:
+//   SUPABASE_SERVICE_ROLE_KEY  service role key; candidates include other users' profiles
+//   GITHUB_SYNC_SECRET         callers must send "Authorization: Bearer <secret>"
+// Optional:
+//   GITHUB_TOKEN               server token so contribution counts can be fetched via GraphQL
+//
+// Query parameters:
+//   limit  profiles to refresh in this run (defaults to GITHUB_SYNC_BATCH_SIZE)
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 60
+
+async function handleSync(request: Request) {
+  const secret = process.env.GITHUB_SYNC_SECRET
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!supabaseUrl || !serviceRoleKey) {
+    return Response.json({ error: 'GitHub sync is not configured' }, { status: 500 })
+  }
+
+  const db = createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false }
+  })
+
+  const limit = Number(new URL(request.url).searchParams.get('limit')) || undefined
+  const result = await syncStaleGitHubProfiles({
+    db,
+    // ETags persist in Supabase, so unchanged resources are free 304s across cold starts
+    client: new GitHubClient({ token: process.env.GITHUB_TOKEN, etagStore: createSupabaseETagStore(db) }),
+    batchSize: limit
+  })
+
+  // Drop cached responses no recent run has refreshed, so the cache table stays bounded
+  const prunedCacheEntries = await pruneSupabaseETagStore(db)
+  if (prunedCacheEntries > 0) {
+    console.log(`🔄 Pruned ${prunedCacheEntries} stale GitHub ETag cache entries`)
+  }
+
+  return Response.json(result, { status: result.success ? 200 : 500 })
+}
+
+// Vercel Cron issues GET requests; POST is accepted for manual runs
+export const GET = handleSync
+export const POST = handleSync
@@ -0,0 +1,83 @@
+import { createClient } from '@supabase/supabase-js'
+import {
+  getGitHubWebhookRepositoryUrl,
+  parseGitHubWebhookEvent,
+  recordGitHubActivity,
+  verifyGitHubDelivery
+} from 'app/utils/githubWebhooks'
+
+// GitHub webhook receiver for repositories linked to projects
+// Configure the repository webhook with content type application/json, this URL, the
+// project's webhook secret (get_project_webhook_secret(), shown to the project owner), and
+// the push, issues, pull_request and release events.
+//
+// Each delivery is checked against the secrets of the projects linked to its repository
+// and only recorded for the projects whose secret signed it.
+//
+// Required environment variables:
+//   SUPABASE_SERVICE_ROLE_KEY  service role key; reads webhook secrets and writes activity
+//
+// Deliveries can be replayed locally with apps/next/scripts/replay-github-webhook.mjs
+
+export const dynamic = 'force-dynamic'
+
+export async function POST(request: Request) {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!supabaseUrl || !serviceRoleKey) {
+    return Response.json({ error: 'GitHub webhooks are not configured' }, { status: 500 })
+  }
+
+  const eventName = request.headers.get('x-github-event')
+  const deliveryId = request.headers.get('x-github-delivery')
+  if (!eventName || !deliveryId) {
+    return Response.json({ error: 'Missing X-GitHub-Event or X-GitHub-Delivery header' }, { status: 400 })
+  }
+
+  // The signature covers the raw body, so keep it for verification
+  const body = await request.text()
+
+  // Parsed before verifying only to find which projects' secrets to check; nothing is written yet
+  let payload: unknown
+  try {
+    payload = JSON.parse(body)
+  } catch {
+    return Response.json({ error: 'Payload must be JSON' }, { status: 400 })
+  }
+
+  const repositoryUrl = getGitHubWebhookRepositoryUrl(payload)
+  if (!repositoryUrl) {
+    return Response.json({ error: 'Payload has no repository' }, { status: 400 })
+  }
+
+  const db = createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false }
+  })
+
+  const verification = await verifyGitHubDelivery(
+    db,
+    body,
+    request.headers.get('x-hub-signature-256'),
+    repositoryUrl
+  )
+  if (!verification.success) {
+    return Response.json({ error: verification.error }, { status: 500 })
+  }
+  if (verification.projectIds.length === 0) {
+    return Response.json({ error: 'Invalid signature' }, { status: 401 })
+  }
+
+  // Sent once when the webhook is created
+  if (eventName === 'ping') {
+    return Response.json({ ok: true })
+  }
+
+  const { event, ignoredReason } = parseGitHubWebhookEvent(eventName, payload)
+  if (!event) {
+    return Response.json({ ignored: true, reason: ignoredReason }, { status: 202 })
+  }
+
+  // A failed write returns 500 so GitHub marks the delivery failed and it can be redelivered
+  const result = await recordGitHubActivity(db, deliveryId, event, verification.projectIds)
+  return Response.json(result, { status: result.success ? 200 : 500 })
+}
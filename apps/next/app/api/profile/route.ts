@@ -0,0 +1,89 @@
+import { createClient } from '@supabase/supabase-js'
+import { ValidationSchemas, validateProfileUpdate } from 'app/utils/validation'
+
+// Profile updates checked on the server with ValidationSchemas.PROFILE, the same rules
+// onboarding and the dashboard run in the app, so a client that skips them can't save
+// a profile the app would reject
+//
+// Callers send "Authorization: Bearer <Supabase access token>"; the update runs as that
+// user, so row level security applies exactly as it does for updates made in the app.
+//
+// Body: any of the PROFILE columns (username, full_name, age, about_me, education_status,
+// coding_languages, avatar_url). Only the fields sent are checked and saved.
+// Responses: 200 { profile }, 400 { error, errors, fieldErrors }, 401, 409 (username taken)
+
+export const dynamic = 'force-dynamic'
+
+export async function PATCH(request: Request) {
+  const token = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '')
+  if (!token) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+  if (!supabaseUrl || !anonKey) {
+    return Response.json({ error: 'Profile updates are not configured' }, { status: 500 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return Response.json({ error: 'Body must be JSON' }, { status: 400 })
+  }
+
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return Response.json({ error: 'Body must be an object of profile fields' }, { status: 400 })
+  }
+
+  const unknownFields = Object.keys(body).filter(field => !Object.hasOwn(ValidationSchemas.PROFILE, field))
+  if (unknownFields.length > 0) {
+    return Response.json({ error: `Unknown profile fields: ${unknownFields.join(', ')}` }, { status: 400 })
+  }
+
+  const validation = validateProfileUpdate(body as Record<string, unknown>)
+  if (!validation.isValid) {
+    return Response.json(
+      { error: validation.errors[0], errors: validation.errors, fieldErrors: validation.fieldErrors },
+      { status: 400 }
+    )
+  }
+
+  const db = createClient(supabaseUrl, anonKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+    global: { headers: { Authorization: `Bearer ${token}` } }
+  })
+
+  const { data: { user }, error: authError } = await db.auth.getUser(token)
+  if (authError || !user) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { data: profile, error } = await db
+    .from('profiles')
+    .update({ ...validation.sanitizedValue, updated_at: new Date().toISOString() })
+    .eq('id', user.id)
+    .select()
+    .single()
+
+  if (error) {
+    // Unique username index
+    if (error.code === '23505') {
+      return Response.json(
+        { error: 'This username is already taken', fieldErrors: { username: 'This username is already taken' } },
+        { status: 409 }
+      )
+    }
+
+    // enforce_profile_rules, the database copy of the same rules
+    if (error.code === '23514') {
+      return Response.json({ error: error.message, errors: [error.message] }, { status: 400 })
+    }
+
+    console.error('❌ Profile update failed:', error.message)
+    return Response.json({ error: 'Failed to update profile' }, { status: 500 })
+  }
+
+  return Response.json({ profile })
+}
@@ -2,139 +2,66 @@
 
 import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
-import { supabase } from 'app/lib/supabase'
+import { useAuth } from 'app/provider/auth'
+import { getPostSignInPath } from 'app/provider/route-guard'
+
+// How long to wait for a session before treating the callback as failed
+const SESSION_TIMEOUT_MS = 10000
 
 export default function AuthCallback() {
   const router = useRouter()
+  const { user, profile, loading, profileLoading } = useAuth()
   const [status, setStatus] = useState('Processing authentication...')
+  const [urlError, setUrlError] = useState<string | null>(null)
 
+  // Check for errors in URL first
   useEffect(() => {
     console.log('🔄 Auth callback component mounted')
     console.log('🌐 Current URL:', window.location.href)
-    
-    // Check for errors in URL first
+
     const urlParams = new URLSearchParams(window.location.search)
     const error = urlParams.get('error')
     const errorDescription = urlParams.get('error_description')
     const errorCode = urlParams.get('error_code')
-    
-    if (error) {
-      console.error('❌ OAuth error from URL:', { error, errorDescription, errorCode })
-      
-      // Handle specific error types
-      if (error === 'server_error' && errorCode === 'unexpected_failure') {
-        setStatus('GitHub authentication failed. Please try again.')
-        setTimeout(() => {
-          router.push('/signin?error=github_server_error')
-        }, 2000)
-      } else {
-        setStatus('Authentication failed')
-        router.push(`/signin?error=${error}`)
-      }
-      return
-    }
 
-    setStatus('Waiting for authentication...')
+    if (!error) return
+    console.error('❌ OAuth error from URL:', { error, errorDescription, errorCode })
+    setUrlError(error)
 
-    // Listen for auth state changes
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(async (event, session) => {
-      console.log('🔔 Auth state change:', event, session?.user?.email)
-      
-      if (event === 'SIGNED_IN' && session) {
-        console.log('✅ User signed in successfully!')
-        setStatus('Authentication successful! Checking profile...')
-        
-        // Check if user has completed onboarding
-        const { data: profile, error } = await supabase
-          .from('profiles')
-          .select('onboarding_completed')
-          .eq('id', session.user.id)
-          .single()
-        
-        if (error) {
-          console.error('❌ Profile check error:', error)
-          setStatus('Profile check failed')
-          return
-        }
-        
-        // Small delay to show success message
-        setTimeout(() => {
-          if (profile?.onboarding_completed) {
-            router.push('/dashboard')
-          } else {
-            router.push('/onboarding')
-          }
-        }, 1000)
-      } else if (event === 'SIGNED_OUT') {
-        console.log('❌ User signed out')
-        setStatus('Authentication failed')
-        router.push('/signin?error=signed_out')
-      } else if (event === 'TOKEN_REFRESHED') {
-        console.log('🔄 Token refreshed')
-        if (session) {
-          // Check onboarding status for token refresh too
-          const { data: profile } = await supabase
-            .from('profiles')
-            .select('onboarding_completed')
-            .eq('id', session.user.id)
-            .single()
-          
-          if (profile?.onboarding_completed) {
-            router.push('/dashboard')
-          } else {
-            router.push('/onboarding')
-          }
-        }
-      }
-    })
-
-    // Also check current session immediately
-    const checkCurrentSession = async () => {
-      const { data: { session }, error } = await supabase.auth.getSession()
-      
-      if (error) {
-        console.error('❌ Session check error:', error)
-        setStatus('Session check failed')
-        return
-      }
-      
-      if (session) {
-        console.log('✅ Existing session found!')
-        setStatus('Authentication successful! Checking profile...')
-        
-        // Check if user has completed onboarding
-        const { data: profile, error: profileError } = await supabase
-          .from('profiles')
-          .select('onboarding_completed')
-          .eq('id', session.user.id)
-          .single()
-        
-        if (profileError) {
-          console.error('❌ Profile check error:', profileError)
-          setStatus('Profile check failed')
-          return
-        }
-        
-        setTimeout(() => {
-          if (profile?.onboarding_completed) {
-            router.push('/dashboard')
-          } else {
-            router.push('/onboarding')
-          }
-        }, 1000)
-      } else {
-        console.log('⏳ No session yet, waiting for auth state change...')
-        setStatus('Completing authentication...')
-      }
+    // Handle specific error types
+    if (error === 'server_error' && errorCode === 'unexpected_failure') {
+      setStatus('Authentication failed. Please try again.')
+      setTimeout(() => {
+        router.push('/signin?error=github_server_error')
+      }, 2000)
+    } else {
+      setStatus('Authentication failed')
+      router.push(`/signin?error=${error}`)
     }
+  }, [router])
 
-    checkCurrentSession()
+  // The session comes from AuthProvider (detectSessionInUrl) and the profile from its
+  // cache, so the redirect is decided once both are known
+  useEffect(() => {
+    if (urlError || loading) return
 
-    // Cleanup subscription on unmount
-    return () => {
-      subscription.unsubscribe()
+    if (!user) {
+      console.log('⏳ No session yet, waiting for auth state change...')
+      setStatus('Completing authentication...')
+      const timeout = setTimeout(() => router.push('/signin?error=signed_out'), SESSION_TIMEOUT_MS)
+      return () => clearTimeout(timeout)
     }
-  }, [router])
+
+    if (profileLoading) {
+      setStatus('Authentication successful! Checking profile...')
+      return
+    }
+
+    console.log('✅ User signed in successfully!')
+    // Small delay to show success message
+    const timeout = setTimeout(() => router.push(getPostSignInPath(profile)), 1000)
+    return () => clearTimeout(timeout)
+  }, [urlError, loading, user?.id, profileLoading, profile?.onboarding_completed, router])
 
   return (
     <div style={{
@@ -0,0 +1,7 @@
+'use client'
+
+import { RequireOnboarding } from 'app/provider/route-guard'
+
+export default function DashboardLayout({ children }: { children: React.ReactNode }) {
+  return <RequireOnboarding loadingMessage="Loading dashboard...">{children}</RequireOnboarding>
+}
@@ -1,7 +1,13 @@
 'use client'
 
+import { Suspense } from 'react'
 import { DashboardScreen } from 'app/features/dashboard/screen'
 
+// Browse Projects reads its filters from the URL, which requires a Suspense boundary
 export default function DashboardPage() {
-  return <DashboardScreen />
-} 
\ No newline at end of file
+  return (
+    <Suspense>
+      <DashboardScreen />
+    </Suspense>
+  )
+}
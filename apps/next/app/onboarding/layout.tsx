@@ -0,0 +1,7 @@
+'use client'
+
+import { RequireAuth } from 'app/provider/route-guard'
+
+export default function OnboardingLayout({ children }: { children: React.ReactNode }) {
+  return <RequireAuth>{children}</RequireAuth>
+}
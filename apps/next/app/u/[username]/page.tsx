@@ -0,0 +1,7 @@
+'use client'
+
+import { UsernameProfileScreen } from 'app/features/user/username-screen'
+
+export default function UsernamePage() {
+  return <UsernameProfileScreen />
+}
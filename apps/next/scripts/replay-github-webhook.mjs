@@ -0,0 +1,56 @@
+#!/usr/bin/env node
+// Replay a GitHub webhook fixture against the local webhook route
+//
+// Usage:
+//   GITHUB_WEBHOOK_SECRET=... node scripts/replay-github-webhook.mjs <event> [fixture.json] [url]
+//
+//   event    push | issues | pull_request | release | ping
+//   fixture  defaults to scripts/fixtures/github-webhooks/<event>.json
+//   url      defaults to http://localhost:3000/api/github/webhook
+//
+// GITHUB_WEBHOOK_SECRET is the linked project's webhook secret; as the project owner run
+//   select get_project_webhook_secret('<project id>');
+// Set GITHUB_DELIVERY_ID to resend a delivery; replays of the same id are recorded once.
+// The fixtures point at https://github.com/devrecruit/example-project, so link a project
+// to that repository (or edit repository.html_url) to see activity recorded.
+
+import { createHmac, randomUUID } from 'node:crypto'
+import { readFile } from 'node:fs/promises'
+import { dirname, join } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const [event, fixturePath, url = 'http://localhost:3000/api/github/webhook'] = process.argv.slice(2)
+const secret = process.env.GITHUB_WEBHOOK_SECRET
+
+if (!event || !secret) {
+  console.error('❌ Usage: GITHUB_WEBHOOK_SECRET=... node scripts/replay-github-webhook.mjs <event> [fixture.json] [url]')
+  process.exit(1)
+}
+
+const fixturesDir = join(dirname(fileURLToPath(import.meta.url)), 'fixtures', 'github-webhooks')
+const body = event === 'ping' && !fixturePath
+  ? JSON.stringify({
+      zen: 'Keep it logically awesome.',
+      repository: { html_url: 'https://github.com/devrecruit/example-project' }
+    })
+  : await readFile(fixturePath || join(fixturesDir, `${event}.json`), 'utf8')
+const deliveryId = process.env.GITHUB_DELIVERY_ID || randomUUID()
+const signature = `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`
+
+console.log(`🔄 Replaying ${event} delivery ${deliveryId} to ${url}`)
+
+const response = await fetch(url, {
+  method: 'POST',
+  headers: {
+    'Content-Type': 'application/json',
+    'User-Agent': 'GitHub-Hookshot/replay',
+    'X-GitHub-Event': event,
+    'X-GitHub-Delivery': deliveryId,
+    'X-Hub-Signature-256': signature
+  },
+  body
+})
+
+const text = await response.text()
+console.log(`${response.ok ? '✅' : '❌'} ${response.status} ${text}`)
+process.exit(response.ok ? 0 : 1)
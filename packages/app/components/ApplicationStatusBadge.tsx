@@ -0,0 +1,33 @@
+'use client'
+
+import React from 'react'
+import { View, Text } from 'react-native'
+import { APPLICATION_STATUS_OPTIONS } from '../utils/constants'
+import type { ApplicationStatus } from '../utils/applications'
+
+const STATUS_COLORS: Record<ApplicationStatus, { background: string; text: string }> = {
+  pending: { background: '#fef9c3', text: '#854d0e' },
+  shortlisted: { background: '#dbeafe', text: '#1e40af' },
+  accepted: { background: '#dcfce7', text: '#166534' },
+  rejected: { background: '#fee2e2', text: '#991b1b' },
+  withdrawn: { background: '#f1f5f9', text: '#475569' }
+}
+
+export function ApplicationStatusBadge({ status }: { status: ApplicationStatus }) {
+  const option = APPLICATION_STATUS_OPTIONS.find(item => item.value === status)
+  const colors = STATUS_COLORS[status]
+
+  return (
+    <View style={{
+      backgroundColor: colors.background,
+      paddingHorizontal: 8,
+      paddingVertical: 4,
+      borderRadius: 6,
+      alignSelf: 'flex-start'
+    }}>
+      <Text style={{ fontSize: 12, fontWeight: '600', color: colors.text }}>
+        {option ? `${option.icon} ${option.label}` : status}
+      </Text>
+    </View>
+  )
+}
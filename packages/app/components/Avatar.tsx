@@ -6,8 +6,8 @@ import { AvatarUploadModal } from './AvatarUploadModal'
 
 interface AvatarProps {
   src?: string | null
-  name?: string
-  username?: string
+  name?: string | null
+  username?: string | null
   size?: number
   showEditIcon?: boolean
   onAvatarUpdate?: (newAvatarUrl: string) => void
@@ -0,0 +1,160 @@
+'use client'
+
+import React, { useState } from 'react'
+import { View, Text, Pressable, Alert } from 'react-native'
+import type { UserIdentity } from '@supabase/supabase-js'
+import { useAuth, AuthOAuthProvider } from '../provider/auth'
+import { AUTH_OAUTH_PROVIDERS } from '../utils/constants'
+
+const EMAIL_PROVIDER = { value: 'email', label: 'Email', icon: '✉️' }
+
+const describeIdentity = (identity: UserIdentity): string | null => {
+  const data = identity.identity_data || {}
+  return data.user_name || data.preferred_username || data.email || null
+}
+
+/**
+ * Settings card listing the sign-in methods on the account
+ * OAuth providers can be linked or unlinked; the last remaining one cannot be removed
+ */
+export function ConnectedAccounts() {
+  const { identities, linkIdentity, unlinkIdentity } = useAuth()
+  const [hoveredButton, setHoveredButton] = useState<string | null>(null)
+  const [busyProvider, setBusyProvider] = useState<string | null>(null)
+
+  const isLastIdentity = identities.length <= 1
+
+  const handleLink = async (provider: AuthOAuthProvider) => {
+    setBusyProvider(provider)
+    try {
+      await linkIdentity(provider)
+    } catch (error) {
+      console.error('❌ Error linking identity:', error)
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to link account')
+    } finally {
+      setBusyProvider(null)
+    }
+  }
+
+  const handleUnlink = async (identity: UserIdentity, label: string) => {
+    if (isLastIdentity) {
+      Alert.alert('Cannot remove', 'This is your only sign-in method. Link another account first.')
+      return
+    }
+
+    setBusyProvider(identity.provider)
+    try {
+      await unlinkIdentity(identity)
+      Alert.alert('Success', `${label} has been disconnected`)
+    } catch (error) {
+      console.error('❌ Error unlinking identity:', error)
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to disconnect account')
+    } finally {
+      setBusyProvider(null)
+    }
+  }
+
+  const emailIdentity = identities.find(identity => identity.provider === 'email')
+  const rows = [
+    ...AUTH_OAUTH_PROVIDERS.map(provider => ({
+      ...provider,
+      identity: identities.find(identity => identity.provider === provider.value),
+      linkable: true
+    })),
+    // Email sign-in comes from magic links and cannot be linked from here
+    ...(emailIdentity ? [{ ...EMAIL_PROVIDER, identity: emailIdentity, linkable: false }] : [])
+  ]
+
+  return (
+    <View style={{
+      backgroundColor: '#ffffff',
+      borderRadius: 16,
+      padding: 24,
+      borderWidth: 1,
+      borderColor: '#e2e8f0',
+      gap: 20
+    }}>
+      <View style={{ gap: 8 }}>
+        <Text style={{ fontSize: 18, fontWeight: '700', color: '#374151' }}>
+          🔑 Connected Accounts
+        </Text>
+        <Text style={{ fontSize: 14, color: '#64748b' }}>
+          Sign in with any of these. You always need at least one.
+        </Text>
+      </View>
+
+      <View style={{ gap: 12 }}>
+        {rows.map(row => {
+          const { identity } = row
+          const isBusy = busyProvider === row.value
+          const buttonKey = `identity-${row.value}`
+          const canUnlink = !!identity && !isLastIdentity
+
+          return (
+            <View
+              key={row.value}
+              style={{
+                flexDirection: 'row',
+                alignItems: 'center',
+                gap: 12,
+                paddingVertical: 12,
+                borderBottomWidth: 1,
+                borderBottomColor: '#f1f5f9'
+              }}
+            >
+              <Text style={{ fontSize: 20 }}>{row.icon}</Text>
+              <View style={{ flex: 1, gap: 2 }}>
+                <Text style={{ fontSize: 16, fontWeight: '600', color: '#374151' }}>
+                  {row.label}
+                </Text>
+                <Text style={{ fontSize: 13, color: '#64748b' }}>
+                  {identity ? describeIdentity(identity) || 'Connected' : 'Not connected'}
+                </Text>
+              </View>
+
+              {identity ? (
+                <Pressable
+                  onPress={() => handleUnlink(identity, row.label)}
+                  disabled={isBusy || !canUnlink}
+                  onHoverIn={() => setHoveredButton(buttonKey)}
+                  onHoverOut={() => setHoveredButton(null)}
+                  style={{
+                    paddingHorizontal: 14,
+                    paddingVertical: 8,
+                    borderRadius: 8,
+                    borderWidth: 1,
+                    borderColor: canUnlink ? '#fecaca' : '#e2e8f0',
+                    backgroundColor: hoveredButton === buttonKey && canUnlink ? '#fef2f2' : '#ffffff',
+                    opacity: isBusy ? 0.7 : 1
+                  }}
+                >
+                  <Text style={{ fontSize: 13, fontWeight: '600', color: canUnlink ? '#dc2626' : '#94a3b8' }}>
+                    {isBusy ? 'Removing...' : canUnlink ? 'Disconnect' : 'Only sign-in method'}
+                  </Text>
+                </Pressable>
+              ) : row.linkable ? (
+                <Pressable
+                  onPress={() => handleLink(row.value as AuthOAuthProvider)}
+                  disabled={isBusy}
+                  onHoverIn={() => setHoveredButton(buttonKey)}
+                  onHoverOut={() => setHoveredButton(null)}
+                  style={{
+                    paddingHorizontal: 14,
+                    paddingVertical: 8,
+                    borderRadius: 8,
+                    backgroundColor: hoveredButton === buttonKey ? '#5b6cf0' : '#667eea',
+                    opacity: isBusy ? 0.7 : 1
+                  }}
+                >
+                  <Text style={{ fontSize: 13, fontWeight: '600', color: '#ffffff' }}>
+                    {isBusy ? 'Connecting...' : 'Connect'}
+                  </Text>
+                </Pressable>
+              ) : null}
+            </View>
+          )
+        })}
+      </View>
+    </View>
+  )
+}
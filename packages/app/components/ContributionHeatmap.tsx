@@ -0,0 +1,119 @@
+'use client'
+
+import React from 'react'
+import { View, Text, ScrollView } from 'react-native'
+import type { GitHubContributionDay } from '../utils/githubStats'
+
+interface ContributionHeatmapProps {
+  // Daily counts, oldest first (github_contribution_calendar)
+  days: GitHubContributionDay[]
+  cellSize?: number
+}
+
+const LEVEL_COLORS = ['#f1f5f9', '#c7d2fe', '#a5b4fc', '#818cf8', '#667eea']
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+const DAY_LABELS = ['', 'Mon', '', 'Wed', '', 'Fri', '']
+const CELL_GAP = 3
+
+const parseDay = (date: string) => new Date(`${date}T00:00:00Z`)
+
+/**
+ * Split days into Sunday-first weeks; the first week is padded so rows line up by weekday
+ */
+const buildWeeks = (days: GitHubContributionDay[]): (GitHubContributionDay | null)[][] => {
+  const first = days[0]
+  if (!first) return []
+
+  const weeks: (GitHubContributionDay | null)[][] = []
+  let week: (GitHubContributionDay | null)[] = Array(parseDay(first.date).getUTCDay()).fill(null)
+
+  for (const day of days) {
+    week.push(day)
+    if (week.length === 7) {
+      weeks.push(week)
+      week = []
+    }
+  }
+  if (week.length > 0) weeks.push(week)
+
+  return weeks
+}
+
+/**
+ * Shade by quarter of the busiest day, like GitHub's own calendar
+ */
+const getLevel = (count: number, maxCount: number): number => {
+  if (count <= 0 || maxCount <= 0) return 0
+  return Math.min(Math.ceil((count / maxCount) * 4), 4)
+}
+
+export function ContributionHeatmap({ days, cellSize = 11 }: ContributionHeatmapProps) {
+  if (days.length === 0) return null
+
+  const weeks = buildWeeks(days)
+  const maxCount = Math.max(...days.map(day => day.count))
+  const total = days.reduce((sum, day) => sum + day.count, 0)
+
+  // Label a column when its first day starts a new month
+  const monthLabels = weeks.map((week, index) => {
+    const firstDay = week.find(day => day !== null)
+    if (!firstDay) return ''
+    const month = parseDay(firstDay.date).getUTCMonth()
+    const previous = weeks[index - 1]?.find(day => day !== null)
+    if (index > 0 && previous && parseDay(previous.date).getUTCMonth() === month) return ''
+    return MONTH_LABELS[month] ?? ''
+  })
+
+  return (
+    <View style={{ gap: 8 }}>
+      <Text style={{ fontSize: 13, color: '#374151', fontWeight: '500' }}>
+        {total} contributions in the last year
+      </Text>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View style={{ flexDirection: 'row', gap: CELL_GAP }}>
+          {/* Weekday labels */}
+          <View style={{ gap: CELL_GAP, marginTop: 16, marginRight: 4 }}>
+            {DAY_LABELS.map((label, index) => (
+              <Text key={index} style={{ height: cellSize, fontSize: 9, lineHeight: cellSize, color: '#94a3b8' }}>
+                {label}
+              </Text>
+            ))}
+          </View>
+
+          {weeks.map((week, weekIndex) => (
+            <View key={weekIndex} style={{ gap: CELL_GAP }}>
+              {/* Month names are wider than a column, so they overflow to the right */}
+              <View style={{ height: 13, width: cellSize }}>
+                <Text style={{ position: 'absolute', left: 0, top: 0, width: 32, fontSize: 9, color: '#94a3b8' }}>
+                  {monthLabels[weekIndex]}
+                </Text>
+              </View>
+              {week.map((day, dayIndex) => (
+                <View
+                  key={day?.date ?? `empty-${dayIndex}`}
+                  accessibilityLabel={day ? `${day.count} contributions on ${day.date}` : undefined}
+                  style={{
+                    width: cellSize,
+                    height: cellSize,
+                    borderRadius: 2,
+                    backgroundColor: day ? LEVEL_COLORS[getLevel(day.count, maxCount)] : 'transparent'
+                  }}
+                />
+              ))}
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+
+      {/* Legend */}
+      <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'flex-end', gap: 4 }}>
+        <Text style={{ fontSize: 11, color: '#64748b', marginRight: 2 }}>Less</Text>
+        {LEVEL_COLORS.map(color => (
+          <View key={color} style={{ width: cellSize, height: cellSize, borderRadius: 2, backgroundColor: color }} />
+        ))}
+        <Text style={{ fontSize: 11, color: '#64748b', marginLeft: 2 }}>More</Text>
+      </View>
+    </View>
+  )
+}
@@ -0,0 +1,81 @@
+'use client'
+
+import React from 'react'
+import { View, Text, Pressable } from 'react-native'
+import { Avatar } from './Avatar'
+import { HighlightedText } from './HighlightedText'
+import { EDUCATION_OPTIONS } from '../utils/constants'
+import type { DeveloperSearchResult } from '../utils/search'
+
+interface DeveloperCardProps {
+  developer: DeveloperSearchResult
+  onPress?: () => void
+  footer?: React.ReactNode
+}
+
+export function DeveloperCard({ developer, onPress, footer }: DeveloperCardProps) {
+  const education = EDUCATION_OPTIONS.find(option => option.value === developer.education_status)
+  const languages = developer.coding_languages || []
+
+  return (
+    <Pressable
+      onPress={onPress}
+      disabled={!onPress}
+      style={{
+        backgroundColor: '#ffffff',
+        borderRadius: 16,
+        padding: 20,
+        borderWidth: 1,
+        borderColor: '#e2e8f0',
+        gap: 12
+      }}
+    >
+      <View style={{ flexDirection: 'row', alignItems: 'center', gap: 12 }}>
+        <Avatar
+          src={developer.avatar_url}
+          name={developer.full_name || undefined}
+          username={developer.username || undefined}
+          size={48}
+        />
+        <View style={{ flex: 1 }}>
+          <Text style={{ fontSize: 16, fontWeight: '700', color: '#0f172a' }}>
+            {developer.full_name || developer.username}
+          </Text>
+          {developer.username && (
+            <Text style={{ fontSize: 13, color: '#64748b' }}>
+              @{developer.username}
+            </Text>
+          )}
+        </View>
+        {education && (
+          <Text style={{ fontSize: 12, color: '#64748b' }}>
+            {education.icon} {education.label}
+          </Text>
+        )}
+      </View>
+
+      <HighlightedText snippet={developer.snippet} numberOfLines={3} />
+
+      {languages.length > 0 && (
+        <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}>
+          {languages.map((language) => (
+            <View key={language} style={{
+              backgroundColor: '#f1f5f9',
+              paddingHorizontal: 10,
+              paddingVertical: 4,
+              borderRadius: 12,
+              borderWidth: 1,
+              borderColor: '#e2e8f0'
+            }}>
+              <Text style={{ fontSize: 12, color: '#475569', fontWeight: '500' }}>
+                {language}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {footer}
+    </Pressable>
+  )
+}
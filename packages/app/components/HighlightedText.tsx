@@ -0,0 +1,31 @@
+'use client'
+
+import React from 'react'
+import { Text, TextStyle } from 'react-native'
+import { parseHighlightedSnippet } from '../utils/search'
+
+interface HighlightedTextProps {
+  snippet: string | null | undefined
+  style?: TextStyle
+  numberOfLines?: number
+}
+
+// Renders a search snippet with the matched terms emphasized
+export function HighlightedText({ snippet, style, numberOfLines }: HighlightedTextProps) {
+  const segments = parseHighlightedSnippet(snippet)
+  if (segments.length === 0) return null
+
+  return (
+    <Text style={[{ fontSize: 14, color: '#475569', lineHeight: 20 }, style]} numberOfLines={numberOfLines}>
+      {segments.map((segment, index) => (
+        segment.highlighted ? (
+          <Text key={index} style={{ fontWeight: '700', color: '#0f172a', backgroundColor: '#fef9c3' }}>
+            {segment.text}
+          </Text>
+        ) : (
+          <Text key={index}>{segment.text}</Text>
+        )
+      ))}
+    </Text>
+  )
+}
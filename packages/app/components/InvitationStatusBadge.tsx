@@ -0,0 +1,32 @@
+'use client'
+
+import React from 'react'
+import { View, Text } from 'react-native'
+import { INVITATION_STATUS_OPTIONS } from '../utils/constants'
+import type { InvitationStatus } from '../utils/invitations'
+
+const STATUS_COLORS: Record<InvitationStatus, { background: string; text: string }> = {
+  pending: { background: '#fef9c3', text: '#854d0e' },
+  accepted: { background: '#dcfce7', text: '#166534' },
+  declined: { background: '#fee2e2', text: '#991b1b' },
+  cancelled: { background: '#f1f5f9', text: '#475569' }
+}
+
+export function InvitationStatusBadge({ status }: { status: InvitationStatus }) {
+  const option = INVITATION_STATUS_OPTIONS.find(item => item.value === status)
+  const colors = STATUS_COLORS[status]
+
+  return (
+    <View style={{
+      backgroundColor: colors.background,
+      paddingHorizontal: 8,
+      paddingVertical: 4,
+      borderRadius: 6,
+      alignSelf: 'flex-start'
+    }}>
+      <Text style={{ fontSize: 12, fontWeight: '600', color: colors.text }}>
+        {option ? `${option.icon} ${option.label}` : status}
+      </Text>
+    </View>
+  )
+}
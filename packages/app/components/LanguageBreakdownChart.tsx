@@ -0,0 +1,67 @@
+'use client'
+
+import React from 'react'
+import { View, Text } from 'react-native'
+import type { GitHubLanguageShare } from '../utils/githubStats'
+
+interface LanguageBreakdownChartProps {
+  languages: GitHubLanguageShare[]
+  // Languages beyond this are grouped into "Other"
+  maxLanguages?: number
+}
+
+const CHART_COLORS = ['#667eea', '#10b981', '#f59e0b', '#ef4444', '#06b6d4', '#8b5cf6', '#ec4899', '#84cc16']
+const OTHER_COLOR = '#cbd5e1'
+
+export function LanguageBreakdownChart({ languages, maxLanguages = 6 }: LanguageBreakdownChartProps) {
+  if (languages.length === 0) return null
+
+  const shown = languages.slice(0, maxLanguages)
+  const otherPercentage = Math.round(
+    languages.slice(maxLanguages).reduce((sum, share) => sum + share.percentage, 0) * 10
+  ) / 10
+
+  const segments = [
+    ...shown.map((share, index) => ({
+      label: share.language,
+      percentage: share.percentage,
+      color: CHART_COLORS[index % CHART_COLORS.length] ?? OTHER_COLOR
+    })),
+    ...(otherPercentage > 0 ? [{ label: 'Other', percentage: otherPercentage, color: OTHER_COLOR }] : [])
+  ]
+
+  return (
+    <View style={{ gap: 12 }}>
+      {/* Stacked bar */}
+      <View style={{
+        flexDirection: 'row',
+        height: 10,
+        borderRadius: 5,
+        overflow: 'hidden',
+        backgroundColor: '#f1f5f9'
+      }}>
+        {segments.map(segment => (
+          <View
+            key={segment.label}
+            style={{ flex: segment.percentage, backgroundColor: segment.color }}
+          />
+        ))}
+      </View>
+
+      {/* Legend */}
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 12 }}>
+        {segments.map(segment => (
+          <View key={segment.label} style={{ flexDirection: 'row', alignItems: 'center', gap: 6 }}>
+            <View style={{ width: 10, height: 10, borderRadius: 5, backgroundColor: segment.color }} />
+            <Text style={{ fontSize: 13, color: '#374151', fontWeight: '500' }}>
+              {segment.label}
+            </Text>
+            <Text style={{ fontSize: 13, color: '#64748b' }}>
+              {segment.percentage}%
+            </Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  )
+}
@@ -0,0 +1,47 @@
+'use client'
+
+import React, { useState } from 'react'
+import { View, Text, Pressable } from 'react-native'
+
+interface PaginationProps {
+  page: number
+  pageSize: number
+  totalCount: number
+  onPageChange: (page: number) => void
+}
+
+export function Pagination({ page, pageSize, totalCount, onPageChange }: PaginationProps) {
+  const [hoveredButton, setHoveredButton] = useState<string | null>(null)
+  const totalPages = Math.max(1, Math.ceil(totalCount / pageSize))
+
+  if (totalCount <= pageSize) return null
+
+  const renderPageButton = (id: string, label: string, targetPage: number, isDisabled: boolean) => (
+    <Pressable
+      onPress={() => onPageChange(targetPage)}
+      disabled={isDisabled}
+      onHoverIn={() => setHoveredButton(id)}
+      onHoverOut={() => setHoveredButton(null)}
+      style={{
+        backgroundColor: isDisabled ? '#f1f5f9' : (hoveredButton === id ? '#5b6cf0' : '#667eea'),
+        borderRadius: 8,
+        paddingHorizontal: 16,
+        paddingVertical: 10
+      }}
+    >
+      <Text style={{ fontSize: 14, fontWeight: '600', color: isDisabled ? '#94a3b8' : '#ffffff' }}>
+        {label}
+      </Text>
+    </Pressable>
+  )
+
+  return (
+    <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' }}>
+      {renderPageButton('prev-page', '← Previous', page - 1, page <= 1)}
+      <Text style={{ fontSize: 14, color: '#64748b' }}>
+        Page {page} of {totalPages}
+      </Text>
+      {renderPageButton('next-page', 'Next →', page + 1, page >= totalPages)}
+    </View>
+  )
+}
@@ -0,0 +1,153 @@
+'use client'
+
+import React, { useState } from 'react'
+import { View, Text, Pressable, Linking } from 'react-native'
+import { PROJECT_STATUS_OPTIONS, TIME_COMMITMENT_OPTIONS } from '../utils/constants'
+import { getProjectTasks, Project, ProjectTask } from '../utils/projects'
+
+interface ProjectCardProps {
+  project: Project
+  onPress?: () => void
+  footer?: React.ReactNode
+}
+
+const STATUS_COLORS: Record<Project['status'], { background: string; text: string }> = {
+  open: { background: '#dcfce7', text: '#166534' },
+  in_progress: { background: '#dbeafe', text: '#1e40af' },
+  completed: { background: '#f1f5f9', text: '#475569' },
+  closed: { background: '#fee2e2', text: '#991b1b' }
+}
+
+export function ProjectCard({ project, onPress, footer }: ProjectCardProps) {
+  const status = PROJECT_STATUS_OPTIONS.find(option => option.value === project.status)
+  const commitment = TIME_COMMITMENT_OPTIONS.find(option => option.value === project.time_commitment)
+  const statusColors = STATUS_COLORS[project.status]
+  const repositoryUrl = project.repository_url
+  const [tasks, setTasks] = useState<ProjectTask[] | null>(null)
+  const [isLoadingTasks, setIsLoadingTasks] = useState(false)
+
+  // Starter tasks only exist for imported projects and are loaded on demand
+  const handleToggleTasks = async () => {
+    if (tasks) {
+      setTasks(null)
+      return
+    }
+
+    setIsLoadingTasks(true)
+    try {
+      const result = await getProjectTasks(project.id)
+      setTasks(result.tasks || [])
+    } finally {
+      setIsLoadingTasks(false)
+    }
+  }
+
+  return (
+    <Pressable
+      onPress={onPress}
+      disabled={!onPress}
+      style={{
+        backgroundColor: '#ffffff',
+        borderRadius: 16,
+        padding: 20,
+        borderWidth: 1,
+        borderColor: '#e2e8f0',
+        gap: 12
+      }}
+    >
+      <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'flex-start', gap: 12 }}>
+        <Text style={{ flex: 1, fontSize: 18, fontWeight: '700', color: '#0f172a' }}>
+          {project.title}
+        </Text>
+        <View style={{
+          backgroundColor: statusColors.background,
+          paddingHorizontal: 8,
+          paddingVertical: 4,
+          borderRadius: 6
+        }}>
+          <Text style={{ fontSize: 12, fontWeight: '600', color: statusColors.text }}>
+            {status ? `${status.icon} ${status.label}` : project.status}
+          </Text>
+        </View>
+      </View>
+
+      <Text style={{ fontSize: 14, color: '#475569', lineHeight: 20 }} numberOfLines={3}>
+        {project.description}
+      </Text>
+
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}>
+        {project.coding_languages.map((language) => (
+          <View key={language} style={{
+            backgroundColor: '#f1f5f9',
+            paddingHorizontal: 10,
+            paddingVertical: 4,
+            borderRadius: 12,
+            borderWidth: 1,
+            borderColor: '#e2e8f0'
+          }}>
+            <Text style={{ fontSize: 12, color: '#475569', fontWeight: '500' }}>
+              {language}
+            </Text>
+          </View>
+        ))}
+      </View>
+
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 16 }}>
+        <Text style={{ fontSize: 12, color: '#64748b' }}>
+          👥 Team of {project.team_size}
+        </Text>
+        <Text style={{ fontSize: 12, color: '#64748b' }}>
+          {commitment ? `${commitment.icon} ${commitment.label}` : project.time_commitment}
+        </Text>
+        <Text style={{ fontSize: 12, color: '#64748b' }}>
+          Posted {new Date(project.created_at).toLocaleDateString()}
+        </Text>
+      </View>
+
+      {project.topics.length > 0 && (
+        <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 6 }}>
+          {project.topics.map(topic => (
+            <Text key={topic} style={{ fontSize: 11, color: '#667eea', fontWeight: '500' }}>
+              #{topic}
+            </Text>
+          ))}
+        </View>
+      )}
+
+      {repositoryUrl && (
+        <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 16 }}>
+          <Pressable onPress={() => Linking.openURL(repositoryUrl)}>
+            <Text style={{ fontSize: 12, color: '#667eea', fontWeight: '600' }}>
+              View on GitHub ↗
+            </Text>
+          </Pressable>
+          <Pressable onPress={handleToggleTasks} disabled={isLoadingTasks}>
+            <Text style={{ fontSize: 12, color: '#667eea', fontWeight: '600' }}>
+              {isLoadingTasks ? 'Loading tasks...' : tasks ? 'Hide starter tasks' : '🧩 Starter tasks'}
+            </Text>
+          </Pressable>
+        </View>
+      )}
+
+      {tasks && (
+        tasks.length === 0 ? (
+          <Text style={{ fontSize: 12, color: '#94a3b8' }}>
+            No starter tasks for this project yet.
+          </Text>
+        ) : (
+          <View style={{ gap: 6 }}>
+            {tasks.map(task => (
+              <Pressable key={task.id} onPress={() => Linking.openURL(task.url)}>
+                <Text style={{ fontSize: 13, color: '#475569' }} numberOfLines={1}>
+                  #{task.github_issue_number} {task.title}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+        )
+      )}
+
+      {footer}
+    </Pressable>
+  )
+}
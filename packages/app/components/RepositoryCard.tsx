@@ -0,0 +1,89 @@
+'use client'
+
+import React, { useState } from 'react'
+import { View, Text, Pressable, Linking } from 'react-native'
+import type { GitHubRepositorySummary } from '../utils/githubStats'
+
+interface RepositoryCardProps {
+  repository: GitHubRepositorySummary
+  // Owner controls: when set, the card shows a Hide / Show toggle
+  hidden?: boolean
+  onToggleHidden?: () => void
+  isUpdating?: boolean
+}
+
+export function RepositoryCard({ repository, hidden = false, onToggleHidden, isUpdating = false }: RepositoryCardProps) {
+  const [hoveredButton, setHoveredButton] = useState<string | null>(null)
+
+  return (
+    <Pressable
+      onPress={() => Linking.openURL(repository.url)}
+      onHoverIn={() => setHoveredButton('card')}
+      onHoverOut={() => setHoveredButton(null)}
+      style={{
+        flex: 1,
+        minWidth: 240,
+        backgroundColor: '#ffffff',
+        borderRadius: 12,
+        padding: 16,
+        borderWidth: 1,
+        borderColor: hoveredButton === 'card' ? '#667eea' : '#e2e8f0',
+        opacity: hidden ? 0.5 : 1,
+        gap: 8
+      }}
+    >
+      <View style={{ flexDirection: 'row', alignItems: 'center', gap: 8 }}>
+        <Text style={{ flex: 1, fontSize: 15, fontWeight: '700', color: '#667eea' }} numberOfLines={1}>
+          {repository.name}
+        </Text>
+        {repository.pinned && (
+          <Text style={{ fontSize: 11, fontWeight: '600', color: '#64748b' }}>
+            📌 Pinned
+          </Text>
+        )}
+      </View>
+
+      <Text style={{ fontSize: 13, color: '#475569', lineHeight: 18 }} numberOfLines={2}>
+        {repository.description || 'No description'}
+      </Text>
+
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', alignItems: 'center', gap: 12 }}>
+        {repository.primaryLanguage && (
+          <Text style={{ fontSize: 12, color: '#374151', fontWeight: '500' }}>
+            {repository.primaryLanguage}
+          </Text>
+        )}
+        <Text style={{ fontSize: 12, color: '#64748b' }}>
+          ⭐ {repository.stars}
+        </Text>
+        {repository.pushedAt && (
+          <Text style={{ fontSize: 12, color: '#94a3b8' }}>
+            Updated {new Date(repository.pushedAt).toLocaleDateString()}
+          </Text>
+        )}
+      </View>
+
+      {onToggleHidden && (
+        <Pressable
+          onPress={onToggleHidden}
+          disabled={isUpdating}
+          onHoverIn={() => setHoveredButton('toggle')}
+          onHoverOut={() => setHoveredButton('card')}
+          style={{
+            alignSelf: 'flex-start',
+            backgroundColor: hoveredButton === 'toggle' ? '#f1f5f9' : '#f8fafc',
+            borderWidth: 1,
+            borderColor: '#e2e8f0',
+            borderRadius: 8,
+            paddingHorizontal: 10,
+            paddingVertical: 4
+          }}
+        >
+          <Text style={{ fontSize: 12, fontWeight: '600', color: '#64748b' }}>
+            {isUpdating ? 'Saving...' : hidden ? '👁 Show on profile' : '🙈 Hide from profile'}
+          </Text>
+        </Pressable>
+      )}
+    </Pressable>
+  )
+}
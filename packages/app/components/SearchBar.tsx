@@ -0,0 +1,48 @@
+'use client'
+
+import React from 'react'
+import { View, TextInput, Pressable, Text, ActivityIndicator } from 'react-native'
+import { SEARCH_QUERY_MAX_LENGTH } from '../utils/constants'
+
+interface SearchBarProps {
+  value: string
+  onChangeText: (value: string) => void
+  onClear?: () => void
+  placeholder?: string
+  isSearching?: boolean
+}
+
+export function SearchBar({ value, onChangeText, onClear, placeholder = 'Search...', isSearching = false }: SearchBarProps) {
+  return (
+    <View style={{
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      backgroundColor: '#ffffff',
+      borderWidth: 2,
+      borderColor: '#e2e8f0',
+      borderRadius: 12,
+      paddingHorizontal: 16
+    }}>
+      <Text style={{ fontSize: 16 }}>🔍</Text>
+      <TextInput
+        style={{ flex: 1, paddingVertical: 14, fontSize: 16, color: '#0f172a' }}
+        placeholder={placeholder}
+        value={value}
+        onChangeText={onChangeText}
+        maxLength={SEARCH_QUERY_MAX_LENGTH}
+        autoCapitalize="none"
+        autoCorrect={false}
+        returnKeyType="search"
+      />
+      {isSearching && <ActivityIndicator size="small" color="#667eea" />}
+      {value.length > 0 && onClear && (
+        <Pressable onPress={onClear} style={{ paddingVertical: 6 }}>
+          <Text style={{ fontSize: 13, fontWeight: '600', color: '#64748b' }}>
+            Clear
+          </Text>
+        </Pressable>
+      )}
+    </View>
+  )
+}
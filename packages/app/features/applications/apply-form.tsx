@@ -0,0 +1,188 @@
+'use client'
+
+import React, { useState } from 'react'
+import { View, Text, Pressable, TextInput, Alert } from 'react-native'
+import { getCharacterCountInfo, inputValidator, ValidationSchemas, validateApplication } from '../../utils/validation'
+import { applyToProject, Application } from '../../utils/applications'
+import { APPLICATION_LINKS_MAX } from '../../utils/constants'
+
+interface ApplyToProjectFormProps {
+  userId: string
+  projectId: string
+  projectTitle: string
+  onApplied?: (application: Application) => void
+  onCancel?: () => void
+}
+
+export function ApplyToProjectForm({ userId, projectId, projectTitle, onApplied, onCancel }: ApplyToProjectFormProps) {
+  const [pitch, setPitch] = useState('')
+  const [links, setLinks] = useState<string[]>([''])
+  const [validationErrors, setValidationErrors] = useState<Record<string, string>>({})
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [hoveredButton, setHoveredButton] = useState<string | null>(null)
+
+  const filledLinks = links.map(link => link.trim()).filter(link => link.length > 0)
+  const formData = { pitch, links: filledLinks }
+  const isFormValid = validateApplication(formData).isValid
+  const pitchCount = getCharacterCountInfo(pitch, 1000)
+
+  const validateField = (fieldName: 'pitch' | 'links', value: any) => {
+    const result = inputValidator.validateField(value, fieldName, ValidationSchemas.APPLICATION[fieldName])
+    setValidationErrors(prev => ({
+      ...prev,
+      [fieldName]: result.isValid ? '' : result.errors[0] || ''
+    }))
+  }
+
+  const handlePitchChange = (text: string) => {
+    setPitch(text)
+    validateField('pitch', text)
+  }
+
+  const handleLinkChange = (index: number, text: string) => {
+    const newLinks = links.map((link, i) => (i === index ? text : link))
+    setLinks(newLinks)
+    validateField('links', newLinks.map(link => link.trim()).filter(link => link.length > 0))
+  }
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true)
+    try {
+      const result = await applyToProject(userId, projectId, formData)
+
+      if (!result.success || !result.application) {
+        Alert.alert(
+          'Application Not Sent',
+          result.validationErrors?.join('\n\n') || result.error || 'Failed to submit application',
+          [{ text: 'OK', style: 'default' }]
+        )
+        return
+      }
+
+      Alert.alert('Application Sent! 📨', `The owner of "${projectTitle}" will review your application.`)
+      onApplied?.(result.application)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <View style={{
+      backgroundColor: '#f8fafc',
+      borderRadius: 12,
+      padding: 16,
+      borderWidth: 1,
+      borderColor: '#e2e8f0',
+      gap: 16
+    }}>
+      <View style={{ gap: 8 }}>
+        <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' }}>
+          <Text style={{ fontSize: 14, fontWeight: '600', color: '#374151' }}>
+            Your pitch *
+          </Text>
+          <Text style={{ fontSize: 12, color: pitchCount.color }}>
+            {pitchCount.current}/{pitchCount.max}
+          </Text>
+        </View>
+        <TextInput
+          style={{
+            borderWidth: 2,
+            borderColor: validationErrors.pitch ? '#ef4444' : '#e2e8f0',
+            borderRadius: 12,
+            paddingHorizontal: 16,
+            paddingVertical: 12,
+            fontSize: 14,
+            backgroundColor: '#ffffff',
+            minHeight: 100,
+            textAlignVertical: 'top'
+          }}
+          placeholder="Why are you a good fit, and what would you like to work on?"
+          value={pitch}
+          onChangeText={handlePitchChange}
+          multiline
+          maxLength={1000}
+        />
+        {validationErrors.pitch ? (
+          <Text style={{ fontSize: 12, color: '#ef4444', fontWeight: '500' }}>
+            {validationErrors.pitch}
+          </Text>
+        ) : null}
+      </View>
+
+      <View style={{ gap: 8 }}>
+        <Text style={{ fontSize: 14, fontWeight: '600', color: '#374151' }}>
+          Links (optional, up to {APPLICATION_LINKS_MAX})
+        </Text>
+        {links.map((link, index) => (
+          <TextInput
+            key={index}
+            style={{
+              borderWidth: 2,
+              borderColor: '#e2e8f0',
+              borderRadius: 12,
+              paddingHorizontal: 16,
+              paddingVertical: 10,
+              fontSize: 14,
+              backgroundColor: '#ffffff'
+            }}
+            placeholder="https://github.com/you/your-best-repo"
+            value={link}
+            onChangeText={(text) => handleLinkChange(index, text)}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType="url"
+          />
+        ))}
+        {links.length < APPLICATION_LINKS_MAX && (
+          <Pressable onPress={() => setLinks([...links, ''])}>
+            <Text style={{ fontSize: 13, fontWeight: '600', color: '#667eea' }}>
+              + Add another link
+            </Text>
+          </Pressable>
+        )}
+        {validationErrors.links ? (
+          <Text style={{ fontSize: 12, color: '#ef4444', fontWeight: '500' }}>
+            {validationErrors.links}
+          </Text>
+        ) : null}
+      </View>
+
+      <View style={{ flexDirection: 'row', gap: 12, justifyContent: 'flex-end' }}>
+        {onCancel && (
+          <Pressable
+            onPress={onCancel}
+            style={{
+              borderRadius: 10,
+              paddingHorizontal: 16,
+              paddingVertical: 10,
+              borderWidth: 1,
+              borderColor: '#e2e8f0',
+              backgroundColor: '#ffffff'
+            }}
+          >
+            <Text style={{ fontSize: 14, fontWeight: '600', color: '#374151' }}>
+              Cancel
+            </Text>
+          </Pressable>
+        )}
+        <Pressable
+          onPress={handleSubmit}
+          disabled={!isFormValid || isSubmitting}
+          onHoverIn={() => setHoveredButton('submit-application')}
+          onHoverOut={() => setHoveredButton(null)}
+          style={{
+            backgroundColor: isFormValid && !isSubmitting ?
+              (hoveredButton === 'submit-application' ? '#5b6cf0' : '#667eea') : '#94a3b8',
+            borderRadius: 10,
+            paddingHorizontal: 16,
+            paddingVertical: 10
+          }}
+        >
+          <Text style={{ fontSize: 14, fontWeight: '700', color: '#ffffff' }}>
+            {isSubmitting ? 'Sending...' : 'Send Application'}
+          </Text>
+        </Pressable>
+      </View>
+    </View>
+  )
+}
@@ -0,0 +1,129 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { View, Text, Pressable, Alert } from 'react-native'
+import { ApplicationStatusBadge } from '../../components/ApplicationStatusBadge'
+import {
+  APPLICANT_TRANSITIONS,
+  getMyApplications,
+  MyApplication,
+  withdrawApplication
+} from '../../utils/applications'
+
+interface MyApplicationsProps {
+  userId: string
+}
+
+export function MyApplications({ userId }: MyApplicationsProps) {
+  const [applications, setApplications] = useState<MyApplication[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [withdrawingId, setWithdrawingId] = useState<string | null>(null)
+
+  const loadApplications = async () => {
+    setIsLoading(true)
+    try {
+      const result = await getMyApplications(userId)
+      if (result.success && result.applications) {
+        setApplications(result.applications)
+      } else {
+        console.log('Could not load applications:', result.error)
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadApplications()
+  }, [userId])
+
+  const handleWithdraw = (application: MyApplication) => {
+    Alert.alert(
+      'Withdraw Application',
+      `Withdraw your application to "${application.project?.title || 'this project'}"? You won't be able to apply again.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Withdraw',
+          style: 'destructive',
+          onPress: async () => {
+            setWithdrawingId(application.id)
+            try {
+              const result = await withdrawApplication(userId, application)
+              if (result.success && result.application) {
+                const updated = result.application
+                setApplications(prev => prev.map(item =>
+                  item.id === updated.id ? { ...item, status: updated.status, updated_at: updated.updated_at } : item
+                ))
+              } else {
+                Alert.alert('Error', result.error || 'Failed to withdraw application')
+                loadApplications()
+              }
+            } finally {
+              setWithdrawingId(null)
+            }
+          }
+        }
+      ]
+    )
+  }
+
+  if (!isLoading && applications.length === 0) return null
+
+  return (
+    <View style={{
+      backgroundColor: '#ffffff',
+      borderRadius: 16,
+      padding: 24,
+      borderWidth: 1,
+      borderColor: '#e2e8f0',
+      gap: 16
+    }}>
+      <Text style={{ fontSize: 18, fontWeight: '700', color: '#0f172a' }}>
+        📨 My Applications
+      </Text>
+
+      {isLoading ? (
+        <Text style={{ fontSize: 14, color: '#64748b' }}>
+          Loading applications...
+        </Text>
+      ) : (
+        applications.map(application => (
+          <View
+            key={application.id}
+            style={{
+              flexDirection: 'row',
+              alignItems: 'center',
+              justifyContent: 'space-between',
+              gap: 12,
+              paddingVertical: 8,
+              borderBottomWidth: 1,
+              borderBottomColor: '#f1f5f9'
+            }}
+          >
+            <View style={{ flex: 1, gap: 4 }}>
+              <Text style={{ fontSize: 15, fontWeight: '600', color: '#0f172a' }}>
+                {application.project?.title || 'Deleted project'}
+              </Text>
+              <Text style={{ fontSize: 12, color: '#64748b' }}>
+                Applied {new Date(application.created_at).toLocaleDateString()}
+              </Text>
+            </View>
+            <ApplicationStatusBadge status={application.status} />
+            {APPLICANT_TRANSITIONS[application.status].includes('withdrawn') && (
+              <Pressable
+                onPress={() => handleWithdraw(application)}
+                disabled={withdrawingId === application.id}
+                style={{ paddingHorizontal: 8, paddingVertical: 6, opacity: withdrawingId === application.id ? 0.5 : 1 }}
+              >
+                <Text style={{ fontSize: 13, fontWeight: '600', color: '#991b1b' }}>
+                  Withdraw
+                </Text>
+              </Pressable>
+            )}
+          </View>
+        ))
+      )}
+    </View>
+  )
+}
@@ -0,0 +1,249 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { View, Text, Pressable, Alert } from 'react-native'
+import { Avatar } from '../../components/Avatar'
+import { ApplicationStatusBadge } from '../../components/ApplicationStatusBadge'
+import {
+  ApplicationAuditEntry,
+  ApplicationStatus,
+  getApplicationHistory,
+  getReviewQueue,
+  OWNER_TRANSITIONS,
+  ReviewQueueItem,
+  updateApplicationStatus
+} from '../../utils/applications'
+
+interface ReviewQueueProps {
+  userId: string
+}
+
+const ACTION_LABELS: Partial<Record<ApplicationStatus, { label: string; color: string }>> = {
+  shortlisted: { label: '⭐ Shortlist', color: '#1e40af' },
+  accepted: { label: '✅ Accept', color: '#166534' },
+  rejected: { label: 'Reject', color: '#991b1b' }
+}
+
+export function ReviewQueue({ userId }: ReviewQueueProps) {
+  const [applications, setApplications] = useState<ReviewQueueItem[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+  const [showClosed, setShowClosed] = useState(false)
+  const [expandedHistoryId, setExpandedHistoryId] = useState<string | null>(null)
+  const [history, setHistory] = useState<Record<string, ApplicationAuditEntry[]>>({})
+
+  const loadQueue = async () => {
+    setIsLoading(true)
+    try {
+      const result = await getReviewQueue(userId)
+      if (result.success && result.applications) {
+        setApplications(result.applications)
+      } else {
+        console.log('Could not load review queue:', result.error)
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadQueue()
+  }, [userId])
+
+  const performTransition = async (application: ReviewQueueItem, nextStatus: ApplicationStatus) => {
+    setUpdatingId(application.id)
+    try {
+      const result = await updateApplicationStatus(userId, application, nextStatus, 'owner')
+      if (!result.success || !result.application) {
+        Alert.alert('Update Failed', result.error || 'Failed to update application')
+        loadQueue()
+        return
+      }
+
+      const updated = result.application
+      setApplications(prev => prev.map(item =>
+        item.id === updated.id ? { ...item, status: updated.status, updated_at: updated.updated_at } : item
+      ))
+      // Drop cached history so it is refetched with the new transition
+      setHistory(prev => {
+        const { [updated.id]: _removed, ...rest } = prev
+        return rest
+      })
+      if (expandedHistoryId === updated.id) {
+        setExpandedHistoryId(null)
+      }
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  const handleTransition = (application: ReviewQueueItem, nextStatus: ApplicationStatus) => {
+    if (nextStatus === 'shortlisted') {
+      performTransition(application, nextStatus)
+      return
+    }
+
+    const applicant = application.applicant_full_name || application.applicant_username || 'this developer'
+    Alert.alert(
+      nextStatus === 'accepted' ? 'Accept Application' : 'Reject Application',
+      `${nextStatus === 'accepted' ? 'Accept' : 'Reject'} ${applicant}'s application to "${application.project_title}"? This cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: nextStatus === 'accepted' ? 'Accept' : 'Reject',
+          style: nextStatus === 'rejected' ? 'destructive' : 'default',
+          onPress: () => performTransition(application, nextStatus)
+        }
+      ]
+    )
+  }
+
+  const toggleHistory = async (applicationId: string) => {
+    if (expandedHistoryId === applicationId) {
+      setExpandedHistoryId(null)
+      return
+    }
+
+    setExpandedHistoryId(applicationId)
+    if (!history[applicationId]) {
+      const result = await getApplicationHistory(applicationId)
+      if (result.success && result.history) {
+        setHistory(prev => ({ ...prev, [applicationId]: result.history! }))
+      }
+    }
+  }
+
+  const activeApplications = applications.filter(item => OWNER_TRANSITIONS[item.status].length > 0)
+  const closedApplications = applications.filter(item => OWNER_TRANSITIONS[item.status].length === 0)
+  const visibleApplications = showClosed ? applications : activeApplications
+
+  return (
+    <View style={{
+      backgroundColor: '#ffffff',
+      borderRadius: 16,
+      padding: 24,
+      borderWidth: 1,
+      borderColor: '#e2e8f0',
+      gap: 16
+    }}>
+      <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' }}>
+        <Text style={{ fontSize: 18, fontWeight: '700', color: '#0f172a' }}>
+          📥 Review Queue {activeApplications.length > 0 ? `(${activeApplications.length})` : ''}
+        </Text>
+        {closedApplications.length > 0 && (
+          <Pressable onPress={() => setShowClosed(!showClosed)}>
+            <Text style={{ fontSize: 13, fontWeight: '600', color: '#667eea' }}>
+              {showClosed ? 'Hide decided' : `Show decided (${closedApplications.length})`}
+            </Text>
+          </Pressable>
+        )}
+      </View>
+
+      {isLoading ? (
+        <Text style={{ fontSize: 14, color: '#64748b' }}>
+          Loading applications...
+        </Text>
+      ) : visibleApplications.length === 0 ? (
+        <Text style={{ fontSize: 14, color: '#64748b' }}>
+          No applications waiting for review.
+        </Text>
+      ) : (
+        visibleApplications.map(application => (
+          <View
+            key={application.id}
+            style={{
+              borderWidth: 1,
+              borderColor: '#e2e8f0',
+              borderRadius: 12,
+              padding: 16,
+              gap: 12
+            }}
+          >
+            <View style={{ flexDirection: 'row', alignItems: 'center', gap: 12 }}>
+              <Avatar
+                src={application.applicant_avatar_url}
+                name={application.applicant_full_name || undefined}
+                username={application.applicant_username || undefined}
+                size={40}
+              />
+              <View style={{ flex: 1 }}>
+                <Text style={{ fontSize: 15, fontWeight: '600', color: '#0f172a' }}>
+                  {application.applicant_full_name || application.applicant_username || 'Developer'}
+                  {application.applicant_username ? (
+                    <Text style={{ fontWeight: '400', color: '#64748b' }}> @{application.applicant_username}</Text>
+                  ) : null}
+                </Text>
+                <Text style={{ fontSize: 12, color: '#64748b' }}>
+                  Applied to {application.project_title} · {new Date(application.created_at).toLocaleDateString()}
+                </Text>
+              </View>
+              <ApplicationStatusBadge status={application.status} />
+            </View>
+
+            <Text style={{ fontSize: 14, color: '#374151', lineHeight: 20 }}>
+              {application.pitch}
+            </Text>
+
+            {application.links.length > 0 && (
+              <View style={{ gap: 4 }}>
+                {application.links.map(link => (
+                  <Text key={link} style={{ fontSize: 13, color: '#667eea' }}>
+                    🔗 {link}
+                  </Text>
+                ))}
+              </View>
+            )}
+
+            {(application.applicant_coding_languages || []).length > 0 && (
+              <Text style={{ fontSize: 12, color: '#64748b' }}>
+                Languages: {(application.applicant_coding_languages || []).join(', ')}
+              </Text>
+            )}
+
+            <View style={{ flexDirection: 'row', flexWrap: 'wrap', alignItems: 'center', gap: 8 }}>
+              {OWNER_TRANSITIONS[application.status].map(nextStatus => {
+                const action = ACTION_LABELS[nextStatus]
+                if (!action) return null
+                return (
+                  <Pressable
+                    key={nextStatus}
+                    onPress={() => handleTransition(application, nextStatus)}
+                    disabled={updatingId === application.id}
+                    style={{
+                      borderWidth: 1,
+                      borderColor: '#e2e8f0',
+                      borderRadius: 8,
+                      paddingHorizontal: 12,
+                      paddingVertical: 8,
+                      backgroundColor: '#ffffff',
+                      opacity: updatingId === application.id ? 0.5 : 1
+                    }}
+                  >
+                    <Text style={{ fontSize: 13, fontWeight: '600', color: action.color }}>
+                      {action.label}
+                    </Text>
+                  </Pressable>
+                )
+              })}
+              <Pressable onPress={() => toggleHistory(application.id)} style={{ paddingHorizontal: 8, paddingVertical: 8 }}>
+                <Text style={{ fontSize: 13, fontWeight: '500', color: '#64748b' }}>
+                  {expandedHistoryId === application.id ? 'Hide history' : 'History'}
+                </Text>
+              </Pressable>
+            </View>
+
+            {expandedHistoryId === application.id && (
+              <View style={{ gap: 4, paddingLeft: 8, borderLeftWidth: 2, borderLeftColor: '#e2e8f0' }}>
+                {(history[application.id] || []).map(entry => (
+                  <Text key={entry.id} style={{ fontSize: 12, color: '#64748b' }}>
+                    {new Date(entry.created_at).toLocaleString()} · {entry.from_status ? `${entry.from_status} → ` : 'submitted as '}{entry.to_status}
+                  </Text>
+                ))}
+              </View>
+            )}
+          </View>
+        ))
+      )}
+    </View>
+  )
+}
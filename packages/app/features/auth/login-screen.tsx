@@ -1,17 +1,30 @@
 'use client'
 
-import React, { useState } from 'react'
-import { View, Text, Pressable, Alert, ScrollView } from 'react-native'
+import React, { useEffect, useState } from 'react'
+import { View, Text, Pressable, Alert, ScrollView, Platform, TextInput } from 'react-native'
 import { useAuth } from '../../provider/auth'
+import { useAppRouter } from '../../hooks/useAppRouter'
+import { getPostSignInPath } from '../../provider/route-guard'
 import { TextLink } from 'solito/link'
 import '../../lib/supabase-debug'
 import '../../lib/supabase-test'
 import '../../lib/auth-diagnostics'
 
 export function LoginScreen() {
-  const { signInWithGitHub, loading } = useAuth()
+  const { signInWithGitHub, signInWithGitLab, signInWithMagicLink, loading, user, profile, profileLoading } = useAuth()
+  const router = useAppRouter()
   const [hoveredButton, setHoveredButton] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const [email, setEmail] = useState('')
+  const [isSendingLink, setIsSendingLink] = useState(false)
+  const [magicLinkSentTo, setMagicLinkSentTo] = useState<string | null>(null)
+
+  // Native sign-in completes in place (web goes through /auth/callback instead)
+  useEffect(() => {
+    if (Platform.OS !== 'web' && user && !profileLoading) {
+      router.replace(getPostSignInPath(profile))
+    }
+  }, [user, profileLoading])
 
   const handleGitHubLogin = async () => {
     try {
@@ -26,6 +39,39 @@ export function LoginScreen() {
     }
   }
 
+  const handleGitLabLogin = async () => {
+    try {
+      setError(null)
+      console.log('🚀 Starting GitLab login...')
+      await signInWithGitLab()
+    } catch (error) {
+      console.error('❌ Login error:', error)
+      setError(`Failed to sign in with GitLab: ${error.message}`)
+      Alert.alert('Error', `Failed to sign in with GitLab: ${error.message}`)
+    }
+  }
+
+  const handleMagicLink = async () => {
+    const trimmedEmail = email.trim()
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmedEmail)) {
+      setError('Please enter a valid email address')
+      return
+    }
+
+    try {
+      setError(null)
+      setIsSendingLink(true)
+      await signInWithMagicLink(trimmedEmail)
+      setMagicLinkSentTo(trimmedEmail)
+    } catch (error) {
+      console.error('❌ Magic link error:', error)
+      setError(`Failed to send sign-in link: ${error.message}`)
+      Alert.alert('Error', `Failed to send sign-in link: ${error.message}`)
+    } finally {
+      setIsSendingLink(false)
+    }
+  }
+
   return (
     <ScrollView style={{ flex: 1, backgroundColor: '#fafbfc' }}>
       {/* Navigation Header */}
@@ -203,6 +249,111 @@ export function LoginScreen() {
             </Text>
           </Pressable>
 
+          {/* GitLab Login Button */}
+          <Pressable
+            onPress={handleGitLabLogin}
+            disabled={loading}
+            onHoverIn={() => setHoveredButton('gitlab')}
+            onHoverOut={() => setHoveredButton(null)}
+            style={{
+              flexDirection: 'row',
+              alignItems: 'center',
+              justifyContent: 'center',
+              marginTop: 12,
+              backgroundColor: hoveredButton === 'gitlab' ? '#e24329' : '#fc6d26',
+              paddingHorizontal: 32,
+              paddingVertical: 16,
+              borderRadius: 14,
+              gap: 12,
+              opacity: loading ? 0.7 : 1,
+              // @ts-ignore - React Native Web transitions
+              transition: 'all 0.3s cubic-bezier(0.4, 0, 0.2, 1)',
+              transform: [{ scale: hoveredButton === 'gitlab' ? 1.02 : 1 }]
+            }}
+          >
+            <Text style={{ fontSize: 16 }}>🦊</Text>
+            <Text style={{
+              color: '#ffffff',
+              fontSize: 16,
+              fontWeight: '700',
+              letterSpacing: 0.3
+            }}>
+              Continue with GitLab
+            </Text>
+          </Pressable>
+
+          {/* Divider */}
+          <View style={{ flexDirection: 'row', alignItems: 'center', gap: 12, marginVertical: 24 }}>
+            <View style={{ flex: 1, height: 1, backgroundColor: '#e2e8f0' }} />
+            <Text style={{ fontSize: 13, color: '#94a3b8', fontWeight: '500' }}>or use your email</Text>
+            <View style={{ flex: 1, height: 1, backgroundColor: '#e2e8f0' }} />
+          </View>
+
+          {/* Email Magic Link */}
+          {magicLinkSentTo ? (
+            <View style={{
+              padding: 16,
+              backgroundColor: '#f0f4ff',
+              borderRadius: 12,
+              borderWidth: 1,
+              borderColor: '#c7d2fe',
+              gap: 8
+            }}>
+              <Text style={{ fontSize: 15, fontWeight: '700', color: '#374151', textAlign: 'center' }}>
+                ✉️ Check your inbox
+              </Text>
+              <Text style={{ fontSize: 14, color: '#64748b', textAlign: 'center', lineHeight: 20 }}>
+                We sent a sign-in link to {magicLinkSentTo}. Open it on this device to continue.
+              </Text>
+              <Pressable onPress={() => setMagicLinkSentTo(null)} style={{ alignSelf: 'center' }}>
+                <Text style={{ fontSize: 13, color: '#667eea', fontWeight: '600' }}>
+                  Use a different email
+                </Text>
+              </Pressable>
+            </View>
+          ) : (
+            <View style={{ gap: 12 }}>
+              <TextInput
+                value={email}
+                onChangeText={setEmail}
+                placeholder="you@company.com"
+                placeholderTextColor="#94a3b8"
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="email-address"
+                textContentType="emailAddress"
+                onSubmitEditing={handleMagicLink}
+                style={{
+                  borderWidth: 1,
+                  borderColor: '#e2e8f0',
+                  borderRadius: 14,
+                  paddingHorizontal: 16,
+                  paddingVertical: 14,
+                  fontSize: 16,
+                  color: '#0f172a',
+                  backgroundColor: '#f8fafc'
+                }}
+              />
+              <Pressable
+                onPress={handleMagicLink}
+                disabled={isSendingLink}
+                onHoverIn={() => setHoveredButton('email')}
+                onHoverOut={() => setHoveredButton(null)}
+                style={{
+                  alignItems: 'center',
+                  backgroundColor: hoveredButton === 'email' ? '#5b6cf0' : '#667eea',
+                  paddingVertical: 14,
+                  borderRadius: 14,
+                  opacity: isSendingLink ? 0.7 : 1
+                }}
+              >
+                <Text style={{ color: '#ffffff', fontSize: 16, fontWeight: '700' }}>
+                  {isSendingLink ? 'Sending link...' : 'Email me a sign-in link'}
+                </Text>
+              </Pressable>
+            </View>
+          )}
+
           {/* Error Display */}
           {error && (
             <View style={{
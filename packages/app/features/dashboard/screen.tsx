@@ -7,6 +7,7 @@ import { TextLink } from 'solito/link'
 import { useAppRouter } from '../../hooks/useAppRouter'
 import { supabase } from '../../lib/supabase'
 import { Avatar } from '../../components/Avatar'
+import { ConnectedAccounts } from '../../components/ConnectedAccounts'
 import { usePrivacyControls, PrivacySettings } from '../../utils/privacyControls'
 import { 
   logInfo, 
@@ -24,22 +25,40 @@ import {
 } from '../../utils/securityTools'
 import { 
   getCachedGitHubStats,
-  GitHubStats 
+  getCachedGitHubRepositories,
+  setGitHubRepositoryHidden,
+  GitHubStats,
+  GitHubRepositorySummary
 } from '../../utils/githubStats'
 import {
-  validateFullName,
-  validateUsername,
-  validateAge,
-  validateAboutMe,
-  validateEducationStatus,
-  validateCodingLanguages,
-  formatFullName,
   formatUsername,
   getCharacterCountInfo,
-  getFieldValidationState
-} from '../../utils/profileValidation'
-
-type TabType = 'profile' | 'settings' | 'my-projects' | 'create-project' | 'browse-projects' | 'help'
+  ProfileField,
+  ValidationSchemas,
+  validateProfile,
+  validateProfileField
+} from '../../utils/validation'
+import { CODING_LANGUAGES, EDUCATION_OPTIONS, GITHUB_SHOWCASE_REPO_LIMIT } from '../../utils/constants'
+import { USERNAME_AVAILABILITY_RULES } from '../../utils/profiles'
+import { useAsyncFieldChecks, IDLE_FIELD_CHECK } from '../../hooks/useAsyncFieldChecks'
+import { getOwnedProjects, Project } from '../../utils/projects'
+import { CreateProjectForm } from '../projects/create-project-form'
+import { ProjectBrowser } from '../projects/project-browser'
+import { DeveloperDirectory } from '../developers/developer-directory'
+import { ReviewQueue } from '../applications/review-queue'
+import { MyApplications } from '../applications/my-applications'
+import { InviteDeveloperForm } from '../invitations/invite-form'
+import { ReceivedInvitations } from '../invitations/received-invitations'
+import { SentInvitations } from '../invitations/sent-invitations'
+import { MessagesInbox } from '../messages/inbox'
+import { useConversations } from '../../hooks/useMessages'
+import { startConversation } from '../../utils/messaging'
+import type { DeveloperSearchResult } from '../../utils/search'
+import { ProjectCard } from '../../components/ProjectCard'
+import { RepositoryCard } from '../../components/RepositoryCard'
+import { ContributionHeatmap } from '../../components/ContributionHeatmap'
+
+type TabType = 'profile' | 'settings' | 'my-projects' | 'create-project' | 'browse-projects' | 'developers' | 'messages' | 'help'
 
 interface SidebarItem {
   id: TabType
@@ -52,38 +71,35 @@ const SIDEBAR_ITEMS: SidebarItem[] = [
   { id: 'browse-projects', label: 'Browse Projects', icon: '🔍', description: 'Find projects to work on' },
   { id: 'my-projects', label: 'My Projects', icon: '📁', description: 'Manage your projects' },
   { id: 'create-project', label: 'Create Project', icon: '➕', description: 'Post a new project' },
+  { id: 'developers', label: 'Developers', icon: '👥', description: 'Find developers to team up with' },
+  { id: 'messages', label: 'Messages', icon: '💬', description: 'Direct messages with other developers' },
   { id: 'profile', label: 'Profile', icon: '👤', description: 'View and edit your profile' },
   { id: 'settings', label: 'Settings', icon: '⚙️', description: 'Account settings' },
   { id: 'help', label: 'Help', icon: '❓', description: 'Get help and support' }
 ]
 
-const CODING_LANGUAGES = [
-  'JavaScript', 'TypeScript', 'Python', 'Java', 'C++', 'C#', 'Go', 'Rust',
-  'PHP', 'Ruby', 'Swift', 'Kotlin', 'Dart', 'HTML/CSS', 'SQL', 'R',
-  'Scala', 'Perl', 'Haskell', 'Lua', 'Assembly', 'MATLAB', 'Shell/Bash'
-]
-
-const EDUCATION_OPTIONS = [
-  { value: 'highschool', label: 'High School', icon: '🎓' },
-  { value: 'college', label: 'College/University', icon: '🏫' },
-  { value: 'professional', label: 'Working Professional', icon: '💼' },
-  { value: 'not_in_school', label: 'Self-Learning', icon: '📚' }
-]
-
 export function DashboardScreen() {
-  const { user, signOut, loading } = useAuth()
+  const { user, profile, updateProfile, signOut } = useAuth()
   const router = useAppRouter()
   const privacyControls = usePrivacyControls()
   const { getStats, exportLogs, clearLogs } = useMonitoring()
   const { runSecurityScan: scanSecurity, testXSSInput: testXSS } = useSecurityTools()
   const [hoveredButton, setHoveredButton] = useState<string | null>(null)
-  const [checkingOnboarding, setCheckingOnboarding] = useState(true)
   const [activeTab, setActiveTab] = useState<TabType>('browse-projects')
-  const [userProfile, setUserProfile] = useState<any>(null)
+  // Shared with every screen through AuthContext and kept fresh by Realtime
+  const userProfile = profile
   const [isEditingProfile, setIsEditingProfile] = useState(false)
   const [editedProfile, setEditedProfile] = useState<any>(null)
   const [isSavingProfile, setIsSavingProfile] = useState(false)
   const [isSigningOut, setIsSigningOut] = useState(false)
+  // Live availability for a changed username; the current handle is not looked up
+  const { username: usernameCheck = IDLE_FIELD_CHECK } = useAsyncFieldChecks('profile', [{
+    name: 'username',
+    value: editedProfile?.username,
+    rules: USERNAME_AVAILABILITY_RULES,
+    skip: !isEditingProfile || editedProfile?.username === userProfile?.username
+  }])
+  const isUsernameUnavailable = usernameCheck.status === 'checking' || usernameCheck.status === 'invalid'
   
   // Privacy settings state
   const [privacySettings, setPrivacySettings] = useState<PrivacySettings | null>(null)
@@ -103,178 +119,40 @@ export function DashboardScreen() {
   // GitHub statistics state
   const [githubStats, setGithubStats] = useState<GitHubStats | null>(null)
   const [isLoadingGithubStats, setIsLoadingGithubStats] = useState(false)
+  const [githubRepositories, setGithubRepositories] = useState<GitHubRepositorySummary[]>([])
+  const [hiddenRepositories, setHiddenRepositories] = useState<string[]>([])
+  const [updatingRepository, setUpdatingRepository] = useState<string | null>(null)
+  
+  // Projects state
+  const [myProjects, setMyProjects] = useState<Project[]>([])
+  const [isLoadingMyProjects, setIsLoadingMyProjects] = useState(false)
+  const [invitingProjectId, setInvitingProjectId] = useState<string | null>(null)
+  const [sentInvitationsVersion, setSentInvitationsVersion] = useState(0)
+
+  // Messaging state
+  const inbox = useConversations(user?.id)
+  const [openConversationId, setOpenConversationId] = useState<string | null>(null)
   
   // About Me is now part of the main profile editing
   
   // Validation state for real-time feedback
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({})
 
-  // Authentication guard - redirect if not authenticated
+  // RequireOnboarding (dashboard layout / native stack) guarantees a signed-in,
+  // onboarded user with a loaded profile
   useEffect(() => {
-    if (!loading && !user) {
-      logSecurityEvent({
-        type: 'authentication',
-        severity: 'medium',
-        details: { 
-          action: 'unauthorized_dashboard_access',
-          redirected: true,
-          userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : 'unknown'
-        },
-        timestamp: new Date().toISOString()
-      })
-      router.push('/')
-      return
-    }
-    
-    if (user) {
-      logInfo('Dashboard accessed successfully', {
-        userId: user.id,
-        userEmail: user.email,
-        timestamp: new Date().toISOString()
-      })
-    }
-  }, [user, loading, router])
-
-  // Check if user has completed onboarding
-  useEffect(() => {
-    const checkOnboardingStatus = async () => {
-      if (!user) {
-        setCheckingOnboarding(false)
-        return
-      }
-
-      try {
-        console.log('🔍 Checking profile for user:', user.id)
-        
-        // Use maybeSingle() instead of single() to handle case where profile doesn't exist
-        const { data: profile, error } = await supabase
-          .from('profiles')
-          .select('*')
-          .eq('id', user.id)
-          .maybeSingle()
-
-        console.log('📋 Profile query result:', { profile, error })
-
-        // If there's an error that's not "not found", log it
-        if (error) {
-          console.error('❌ Profile lookup error:', error)
-          logError({
-            message: 'Failed to check onboarding status',
-            level: 'error',
-            component: 'dashboard_onboarding',
-            userId: user?.id,
-            timestamp: new Date().toISOString(),
-            metadata: { error: error.message, code: error.code }
-          })
-          setCheckingOnboarding(false)
-          return
-        }
-
-        // If no profile exists, create one automatically
-        if (!profile) {
-          console.log('🆕 No profile found, creating one...')
-          
-          const { data: newProfile, error: createError } = await supabase
-            .from('profiles')
-            .insert({
-              id: user.id,
-              username: user.email?.split('@')[0] || 'user',
-              full_name: user.user_metadata?.full_name || user.user_metadata?.name || '',
-              email: user.email,
-              avatar_url: user.user_metadata?.avatar_url || user.user_metadata?.picture || '',
-              about_me: null,
-              github_username: user.user_metadata?.user_name || user.user_metadata?.login || '',
-              github_repository_count: 0,
-              github_commit_count: 0,
-              onboarding_completed: false,
-              account_status: 'active',
-              privacy_settings: {
-                showEmail: false,
-                showGithub: true,
-                analyticsConsent: true
-              }
-            })
-            .select()
-            .single()
-
-          if (createError) {
-            console.error('❌ Failed to create profile:', createError)
-            logError({
-              message: 'Failed to create new user profile',
-              level: 'error',
-              component: 'dashboard_onboarding',
-              userId: user?.id,
-              timestamp: new Date().toISOString(),
-              metadata: { error: createError.message, code: createError.code }
-            })
-            setCheckingOnboarding(false)
-            return
-          }
-
-          console.log('✅ Created new profile:', newProfile)
-          
-          // Fetch initial GitHub stats if available
-          if (user.user_metadata?.user_name || user.user_metadata?.login) {
-            console.log('🔄 Fetching initial GitHub stats for new user...')
-            try {
-              const { updateUserGitHubStats } = await import('../../utils/githubStats')
-              const githubUsername = user.user_metadata?.user_name || user.user_metadata?.login
-              
-              const statsResult = await updateUserGitHubStats(user.id, githubUsername)
-              if (statsResult.success) {
-                console.log('✅ Initial GitHub stats fetched successfully:', statsResult.stats)
-              } else {
-                console.log('⚠️ Initial GitHub stats fetch failed:', statsResult.error)
-              }
-            } catch (error) {
-              console.log('⚠️ Initial GitHub stats fetch error:', error)
-            }
-          }
-          
-          // Redirect to onboarding since it's a new profile
-          logInfo('New user redirected to complete onboarding', {
-            userId: user.id,
-            profileCreated: true
-          })
-          router.push('/onboarding')
-          return
-        }
-
-        // Check if onboarding is completed
-        if (!profile.onboarding_completed) {
-          console.log('📝 Profile found but onboarding not completed, redirecting...')
-          logInfo('User redirected to complete onboarding', {
-            userId: user.id,
-            profileExists: true,
-            onboardingCompleted: false
-          })
-          router.push('/onboarding')
-          return
-        }
+    if (!user || !profile) return
 
-        console.log('✅ Profile loaded successfully:', profile)
-        setUserProfile(profile)
-        setCheckingOnboarding(false)
-        
-        // Load privacy settings and GitHub stats
-        loadPrivacySettings()
-        loadGitHubStats()
-      } catch (error) {
-        console.error('❌ Unexpected error during onboarding check:', error)
-        logError({
-          message: 'Unexpected error during onboarding check',
-          level: 'error',
-          component: 'dashboard_onboarding',
-          userId: user?.id,
-          timestamp: new Date().toISOString(),
-          metadata: { error: error.message, stack: error.stack }
-        })
-        setCheckingOnboarding(false)
-      }
-    }
+    logInfo('Dashboard accessed successfully', {
+      userId: user.id,
+      userEmail: user.email,
+      timestamp: new Date().toISOString()
+    })
 
-    checkOnboardingStatus()
-  }, [user, router])
+    // Load privacy settings and GitHub stats
+    loadPrivacySettings()
+    loadGitHubStats()
+  }, [profile?.id])
 
   // Load privacy settings
   const loadPrivacySettings = async () => {
@@ -321,6 +199,13 @@ export function DashboardScreen() {
       } else {
         console.log('No GitHub stats available:', result.error)
       }
+
+      // Read after the stats so an automatic refresh above is already cached
+      const repositoriesResult = await getCachedGitHubRepositories(user.id)
+      if (repositoriesResult.success) {
+        setGithubRepositories(repositoriesResult.repositories || [])
+        setHiddenRepositories(repositoriesResult.hiddenRepositories || [])
+      }
     } catch (error) {
       logError({
         message: 'Failed to load GitHub statistics',
@@ -335,10 +220,68 @@ export function DashboardScreen() {
     }
   }
 
+  // Hide a repository card from the public profile, or show it again
+  const handleToggleRepositoryHidden = async (repository: GitHubRepositorySummary) => {
+    if (!user) return
+
+    setUpdatingRepository(repository.fullName)
+    try {
+      const hidden = !hiddenRepositories.includes(repository.fullName)
+      const result = await setGitHubRepositoryHidden(user.id, repository.fullName, hidden)
+
+      if (result.success && result.hiddenRepositories) {
+        setHiddenRepositories(result.hiddenRepositories)
+      } else {
+        Alert.alert('Error', result.error || 'Failed to update repository visibility')
+      }
+    } finally {
+      setUpdatingRepository(null)
+    }
+  }
+
+  // Load projects owned by the current user
+  const loadMyProjects = async () => {
+    if (!user) return
+    
+    setIsLoadingMyProjects(true)
+    try {
+      const result = await getOwnedProjects(user.id)
+      
+      if (result.success && result.projects) {
+        setMyProjects(result.projects)
+      } else {
+        console.log('Could not load projects:', result.error)
+      }
+    } finally {
+      setIsLoadingMyProjects(false)
+    }
+  }
+
+  // Refresh the project list whenever the My Projects tab is opened
+  useEffect(() => {
+    if (activeTab === 'my-projects' && userProfile) {
+      loadMyProjects()
+    }
+  }, [activeTab, userProfile?.id])
+
+  // Open (or start) a conversation from the developer directory
+  const handleMessageDeveloper = async (developer: DeveloperSearchResult) => {
+    if (!user) return
+
+    const result = await startConversation(user.id, developer.id)
+    if (!result.success || !result.conversation) {
+      Alert.alert('Cannot send message', result.error || 'Failed to start conversation')
+      return
+    }
+
+    setOpenConversationId(result.conversation.id)
+    setActiveTab('messages')
+  }
+
   // About Me is now handled in the main profile save function
 
-  // Show loading while auth is loading or checking onboarding status
-  if (loading || checkingOnboarding) {
+  // The guard only renders the dashboard once the profile has loaded
+  if (!userProfile) {
     return (
       <View style={{
         flex: 1,
@@ -402,22 +345,15 @@ export function DashboardScreen() {
   const handleSaveProfile = async () => {
     if (!user || !editedProfile) return
 
-    // Comprehensive validation using our validation utility
-    const fullNameValid = validateFullName(editedProfile.full_name || '')
-    const usernameValid = validateUsername(editedProfile.username || '')
-    const ageValid = validateAge(editedProfile.age || '')
-    const aboutMeValid = validateAboutMe(editedProfile.about_me || '')
-    const educationValid = validateEducationStatus(editedProfile.education_status || '')
-    const languagesValid = validateCodingLanguages(editedProfile.coding_languages || [])
+    // The same ValidationSchemas.PROFILE rules the server enforces
+    const validation = validateProfile(editedProfile)
     
     // Collect all validation errors
-    const errors = []
-    if (!fullNameValid.isValid) errors.push(`Full Name: ${fullNameValid.error}`)
-    if (!usernameValid.isValid) errors.push(`Username: ${usernameValid.error}`)
-    if (!ageValid.isValid) errors.push(`Age: ${ageValid.error}`)
-    if (!aboutMeValid.isValid) errors.push(`About Me: ${aboutMeValid.error}`)
-    if (!educationValid.isValid) errors.push(`Education: ${educationValid.error}`)
-    if (!languagesValid.isValid) errors.push(`Languages: ${languagesValid.error}`)
+    const errors: string[] = [...validation.errors]
+    if (!validation.fieldErrors.username) {
+      if (usernameCheck.status === 'invalid') errors.push(usernameCheck.error)
+      else if (usernameCheck.status === 'checking') errors.push('Still checking username availability')
+    }
     
     if (errors.length > 0) {
       console.error('Profile validation failed:', errors)
@@ -432,35 +368,21 @@ export function DashboardScreen() {
     setIsSavingProfile(true)
 
     try {
-      // Format data before saving
-      const formattedProfile = {
-        username: formatUsername(editedProfile.username || ''),
-        full_name: formatFullName(editedProfile.full_name || ''),
-        about_me: editedProfile.about_me?.trim() || null,
-        age: parseInt(editedProfile.age || '0'),
-        education_status: editedProfile.education_status,
-        coding_languages: editedProfile.coding_languages,
-        avatar_url: editedProfile.avatar_url,
-        updated_at: new Date().toISOString()
-      }
+      // Sanitized values: formatted name and username, numeric age, null for empty optional fields
+      const formattedProfile = validation.sanitizedValue
 
-      const { error } = await supabase
-        .from('profiles')
-        .update(formattedProfile)
-        .eq('id', user.id)
+      const result = await updateProfile(formattedProfile)
 
-      if (error) {
-        console.error('Profile update error:', error)
+      if (!result.success) {
+        console.error('Profile update error:', result.error)
         Alert.alert(
           'Update Failed',
-          error.message || 'Failed to update profile',
+          result.error || 'Failed to update profile',
           [{ text: 'OK', style: 'default' }]
         )
         return
       }
 
-      // Update local state with formatted data
-      setUserProfile({ ...editedProfile, ...formattedProfile })
       setIsEditingProfile(false)
       setEditedProfile(null)
       
@@ -490,22 +412,14 @@ export function DashboardScreen() {
     if (!user) return
 
     try {
-      // Update database
-      const { error } = await supabase
-        .from('profiles')
-        .update({
-          avatar_url: newAvatarUrl,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', user.id)
+      const result = await updateProfile({ avatar_url: newAvatarUrl })
 
-      if (error) {
-        console.error('Avatar update error:', error)
+      if (!result.success) {
+        console.error('Avatar update error:', result.error)
         return
       }
 
-      // Update local state
-      setUserProfile(prev => ({ ...prev, avatar_url: newAvatarUrl }))
+      // Keep an in-progress edit in step with the saved avatar
       if (editedProfile) {
         setEditedProfile(prev => ({ ...prev, avatar_url: newAvatarUrl }))
       }
@@ -519,54 +433,17 @@ export function DashboardScreen() {
   const isProfileValid = () => {
     if (!editedProfile) return false
     
-    // Use our comprehensive validation
-    const fullNameValid = validateFullName(editedProfile.full_name || '')
-    const usernameValid = validateUsername(editedProfile.username || '')
-    const ageValid = validateAge(editedProfile.age || '')
-    const aboutMeValid = validateAboutMe(editedProfile.about_me || '')
-    const educationValid = validateEducationStatus(editedProfile.education_status || '')
-    const languagesValid = validateCodingLanguages(editedProfile.coding_languages || [])
-    
-    return (
-      fullNameValid.isValid &&
-      usernameValid.isValid &&
-      ageValid.isValid &&
-      aboutMeValid.isValid &&
-      educationValid.isValid &&
-      languagesValid.isValid
-    )
+    return validateProfile(editedProfile).isValid && !isUsernameUnavailable
   }
 
   // Real-time field validation
   const validateField = (fieldName: string, value: any) => {
-    let validation
-    
-    switch (fieldName) {
-      case 'full_name':
-        validation = validateFullName(value || '')
-        break
-      case 'username':
-        validation = validateUsername(value || '')
-        break
-      case 'age':
-        validation = validateAge(value || '')
-        break
-      case 'about_me':
-        validation = validateAboutMe(value || '')
-        break
-      case 'education_status':
-        validation = validateEducationStatus(value || '')
-        break
-      case 'coding_languages':
-        validation = validateCodingLanguages(value || [])
-        break
-      default:
-        return
-    }
-    
+    if (!(fieldName in ValidationSchemas.PROFILE)) return
+
+    const validation = validateProfileField(fieldName as ProfileField, value)
     setValidationErrors(prev => ({
       ...prev,
-      [fieldName]: validation.isValid ? '' : validation.error || ''
+      [fieldName]: validation.isValid ? '' : validation.errors[0] || ''
     }))
   }
 
@@ -977,7 +854,7 @@ export function DashboardScreen() {
                               borderWidth: 2,
                               borderColor: (() => {
                                 if (validationErrors.full_name) return '#ef4444'
-                                if (editedProfile?.full_name && validateFullName(editedProfile.full_name).isValid) return '#10b981'
+                                if (editedProfile?.full_name && validateProfileField('full_name', editedProfile.full_name).isValid) return '#10b981'
                                 return '#667eea'
                               })(),
                               borderRadius: 8,
@@ -1002,7 +879,7 @@ export function DashboardScreen() {
                               {validationErrors.full_name}
                             </Text>
                           ) : null}
-                          {editedProfile?.full_name && !validationErrors.full_name && validateFullName(editedProfile.full_name).isValid ? (
+                          {editedProfile?.full_name && !validationErrors.full_name && validateProfileField('full_name', editedProfile.full_name).isValid ? (
                             <Text style={{
                               fontSize: 12,
                               color: '#10b981',
@@ -1020,8 +897,8 @@ export function DashboardScreen() {
                               color: '#64748b',
                               borderWidth: 2,
                               borderColor: (() => {
-                                if (validationErrors.username) return '#ef4444'
-                                if (editedProfile?.username && validateUsername(editedProfile.username).isValid) return '#10b981'
+                                if (validationErrors.username || usernameCheck.status === 'invalid') return '#ef4444'
+                                if (editedProfile?.username && validateProfileField('username', editedProfile.username).isValid && !isUsernameUnavailable) return '#10b981'
                                 return '#e2e8f0'
                               })(),
                               borderRadius: 8,
@@ -1048,7 +925,49 @@ export function DashboardScreen() {
                                   {validationErrors.username}
                                 </Text>
                               ) : null}
-                              {editedProfile?.username && !validationErrors.username && validateUsername(editedProfile.username).isValid ? (
+                              {!validationErrors.username && usernameCheck.status === 'invalid' ? (
+                                <View style={{ gap: 6 }}>
+                                  <Text style={{
+                                    fontSize: 12,
+                                    color: '#ef4444',
+                                    fontWeight: '500'
+                                  }}>
+                                    {usernameCheck.error}
+                                  </Text>
+                                  {usernameCheck.suggestions.length > 0 ? (
+                                    <View style={{ flexDirection: 'row', flexWrap: 'wrap', alignItems: 'center', gap: 6 }}>
+                                      <Text style={{ fontSize: 12, color: '#64748b' }}>Try:</Text>
+                                      {usernameCheck.suggestions.map(suggestion => (
+                                        <Pressable
+                                          key={suggestion}
+                                          onPress={() => {
+                                            setEditedProfile({...editedProfile, username: suggestion})
+                                            validateField('username', suggestion)
+                                          }}
+                                          style={{
+                                            borderWidth: 1,
+                                            borderColor: '#c7d2fe',
+                                            backgroundColor: '#f0f4ff',
+                                            borderRadius: 12,
+                                            paddingHorizontal: 8,
+                                            paddingVertical: 2
+                                          }}
+                                        >
+                                          <Text style={{ fontSize: 12, fontWeight: '600', color: '#667eea' }}>
+                                            {suggestion}
+                                          </Text>
+                                        </Pressable>
+                                      ))}
+                                    </View>
+                                  ) : null}
+                                </View>
+                              ) : null}
+                              {!validationErrors.username && usernameCheck.status === 'checking' ? (
+                                <Text style={{ fontSize: 12, color: '#64748b' }}>
+                                  Checking availability...
+                                </Text>
+                              ) : null}
+                              {editedProfile?.username && !validationErrors.username && validateProfileField('username', editedProfile.username).isValid && !isUsernameUnavailable ? (
                                 <Text style={{
                                   fontSize: 12,
                                   color: '#10b981',
@@ -1100,7 +1019,7 @@ export function DashboardScreen() {
                                borderWidth: 2,
                                borderColor: (() => {
                                  if (validationErrors.age) return '#ef4444'
-                                 if (editedProfile?.age && validateAge(editedProfile.age).isValid) return '#10b981'
+                                 if (editedProfile?.age && validateProfileField('age', editedProfile.age).isValid) return '#10b981'
                                  return '#e2e8f0'
                                })(),
                                borderRadius: 8,
@@ -1127,7 +1046,7 @@ export function DashboardScreen() {
                                {validationErrors.age}
                              </Text>
                            ) : null}
-                           {editedProfile?.age && !validationErrors.age && validateAge(editedProfile.age).isValid ? (
+                           {editedProfile?.age && !validationErrors.age && validateProfileField('age', editedProfile.age).isValid ? (
                              <Text style={{
                                fontSize: 12,
                                color: '#10b981',
@@ -1349,7 +1268,7 @@ export function DashboardScreen() {
                           borderWidth: 2,
                           borderColor: (() => {
                             if (validationErrors.about_me) return '#ef4444'
-                            if (editedProfile?.about_me && validateAboutMe(editedProfile.about_me).isValid) return '#10b981'
+                            if (editedProfile?.about_me && validateProfileField('about_me', editedProfile.about_me).isValid) return '#10b981'
                             return '#e2e8f0'
                           })(),
                           borderRadius: 12,
@@ -1369,7 +1288,7 @@ export function DashboardScreen() {
                           {validationErrors.about_me}
                         </Text>
                       ) : null}
-                      {editedProfile?.about_me && !validationErrors.about_me && validateAboutMe(editedProfile.about_me).isValid && editedProfile.about_me.trim().length > 0 ? (
+                      {editedProfile?.about_me && !validationErrors.about_me && validateProfileField('about_me', editedProfile.about_me).isValid && editedProfile.about_me.trim().length > 0 ? (
                         <Text style={{
                           fontSize: 12,
                           color: '#10b981',
@@ -1528,34 +1447,67 @@ export function DashboardScreen() {
                         </View>
                       </View>
 
-                      {/* Commit Count */}
-                      <View style={{
-                        flexDirection: 'row',
-                        alignItems: 'center',
-                        gap: 8
-                      }}>
-                        <Text style={{
-                          fontSize: 14,
-                          color: '#475569',
-                          fontWeight: '500'
-                        }}>
-                          Estimated Commits:
-                        </Text>
-                        <View style={{
-                          backgroundColor: '#dcfce7',
-                          paddingHorizontal: 8,
-                          paddingVertical: 2,
-                          borderRadius: 6
+                      {/* Contribution Counts (all contribution years) */}
+                      {[
+                        { label: 'Commits', value: githubStats.commitCount },
+                        { label: 'Pull Requests', value: githubStats.pullRequestCount },
+                        { label: 'Issues', value: githubStats.issueCount },
+                        { label: 'Reviews', value: githubStats.reviewCount }
+                      ].map(stat => (
+                        <View key={stat.label} style={{
+                          flexDirection: 'row',
+                          alignItems: 'center',
+                          gap: 8
                         }}>
                           <Text style={{
                             fontSize: 14,
-                            color: '#166534',
-                            fontWeight: '700'
+                            color: '#475569',
+                            fontWeight: '500'
                           }}>
-                            {githubStats.commitCount}+
+                            {stat.label}:
                           </Text>
+                          <View style={{
+                            backgroundColor: '#dcfce7',
+                            paddingHorizontal: 8,
+                            paddingVertical: 2,
+                            borderRadius: 6
+                          }}>
+                            <Text style={{
+                              fontSize: 14,
+                              color: '#166534',
+                              fontWeight: '700'
+                            }}>
+                              {stat.value}
+                            </Text>
+                          </View>
                         </View>
-                      </View>
+                      ))}
+
+                      {Object.keys(githubStats.contributionsByYear).length > 0 && (
+                        <Text style={{
+                          fontSize: 12,
+                          color: '#64748b'
+                        }}>
+                          {Object.entries(githubStats.contributionsByYear)
+                            .sort(([a], [b]) => Number(b) - Number(a))
+                            .slice(0, 3)
+                            .map(([year, counts]) => `${year}: ${counts.commits} commits, ${counts.pullRequests} PRs`)
+                            .join(' · ')}
+                        </Text>
+                      )}
+
+                      {/* Contribution Calendar (cached daily counts from the last sync) */}
+                      {githubStats.contributionCalendar.length > 0 && (
+                        <View style={{
+                          backgroundColor: '#ffffff',
+                          borderRadius: 8,
+                          borderWidth: 1,
+                          borderColor: '#e2e8f0',
+                          padding: 12
+                        }}>
+                          <ContributionHeatmap days={githubStats.contributionCalendar} />
+                        </View>
+                      )}
 
                       {/* Last Updated */}
                       <View style={{
@@ -1599,6 +1551,40 @@ export function DashboardScreen() {
                       </Text>
                     </View>
                   )}
+
+                  {/* Repository Showcase */}
+                  {githubStats && githubRepositories.length > 0 && (
+                    <View style={{ gap: 12, marginTop: 20 }}>
+                      <Text style={{
+                        fontSize: 12,
+                        color: '#64748b',
+                        fontWeight: '600'
+                      }}>
+                        REPOSITORIES
+                      </Text>
+                      <Text style={{
+                        fontSize: 12,
+                        color: '#94a3b8'
+                      }}>
+                        Your first {GITHUB_SHOWCASE_REPO_LIMIT} visible repositories appear on your public profile. Pinned repositories come first.
+                      </Text>
+                      <View style={{
+                        flexDirection: 'row',
+                        flexWrap: 'wrap',
+                        gap: 12
+                      }}>
+                        {githubRepositories.map(repository => (
+                          <RepositoryCard
+                            key={repository.fullName}
+                            repository={repository}
+                            hidden={hiddenRepositories.includes(repository.fullName)}
+                            onToggleHidden={() => handleToggleRepositoryHidden(repository)}
+                            isUpdating={updatingRepository === repository.fullName}
+                          />
+                        ))}
+                      </View>
+                    </View>
+                  )}
                 </View>
                 
                 {/* Edit Actions */}
@@ -1675,37 +1661,92 @@ export function DashboardScreen() {
               </Text>
             </View>
 
-            <View style={{
-              backgroundColor: '#ffffff',
-              borderRadius: 16,
-              padding: 48,
-              borderWidth: 1,
-              borderColor: '#e2e8f0',
-              alignItems: 'center',
-              gap: 16
-            }}>
-              <Text style={{ fontSize: 48 }}>📁</Text>
-              <Text style={{ fontSize: 18, fontWeight: '600', color: '#374151' }}>
-                No projects yet
-              </Text>
-              <Text style={{ fontSize: 14, color: '#64748b', textAlign: 'center' }}>
-                You haven't created or joined any projects yet. Start by creating your first project!
-              </Text>
-              <Pressable
-                onPress={() => setActiveTab('create-project')}
-                style={{
-                  backgroundColor: '#667eea',
-                  paddingHorizontal: 20,
-                  paddingVertical: 12,
-                  borderRadius: 12,
-                  marginTop: 8
-                }}
-              >
-                <Text style={{ color: '#ffffff', fontWeight: '600' }}>
-                  Create Your First Project
+            <ReceivedInvitations userId={user.id} />
+
+            <ReviewQueue userId={user.id} />
+
+            {isLoadingMyProjects ? (
+              <View style={{ alignItems: 'center', paddingVertical: 24 }}>
+                <Text style={{ fontSize: 14, color: '#64748b' }}>
+                  Loading your projects...
                 </Text>
-              </Pressable>
-            </View>
+              </View>
+            ) : myProjects.length > 0 ? (
+              <View style={{ gap: 16 }}>
+                {myProjects.map((project) => (
+                  <ProjectCard
+                    key={project.id}
+                    project={project}
+                    footer={
+                      invitingProjectId === project.id ? (
+                        <InviteDeveloperForm
+                          userId={user.id}
+                          projectId={project.id}
+                          projectTitle={project.title}
+                          onInvited={() => {
+                            setInvitingProjectId(null)
+                            setSentInvitationsVersion(prev => prev + 1)
+                          }}
+                          onCancel={() => setInvitingProjectId(null)}
+                        />
+                      ) : (project.status === 'open' || project.status === 'in_progress') ? (
+                        <Pressable
+                          onPress={() => setInvitingProjectId(project.id)}
+                          style={{
+                            borderWidth: 1,
+                            borderColor: '#667eea',
+                            borderRadius: 10,
+                            paddingHorizontal: 14,
+                            paddingVertical: 8,
+                            alignSelf: 'flex-start'
+                          }}
+                        >
+                          <Text style={{ fontSize: 13, fontWeight: '600', color: '#667eea' }}>
+                            ✉️ Invite a Developer
+                          </Text>
+                        </Pressable>
+                      ) : null
+                    }
+                  />
+                ))}
+              </View>
+            ) : (
+              <View style={{
+                backgroundColor: '#ffffff',
+                borderRadius: 16,
+                padding: 48,
+                borderWidth: 1,
+                borderColor: '#e2e8f0',
+                alignItems: 'center',
+                gap: 16
+              }}>
+                <Text style={{ fontSize: 48 }}>📁</Text>
+                <Text style={{ fontSize: 18, fontWeight: '600', color: '#374151' }}>
+                  No projects yet
+                </Text>
+                <Text style={{ fontSize: 14, color: '#64748b', textAlign: 'center' }}>
+                  You haven't created or joined any projects yet. Start by creating your first project!
+                </Text>
+                <Pressable
+                  onPress={() => setActiveTab('create-project')}
+                  style={{
+                    backgroundColor: '#667eea',
+                    paddingHorizontal: 20,
+                    paddingVertical: 12,
+                    borderRadius: 12,
+                    marginTop: 8
+                  }}
+                >
+                  <Text style={{ color: '#ffffff', fontWeight: '600' }}>
+                    Create Your First Project
+                  </Text>
+                </Pressable>
+              </View>
+            )}
+
+            <SentInvitations userId={user.id} refreshKey={sentInvitationsVersion} />
+
+            <MyApplications userId={user.id} />
           </View>
         )
 
@@ -1721,23 +1762,13 @@ export function DashboardScreen() {
               </Text>
             </View>
 
-            <View style={{
-              backgroundColor: '#ffffff',
-              borderRadius: 16,
-              padding: 48,
-              borderWidth: 1,
-              borderColor: '#e2e8f0',
-              alignItems: 'center',
-              gap: 16
-            }}>
-              <Text style={{ fontSize: 48 }}>🚀</Text>
-              <Text style={{ fontSize: 18, fontWeight: '600', color: '#374151' }}>
-                Project Creation Coming Soon
-              </Text>
-              <Text style={{ fontSize: 14, color: '#64748b', textAlign: 'center' }}>
-                We're building an amazing project creation experience. Stay tuned!
-              </Text>
-            </View>
+            <CreateProjectForm
+              userId={user.id}
+              onProjectCreated={(project) => {
+                setMyProjects(prev => [project, ...prev])
+                setActiveTab('my-projects')
+              }}
+            />
           </View>
         )
 
@@ -1753,23 +1784,46 @@ export function DashboardScreen() {
               </Text>
             </View>
 
-            <View style={{
-              backgroundColor: '#ffffff',
-              borderRadius: 16,
-              padding: 48,
-              borderWidth: 1,
-              borderColor: '#e2e8f0',
-              alignItems: 'center',
-              gap: 16
-            }}>
-              <Text style={{ fontSize: 48 }}>🔍</Text>
-              <Text style={{ fontSize: 18, fontWeight: '600', color: '#374151' }}>
-                Project Browser Coming Soon
+            <ProjectBrowser userId={user.id} viewerLanguages={userProfile?.coding_languages || []} />
+          </View>
+        )
+
+      case 'developers':
+        return (
+          <View style={{ gap: 24 }}>
+            <View style={{ gap: 16 }}>
+              <Text style={{ fontSize: 28, fontWeight: '800', color: '#0f172a' }}>
+                Developer Directory
+              </Text>
+              <Text style={{ fontSize: 16, color: '#64748b', lineHeight: 24 }}>
+                Search developers by name, languages and interests
+              </Text>
+            </View>
+
+            <DeveloperDirectory userId={user.id} onMessage={handleMessageDeveloper} />
+          </View>
+        )
+
+      case 'messages':
+        return (
+          <View style={{ gap: 24 }}>
+            <View style={{ gap: 16 }}>
+              <Text style={{ fontSize: 28, fontWeight: '800', color: '#0f172a' }}>
+                Messages
               </Text>
-              <Text style={{ fontSize: 14, color: '#64748b', textAlign: 'center' }}>
-                Soon you'll be able to browse and apply to amazing projects from developers worldwide.
+              <Text style={{ fontSize: 16, color: '#64748b', lineHeight: 24 }}>
+                Talk directly with other developers
               </Text>
             </View>
+
+            <MessagesInbox
+              userId={user.id}
+              conversations={inbox.conversations}
+              isLoading={inbox.isLoading}
+              refresh={inbox.refresh}
+              initialConversationId={openConversationId}
+              onConversationChange={setOpenConversationId}
+            />
           </View>
         )
 
@@ -1838,6 +1892,9 @@ export function DashboardScreen() {
                     </View>
                   )}
 
+                  {/* Sign-in methods */}
+                  <ConnectedAccounts />
+
                   {/* Privacy Settings */}
                   <View style={{
                     backgroundColor: '#ffffff',
@@ -2644,6 +2701,20 @@ export function DashboardScreen() {
                   {item.label}
                 </Text>
               </View>
+              {item.id === 'messages' && inbox.unreadCount > 0 && (
+                <View style={{
+                  backgroundColor: '#667eea',
+                  borderRadius: 10,
+                  minWidth: 20,
+                  paddingHorizontal: 6,
+                  paddingVertical: 2,
+                  alignItems: 'center'
+                }}>
+                  <Text style={{ fontSize: 11, fontWeight: '700', color: '#ffffff' }}>
+                    {inbox.unreadCount}
+                  </Text>
+                </View>
+              )}
             </Pressable>
           ))}
         </View>
@@ -0,0 +1,119 @@
+'use client'
+
+import React, { useState } from 'react'
+import { View, Text, Pressable, ActivityIndicator } from 'react-native'
+import { DeveloperCard } from '../../components/DeveloperCard'
+import { Pagination } from '../../components/Pagination'
+import { SearchBar } from '../../components/SearchBar'
+import { useDeveloperSearch } from '../../hooks/useSearch'
+import { useAppRouter } from '../../hooks/useAppRouter'
+import { SEARCH_PAGE_SIZE } from '../../utils/constants'
+import { getProfilePath } from '../../utils/profiles'
+import type { DeveloperSearchResult } from '../../utils/search'
+
+interface DeveloperDirectoryProps {
+  // Current user; their own card gets no "Message" action
+  userId?: string
+  onMessage?: (developer: DeveloperSearchResult) => void
+}
+
+export function DeveloperDirectory({ userId, onMessage }: DeveloperDirectoryProps = {}) {
+  const search = useDeveloperSearch()
+  const router = useAppRouter()
+  const [hoveredButton, setHoveredButton] = useState<string | null>(null)
+  const hasQuery = search.query.trim().length > 0
+
+  return (
+    <View style={{ gap: 24 }}>
+      <SearchBar
+        value={search.query}
+        onChangeText={search.setQuery}
+        onClear={search.clearSearch}
+        placeholder="Search developers by name, username, language or bio"
+        isSearching={search.isSearching}
+      />
+
+      <Text style={{ fontSize: 14, color: '#64748b' }}>
+        {search.isSearching
+          ? 'Searching...'
+          : hasQuery
+            ? `${search.totalCount} developer${search.totalCount === 1 ? '' : 's'} matching "${search.query.trim()}"`
+            : `${search.totalCount} developer${search.totalCount === 1 ? '' : 's'} in the directory`}
+      </Text>
+
+      {search.isSearching && search.results.length === 0 ? (
+        <View style={{ alignItems: 'center', paddingVertical: 48 }}>
+          <ActivityIndicator size="large" color="#667eea" />
+        </View>
+      ) : search.error ? (
+        <View style={{
+          backgroundColor: '#fef2f2',
+          borderRadius: 12,
+          padding: 16,
+          borderWidth: 1,
+          borderColor: '#fecaca'
+        }}>
+          <Text style={{ fontSize: 14, color: '#991b1b' }}>
+            ❌ {search.error}
+          </Text>
+        </View>
+      ) : search.results.length === 0 ? (
+        <View style={{
+          backgroundColor: '#ffffff',
+          borderRadius: 16,
+          padding: 48,
+          alignItems: 'center',
+          borderWidth: 1,
+          borderColor: '#e2e8f0'
+        }}>
+          <Text style={{ fontSize: 48, marginBottom: 16 }}>👥</Text>
+          <Text style={{ fontSize: 20, fontWeight: '700', color: '#0f172a', marginBottom: 8 }}>
+            No developers found
+          </Text>
+          <Text style={{ fontSize: 14, color: '#64748b', textAlign: 'center' }}>
+            {hasQuery
+              ? 'Try a different name, language or keyword.'
+              : 'Public developer profiles will appear here once members finish onboarding.'}
+          </Text>
+        </View>
+      ) : (
+        <View style={{ gap: 16 }}>
+          {search.results.map(developer => (
+            <DeveloperCard
+              key={developer.id}
+              developer={developer}
+              onPress={() => router.push(getProfilePath(developer.id, developer.username))}
+              footer={onMessage && developer.id !== userId ? (
+                <Pressable
+                  onPress={() => onMessage(developer)}
+                  onHoverIn={() => setHoveredButton(`message-${developer.id}`)}
+                  onHoverOut={() => setHoveredButton(null)}
+                  style={{
+                    alignSelf: 'flex-start',
+                    backgroundColor: hoveredButton === `message-${developer.id}` ? '#5b6cf0' : '#667eea',
+                    borderRadius: 8,
+                    paddingHorizontal: 14,
+                    paddingVertical: 8
+                  }}
+                >
+                  <Text style={{ fontSize: 13, fontWeight: '600', color: '#ffffff' }}>
+                    💬 Message
+                  </Text>
+                </Pressable>
+              ) : undefined}
+            />
+          ))}
+        </View>
+      )}
+
+      {!search.isSearching && (
+        <Pagination
+          page={search.page}
+          pageSize={SEARCH_PAGE_SIZE}
+          totalCount={search.totalCount}
+          onPageChange={search.setPage}
+        />
+      )}
+    </View>
+  )
+}
@@ -0,0 +1,154 @@
+'use client'
+
+import React, { useState } from 'react'
+import { View, Text, Pressable, TextInput, Alert } from 'react-native'
+import { inviteToProject, Invitation } from '../../utils/invitations'
+import { getCharacterCountInfo } from '../../utils/validation'
+
+interface InviteDeveloperFormProps {
+  userId: string
+  projectId: string
+  projectTitle: string
+  onInvited?: (invitation: Invitation) => void
+  onCancel?: () => void
+}
+
+export function InviteDeveloperForm({ userId, projectId, projectTitle, onInvited, onCancel }: InviteDeveloperFormProps) {
+  const [username, setUsername] = useState('')
+  const [message, setMessage] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isSending, setIsSending] = useState(false)
+  const [hoveredButton, setHoveredButton] = useState<string | null>(null)
+
+  const messageCount = getCharacterCountInfo(message, 500)
+  const canSend = username.trim().replace(/^@/, '').length >= 3 && !isSending
+
+  const handleSend = async () => {
+    setIsSending(true)
+    setError(null)
+    try {
+      const result = await inviteToProject(userId, projectId, { username, message })
+
+      if (!result.success || !result.invitation) {
+        // Refusals (e.g. invites turned off) are shown inline so the owner can try someone else
+        setError(result.validationErrors?.[0] || result.error || 'Failed to send invitation')
+        return
+      }
+
+      Alert.alert('Invitation Sent! ✉️', `@${username.trim().replace(/^@/, '')} has been invited to "${projectTitle}".`)
+      setUsername('')
+      setMessage('')
+      onInvited?.(result.invitation)
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <View style={{
+      backgroundColor: '#f8fafc',
+      borderRadius: 12,
+      padding: 16,
+      borderWidth: 1,
+      borderColor: '#e2e8f0',
+      gap: 12
+    }}>
+      <View style={{ gap: 8 }}>
+        <Text style={{ fontSize: 14, fontWeight: '600', color: '#374151' }}>
+          Developer username *
+        </Text>
+        <TextInput
+          style={{
+            borderWidth: 2,
+            borderColor: error ? '#ef4444' : '#e2e8f0',
+            borderRadius: 12,
+            paddingHorizontal: 16,
+            paddingVertical: 10,
+            fontSize: 14,
+            backgroundColor: '#ffffff'
+          }}
+          placeholder="@username"
+          value={username}
+          onChangeText={(text) => {
+            setUsername(text)
+            setError(null)
+          }}
+          autoCapitalize="none"
+          autoCorrect={false}
+          maxLength={21}
+        />
+        {error ? (
+          <Text style={{ fontSize: 12, color: '#ef4444', fontWeight: '500' }}>
+            {error}
+          </Text>
+        ) : null}
+      </View>
+
+      <View style={{ gap: 8 }}>
+        <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' }}>
+          <Text style={{ fontSize: 14, fontWeight: '600', color: '#374151' }}>
+            Message (optional)
+          </Text>
+          <Text style={{ fontSize: 12, color: messageCount.color }}>
+            {messageCount.current}/{messageCount.max}
+          </Text>
+        </View>
+        <TextInput
+          style={{
+            borderWidth: 2,
+            borderColor: '#e2e8f0',
+            borderRadius: 12,
+            paddingHorizontal: 16,
+            paddingVertical: 10,
+            fontSize: 14,
+            backgroundColor: '#ffffff',
+            minHeight: 72,
+            textAlignVertical: 'top'
+          }}
+          placeholder="Tell them why you'd like them on the team"
+          value={message}
+          onChangeText={setMessage}
+          multiline
+          maxLength={500}
+        />
+      </View>
+
+      <View style={{ flexDirection: 'row', gap: 12, justifyContent: 'flex-end' }}>
+        {onCancel && (
+          <Pressable
+            onPress={onCancel}
+            style={{
+              borderRadius: 10,
+              paddingHorizontal: 16,
+              paddingVertical: 10,
+              borderWidth: 1,
+              borderColor: '#e2e8f0',
+              backgroundColor: '#ffffff'
+            }}
+          >
+            <Text style={{ fontSize: 14, fontWeight: '600', color: '#374151' }}>
+              Cancel
+            </Text>
+          </Pressable>
+        )}
+        <Pressable
+          onPress={handleSend}
+          disabled={!canSend}
+          onHoverIn={() => setHoveredButton('send-invite')}
+          onHoverOut={() => setHoveredButton(null)}
+          style={{
+            backgroundColor: canSend ?
+              (hoveredButton === 'send-invite' ? '#5b6cf0' : '#667eea') : '#94a3b8',
+            borderRadius: 10,
+            paddingHorizontal: 16,
+            paddingVertical: 10
+          }}
+        >
+          <Text style={{ fontSize: 14, fontWeight: '700', color: '#ffffff' }}>
+            {isSending ? 'Sending...' : 'Send Invite'}
+          </Text>
+        </Pressable>
+      </View>
+    </View>
+  )
+}
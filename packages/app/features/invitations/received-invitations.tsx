@@ -0,0 +1,158 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { View, Text, Pressable, Alert } from 'react-native'
+import { Avatar } from '../../components/Avatar'
+import { InvitationStatusBadge } from '../../components/InvitationStatusBadge'
+import {
+  getReceivedInvitations,
+  ReceivedInvitation,
+  respondToInvitation
+} from '../../utils/invitations'
+
+interface ReceivedInvitationsProps {
+  userId: string
+}
+
+export function ReceivedInvitations({ userId }: ReceivedInvitationsProps) {
+  const [invitations, setInvitations] = useState<ReceivedInvitation[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [respondingId, setRespondingId] = useState<string | null>(null)
+
+  const loadInvitations = async () => {
+    setIsLoading(true)
+    try {
+      const result = await getReceivedInvitations(userId)
+      if (result.success && result.invitations) {
+        setInvitations(result.invitations)
+      } else {
+        console.log('Could not load invitations:', result.error)
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadInvitations()
+  }, [userId])
+
+  const handleRespond = async (invitation: ReceivedInvitation, response: 'accepted' | 'declined') => {
+    setRespondingId(invitation.id)
+    try {
+      const result = await respondToInvitation(userId, invitation.id, response)
+      if (result.success && result.invitation) {
+        const updated = result.invitation
+        setInvitations(prev => prev.map(item =>
+          item.id === updated.id ? { ...item, status: updated.status, responded_at: updated.responded_at } : item
+        ))
+        if (response === 'accepted') {
+          Alert.alert('Invitation Accepted! 🎉', `You've joined "${invitation.project_title}".`)
+        }
+      } else {
+        Alert.alert('Error', result.error || 'Failed to respond to invitation')
+        loadInvitations()
+      }
+    } finally {
+      setRespondingId(null)
+    }
+  }
+
+  if (!isLoading && invitations.length === 0) return null
+
+  const pendingCount = invitations.filter(item => item.status === 'pending').length
+
+  return (
+    <View style={{
+      backgroundColor: '#ffffff',
+      borderRadius: 16,
+      padding: 24,
+      borderWidth: 1,
+      borderColor: '#e2e8f0',
+      gap: 16
+    }}>
+      <Text style={{ fontSize: 18, fontWeight: '700', color: '#0f172a' }}>
+        ✉️ Invitations {pendingCount > 0 ? `(${pendingCount})` : ''}
+      </Text>
+
+      {isLoading ? (
+        <Text style={{ fontSize: 14, color: '#64748b' }}>
+          Loading invitations...
+        </Text>
+      ) : (
+        invitations.map(invitation => (
+          <View
+            key={invitation.id}
+            style={{
+              borderWidth: 1,
+              borderColor: '#e2e8f0',
+              borderRadius: 12,
+              padding: 16,
+              gap: 12
+            }}
+          >
+            <View style={{ flexDirection: 'row', alignItems: 'center', gap: 12 }}>
+              <Avatar
+                src={invitation.inviter_avatar_url}
+                name={invitation.inviter_full_name || undefined}
+                username={invitation.inviter_username || undefined}
+                size={40}
+              />
+              <View style={{ flex: 1 }}>
+                <Text style={{ fontSize: 15, fontWeight: '600', color: '#0f172a' }}>
+                  {invitation.project_title}
+                </Text>
+                <Text style={{ fontSize: 12, color: '#64748b' }}>
+                  Invited by {invitation.inviter_username ? `@${invitation.inviter_username}` : 'the project owner'} · {new Date(invitation.created_at).toLocaleDateString()}
+                </Text>
+              </View>
+              <InvitationStatusBadge status={invitation.status} />
+            </View>
+
+            {invitation.message && (
+              <Text style={{ fontSize: 14, color: '#374151', lineHeight: 20 }}>
+                "{invitation.message}"
+              </Text>
+            )}
+
+            {invitation.status === 'pending' && (
+              <View style={{ flexDirection: 'row', gap: 8 }}>
+                <Pressable
+                  onPress={() => handleRespond(invitation, 'accepted')}
+                  disabled={respondingId === invitation.id}
+                  style={{
+                    backgroundColor: '#667eea',
+                    borderRadius: 8,
+                    paddingHorizontal: 14,
+                    paddingVertical: 8,
+                    opacity: respondingId === invitation.id ? 0.5 : 1
+                  }}
+                >
+                  <Text style={{ fontSize: 13, fontWeight: '600', color: '#ffffff' }}>
+                    Accept
+                  </Text>
+                </Pressable>
+                <Pressable
+                  onPress={() => handleRespond(invitation, 'declined')}
+                  disabled={respondingId === invitation.id}
+                  style={{
+                    borderWidth: 1,
+                    borderColor: '#e2e8f0',
+                    borderRadius: 8,
+                    paddingHorizontal: 14,
+                    paddingVertical: 8,
+                    opacity: respondingId === invitation.id ? 0.5 : 1
+                  }}
+                >
+                  <Text style={{ fontSize: 13, fontWeight: '600', color: '#374151' }}>
+                    Decline
+                  </Text>
+                </Pressable>
+              </View>
+            )}
+          </View>
+        ))
+      )}
+    </View>
+  )
+}
@@ -0,0 +1,113 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { View, Text, Pressable, Alert } from 'react-native'
+import { InvitationStatusBadge } from '../../components/InvitationStatusBadge'
+import { cancelInvitation, getSentInvitations, SentInvitation } from '../../utils/invitations'
+
+interface SentInvitationsProps {
+  userId: string
+  // Bump to reload after a new invitation is sent
+  refreshKey?: number
+}
+
+export function SentInvitations({ userId, refreshKey = 0 }: SentInvitationsProps) {
+  const [invitations, setInvitations] = useState<SentInvitation[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [cancellingId, setCancellingId] = useState<string | null>(null)
+
+  const loadInvitations = async () => {
+    setIsLoading(true)
+    try {
+      const result = await getSentInvitations(userId)
+      if (result.success && result.invitations) {
+        setInvitations(result.invitations)
+      } else {
+        console.log('Could not load sent invitations:', result.error)
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadInvitations()
+  }, [userId, refreshKey])
+
+  const handleCancel = async (invitation: SentInvitation) => {
+    setCancellingId(invitation.id)
+    try {
+      const result = await cancelInvitation(userId, invitation.id)
+      if (result.success && result.invitation) {
+        const updated = result.invitation
+        setInvitations(prev => prev.map(item =>
+          item.id === updated.id ? { ...item, status: updated.status, responded_at: updated.responded_at } : item
+        ))
+      } else {
+        Alert.alert('Error', result.error || 'Failed to cancel invitation')
+        loadInvitations()
+      }
+    } finally {
+      setCancellingId(null)
+    }
+  }
+
+  if (!isLoading && invitations.length === 0) return null
+
+  return (
+    <View style={{
+      backgroundColor: '#ffffff',
+      borderRadius: 16,
+      padding: 24,
+      borderWidth: 1,
+      borderColor: '#e2e8f0',
+      gap: 16
+    }}>
+      <Text style={{ fontSize: 18, fontWeight: '700', color: '#0f172a' }}>
+        📤 Sent Invitations
+      </Text>
+
+      {isLoading ? (
+        <Text style={{ fontSize: 14, color: '#64748b' }}>
+          Loading invitations...
+        </Text>
+      ) : (
+        invitations.map(invitation => (
+          <View
+            key={invitation.id}
+            style={{
+              flexDirection: 'row',
+              alignItems: 'center',
+              justifyContent: 'space-between',
+              gap: 12,
+              paddingVertical: 8,
+              borderBottomWidth: 1,
+              borderBottomColor: '#f1f5f9'
+            }}
+          >
+            <View style={{ flex: 1, gap: 4 }}>
+              <Text style={{ fontSize: 15, fontWeight: '600', color: '#0f172a' }}>
+                {invitation.invitee_username ? `@${invitation.invitee_username}` : 'Developer'}
+              </Text>
+              <Text style={{ fontSize: 12, color: '#64748b' }}>
+                {invitation.project_title} · {new Date(invitation.created_at).toLocaleDateString()}
+              </Text>
+            </View>
+            <InvitationStatusBadge status={invitation.status} />
+            {invitation.status === 'pending' && (
+              <Pressable
+                onPress={() => handleCancel(invitation)}
+                disabled={cancellingId === invitation.id}
+                style={{ paddingHorizontal: 8, paddingVertical: 6, opacity: cancellingId === invitation.id ? 0.5 : 1 }}
+              >
+                <Text style={{ fontSize: 13, fontWeight: '600', color: '#991b1b' }}>
+                  Cancel
+                </Text>
+              </Pressable>
+            )}
+          </View>
+        ))
+      )}
+    </View>
+  )
+}
@@ -0,0 +1,153 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { View, Text, Pressable, ActivityIndicator } from 'react-native'
+import { Avatar } from '../../components/Avatar'
+import { MessageThread } from './message-thread'
+import { ConversationSummary } from '../../utils/messaging'
+
+interface MessagesInboxProps {
+  userId: string
+  conversations: ConversationSummary[]
+  isLoading: boolean
+  refresh: () => void
+  // Open this conversation first (e.g. after "Message" from the developer directory)
+  initialConversationId?: string | null
+  onConversationChange?: (conversationId: string | null) => void
+}
+
+export function MessagesInbox({
+  userId,
+  conversations,
+  isLoading,
+  refresh,
+  initialConversationId = null,
+  onConversationChange
+}: MessagesInboxProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(initialConversationId)
+
+  const selectConversation = (conversationId: string | null) => {
+    setSelectedId(conversationId)
+    onConversationChange?.(conversationId)
+  }
+
+  useEffect(() => {
+    if (initialConversationId) {
+      setSelectedId(initialConversationId)
+    }
+  }, [initialConversationId])
+
+  const selected = conversations.find(conversation => conversation.id === selectedId)
+
+  // A conversation that was just started may not be in the list yet
+  useEffect(() => {
+    if (selectedId && !selected && !isLoading) {
+      refresh()
+    }
+  }, [selectedId, !!selected, isLoading])
+
+  if (selected) {
+    return (
+      <MessageThread
+        userId={userId}
+        conversation={selected}
+        onBack={() => {
+          selectConversation(null)
+          refresh()
+        }}
+      />
+    )
+  }
+
+  if (isLoading) {
+    return (
+      <View style={{ alignItems: 'center', paddingVertical: 48 }}>
+        <ActivityIndicator size="large" color="#667eea" />
+      </View>
+    )
+  }
+
+  if (conversations.length === 0) {
+    return (
+      <View style={{
+        backgroundColor: '#ffffff',
+        borderRadius: 16,
+        padding: 48,
+        borderWidth: 1,
+        borderColor: '#e2e8f0',
+        alignItems: 'center',
+        gap: 16
+      }}>
+        <Text style={{ fontSize: 48 }}>💬</Text>
+        <Text style={{ fontSize: 18, fontWeight: '600', color: '#374151' }}>
+          No conversations yet
+        </Text>
+        <Text style={{ fontSize: 14, color: '#64748b', textAlign: 'center' }}>
+          Find someone in the developer directory and send them a message.
+        </Text>
+      </View>
+    )
+  }
+
+  return (
+    <View style={{
+      backgroundColor: '#ffffff',
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: '#e2e8f0',
+      overflow: 'hidden'
+    }}>
+      {conversations.map(conversation => (
+        <Pressable
+          key={conversation.id}
+          onPress={() => selectConversation(conversation.id)}
+          style={{
+            flexDirection: 'row',
+            alignItems: 'center',
+            gap: 12,
+            padding: 16,
+            borderBottomWidth: 1,
+            borderBottomColor: '#f1f5f9',
+            backgroundColor: conversation.unread_count > 0 ? '#f8faff' : '#ffffff'
+          }}
+        >
+          <Avatar
+            src={conversation.other_avatar_url}
+            name={conversation.other_full_name || undefined}
+            username={conversation.other_username || undefined}
+            size={44}
+          />
+          <View style={{ flex: 1, gap: 2 }}>
+            <View style={{ flexDirection: 'row', justifyContent: 'space-between', gap: 8 }}>
+              <Text style={{ fontSize: 15, fontWeight: conversation.unread_count > 0 ? '700' : '600', color: '#0f172a' }}>
+                {conversation.other_full_name || conversation.other_username || 'Developer'}
+              </Text>
+              {conversation.last_message_at && (
+                <Text style={{ fontSize: 12, color: '#94a3b8' }}>
+                  {new Date(conversation.last_message_at).toLocaleDateString()}
+                </Text>
+              )}
+            </View>
+            <Text style={{ fontSize: 13, color: '#64748b' }} numberOfLines={1}>
+              {conversation.last_message_preview || 'No messages yet'}
+            </Text>
+          </View>
+          {conversation.unread_count > 0 && (
+            <View style={{
+              backgroundColor: '#667eea',
+              borderRadius: 10,
+              minWidth: 20,
+              paddingHorizontal: 6,
+              paddingVertical: 2,
+              alignItems: 'center'
+            }}>
+              <Text style={{ fontSize: 11, fontWeight: '700', color: '#ffffff' }}>
+                {conversation.unread_count}
+              </Text>
+            </View>
+          )}
+        </Pressable>
+      ))}
+    </View>
+  )
+}
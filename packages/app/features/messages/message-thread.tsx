@@ -0,0 +1,187 @@
+'use client'
+
+import React, { useEffect, useRef, useState } from 'react'
+import { View, Text, Pressable, TextInput, ScrollView, ActivityIndicator } from 'react-native'
+import { Avatar } from '../../components/Avatar'
+import { useConversationThread } from '../../hooks/useMessages'
+import { ConversationSummary } from '../../utils/messaging'
+import { MESSAGE_MAX_LENGTH } from '../../utils/constants'
+
+interface MessageThreadProps {
+  userId: string
+  conversation: ConversationSummary
+  onBack?: () => void
+}
+
+export function MessageThread({ userId, conversation, onBack }: MessageThreadProps) {
+  const { messages, hasMore, isLoading, isSending, error, loadOlder, send } =
+    useConversationThread(userId, conversation.id)
+  const [draft, setDraft] = useState('')
+  const [hoveredButton, setHoveredButton] = useState<string | null>(null)
+  const scrollRef = useRef<ScrollView>(null)
+
+  const otherName = conversation.other_full_name || conversation.other_username || 'Developer'
+  const canSend = draft.trim().length > 0 && !isSending && conversation.other_accepts_messages
+
+  // Keep the newest message in view
+  useEffect(() => {
+    scrollRef.current?.scrollToEnd({ animated: true })
+  }, [messages.length])
+
+  const handleSend = async () => {
+    if (!canSend) return
+    const sent = await send(draft)
+    if (sent) {
+      setDraft('')
+    }
+  }
+
+  return (
+    <View style={{
+      flex: 1,
+      backgroundColor: '#ffffff',
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: '#e2e8f0',
+      overflow: 'hidden',
+      minHeight: 480
+    }}>
+      {/* Header */}
+      <View style={{
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        padding: 16,
+        borderBottomWidth: 1,
+        borderBottomColor: '#e2e8f0'
+      }}>
+        {onBack && (
+          <Pressable onPress={onBack} style={{ paddingRight: 4 }}>
+            <Text style={{ fontSize: 18, color: '#64748b' }}>←</Text>
+          </Pressable>
+        )}
+        <Avatar
+          src={conversation.other_avatar_url}
+          name={conversation.other_full_name || undefined}
+          username={conversation.other_username || undefined}
+          size={36}
+        />
+        <View style={{ flex: 1 }}>
+          <Text style={{ fontSize: 16, fontWeight: '700', color: '#0f172a' }}>
+            {otherName}
+          </Text>
+          {conversation.other_username && (
+            <Text style={{ fontSize: 12, color: '#64748b' }}>
+              @{conversation.other_username}
+            </Text>
+          )}
+        </View>
+      </View>
+
+      {/* Messages */}
+      <ScrollView
+        ref={scrollRef}
+        style={{ flex: 1, backgroundColor: '#f8fafc' }}
+        contentContainerStyle={{ padding: 16, gap: 8 }}
+      >
+        {hasMore && (
+          <Pressable onPress={loadOlder} style={{ alignSelf: 'center', paddingVertical: 8 }}>
+            <Text style={{ fontSize: 13, fontWeight: '600', color: '#667eea' }}>
+              Load earlier messages
+            </Text>
+          </Pressable>
+        )}
+
+        {isLoading ? (
+          <View style={{ alignItems: 'center', paddingVertical: 32 }}>
+            <ActivityIndicator size="small" color="#667eea" />
+          </View>
+        ) : messages.length === 0 ? (
+          <Text style={{ fontSize: 14, color: '#64748b', textAlign: 'center', paddingVertical: 32 }}>
+            Say hi to {otherName} 👋
+          </Text>
+        ) : (
+          messages.map(message => {
+            const isMine = message.sender_id === userId
+            return (
+              <View
+                key={message.id}
+                style={{
+                  alignSelf: isMine ? 'flex-end' : 'flex-start',
+                  maxWidth: '80%',
+                  backgroundColor: isMine ? '#667eea' : '#ffffff',
+                  borderRadius: 14,
+                  borderWidth: isMine ? 0 : 1,
+                  borderColor: '#e2e8f0',
+                  paddingHorizontal: 14,
+                  paddingVertical: 10,
+                  gap: 4
+                }}
+              >
+                <Text style={{ fontSize: 14, color: isMine ? '#ffffff' : '#0f172a', lineHeight: 20 }}>
+                  {message.body}
+                </Text>
+                <Text style={{ fontSize: 11, color: isMine ? '#e0e7ff' : '#94a3b8', alignSelf: 'flex-end' }}>
+                  {new Date(message.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  {isMine && message.read_at ? ' · Read' : ''}
+                </Text>
+              </View>
+            )
+          })
+        )}
+      </ScrollView>
+
+      {/* Composer */}
+      <View style={{ padding: 12, borderTopWidth: 1, borderTopColor: '#e2e8f0', gap: 8 }}>
+        {!conversation.other_accepts_messages && (
+          <Text style={{ fontSize: 12, color: '#991b1b' }}>
+            {otherName} has turned off direct messages.
+          </Text>
+        )}
+        {error && (
+          <Text style={{ fontSize: 12, color: '#ef4444', fontWeight: '500' }}>
+            {error}
+          </Text>
+        )}
+        <View style={{ flexDirection: 'row', alignItems: 'flex-end', gap: 8 }}>
+          <TextInput
+            style={{
+              flex: 1,
+              borderWidth: 2,
+              borderColor: '#e2e8f0',
+              borderRadius: 12,
+              paddingHorizontal: 14,
+              paddingVertical: 10,
+              fontSize: 14,
+              backgroundColor: '#ffffff',
+              maxHeight: 120
+            }}
+            placeholder={conversation.other_accepts_messages ? 'Write a message...' : 'Messaging unavailable'}
+            value={draft}
+            onChangeText={setDraft}
+            editable={conversation.other_accepts_messages}
+            multiline
+            maxLength={MESSAGE_MAX_LENGTH}
+          />
+          <Pressable
+            onPress={handleSend}
+            disabled={!canSend}
+            onHoverIn={() => setHoveredButton('send-message')}
+            onHoverOut={() => setHoveredButton(null)}
+            style={{
+              backgroundColor: canSend ?
+                (hoveredButton === 'send-message' ? '#5b6cf0' : '#667eea') : '#94a3b8',
+              borderRadius: 12,
+              paddingHorizontal: 16,
+              paddingVertical: 12
+            }}
+          >
+            <Text style={{ fontSize: 14, fontWeight: '700', color: '#ffffff' }}>
+              {isSending ? '...' : 'Send'}
+            </Text>
+          </Pressable>
+        </View>
+      </View>
+    </View>
+  )
+}
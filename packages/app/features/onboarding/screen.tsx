@@ -1,123 +1,116 @@
 'use client'
 
-import React, { useState } from 'react'
-import { View, Text, Pressable, TextInput, ScrollView, Alert } from 'react-native'
+import React, { useState, useEffect, useRef } from 'react'
+import { View, Text, Pressable, ScrollView, Alert, ActivityIndicator } from 'react-native'
 import { useAuth } from '../../provider/auth'
-import { supabase } from '../../lib/supabase'
 import { useAppRouter } from '../../hooks/useAppRouter'
+import { useOnboardingDraft } from '../../hooks/useOnboardingDraft'
+import { useOnboardingSteps } from '../../hooks/useOnboardingSteps'
 import {
-  validateFullName,
-  validateUsername,
-  validateAge,
-  validateEducationStatus,
-  validateCodingLanguages,
-  formatFullName,
-  formatUsername,
-  getCharacterCountInfo
-} from '../../utils/profileValidation'
-
-interface OnboardingData {
-  username: string
-  fullName: string
-  age: string
-  educationStatus: 'highschool' | 'college' | 'professional' | 'not_in_school' | ''
-  codingLanguages: string[]
-}
-
-const CODING_LANGUAGES = [
-  'JavaScript', 'TypeScript', 'Python', 'Java', 'C++', 'C#', 'Go', 'Rust',
-  'PHP', 'Ruby', 'Swift', 'Kotlin', 'Dart', 'HTML/CSS', 'SQL', 'R',
-  'Scala', 'Perl', 'Haskell', 'Lua', 'Assembly', 'MATLAB', 'Shell/Bash'
-]
-
-const EDUCATION_OPTIONS = [
-  { value: 'highschool', label: 'High School', icon: '🎓', description: 'Currently in high school' },
-  { value: 'college', label: 'College/University', icon: '🏫', description: 'Currently in college or university' },
-  { value: 'professional', label: 'Working Professional', icon: '💼', description: 'Working in the industry' },
-  { value: 'not_in_school', label: 'Self-Learning', icon: '📚', description: 'Learning independently' }
-]
+  buildOnboardingProfileUpdate,
+  fillEmptyAnswers,
+  OnboardingField,
+  validateOnboardingSteps
+} from '../../utils/onboardingSteps'
+import {
+  fetchGitHubLanguageProfile,
+  suggestCodingLanguages,
+  GitHubLanguageShare
+} from '../../utils/githubStats'
+import { LanguageBreakdownChart } from '../../components/LanguageBreakdownChart'
+import type { OwnProfileUpdate } from '../../utils/profiles'
+import {
+  getOnboardingPrefill,
+  INITIAL_ONBOARDING_DATA,
+  MAX_PROFILE_CODING_LANGUAGES,
+  ONBOARDING_STEPS,
+  OnboardingData
+} from './steps'
+import { OnboardingStepView } from './step-fields'
 
 export function OnboardingScreen() {
-  const { user } = useAuth()
+  const { user, profile, updateProfile } = useAuth()
   const router = useAppRouter()
-  const [currentStep, setCurrentStep] = useState(1)
   const [isLoading, setIsLoading] = useState(false)
   const [hoveredButton, setHoveredButton] = useState<string | null>(null)
-  
-  const [formData, setFormData] = useState<OnboardingData>({
-    username: '',
-    fullName: '',
-    age: '',
-    educationStatus: '',
-    codingLanguages: []
-  })
 
-  // Validation state for real-time feedback
-  const [validationErrors, setValidationErrors] = useState<Record<string, string>>({})
-
-  // Real-time field validation
-  const validateField = (fieldName: string, value: any) => {
-    let validation
-    
-    switch (fieldName) {
-      case 'fullName':
-        validation = validateFullName(value || '')
-        break
-      case 'username':
-        validation = validateUsername(value || '')
-        break
-      case 'age':
-        validation = validateAge(value || '')
-        break
-      case 'educationStatus':
-        validation = validateEducationStatus(value || '')
-        break
-      case 'codingLanguages':
-        // For onboarding, be more lenient - just check minimum requirement
-        const languages = value || []
-        if (languages.length === 0) {
-          validation = { isValid: false, error: "Please select at least one coding language" }
-        } else {
-          validation = { isValid: true }
-        }
-        break
-      default:
-        return
-    }
-    
-    setValidationErrors(prev => ({
-      ...prev,
-      [fieldName]: validation.isValid ? '' : validation.error || ''
-    }))
-  }
-
-  const handleLanguageToggle = (language: string) => {
-    const newLanguages = formData.codingLanguages.includes(language)
-      ? formData.codingLanguages.filter(lang => lang !== language)
-      : [...formData.codingLanguages, language]
-      
-    setFormData(prev => ({
-      ...prev,
-      codingLanguages: newLanguages
-    }))
-    
-    // Validate after selection
-    validateField('codingLanguages', newLanguages)
-  }
+  // Steps, answers and validation come from the definitions in ./steps
+  const {
+    data: formData,
+    setData: setFormData,
+    setAnswer,
+    errors: validationErrors,
+    setErrors: setValidationErrors,
+    checks,
+    step,
+    stepNumber,
+    stepCount,
+    activeSteps,
+    isFirstStep,
+    isLastStep,
+    canContinue,
+    goNext,
+    goBack,
+    skip,
+    restore
+  } = useOnboardingSteps<OnboardingData>(ONBOARDING_STEPS, INITIAL_ONBOARDING_DATA)
+
+  // Answers are saved as a draft so onboarding resumes after a reload or on another device
+  const { lastSavedAt, cancelPendingSave } = useOnboardingDraft({
+    step: stepNumber,
+    data: formData,
+    stepCount,
+    onRestore: restore
+  })
 
-  const handleNext = () => {
-    if (currentStep < 4) {
-      setCurrentStep(currentStep + 1)
-    }
-  }
+  // Prefill from the profile and the GitHub identity once the profile has loaded.
+  // Only empty answers are filled, so a restored draft or typed value always wins
+  const prefilledFor = useRef<string | null>(null)
+
+  useEffect(() => {
+    if (!user || !profile || prefilledFor.current === user.id) return
+    prefilledFor.current = user.id
+
+    // The username field's availability check flags a GitHub login someone else already has
+    setFormData(prev => fillEmptyAnswers(prev, getOnboardingPrefill(user, profile)))
+  }, [user?.id, profile?.id])
+
+  // Language breakdown from the user's GitHub repositories, used to suggest languages
+  const githubUsername: string | undefined = user?.user_metadata?.user_name || user?.user_metadata?.login
+  const [githubLanguages, setGithubLanguages] = useState<GitHubLanguageShare[]>([])
+  const [suggestedLanguages, setSuggestedLanguages] = useState<string[]>([])
+  const [isLoadingGithubLanguages, setIsLoadingGithubLanguages] = useState(false)
+
+  useEffect(() => {
+    if (!githubUsername) return
+
+    let cancelled = false
+    setIsLoadingGithubLanguages(true)
+
+    fetchGitHubLanguageProfile(githubUsername).then(result => {
+      if (cancelled) return
+      if (result.success && result.languages) {
+        const suggestions = suggestCodingLanguages(result.languages)
+        setGithubLanguages(result.languages)
+        setSuggestedLanguages(suggestions)
+
+        // Prefill only if the user hasn't started picking languages themselves
+        setFormData(prev => fillEmptyAnswers(prev, {
+          codingLanguages: suggestions.slice(0, MAX_PROFILE_CODING_LANGUAGES)
+        }))
+      } else {
+        console.log('⚠️ Could not derive languages from GitHub:', result.error)
+      }
+      setIsLoadingGithubLanguages(false)
+    })
 
-  const handleBack = () => {
-    if (currentStep > 1) {
-      setCurrentStep(currentStep - 1)
+    return () => {
+      cancelled = true
     }
-  }
+  }, [githubUsername])
 
-  const handleSubmit = async () => {
+  // `answers` is passed when the last step is skipped, before state has caught up
+  const handleSubmit = async (answers: OnboardingData = formData) => {
     console.log('🚀 Starting handleSubmit...')
     
     if (!user) {
@@ -128,30 +121,8 @@ export function OnboardingScreen() {
 
     console.log('✅ User found:', user.id)
 
-    // Comprehensive validation using our validation utility
-    const fullNameValid = validateFullName(formData.fullName || '')
-    const usernameValid = validateUsername(formData.username || '')
-    const ageValid = validateAge(formData.age || '')
-    const educationValid = validateEducationStatus(formData.educationStatus || '')
-    
-    // For onboarding, be more lenient with languages - just check minimum
-    const hasLanguages = formData.codingLanguages && formData.codingLanguages.length > 0
-    
-    console.log('🔍 Validation results:', {
-      fullNameValid: fullNameValid.isValid,
-      usernameValid: usernameValid.isValid,
-      ageValid: ageValid.isValid,
-      educationValid: educationValid.isValid,
-      hasLanguages
-    })
-    
-    // Collect all validation errors
-    const errors = []
-    if (!fullNameValid.isValid) errors.push(`Full Name: ${fullNameValid.error}`)
-    if (!usernameValid.isValid) errors.push(`Username: ${usernameValid.error}`)
-    if (!ageValid.isValid) errors.push(`Age: ${ageValid.error}`)
-    if (!educationValid.isValid) errors.push(`Education: ${educationValid.error}`)
-    if (!hasLanguages) errors.push(`Languages: Please select at least one coding language`)
+    // Every active step is checked again; skipped steps may be left empty
+    const errors = validateOnboardingSteps(ONBOARDING_STEPS, answers)
     
     if (errors.length > 0) {
       console.error('❌ Profile validation failed:', errors)
@@ -165,31 +136,27 @@ export function OnboardingScreen() {
 
     console.log('✅ All validation passed, starting database update...')
     setIsLoading(true)
+    // Completing onboarding clears the draft; a late draft save must not follow it
+    cancelPendingSave()
 
     try {
-      // Format data before saving
-      const formattedData = {
-        username: formatUsername(formData.username || ''),
-        full_name: formatFullName(formData.fullName || ''),
-        age: parseInt(formData.age || '0'),
-        education_status: formData.educationStatus,
-        coding_languages: formData.codingLanguages.slice(0, 15), // Limit to 15 for database
-        onboarding_completed: true,
-        updated_at: new Date().toISOString()
+      // Columns come from the step definitions, formatted for the database
+      const formattedData: OwnProfileUpdate = {
+        ...buildOnboardingProfileUpdate(ONBOARDING_STEPS, answers),
+        ...(githubLanguages.length > 0 && { github_language_breakdown: githubLanguages }),
+        onboarding_completed: true
       }
 
       console.log('📝 Formatted data for database:', formattedData)
 
-      const { error } = await supabase
-        .from('profiles')
-        .update(formattedData)
-        .eq('id', user.id)
+      // Also updates the cached profile, which the dashboard guard checks
+      const result = await updateProfile(formattedData)
 
-      if (error) {
-        console.error('❌ Onboarding update error:', error)
+      if (!result.success) {
+        console.error('❌ Onboarding update error:', result.error)
         Alert.alert(
           'Update Failed',
-          error.message || 'Failed to save your information. Please try again.',
+          result.error || 'Failed to save your information. Please try again.',
           [{ text: 'OK', style: 'default' }]
         )
         return
@@ -219,8 +186,8 @@ export function OnboardingScreen() {
       setValidationErrors({})
       
       // Check if we had to trim languages
-      const languageMessage = formData.codingLanguages.length > 15 
-        ? `Your profile has been set up successfully! We've saved your top 15 programming languages - you can update this anytime in your dashboard.`
+      const languageMessage = answers.codingLanguages.length > MAX_PROFILE_CODING_LANGUAGES
+        ? `Your profile has been set up successfully! We've saved your top ${MAX_PROFILE_CODING_LANGUAGES} programming languages - you can update this anytime in your dashboard.`
         : 'Your profile has been set up successfully. Let\'s get started!'
       
       console.log('🎉 Showing success alert...')
@@ -256,409 +223,61 @@ export function OnboardingScreen() {
     }
   }
 
-  const isStepValid = () => {
-    switch (currentStep) {
-      case 1:
-        const fullNameValid = validateFullName(formData.fullName || '')
-        const usernameValid = validateUsername(formData.username || '')
-        return fullNameValid.isValid && usernameValid.isValid
-      case 2:
-        const ageValid = validateAge(formData.age || '')
-        return ageValid.isValid
-      case 3:
-        const educationValid = validateEducationStatus(formData.educationStatus || '')
-        return educationValid.isValid
-      case 4:
-        // For onboarding, just check if at least 1 language is selected
-        // We'll allow more than 15 for now and fix it later in dashboard
-        return formData.codingLanguages && formData.codingLanguages.length > 0
-      default:
-        return false
-    }
+  const handleSkip = () => {
+    const answers = skip()
+    if (isLastStep) handleSubmit(answers)
   }
 
-  const renderStep = () => {
-    switch (currentStep) {
-      case 1:
-        return (
-          <View style={{ gap: 24 }}>
-            <View style={{ alignItems: 'center', gap: 12 }}>
-              <Text style={{ fontSize: 28, fontWeight: '800', color: '#0f172a', textAlign: 'center' }}>
-                Welcome to DevRecruit! 👋
-              </Text>
-              <Text style={{ fontSize: 16, color: '#64748b', textAlign: 'center', lineHeight: 24 }}>
-                Let's set up your developer profile
-              </Text>
-            </View>
-
-            <View style={{ gap: 20 }}>
-              <View style={{ gap: 8 }}>
-                <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' }}>
-                  <Text style={{ fontSize: 14, fontWeight: '600', color: '#374151' }}>
-                    Username *
-                  </Text>
-                  <Text style={{
-                    fontSize: 12,
-                    color: (() => {
-                      const len = formData.username?.length || 0
-                      if (len > 22) return '#ef4444'
-                      if (len >= 18) return '#f59e0b'
-                      return '#64748b'
-                    })()
-                  }}>
-                    {formData.username?.length || 0}/22
-                  </Text>
-                </View>
-                <TextInput
-                  style={{
-                    borderWidth: 2,
-                    borderColor: (() => {
-                      if (validationErrors.username) return '#ef4444'
-                      if (formData.username && validateUsername(formData.username).isValid) return '#10b981'
-                      return '#e2e8f0'
-                    })(),
-                    borderRadius: 12,
-                    paddingHorizontal: 16,
-                    paddingVertical: 14,
-                    fontSize: 16,
-                    backgroundColor: '#ffffff'
-                  }}
-                  placeholder="Choose a unique username (3-22 characters)"
-                  value={formData.username}
-                  onChangeText={(text) => {
-                    const formatted = formatUsername(text)
-                    setFormData(prev => ({ ...prev, username: formatted }))
-                    validateField('username', formatted)
-                  }}
-                  maxLength={22}
-                />
-                {validationErrors.username ? (
-                  <Text style={{
-                    fontSize: 12,
-                    color: '#ef4444',
-                    fontWeight: '500'
-                  }}>
-                    {validationErrors.username}
-                  </Text>
-                ) : formData.username && validateUsername(formData.username).isValid ? (
-                  <Text style={{
-                    fontSize: 12,
-                    color: '#10b981',
-                    fontWeight: '500'
-                  }}>
-                    ✓ Username looks great!
-                  </Text>
-                ) : (
-                  <Text style={{ fontSize: 12, color: '#64748b' }}>
-                    This will be your public username on DevRecruit
-                  </Text>
-                )}
-              </View>
-
-              <View style={{ gap: 8 }}>
-                <Text style={{ fontSize: 14, fontWeight: '600', color: '#374151' }}>
-                  Full Name *
-                </Text>
-                <TextInput
-                  style={{
-                    borderWidth: 2,
-                    borderColor: (() => {
-                      if (validationErrors.fullName) return '#ef4444'
-                      if (formData.fullName && validateFullName(formData.fullName).isValid) return '#10b981'
-                      return '#e2e8f0'
-                    })(),
-                    borderRadius: 12,
-                    paddingHorizontal: 16,
-                    paddingVertical: 14,
-                    fontSize: 16,
-                    backgroundColor: '#ffffff'
-                  }}
-                  placeholder="Enter your first and last name"
-                  value={formData.fullName}
-                  onChangeText={(text) => {
-                    setFormData(prev => ({ ...prev, fullName: text }))
-                    validateField('fullName', text)
-                  }}
-                  maxLength={50}
-                />
-                {validationErrors.fullName ? (
-                  <Text style={{
-                    fontSize: 12,
-                    color: '#ef4444',
-                    fontWeight: '500'
-                  }}>
-                    {validationErrors.fullName}
-                  </Text>
-                ) : formData.fullName && validateFullName(formData.fullName).isValid ? (
-                  <Text style={{
-                    fontSize: 12,
-                    color: '#10b981',
-                    fontWeight: '500'
-                  }}>
-                    ✓ Name looks perfect!
-                  </Text>
-                ) : (
-                  <Text style={{ fontSize: 12, color: '#64748b' }}>
-                    Please enter your first and last name
-                  </Text>
-                )}
-              </View>
-            </View>
-          </View>
-        )
-
-      case 2:
-        return (
-          <View style={{ gap: 24 }}>
-            <View style={{ alignItems: 'center', gap: 12 }}>
-              <Text style={{ fontSize: 28, fontWeight: '800', color: '#0f172a', textAlign: 'center' }}>
-                Tell us about yourself 🎂
-              </Text>
-              <Text style={{ fontSize: 16, color: '#64748b', textAlign: 'center', lineHeight: 24 }}>
-                This helps us connect you with the right opportunities
-              </Text>
-            </View>
+  // GitHub suggestions sit above the language picker
+  const renderFieldExtra = (field: OnboardingField<OnboardingData>) => {
+    if (field.name !== 'codingLanguages') return null
 
-            <View style={{ gap: 8 }}>
-              <Text style={{ fontSize: 14, fontWeight: '600', color: '#374151' }}>
-                Age *
-              </Text>
-              <TextInput
-                style={{
-                  borderWidth: 2,
-                  borderColor: (() => {
-                    if (validationErrors.age) return '#ef4444'
-                    if (formData.age && validateAge(formData.age).isValid) return '#10b981'
-                    return '#e2e8f0'
-                  })(),
-                  borderRadius: 12,
-                  paddingHorizontal: 16,
-                  paddingVertical: 14,
-                  fontSize: 16,
-                  backgroundColor: '#ffffff'
-                }}
-                placeholder="Enter your age (13+)"
-                value={formData.age}
-                onChangeText={(text) => {
-                  const numericText = text.replace(/[^0-9]/g, '')
-                  setFormData(prev => ({ ...prev, age: numericText }))
-                  validateField('age', numericText)
-                }}
-                keyboardType="numeric"
-                maxLength={3}
-              />
-              {validationErrors.age ? (
-                <Text style={{
-                  fontSize: 12,
-                  color: '#ef4444',
-                  fontWeight: '500'
-                }}>
-                  {validationErrors.age}
-                </Text>
-              ) : formData.age && validateAge(formData.age).isValid ? (
-                <Text style={{
-                  fontSize: 12,
-                  color: '#10b981',
-                  fontWeight: '500'
-                }}>
-                  ✓ Age verified
-                </Text>
-              ) : (
-                <Text style={{ fontSize: 12, color: '#64748b' }}>
-                  Must be 13 or older to use DevRecruit
-                </Text>
-              )}
-            </View>
-          </View>
-        )
-
-      case 3:
-        return (
-          <View style={{ gap: 24 }}>
-            <View style={{ alignItems: 'center', gap: 12 }}>
-              <Text style={{ fontSize: 28, fontWeight: '800', color: '#0f172a', textAlign: 'center' }}>
-                What's your current status? 📚
-              </Text>
-              <Text style={{ fontSize: 16, color: '#64748b', textAlign: 'center', lineHeight: 24 }}>
-                This helps us understand your experience level
-              </Text>
-            </View>
+    if (isLoadingGithubLanguages) {
+      return (
+        <View style={{ flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 8 }}>
+          <ActivityIndicator size="small" color="#667eea" />
+          <Text style={{ fontSize: 14, color: '#64748b' }}>
+            Looking at your GitHub repositories...
+          </Text>
+        </View>
+      )
+    }
 
-            <View style={{ gap: 16 }}>
-              {EDUCATION_OPTIONS.map((option) => (
-                <Pressable
-                  key={option.value}
-                  onPress={() => {
-                    setFormData(prev => ({ ...prev, educationStatus: option.value as any }))
-                    validateField('educationStatus', option.value)
-                  }}
-                  style={{
-                    borderWidth: 2,
-                    borderColor: formData.educationStatus === option.value ? '#667eea' : '#e2e8f0',
-                    backgroundColor: formData.educationStatus === option.value ? '#f8fafc' : '#ffffff',
-                    borderRadius: 16,
-                    padding: 20,
-                    flexDirection: 'row',
-                    alignItems: 'center',
-                    gap: 16
-                  }}
-                >
-                  <View style={{
-                    width: 48,
-                    height: 48,
-                    backgroundColor: formData.educationStatus === option.value ? '#667eea' : '#f8fafc',
-                    borderRadius: 12,
-                    justifyContent: 'center',
-                    alignItems: 'center'
-                  }}>
-                    <Text style={{ fontSize: 20 }}>{option.icon}</Text>
-                  </View>
-                  
-                  <View style={{ flex: 1 }}>
-                    <Text style={{
-                      fontSize: 16,
-                      fontWeight: '700',
-                      color: formData.educationStatus === option.value ? '#667eea' : '#0f172a',
-                      marginBottom: 4
-                    }}>
-                      {option.label}
-                    </Text>
-                    <Text style={{
-                      fontSize: 14,
-                      color: '#64748b'
-                    }}>
-                      {option.description}
-                    </Text>
-                  </View>
-
-                  {formData.educationStatus === option.value ? (
-                    <View style={{
-                      width: 24,
-                      height: 24,
-                      backgroundColor: '#667eea',
-                      borderRadius: 12,
-                      justifyContent: 'center',
-                      alignItems: 'center'
-                    }}>
-                      <Text style={{ color: '#ffffff', fontSize: 16, fontWeight: 'bold' }}>✓</Text>
-                    </View>
-                  ) : null}
-                </Pressable>
-              ))}
-              
-              {validationErrors.educationStatus ? (
-                <Text style={{
-                  fontSize: 12,
-                  color: '#ef4444',
-                  fontWeight: '500',
-                  textAlign: 'center',
-                  marginTop: 8
-                }}>
-                  {validationErrors.educationStatus}
-                </Text>
-              ) : null}
-            </View>
-          </View>
-        )
+    if (githubLanguages.length === 0) return null
 
-      case 4:
-        return (
-          <View style={{ gap: 24 }}>
-            <View style={{ alignItems: 'center', gap: 12 }}>
-              <Text style={{ fontSize: 28, fontWeight: '800', color: '#0f172a', textAlign: 'center' }}>
-                What languages do you code in? 💻
-              </Text>
-              <Text style={{ fontSize: 16, color: '#64748b', textAlign: 'center', lineHeight: 24 }}>
-                Select all that apply (you can always update this later)
-              </Text>
-            </View>
+    const missingSuggestions = suggestedLanguages.filter(language => !formData.codingLanguages.includes(language))
 
-            <View style={{
-              flexDirection: 'row',
-              flexWrap: 'wrap',
-              gap: 12,
-              justifyContent: 'center'
+    return (
+      <View style={{
+        backgroundColor: '#f8fafc',
+        borderRadius: 12,
+        padding: 16,
+        borderWidth: 1,
+        borderColor: '#e2e8f0',
+        gap: 12
+      }}>
+        <Text style={{ fontSize: 14, fontWeight: '600', color: '#374151' }}>
+          Your GitHub languages
+        </Text>
+        <LanguageBreakdownChart languages={githubLanguages} />
+        {missingSuggestions.length > 0 && (
+          <Pressable
+            onPress={() => setAnswer('codingLanguages', [...formData.codingLanguages, ...missingSuggestions])}
+            onHoverIn={() => setHoveredButton('github-languages')}
+            onHoverOut={() => setHoveredButton(null)}
+            style={{ alignSelf: 'flex-start' }}
+          >
+            <Text style={{
+              fontSize: 14,
+              fontWeight: '600',
+              color: hoveredButton === 'github-languages' ? '#5b6cf0' : '#667eea'
             }}>
-              {CODING_LANGUAGES.map((language) => (
-                <Pressable
-                  key={language}
-                  onPress={() => handleLanguageToggle(language)}
-                  style={{
-                    borderWidth: 2,
-                    borderColor: formData.codingLanguages.includes(language) ? '#667eea' : '#e2e8f0',
-                    backgroundColor: formData.codingLanguages.includes(language) ? '#667eea' : '#ffffff',
-                    borderRadius: 20,
-                    paddingHorizontal: 16,
-                    paddingVertical: 8
-                  }}
-                >
-                  <Text style={{
-                    fontSize: 14,
-                    fontWeight: '600',
-                    color: formData.codingLanguages.includes(language) ? '#ffffff' : '#64748b'
-                  }}>
-                    {language}
-                  </Text>
-                </Pressable>
-              ))}
-            </View>
-
-            {validationErrors.codingLanguages ? (
-              <Text style={{
-                fontSize: 12,
-                color: '#ef4444',
-                fontWeight: '500',
-                textAlign: 'center',
-                marginTop: 8
-              }}>
-                {validationErrors.codingLanguages}
-              </Text>
-            ) : null}
-
-            {formData.codingLanguages.length > 0 ? (
-              <View style={{
-                backgroundColor: formData.codingLanguages.length > 15 ? '#fef2f2' : '#f8fafc',
-                borderRadius: 12,
-                padding: 16,
-                borderWidth: 1,
-                borderColor: formData.codingLanguages.length > 15 ? '#fecaca' : '#e2e8f0'
-              }}>
-                <Text style={{ 
-                  fontSize: 14, 
-                  fontWeight: '600', 
-                  color: formData.codingLanguages.length > 15 ? '#dc2626' : '#374151', 
-                  marginBottom: 8 
-                }}>
-                  Selected ({formData.codingLanguages.length}/15):
-                </Text>
-                <Text style={{ fontSize: 14, color: '#64748b', marginBottom: 8 }}>
-                  {formData.codingLanguages.join(', ')}
-                </Text>
-                {formData.codingLanguages.length > 15 ? (
-                  <Text style={{
-                    fontSize: 12,
-                    color: '#dc2626',
-                    fontWeight: '500'
-                  }}>
-                    Please select no more than 15 languages to keep your profile focused
-                  </Text>
-                ) : formData.codingLanguages.length >= 1 ? (
-                  <Text style={{
-                    fontSize: 12,
-                    color: '#10b981',
-                    fontWeight: '500'
-                  }}>
-                    ✓ Great selection!
-                  </Text>
-                ) : null}
-              </View>
-            ) : null}
-          </View>
-        )
-
-      default:
-        return null
-    }
+              + Add suggested: {missingSuggestions.join(', ')}
+            </Text>
+          </Pressable>
+        )}
+      </View>
+    )
   }
 
   return (
@@ -681,13 +300,13 @@ export function OnboardingScreen() {
             marginBottom: 40,
             justifyContent: 'center'
           }}>
-            {[1, 2, 3, 4].map((step) => (
+            {activeSteps.map((activeStep, index) => (
               <View
-                key={step}
+                key={activeStep.id}
                 style={{
                   flex: 1,
                   height: 4,
-                  backgroundColor: step <= currentStep ? '#667eea' : '#e2e8f0',
+                  backgroundColor: index < stepNumber ? '#667eea' : '#e2e8f0',
                   borderRadius: 2,
                   maxWidth: 60
                 }}
@@ -708,7 +327,14 @@ export function OnboardingScreen() {
             borderWidth: 1,
             borderColor: '#e2e8f0'
           }}>
-            {renderStep()}
+            <OnboardingStepView
+              step={step}
+              data={formData}
+              errors={validationErrors}
+              checks={checks}
+              onChange={setAnswer}
+              renderFieldExtra={renderFieldExtra}
+            />
 
             {/* Navigation Buttons */}
             <View style={{
@@ -717,9 +343,9 @@ export function OnboardingScreen() {
               marginTop: 32,
               gap: 16
             }}>
-              {currentStep > 1 ? (
+              {!isFirstStep ? (
                 <Pressable
-                  onPress={handleBack}
+                  onPress={goBack}
                   onHoverIn={() => setHoveredButton('back')}
                   onHoverOut={() => setHoveredButton(null)}
                   style={{
@@ -766,13 +392,13 @@ export function OnboardingScreen() {
               )}
 
               <Pressable
-                onPress={currentStep === 4 ? handleSubmit : handleNext}
-                disabled={!isStepValid() || isLoading}
+                onPress={isLastStep ? () => handleSubmit() : goNext}
+                disabled={!canContinue || isLoading}
                 onHoverIn={() => setHoveredButton('next')}
                 onHoverOut={() => setHoveredButton(null)}
                 style={{
                   flex: 1,
-                  backgroundColor: isStepValid() && !isLoading ? 
+                  backgroundColor: canContinue && !isLoading ? 
                     (hoveredButton === 'next' ? '#5b6cf0' : '#667eea') : '#94a3b8',
                   borderRadius: 12,
                   paddingVertical: 14,
@@ -784,10 +410,28 @@ export function OnboardingScreen() {
                   fontWeight: '700',
                   color: '#ffffff'
                 }}>
-                  {isLoading ? 'Saving...' : currentStep === 4 ? 'Complete Setup' : 'Next'}
+                  {isLoading ? 'Saving...' : isLastStep ? 'Complete Setup' : 'Next'}
                 </Text>
               </Pressable>
             </View>
+
+            {step.skippable ? (
+              <Pressable
+                onPress={handleSkip}
+                disabled={isLoading}
+                onHoverIn={() => setHoveredButton('skip')}
+                onHoverOut={() => setHoveredButton(null)}
+                style={{ alignSelf: 'center', marginTop: 16 }}
+              >
+                <Text style={{
+                  fontSize: 14,
+                  fontWeight: '600',
+                  color: hoveredButton === 'skip' ? '#475569' : '#94a3b8'
+                }}>
+                  {isLastStep ? 'Skip and finish' : 'Skip this step'}
+                </Text>
+              </Pressable>
+            ) : null}
           </View>
 
           {/* Step Indicator */}
@@ -798,8 +442,18 @@ export function OnboardingScreen() {
             color: '#64748b',
             fontWeight: '500'
           }}>
-            Step {currentStep} of 4
+            Step {stepNumber} of {stepCount}
           </Text>
+          {lastSavedAt && (
+            <Text style={{
+              textAlign: 'center',
+              marginTop: 4,
+              fontSize: 12,
+              color: '#94a3b8'
+            }}>
+              Progress saved · you can finish on any device
+            </Text>
+          )}
         </View>
       </View>
     </ScrollView>
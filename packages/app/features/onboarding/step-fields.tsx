@@ -0,0 +1,388 @@
+'use client'
+
+import React from 'react'
+import { View, Text, Pressable, TextInput } from 'react-native'
+import { Avatar } from '../../components/Avatar'
+import { AsyncFieldCheck, IDLE_FIELD_CHECK } from '../../hooks/useAsyncFieldChecks'
+import {
+  OnboardingAvatarField,
+  OnboardingField,
+  OnboardingMultiSelectField,
+  OnboardingSelectField,
+  OnboardingStep,
+  OnboardingTextField,
+  validateOnboardingField
+} from '../../utils/onboardingSteps'
+
+interface OnboardingStepViewProps<T> {
+  step: OnboardingStep<T>
+  data: T
+  // Errors for touched fields
+  errors: Record<string, string>
+  // Async rule results (e.g. username availability) by field name
+  checks?: Record<string, AsyncFieldCheck>
+  onChange: (name: keyof T & string, value: any) => void
+  // Screen-specific content shown above a field (e.g. GitHub language suggestions)
+  renderFieldExtra?: (field: OnboardingField<T>) => React.ReactNode
+}
+
+interface FieldProps<T, F> {
+  field: F
+  value: any
+  error: string
+  isValid: boolean
+  required: boolean
+  check: AsyncFieldCheck
+  onChange: (name: keyof T & string, value: any) => void
+}
+
+function FieldError({ error }: { error: string }) {
+  if (!error) return null
+  return (
+    <Text style={{
+      fontSize: 12,
+      color: '#ef4444',
+      fontWeight: '500',
+      textAlign: 'center',
+      marginTop: 8
+    }}>
+      {error}
+    </Text>
+  )
+}
+
+function TextField<T>({ field, value, error, isValid, required, check, onChange }: FieldProps<T, OnboardingTextField<T>>) {
+  const text: string = value || ''
+  const checkError = check.status === 'invalid' ? check.error : ''
+  const hasValidValue = !!text && isValid && (check.status === 'idle' || check.status === 'valid')
+  const shownError = error || checkError
+
+  return (
+    <View style={{ gap: 8 }}>
+      <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' }}>
+        <Text style={{ fontSize: 14, fontWeight: '600', color: '#374151' }}>
+          {field.label}{required ? ' *' : ''}
+        </Text>
+        {field.showCount && field.maxLength ? (
+          <Text style={{
+            fontSize: 12,
+            color: text.length > field.maxLength ? '#ef4444' : text.length >= field.maxLength - 4 ? '#f59e0b' : '#64748b'
+          }}>
+            {text.length}/{field.maxLength}
+          </Text>
+        ) : null}
+      </View>
+      <TextInput
+        style={{
+          borderWidth: 2,
+          borderColor: shownError ? '#ef4444' : hasValidValue ? '#10b981' : '#e2e8f0',
+          borderRadius: 12,
+          paddingHorizontal: 16,
+          paddingVertical: 14,
+          fontSize: 16,
+          backgroundColor: '#ffffff',
+          ...(field.multiline && { minHeight: 100, textAlignVertical: 'top' as const })
+        }}
+        placeholder={field.placeholder}
+        value={text}
+        onChangeText={(input) => onChange(field.name, field.format ? field.format(input) : input)}
+        keyboardType={field.keyboardType}
+        maxLength={field.maxLength}
+        multiline={field.multiline}
+        numberOfLines={field.multiline ? 4 : undefined}
+      />
+      {shownError ? (
+        <Text style={{
+          fontSize: 12,
+          color: '#ef4444',
+          fontWeight: '500'
+        }}>
+          {shownError}
+        </Text>
+      ) : check.status === 'checking' ? (
+        <Text style={{ fontSize: 12, color: '#64748b' }}>
+          Checking availability...
+        </Text>
+      ) : hasValidValue && field.validText ? (
+        <Text style={{
+          fontSize: 12,
+          color: '#10b981',
+          fontWeight: '500'
+        }}>
+          {field.validText}
+        </Text>
+      ) : field.helperText ? (
+        <Text style={{ fontSize: 12, color: '#64748b' }}>
+          {field.helperText}
+        </Text>
+      ) : null}
+      {!error && checkError && check.suggestions.length > 0 ? (
+        <View style={{ flexDirection: 'row', flexWrap: 'wrap', alignItems: 'center', gap: 8 }}>
+          <Text style={{ fontSize: 12, color: '#64748b' }}>Try:</Text>
+          {check.suggestions.map(suggestion => (
+            <Pressable
+              key={suggestion}
+              onPress={() => onChange(field.name, suggestion)}
+              style={{
+                borderWidth: 1,
+                borderColor: '#c7d2fe',
+                backgroundColor: '#f0f4ff',
+                borderRadius: 14,
+                paddingHorizontal: 10,
+                paddingVertical: 4
+              }}
+            >
+              <Text style={{ fontSize: 12, fontWeight: '600', color: '#667eea' }}>
+                {suggestion}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+      ) : null}
+    </View>
+  )
+}
+
+function AvatarField<T>({ field, value, error, onChange }: FieldProps<T, OnboardingAvatarField<T>>) {
+  return (
+    <View style={{ gap: 8 }}>
+      <Text style={{ fontSize: 14, fontWeight: '600', color: '#374151' }}>
+        {field.label}
+      </Text>
+      {value ? (
+        <View style={{ flexDirection: 'row', alignItems: 'center', gap: 16 }}>
+          <Avatar src={value} size={64} />
+          <Pressable onPress={() => onChange(field.name, '')}>
+            <Text style={{ fontSize: 14, fontWeight: '600', color: '#64748b' }}>
+              Remove photo
+            </Text>
+          </Pressable>
+        </View>
+      ) : field.helperText ? (
+        <Text style={{ fontSize: 12, color: '#64748b' }}>
+          {field.helperText}
+        </Text>
+      ) : null}
+      {error ? (
+        <Text style={{ fontSize: 12, color: '#ef4444', fontWeight: '500' }}>
+          {error}
+        </Text>
+      ) : null}
+    </View>
+  )
+}
+
+function SelectField<T>({ field, value, error, onChange }: FieldProps<T, OnboardingSelectField<T>>) {
+  return (
+    <View style={{ gap: 16 }}>
+      {field.options.map((option) => {
+        const isSelected = value === option.value
+
+        return (
+          <Pressable
+            key={option.value}
+            onPress={() => onChange(field.name, option.value)}
+            style={{
+              borderWidth: 2,
+              borderColor: isSelected ? '#667eea' : '#e2e8f0',
+              backgroundColor: isSelected ? '#f8fafc' : '#ffffff',
+              borderRadius: 16,
+              padding: 20,
+              flexDirection: 'row',
+              alignItems: 'center',
+              gap: 16
+            }}
+          >
+            {option.icon ? (
+              <View style={{
+                width: 48,
+                height: 48,
+                backgroundColor: isSelected ? '#667eea' : '#f8fafc',
+                borderRadius: 12,
+                justifyContent: 'center',
+                alignItems: 'center'
+              }}>
+                <Text style={{ fontSize: 20 }}>{option.icon}</Text>
+              </View>
+            ) : null}
+
+            <View style={{ flex: 1 }}>
+              <Text style={{
+                fontSize: 16,
+                fontWeight: '700',
+                color: isSelected ? '#667eea' : '#0f172a',
+                marginBottom: 4
+              }}>
+                {option.label}
+              </Text>
+              {option.description ? (
+                <Text style={{
+                  fontSize: 14,
+                  color: '#64748b'
+                }}>
+                  {option.description}
+                </Text>
+              ) : null}
+            </View>
+
+            {isSelected ? (
+              <View style={{
+                width: 24,
+                height: 24,
+                backgroundColor: '#667eea',
+                borderRadius: 12,
+                justifyContent: 'center',
+                alignItems: 'center'
+              }}>
+                <Text style={{ color: '#ffffff', fontSize: 16, fontWeight: 'bold' }}>✓</Text>
+              </View>
+            ) : null}
+          </Pressable>
+        )
+      })}
+
+      <FieldError error={error} />
+    </View>
+  )
+}
+
+function MultiSelectField<T>({ field, value, error, onChange }: FieldProps<T, OnboardingMultiSelectField<T>>) {
+  const selected: string[] = value || []
+  const isOverMax = !!field.recommendedMax && selected.length > field.recommendedMax
+  const labelFor = (optionValue: string) =>
+    field.options.find(option => option.value === optionValue)?.label || optionValue
+
+  const toggle = (optionValue: string) => {
+    onChange(
+      field.name,
+      selected.includes(optionValue)
+        ? selected.filter(item => item !== optionValue)
+        : [...selected, optionValue]
+    )
+  }
+
+  return (
+    <View style={{ gap: 24 }}>
+      <View style={{
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 12,
+        justifyContent: 'center'
+      }}>
+        {field.options.map((option) => {
+          const isSelected = selected.includes(option.value)
+
+          return (
+            <Pressable
+              key={option.value}
+              onPress={() => toggle(option.value)}
+              style={{
+                borderWidth: 2,
+                borderColor: isSelected ? '#667eea' : '#e2e8f0',
+                backgroundColor: isSelected ? '#667eea' : '#ffffff',
+                borderRadius: 20,
+                paddingHorizontal: 16,
+                paddingVertical: 8
+              }}
+            >
+              <Text style={{
+                fontSize: 14,
+                fontWeight: '600',
+                color: isSelected ? '#ffffff' : '#64748b'
+              }}>
+                {option.icon ? `${option.icon} ` : ''}{option.label}
+              </Text>
+            </Pressable>
+          )
+        })}
+      </View>
+
+      <FieldError error={error} />
+
+      {selected.length > 0 ? (
+        <View style={{
+          backgroundColor: isOverMax ? '#fef2f2' : '#f8fafc',
+          borderRadius: 12,
+          padding: 16,
+          borderWidth: 1,
+          borderColor: isOverMax ? '#fecaca' : '#e2e8f0'
+        }}>
+          <Text style={{
+            fontSize: 14,
+            fontWeight: '600',
+            color: isOverMax ? '#dc2626' : '#374151',
+            marginBottom: 8
+          }}>
+            Selected ({selected.length}{field.recommendedMax ? `/${field.recommendedMax}` : ''}):
+          </Text>
+          <Text style={{ fontSize: 14, color: '#64748b', marginBottom: 8 }}>
+            {selected.map(labelFor).join(', ')}
+          </Text>
+          {isOverMax ? (
+            <Text style={{
+              fontSize: 12,
+              color: '#dc2626',
+              fontWeight: '500'
+            }}>
+              Please select no more than {field.recommendedMax} to keep your profile focused
+            </Text>
+          ) : (
+            <Text style={{
+              fontSize: 12,
+              color: '#10b981',
+              fontWeight: '500'
+            }}>
+              ✓ Great selection!
+            </Text>
+          )}
+        </View>
+      ) : null}
+    </View>
+  )
+}
+
+/**
+ * Heading and fields of one onboarding step, rendered from its definition
+ */
+export function OnboardingStepView<T>({ step, data, errors, checks = {}, onChange, renderFieldExtra }: OnboardingStepViewProps<T>) {
+  return (
+    <View style={{ gap: 24 }}>
+      <View style={{ alignItems: 'center', gap: 12 }}>
+        <Text style={{ fontSize: 28, fontWeight: '800', color: '#0f172a', textAlign: 'center' }}>
+          {step.title}
+        </Text>
+        <Text style={{ fontSize: 16, color: '#64748b', textAlign: 'center', lineHeight: 24 }}>
+          {step.subtitle}
+        </Text>
+      </View>
+
+      <View style={{ gap: 20 }}>
+        {step.fields.map((field) => {
+          const props = {
+            value: data[field.name],
+            error: errors[field.name] || '',
+            isValid: !validateOnboardingField(step, field, data),
+            required: !!field.rules.required && !step.skippable,
+            check: checks[field.name] || IDLE_FIELD_CHECK,
+            onChange
+          }
+
+          return (
+            <View key={field.name} style={{ gap: 24 }}>
+              {renderFieldExtra?.(field)}
+              {field.kind === 'text' ? (
+                <TextField field={field} {...props} />
+              ) : field.kind === 'select' ? (
+                <SelectField field={field} {...props} />
+              ) : field.kind === 'avatar' ? (
+                <AvatarField field={field} {...props} />
+              ) : (
+                <MultiSelectField field={field} {...props} />
+              )}
+            </View>
+          )
+        })}
+      </View>
+    </View>
+  )
+}
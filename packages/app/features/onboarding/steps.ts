@@ -0,0 +1,173 @@
+import type { User } from '@supabase/supabase-js'
+import { CODING_LANGUAGES, EDUCATION_OPTIONS } from '../../utils/constants'
+import { keepValidAnswers, OnboardingStep } from '../../utils/onboardingSteps'
+import { OwnProfile, USERNAME_AVAILABILITY_RULES } from '../../utils/profiles'
+import { formatFullName, formatUsername, ValidationSchemas } from '../../utils/validation'
+
+export interface OnboardingData {
+  username: string
+  fullName: string
+  age: string
+  educationStatus: 'highschool' | 'college' | 'professional' | 'not_in_school' | ''
+  codingLanguages: string[]
+  aboutMe: string
+  avatarUrl: string
+}
+
+export const INITIAL_ONBOARDING_DATA: OnboardingData = {
+  username: '',
+  fullName: '',
+  age: '',
+  educationStatus: '',
+  codingLanguages: [],
+  aboutMe: '',
+  avatarUrl: ''
+}
+
+// More can be picked during onboarding; the profile keeps the first 15
+export const MAX_PROFILE_CODING_LANGUAGES = 15
+
+const rules = ValidationSchemas.ONBOARDING
+
+/**
+ * Onboarding steps in order (see utils/onboardingSteps.ts for the definition format)
+ */
+export const ONBOARDING_STEPS: OnboardingStep<OnboardingData>[] = [
+  {
+    id: 'identity',
+    title: 'Welcome to DevRecruit! 👋',
+    subtitle: "Let's set up your developer profile",
+    fields: [
+      {
+        name: 'username',
+        kind: 'text',
+        label: 'Username',
+        // Format rules plus a live availability lookup
+        rules: USERNAME_AVAILABILITY_RULES,
+        column: 'username',
+        toColumn: formatUsername,
+        format: formatUsername,
+        placeholder: 'Choose a unique username (3-22 characters)',
+        maxLength: 22,
+        showCount: true,
+        validText: '✓ Username looks great!',
+        helperText: 'This will be your public username on DevRecruit'
+      },
+      {
+        name: 'fullName',
+        kind: 'text',
+        label: 'Full Name',
+        rules: rules.fullName,
+        column: 'full_name',
+        toColumn: formatFullName,
+        placeholder: 'Enter your first and last name',
+        maxLength: 50,
+        validText: '✓ Name looks perfect!',
+        helperText: 'Please enter your first and last name'
+      }
+    ]
+  },
+  {
+    id: 'profile',
+    title: 'How should others see you? 🪪',
+    subtitle: 'Both are optional and can be changed from your dashboard',
+    skippable: true,
+    fields: [
+      {
+        name: 'avatarUrl',
+        kind: 'avatar',
+        label: 'Profile Photo',
+        rules: rules.avatarUrl,
+        column: 'avatar_url',
+        toColumn: (value: string) => value || null,
+        helperText: 'No photo yet - you can upload one from your dashboard'
+      },
+      {
+        name: 'aboutMe',
+        kind: 'text',
+        label: 'About Me',
+        rules: rules.aboutMe,
+        column: 'about_me',
+        toColumn: (value: string) => value.trim() || null,
+        placeholder: 'What do you like to build?',
+        maxLength: 500,
+        showCount: true,
+        multiline: true,
+        helperText: 'A sentence or two about your coding interests'
+      }
+    ]
+  },
+  {
+    id: 'age',
+    title: 'Tell us about yourself 🎂',
+    subtitle: 'This helps us connect you with the right opportunities',
+    fields: [
+      {
+        name: 'age',
+        kind: 'text',
+        label: 'Age',
+        rules: rules.age,
+        column: 'age',
+        toColumn: (value: string) => parseInt(value || '0'),
+        format: (value: string) => value.replace(/[^0-9]/g, ''),
+        keyboardType: 'numeric',
+        placeholder: 'Enter your age (13+)',
+        maxLength: 3,
+        validText: '✓ Age verified',
+        helperText: 'Must be 13 or older to use DevRecruit'
+      }
+    ]
+  },
+  {
+    id: 'education',
+    title: "What's your current status? 📚",
+    subtitle: 'This helps us understand your experience level',
+    fields: [
+      {
+        name: 'educationStatus',
+        kind: 'select',
+        label: 'Education',
+        rules: rules.educationStatus,
+        column: 'education_status',
+        options: EDUCATION_OPTIONS
+      }
+    ]
+  },
+  {
+    id: 'languages',
+    title: 'What languages do you code in? 💻',
+    subtitle: 'Select all that apply (you can always update this later)',
+    fields: [
+      {
+        name: 'codingLanguages',
+        kind: 'multi-select',
+        label: 'Languages',
+        rules: rules.codingLanguages,
+        column: 'coding_languages',
+        toColumn: (languages: string[]) => languages.slice(0, MAX_PROFILE_CODING_LANGUAGES),
+        options: CODING_LANGUAGES.map(language => ({ value: language, label: language })),
+        recommendedMax: MAX_PROFILE_CODING_LANGUAGES
+      }
+    ]
+  }
+]
+
+/**
+ * Answers we already know from the profile and the OAuth identity (GitHub name, login,
+ * avatar and bio), so most users only confirm them
+ * Values that fail their field rules are left for the user to fill in
+ */
+export const getOnboardingPrefill = (
+  user: User,
+  profile: OwnProfile | null
+): Partial<OnboardingData> => {
+  const metadata = user.user_metadata || {}
+  const login: string = metadata.user_name || metadata.preferred_username || metadata.login || ''
+
+  return keepValidAnswers(ONBOARDING_STEPS, {
+    fullName: profile?.full_name || metadata.full_name || metadata.name || '',
+    username: formatUsername(profile?.username || login),
+    aboutMe: (profile?.about_me || metadata.bio || '').trim().slice(0, 500),
+    avatarUrl: profile?.avatar_url || metadata.avatar_url || metadata.picture || ''
+  })
+}
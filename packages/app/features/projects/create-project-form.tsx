@@ -0,0 +1,581 @@
+'use client'
+
+import React, { useState } from 'react'
+import { View, Text, Pressable, TextInput, Alert } from 'react-native'
+import { getCharacterCountInfo, inputValidator, ValidationSchemas, validateProject } from '../../utils/validation'
+import { addProjectTasks, createProject, getProjectWebhookSecret, Project, ProjectFormData } from '../../utils/projects'
+import {
+  fetchGitHubProjectImport,
+  listImportableRepositories,
+  ImportableRepository,
+  StarterTask
+} from '../../utils/githubImport'
+import {
+  CODING_LANGUAGES,
+  PROJECT_STATUS_OPTIONS,
+  PROJECT_TEAM_SIZE,
+  TIME_COMMITMENT_OPTIONS
+} from '../../utils/constants'
+
+interface CreateProjectFormProps {
+  userId: string
+  onProjectCreated?: (project: Project) => void
+}
+
+type ProjectField = keyof typeof ValidationSchemas.PROJECT
+
+const EMPTY_FORM: ProjectFormData = {
+  title: '',
+  description: '',
+  coding_languages: [],
+  team_size: '3',
+  time_commitment: '',
+  status: 'open',
+  repository_url: '',
+  topics: []
+}
+
+export function CreateProjectForm({ userId, onProjectCreated }: CreateProjectFormProps) {
+  const [formData, setFormData] = useState<ProjectFormData>(EMPTY_FORM)
+  const [validationErrors, setValidationErrors] = useState<Record<string, string>>({})
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [hoveredButton, setHoveredButton] = useState<string | null>(null)
+
+  // GitHub import state
+  const [repositories, setRepositories] = useState<ImportableRepository[] | null>(null)
+  const [isLoadingRepositories, setIsLoadingRepositories] = useState(false)
+  const [importingRepository, setImportingRepository] = useState<string | null>(null)
+  const [importedRepository, setImportedRepository] = useState<string | null>(null)
+  const [starterTasks, setStarterTasks] = useState<StarterTask[]>([])
+  const [includeStarterTasks, setIncludeStarterTasks] = useState(true)
+
+  // Real-time field validation through the shared PROJECT schema
+  const validateField = (fieldName: ProjectField, value: any) => {
+    const result = inputValidator.validateField(value, fieldName, ValidationSchemas.PROJECT[fieldName])
+    setValidationErrors(prev => ({
+      ...prev,
+      [fieldName]: result.isValid ? '' : result.errors[0] || ''
+    }))
+  }
+
+  const updateField = <K extends ProjectField>(fieldName: K, value: ProjectFormData[K]) => {
+    setFormData(prev => ({ ...prev, [fieldName]: value }))
+    validateField(fieldName, value)
+  }
+
+  const handleLanguageToggle = (language: string) => {
+    const newLanguages = formData.coding_languages.includes(language)
+      ? formData.coding_languages.filter(lang => lang !== language)
+      : [...formData.coding_languages, language]
+    updateField('coding_languages', newLanguages)
+  }
+
+  const handleShowRepositories = async () => {
+    if (repositories) {
+      setRepositories(null)
+      return
+    }
+
+    setIsLoadingRepositories(true)
+    try {
+      const result = await listImportableRepositories(userId)
+      if (!result.success || !result.repositories) {
+        Alert.alert('GitHub Import', result.error || 'Failed to load your GitHub repositories')
+        return
+      }
+      setRepositories(result.repositories)
+    } finally {
+      setIsLoadingRepositories(false)
+    }
+  }
+
+  // Prefill the form from a repository; fields stay editable before posting
+  const handleImportRepository = async (repository: ImportableRepository) => {
+    setImportingRepository(repository.fullName)
+    try {
+      const result = await fetchGitHubProjectImport(repository.fullName)
+      if (!result.success || !result.projectImport) {
+        Alert.alert('GitHub Import', result.error || 'Failed to import the repository')
+        return
+      }
+
+      const { starterTasks: tasks, ...fields } = result.projectImport
+      setFormData(prev => ({ ...prev, ...fields }))
+      for (const fieldName of Object.keys(fields) as (keyof typeof fields)[]) {
+        validateField(fieldName, fields[fieldName])
+      }
+      setStarterTasks(tasks)
+      setIncludeStarterTasks(tasks.length > 0)
+      setImportedRepository(repository.fullName)
+      setRepositories(null)
+    } finally {
+      setImportingRepository(null)
+    }
+  }
+
+  const handleClearImport = () => {
+    setFormData(EMPTY_FORM)
+    setValidationErrors({})
+    setStarterTasks([])
+    setImportedRepository(null)
+  }
+
+  const handleTopicRemove = (topic: string) => {
+    updateField('topics', formData.topics.filter(item => item !== topic))
+  }
+
+  const handleSubmit = async () => {
+    const validation = validateProject(formData)
+    if (!validation.isValid) {
+      Alert.alert(
+        'Project Validation Failed',
+        validation.errors.join('\n\n'),
+        [{ text: 'OK', style: 'default' }]
+      )
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      const result = await createProject(userId, formData)
+
+      if (!result.success || !result.project) {
+        Alert.alert(
+          'Project Not Created',
+          result.validationErrors?.join('\n\n') || result.error || 'Failed to create project',
+          [{ text: 'OK', style: 'default' }]
+        )
+        return
+      }
+
+      if (includeStarterTasks && starterTasks.length > 0) {
+        const tasksResult = await addProjectTasks(userId, result.project.id, starterTasks)
+        if (!tasksResult.success) {
+          Alert.alert('Starter Tasks Not Added', tasksResult.error || 'Your project was posted, but its starter tasks could not be saved.')
+        }
+      }
+
+      setFormData(EMPTY_FORM)
+      setValidationErrors({})
+      setStarterTasks([])
+      setImportedRepository(null)
+      Alert.alert('Project Posted! 🚀', 'Your project is now live on DevRecruit.')
+
+      // Activity from the linked repository is only recorded when its webhook is signed with this project's secret
+      if (result.project.repository_url) {
+        const webhook = await getProjectWebhookSecret(result.project.id)
+        if (webhook.success && webhook.secret) {
+          Alert.alert(
+            'Connect GitHub Activity',
+            `Add a webhook to ${result.project.repository_url} pointing at /api/github/webhook ` +
+              `(content type application/json) with this secret:\n\n${webhook.secret}`
+          )
+        }
+      }
+
+      onProjectCreated?.(result.project)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const isFormValid = validateProject(formData).isValid
+  const descriptionCount = getCharacterCountInfo(formData.description, 2000)
+
+  const renderError = (fieldName: ProjectField) => (
+    validationErrors[fieldName] ? (
+      <Text style={{ fontSize: 12, color: '#ef4444', fontWeight: '500' }}>
+        {validationErrors[fieldName]}
+      </Text>
+    ) : null
+  )
+
+  const inputStyle = (fieldName: ProjectField) => ({
+    borderWidth: 2,
+    borderColor: validationErrors[fieldName] ? '#ef4444' : '#e2e8f0',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    fontSize: 16,
+    backgroundColor: '#ffffff'
+  })
+
+  return (
+    <View style={{
+      backgroundColor: '#ffffff',
+      borderRadius: 16,
+      padding: 24,
+      borderWidth: 1,
+      borderColor: '#e2e8f0',
+      gap: 24
+    }}>
+      {/* Import from GitHub */}
+      <View style={{
+        backgroundColor: '#f8fafc',
+        borderRadius: 12,
+        borderWidth: 1,
+        borderColor: '#e2e8f0',
+        padding: 16,
+        gap: 12
+      }}>
+        <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', gap: 12, flexWrap: 'wrap' }}>
+          <View style={{ flex: 1, minWidth: 200, gap: 4 }}>
+            <Text style={{ fontSize: 14, fontWeight: '600', color: '#374151' }}>
+              {importedRepository ? `Imported from ${importedRepository}` : 'Already have a repo?'}
+            </Text>
+            <Text style={{ fontSize: 12, color: '#64748b' }}>
+              {importedRepository
+                ? 'Review the prefilled details below before posting.'
+                : 'Prefill this form from one of your GitHub repositories.'}
+            </Text>
+          </View>
+          <View style={{ flexDirection: 'row', gap: 8 }}>
+            {importedRepository && (
+              <Pressable
+                onPress={handleClearImport}
+                onHoverIn={() => setHoveredButton('clear-import')}
+                onHoverOut={() => setHoveredButton(null)}
+                style={{
+                  backgroundColor: hoveredButton === 'clear-import' ? '#f1f5f9' : '#ffffff',
+                  borderWidth: 1,
+                  borderColor: '#e2e8f0',
+                  borderRadius: 8,
+                  paddingHorizontal: 12,
+                  paddingVertical: 8
+                }}
+              >
+                <Text style={{ fontSize: 13, fontWeight: '600', color: '#64748b' }}>
+                  Clear
+                </Text>
+              </Pressable>
+            )}
+            <Pressable
+              onPress={handleShowRepositories}
+              disabled={isLoadingRepositories}
+              onHoverIn={() => setHoveredButton('import-github')}
+              onHoverOut={() => setHoveredButton(null)}
+              style={{
+                backgroundColor: hoveredButton === 'import-github' ? '#5b6cf0' : '#667eea',
+                borderRadius: 8,
+                paddingHorizontal: 12,
+                paddingVertical: 8
+              }}
+            >
+              <Text style={{ fontSize: 13, fontWeight: '600', color: '#ffffff' }}>
+                {isLoadingRepositories ? 'Loading...' : repositories ? 'Cancel' : '📥 Import from GitHub'}
+              </Text>
+            </Pressable>
+          </View>
+        </View>
+
+        {repositories && (
+          repositories.length === 0 ? (
+            <Text style={{ fontSize: 13, color: '#64748b' }}>
+              No public repositories found on your GitHub account.
+            </Text>
+          ) : (
+            <View style={{ gap: 8 }}>
+              {repositories.map(repository => (
+                <Pressable
+                  key={repository.fullName}
+                  onPress={() => handleImportRepository(repository)}
+                  disabled={importingRepository !== null}
+                  onHoverIn={() => setHoveredButton(`repo-${repository.fullName}`)}
+                  onHoverOut={() => setHoveredButton(null)}
+                  style={{
+                    backgroundColor: '#ffffff',
+                    borderWidth: 1,
+                    borderColor: hoveredButton === `repo-${repository.fullName}` ? '#667eea' : '#e2e8f0',
+                    borderRadius: 8,
+                    padding: 12,
+                    gap: 4
+                  }}
+                >
+                  <View style={{ flexDirection: 'row', justifyContent: 'space-between', gap: 8 }}>
+                    <Text style={{ flex: 1, fontSize: 14, fontWeight: '600', color: '#0f172a' }} numberOfLines={1}>
+                      {repository.name}
+                    </Text>
+                    <Text style={{ fontSize: 12, color: '#64748b' }}>
+                      {importingRepository === repository.fullName
+                        ? 'Importing...'
+                        : `${repository.language ? `${repository.language} · ` : ''}⭐ ${repository.stars}`}
+                    </Text>
+                  </View>
+                  {repository.description && (
+                    <Text style={{ fontSize: 12, color: '#64748b' }} numberOfLines={2}>
+                      {repository.description}
+                    </Text>
+                  )}
+                </Pressable>
+              ))}
+            </View>
+          )
+        )}
+      </View>
+
+      {/* Title */}
+      <View style={{ gap: 8 }}>
+        <Text style={{ fontSize: 14, fontWeight: '600', color: '#374151' }}>
+          Project Title *
+        </Text>
+        <TextInput
+          style={inputStyle('title')}
+          placeholder="e.g. Open-source habit tracker built with Expo"
+          value={formData.title}
+          onChangeText={(text) => updateField('title', text)}
+          maxLength={100}
+        />
+        {renderError('title')}
+      </View>
+
+      {/* Description */}
+      <View style={{ gap: 8 }}>
+        <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' }}>
+          <Text style={{ fontSize: 14, fontWeight: '600', color: '#374151' }}>
+            Description *
+          </Text>
+          <Text style={{ fontSize: 12, color: descriptionCount.color }}>
+            {descriptionCount.current}/{descriptionCount.max}
+          </Text>
+        </View>
+        <TextInput
+          style={[inputStyle('description'), { minHeight: 140, textAlignVertical: 'top' }]}
+          placeholder="What are you building, and what kind of help do you need?"
+          value={formData.description}
+          onChangeText={(text) => updateField('description', text)}
+          multiline
+          maxLength={2000}
+        />
+        {renderError('description')}
+      </View>
+
+      {/* Repository */}
+      <View style={{ gap: 8 }}>
+        <Text style={{ fontSize: 14, fontWeight: '600', color: '#374151' }}>
+          GitHub Repository
+        </Text>
+        <TextInput
+          style={inputStyle('repository_url')}
+          placeholder="https://github.com/owner/name"
+          value={formData.repository_url}
+          onChangeText={(text) => updateField('repository_url', text.trim())}
+          autoCapitalize="none"
+          autoCorrect={false}
+          maxLength={200}
+        />
+        {renderError('repository_url')}
+      </View>
+
+      {/* Topics (imported from GitHub) */}
+      {formData.topics.length > 0 && (
+        <View style={{ gap: 8 }}>
+          <Text style={{ fontSize: 14, fontWeight: '600', color: '#374151' }}>
+            Topics
+          </Text>
+          <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}>
+            {formData.topics.map(topic => (
+              <Pressable
+                key={topic}
+                onPress={() => handleTopicRemove(topic)}
+                style={{
+                  flexDirection: 'row',
+                  alignItems: 'center',
+                  gap: 6,
+                  backgroundColor: '#f0f4ff',
+                  borderRadius: 12,
+                  paddingHorizontal: 10,
+                  paddingVertical: 4
+                }}
+              >
+                <Text style={{ fontSize: 12, color: '#667eea', fontWeight: '500' }}>
+                  {topic}
+                </Text>
+                <Text style={{ fontSize: 12, color: '#94a3b8' }}>✕</Text>
+              </Pressable>
+            ))}
+          </View>
+          {renderError('topics')}
+        </View>
+      )}
+
+      {/* Coding Languages */}
+      <View style={{ gap: 12 }}>
+        <Text style={{ fontSize: 14, fontWeight: '600', color: '#374151' }}>
+          Required Languages * ({formData.coding_languages.length}/10)
+        </Text>
+        <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}>
+          {CODING_LANGUAGES.map((language) => {
+            const isSelected = formData.coding_languages.includes(language)
+            return (
+              <Pressable
+                key={language}
+                onPress={() => handleLanguageToggle(language)}
+                style={{
+                  borderWidth: 2,
+                  borderColor: isSelected ? '#667eea' : '#e2e8f0',
+                  backgroundColor: isSelected ? '#667eea' : '#ffffff',
+                  borderRadius: 16,
+                  paddingHorizontal: 12,
+                  paddingVertical: 6
+                }}
+              >
+                <Text style={{
+                  fontSize: 12,
+                  fontWeight: '500',
+                  color: isSelected ? '#ffffff' : '#64748b'
+                }}>
+                  {language}
+                </Text>
+              </Pressable>
+            )
+          })}
+        </View>
+        {renderError('coding_languages')}
+      </View>
+
+      {/* Team Size */}
+      <View style={{ gap: 8 }}>
+        <Text style={{ fontSize: 14, fontWeight: '600', color: '#374151' }}>
+          Team Size * ({PROJECT_TEAM_SIZE.min}-{PROJECT_TEAM_SIZE.max} people)
+        </Text>
+        <TextInput
+          style={[inputStyle('team_size'), { maxWidth: 120 }]}
+          value={String(formData.team_size)}
+          onChangeText={(text) => updateField('team_size', text.replace(/[^0-9]/g, ''))}
+          keyboardType="numeric"
+          maxLength={2}
+        />
+        {renderError('team_size')}
+      </View>
+
+      {/* Time Commitment */}
+      <View style={{ gap: 12 }}>
+        <Text style={{ fontSize: 14, fontWeight: '600', color: '#374151' }}>
+          Time Commitment *
+        </Text>
+        <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}>
+          {TIME_COMMITMENT_OPTIONS.map((option) => {
+            const isSelected = formData.time_commitment === option.value
+            return (
+              <Pressable
+                key={option.value}
+                onPress={() => updateField('time_commitment', option.value)}
+                style={{
+                  borderWidth: 2,
+                  borderColor: isSelected ? '#667eea' : '#e2e8f0',
+                  backgroundColor: isSelected ? '#f0f4ff' : '#ffffff',
+                  borderRadius: 12,
+                  paddingHorizontal: 14,
+                  paddingVertical: 10
+                }}
+              >
+                <Text style={{
+                  fontSize: 14,
+                  fontWeight: '500',
+                  color: isSelected ? '#667eea' : '#374151'
+                }}>
+                  {option.icon} {option.label}
+                </Text>
+              </Pressable>
+            )
+          })}
+        </View>
+        {renderError('time_commitment')}
+      </View>
+
+      {/* Status */}
+      <View style={{ gap: 12 }}>
+        <Text style={{ fontSize: 14, fontWeight: '600', color: '#374151' }}>
+          Status *
+        </Text>
+        <View style={{ gap: 8 }}>
+          {PROJECT_STATUS_OPTIONS.map((option) => {
+            const isSelected = formData.status === option.value
+            return (
+              <Pressable
+                key={option.value}
+                onPress={() => updateField('status', option.value)}
+                style={{
+                  flexDirection: 'row',
+                  alignItems: 'center',
+                  gap: 12,
+                  paddingVertical: 8,
+                  paddingHorizontal: 12,
+                  borderRadius: 8,
+                  backgroundColor: isSelected ? '#f0f4ff' : 'transparent',
+                  borderWidth: 1,
+                  borderColor: isSelected ? '#667eea' : '#e2e8f0'
+                }}
+              >
+                <Text style={{ fontSize: 16 }}>{option.icon}</Text>
+                <View style={{ flex: 1 }}>
+                  <Text style={{ fontSize: 14, fontWeight: '500', color: isSelected ? '#667eea' : '#374151' }}>
+                    {option.label}
+                  </Text>
+                  <Text style={{ fontSize: 12, color: '#64748b' }}>
+                    {option.description}
+                  </Text>
+                </View>
+              </Pressable>
+            )
+          })}
+        </View>
+        {renderError('status')}
+      </View>
+
+      {/* Starter Tasks (open good first issue / help wanted issues) */}
+      {starterTasks.length > 0 && (
+        <View style={{ gap: 12 }}>
+          <Pressable
+            onPress={() => setIncludeStarterTasks(prev => !prev)}
+            style={{ flexDirection: 'row', alignItems: 'center', gap: 10 }}
+          >
+            <View style={{
+              width: 20,
+              height: 20,
+              borderRadius: 4,
+              borderWidth: 2,
+              borderColor: includeStarterTasks ? '#667eea' : '#e2e8f0',
+              backgroundColor: includeStarterTasks ? '#667eea' : '#ffffff',
+              alignItems: 'center',
+              justifyContent: 'center'
+            }}>
+              {includeStarterTasks && (
+                <Text style={{ fontSize: 12, color: '#ffffff', fontWeight: '700' }}>✓</Text>
+              )}
+            </View>
+            <Text style={{ flex: 1, fontSize: 14, fontWeight: '600', color: '#374151' }}>
+              Add {starterTasks.length} open {starterTasks.length === 1 ? 'issue' : 'issues'} as starter tasks
+            </Text>
+          </Pressable>
+          <View style={{ gap: 6, opacity: includeStarterTasks ? 1 : 0.5 }}>
+            {starterTasks.map(task => (
+              <Text key={task.number} style={{ fontSize: 13, color: '#475569' }} numberOfLines={1}>
+                #{task.number} {task.title}
+              </Text>
+            ))}
+          </View>
+        </View>
+      )}
+
+      {/* Submit */}
+      <Pressable
+        onPress={handleSubmit}
+        disabled={!isFormValid || isSubmitting}
+        onHoverIn={() => setHoveredButton('submit-project')}
+        onHoverOut={() => setHoveredButton(null)}
+        style={{
+          backgroundColor: isFormValid && !isSubmitting ?
+            (hoveredButton === 'submit-project' ? '#5b6cf0' : '#667eea') : '#94a3b8',
+          borderRadius: 12,
+          paddingVertical: 14,
+          alignItems: 'center'
+        }}
+      >
+        <Text style={{ fontSize: 16, fontWeight: '700', color: '#ffffff' }}>
+          {isSubmitting ? 'Posting...' : 'Post Project'}
+        </Text>
+      </Pressable>
+    </View>
+  )
+}
@@ -0,0 +1,426 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { View, Text, Pressable, ActivityIndicator } from 'react-native'
+import { ProjectCard } from '../../components/ProjectCard'
+import { Pagination } from '../../components/Pagination'
+import { SearchBar } from '../../components/SearchBar'
+import { HighlightedText } from '../../components/HighlightedText'
+import { ApplicationStatusBadge } from '../../components/ApplicationStatusBadge'
+import { ApplyToProjectForm } from '../applications/apply-form'
+import { useProjectFilters } from '../../hooks/useProjectFilters'
+import { useProjectSearch } from '../../hooks/useSearch'
+import { browseProjects, Project, ProjectFilters, ProjectListing } from '../../utils/projects'
+import { ApplicationStatus, getMyApplications } from '../../utils/applications'
+import {
+  CODING_LANGUAGES,
+  EDUCATION_OPTIONS,
+  POSTED_WITHIN_OPTIONS,
+  PROJECT_SORT_OPTIONS,
+  PROJECT_STATUS_OPTIONS,
+  PROJECTS_PAGE_SIZE,
+  SEARCH_PAGE_SIZE,
+  TEAM_SIZE_BUCKETS
+} from '../../utils/constants'
+
+interface ProjectBrowserProps {
+  userId?: string
+  viewerLanguages?: string[]
+}
+
+type ListFacet = 'languages' | 'education' | 'statuses'
+
+export function ProjectBrowser({ userId, viewerLanguages = [] }: ProjectBrowserProps) {
+  const { filters, setFilters, setPage, resetFilters, activeFilterCount } = useProjectFilters()
+  const search = useProjectSearch()
+  const [projects, setProjects] = useState<ProjectListing[]>([])
+  const [totalCount, setTotalCount] = useState(0)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [showAllLanguages, setShowAllLanguages] = useState(false)
+  const [applicationStatuses, setApplicationStatuses] = useState<Record<string, ApplicationStatus>>({})
+  const [applyingProjectId, setApplyingProjectId] = useState<string | null>(null)
+
+  const filtersKey = JSON.stringify(filters)
+  const viewerLanguagesKey = viewerLanguages.join(',')
+
+  useEffect(() => {
+    let cancelled = false
+
+    const loadProjects = async () => {
+      setIsLoading(true)
+      setError(null)
+      const result = await browseProjects(filters, viewerLanguages)
+      if (cancelled) return
+
+      // A stale page param (e.g. after projects were closed) falls back to the first page
+      if (result.success && (result.projects || []).length === 0 && filters.page > 1) {
+        setPage(1)
+        return
+      }
+
+      if (result.success) {
+        setProjects(result.projects || [])
+        setTotalCount(result.totalCount || 0)
+      } else {
+        setProjects([])
+        setTotalCount(0)
+        setError(result.error || 'Failed to load projects')
+      }
+      setIsLoading(false)
+    }
+
+    loadProjects()
+    return () => {
+      cancelled = true
+    }
+  }, [filtersKey, viewerLanguagesKey])
+
+  // Which projects the viewer has already applied to
+  useEffect(() => {
+    if (!userId) return
+
+    const loadApplicationStatuses = async () => {
+      const result = await getMyApplications(userId)
+      if (result.success && result.applications) {
+        setApplicationStatuses(Object.fromEntries(
+          result.applications.map(application => [application.project_id, application.status])
+        ))
+      }
+    }
+
+    loadApplicationStatuses()
+  }, [userId])
+
+  const languagesToShow = showAllLanguages ? CODING_LANGUAGES : CODING_LANGUAGES.slice(0, 10)
+
+  const toggleListValue = (facet: ListFacet, value: string) => {
+    const current = filters[facet] as string[]
+    const next = current.includes(value)
+      ? current.filter(item => item !== value)
+      : [...current, value]
+    setFilters({ [facet]: next } as Partial<ProjectFilters>)
+  }
+
+  const renderChip = (key: string, label: string, isSelected: boolean, onPress: () => void) => (
+    <Pressable
+      key={key}
+      onPress={onPress}
+      style={{
+        borderWidth: 1,
+        borderColor: isSelected ? '#667eea' : '#e2e8f0',
+        backgroundColor: isSelected ? '#667eea' : '#ffffff',
+        borderRadius: 16,
+        paddingHorizontal: 12,
+        paddingVertical: 6
+      }}
+    >
+      <Text style={{
+        fontSize: 12,
+        fontWeight: '500',
+        color: isSelected ? '#ffffff' : '#64748b'
+      }}>
+        {label}
+      </Text>
+    </Pressable>
+  )
+
+  const renderFacet = (title: string, children: React.ReactNode) => (
+    <View style={{ gap: 8 }}>
+      <Text style={{ fontSize: 13, fontWeight: '600', color: '#374151' }}>
+        {title}
+      </Text>
+      <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}>
+        {children}
+      </View>
+    </View>
+  )
+
+  const renderApplyAction = (project: Pick<Project, 'id' | 'owner_id' | 'title' | 'status'>) => {
+    if (!userId || project.owner_id === userId) return null
+
+    const applicationStatus = applicationStatuses[project.id]
+    if (applicationStatus) {
+      return <ApplicationStatusBadge status={applicationStatus} />
+    }
+
+    if (project.status !== 'open' && project.status !== 'in_progress') return null
+
+    if (applyingProjectId === project.id) {
+      return (
+        <ApplyToProjectForm
+          userId={userId}
+          projectId={project.id}
+          projectTitle={project.title}
+          onApplied={(application) => {
+            setApplicationStatuses(prev => ({ ...prev, [application.project_id]: application.status }))
+            setApplyingProjectId(null)
+          }}
+          onCancel={() => setApplyingProjectId(null)}
+        />
+      )
+    }
+
+    return (
+      <Pressable
+        onPress={() => setApplyingProjectId(project.id)}
+        style={{
+          backgroundColor: '#667eea',
+          borderRadius: 10,
+          paddingHorizontal: 16,
+          paddingVertical: 10,
+          alignSelf: 'flex-start'
+        }}
+      >
+        <Text style={{ fontSize: 14, fontWeight: '600', color: '#ffffff' }}>
+          Apply to Join
+        </Text>
+      </Pressable>
+    )
+  }
+
+  // Keyword search replaces the faceted listing until the query is cleared
+  const renderSearchResults = () => (
+    <>
+      <Text style={{ fontSize: 14, color: '#64748b' }}>
+        {search.isSearching
+          ? 'Searching...'
+          : `${search.totalCount} result${search.totalCount === 1 ? '' : 's'} for "${search.query.trim()}"`}
+      </Text>
+
+      {search.error ? (
+        <View style={{
+          backgroundColor: '#fef2f2',
+          borderRadius: 12,
+          padding: 16,
+          borderWidth: 1,
+          borderColor: '#fecaca'
+        }}>
+          <Text style={{ fontSize: 14, color: '#991b1b' }}>
+            ❌ {search.error}
+          </Text>
+        </View>
+      ) : !search.isSearching && search.results.length === 0 ? (
+        <View style={{
+          backgroundColor: '#ffffff',
+          borderRadius: 16,
+          padding: 48,
+          alignItems: 'center',
+          borderWidth: 1,
+          borderColor: '#e2e8f0'
+        }}>
+          <Text style={{ fontSize: 48, marginBottom: 16 }}>🔍</Text>
+          <Text style={{ fontSize: 20, fontWeight: '700', color: '#0f172a', marginBottom: 8 }}>
+            No matching projects
+          </Text>
+          <Text style={{ fontSize: 14, color: '#64748b', textAlign: 'center' }}>
+            Try different keywords, or clear the search to browse with filters.
+          </Text>
+        </View>
+      ) : (
+        <View style={{ gap: 16 }}>
+          {search.results.map(project => (
+            <ProjectCard
+              key={project.id}
+              project={project}
+              footer={
+                <View style={{ gap: 8 }}>
+                  <HighlightedText snippet={project.snippet} numberOfLines={4} />
+                  {project.owner_username && (
+                    <Text style={{ fontSize: 12, color: '#64748b' }}>
+                      By @{project.owner_username}
+                    </Text>
+                  )}
+                  {renderApplyAction(project)}
+                </View>
+              }
+            />
+          ))}
+        </View>
+      )}
+
+      {!search.isSearching && (
+        <Pagination
+          page={search.page}
+          pageSize={SEARCH_PAGE_SIZE}
+          totalCount={search.totalCount}
+          onPageChange={search.setPage}
+        />
+      )}
+    </>
+  )
+
+  return (
+    <View style={{ gap: 24 }}>
+      <SearchBar
+        value={search.query}
+        onChangeText={search.setQuery}
+        onClear={search.clearSearch}
+        placeholder="Search projects by keyword, e.g. react native game"
+        isSearching={search.isSearching}
+      />
+
+      {search.isActive ? renderSearchResults() : (
+        <>
+          {/* Facets */}
+          <View style={{
+            backgroundColor: '#ffffff',
+            borderRadius: 16,
+            padding: 20,
+            borderWidth: 1,
+            borderColor: '#e2e8f0',
+            gap: 16
+          }}>
+            <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' }}>
+              <Text style={{ fontSize: 16, fontWeight: '700', color: '#0f172a' }}>
+                Filters {activeFilterCount > 0 ? `(${activeFilterCount})` : ''}
+              </Text>
+              {activeFilterCount > 0 && (
+                <Pressable onPress={resetFilters}>
+                  <Text style={{ fontSize: 13, fontWeight: '600', color: '#667eea' }}>
+                    Clear all
+                  </Text>
+                </Pressable>
+              )}
+            </View>
+
+            {renderFacet('Language', (
+              <>
+                {languagesToShow.map(language => renderChip(
+                  `lang-${language}`,
+                  language,
+                  filters.languages.includes(language),
+                  () => toggleListValue('languages', language)
+                ))}
+                <Pressable onPress={() => setShowAllLanguages(!showAllLanguages)} style={{ paddingVertical: 6 }}>
+                  <Text style={{ fontSize: 12, fontWeight: '600', color: '#667eea' }}>
+                    {showAllLanguages ? 'Show less' : `+${CODING_LANGUAGES.length - languagesToShow.length} more`}
+                  </Text>
+                </Pressable>
+              </>
+            ))}
+
+            {renderFacet('Owner Education', EDUCATION_OPTIONS.map(option => renderChip(
+              `edu-${option.value}`,
+              `${option.icon} ${option.label}`,
+              filters.education.includes(option.value),
+              () => toggleListValue('education', option.value)
+            )))}
+
+            {renderFacet('Team Size', TEAM_SIZE_BUCKETS.map(bucket => renderChip(
+              `team-${bucket.value}`,
+              bucket.label,
+              filters.teamSize === bucket.value,
+              () => setFilters({ teamSize: filters.teamSize === bucket.value ? null : bucket.value })
+            )))}
+
+            {renderFacet('Posted', POSTED_WITHIN_OPTIONS.map(option => renderChip(
+              `posted-${option.value}`,
+              option.label,
+              filters.postedWithin === option.value,
+              () => setFilters({ postedWithin: filters.postedWithin === option.value ? null : option.value })
+            )))}
+
+            {renderFacet('Status', PROJECT_STATUS_OPTIONS.map(option => renderChip(
+              `status-${option.value}`,
+              `${option.icon} ${option.label}`,
+              filters.statuses.includes(option.value),
+              () => toggleListValue('statuses', option.value)
+            )))}
+          </View>
+
+          {/* Result summary and sort */}
+          <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: 12 }}>
+            <Text style={{ fontSize: 14, color: '#64748b' }}>
+              {isLoading ? 'Loading projects...' : `${totalCount} project${totalCount === 1 ? '' : 's'} found`}
+            </Text>
+            <View style={{ flexDirection: 'row', gap: 8 }}>
+              {PROJECT_SORT_OPTIONS.map(option => renderChip(
+                `sort-${option.value}`,
+                option.label,
+                filters.sort === option.value,
+                () => setFilters({ sort: option.value })
+              ))}
+            </View>
+          </View>
+
+          {filters.sort === 'best_match' && viewerLanguages.length === 0 && (
+            <Text style={{ fontSize: 12, color: '#64748b' }}>
+              Add coding languages to your profile to get better matches.
+            </Text>
+          )}
+
+          {/* Results */}
+          {isLoading ? (
+            <View style={{ alignItems: 'center', paddingVertical: 48 }}>
+              <ActivityIndicator size="large" color="#667eea" />
+            </View>
+          ) : error ? (
+            <View style={{
+              backgroundColor: '#fef2f2',
+              borderRadius: 12,
+              padding: 16,
+              borderWidth: 1,
+              borderColor: '#fecaca'
+            }}>
+              <Text style={{ fontSize: 14, color: '#991b1b' }}>
+                ❌ {error}
+              </Text>
+            </View>
+          ) : projects.length === 0 ? (
+            <View style={{
+              backgroundColor: '#ffffff',
+              borderRadius: 16,
+              padding: 48,
+              alignItems: 'center',
+              borderWidth: 1,
+              borderColor: '#e2e8f0'
+            }}>
+              <Text style={{ fontSize: 48, marginBottom: 16 }}>🔍</Text>
+              <Text style={{ fontSize: 20, fontWeight: '700', color: '#0f172a', marginBottom: 8 }}>
+                No projects found
+              </Text>
+              <Text style={{ fontSize: 14, color: '#64748b', textAlign: 'center' }}>
+                Try removing some filters to see more projects.
+              </Text>
+            </View>
+          ) : (
+            <View style={{ gap: 16 }}>
+              {projects.map(project => (
+                <ProjectCard
+                  key={project.id}
+                  project={project}
+                  footer={
+                    <View style={{ gap: 12 }}>
+                      <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: 8 }}>
+                        <Text style={{ fontSize: 12, color: '#64748b' }}>
+                          {project.owner_username ? `By @${project.owner_username}` : 'By a private member'}
+                        </Text>
+                        {viewerLanguages.length > 0 && project.match_score > 0 && (
+                          <Text style={{ fontSize: 12, fontWeight: '600', color: '#667eea' }}>
+                            ⭐ {project.match_score} matching language{project.match_score === 1 ? '' : 's'}
+                          </Text>
+                        )}
+                      </View>
+                      {renderApplyAction(project)}
+                    </View>
+                  }
+                />
+              ))}
+            </View>
+          )}
+
+          {/* Pagination */}
+          {!isLoading && (
+            <Pagination
+              page={filters.page}
+              pageSize={PROJECTS_PAGE_SIZE}
+              totalCount={totalCount}
+              onPageChange={setPage}
+            />
+          )}
+        </>
+      )}
+    </View>
+  )
+}
@@ -1,13 +1,11 @@
-import { View, Text, Pressable } from 'react-native'
-import { useRouter } from 'solito/navigation'
+'use client'
+
+import { useParams } from 'solito/navigation'
+import { PublicProfileScreen } from './public-profile'
+
+const useUserParams = useParams<{ userId: string }>
 
 export function UserDetailScreen() {
-  const router = useRouter()
-  return (
-    <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center' }}>
-      <Pressable onPress={() => router.back()}>
-        <Text>👈 Go Home</Text>
-      </Pressable>
-    </View>
-  )
+  const { userId } = useUserParams()
+  return <PublicProfileScreen userId={userId} />
 }
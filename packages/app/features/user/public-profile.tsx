@@ -0,0 +1,378 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { View, Text, Pressable, ScrollView, ActivityIndicator } from 'react-native'
+import { useAppRouter } from '../../hooks/useAppRouter'
+import { useAuth } from '../../provider/auth'
+import { Avatar } from '../../components/Avatar'
+import { LanguageBreakdownChart } from '../../components/LanguageBreakdownChart'
+import { RepositoryCard } from '../../components/RepositoryCard'
+import { getProfilePath, getPublicProfile, resolveUsername, PublicProfile } from '../../utils/profiles'
+import { selectShowcaseRepositories } from '../../utils/githubStats'
+import { EDUCATION_OPTIONS } from '../../utils/constants'
+
+const VISIBILITY_LABELS: Record<PublicProfile['profile_visibility'], string> = {
+  public: '🌍 Public',
+  limited: '👥 Limited',
+  private: '🔒 Private'
+}
+
+interface PublicProfileScreenProps {
+  // Exactly one of these identifies the profile: /users/<userId> or /u/<username>
+  userId?: string
+  username?: string
+}
+
+// Shared by /users/[userId] and /u/[username]; both redirect to the canonical /u/<username>
+export function PublicProfileScreen({ userId, username }: PublicProfileScreenProps) {
+  const router = useAppRouter()
+  const { user, loading: authLoading } = useAuth()
+  const [profile, setProfile] = useState<PublicProfile | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [hoveredButton, setHoveredButton] = useState<string | null>(null)
+
+  // Reload once auth has settled: 'limited' profiles depend on whether the viewer is signed in
+  useEffect(() => {
+    if ((!userId && !username) || authLoading) return
+
+    let cancelled = false
+    setIsLoading(true)
+
+    const loadProfile = async () => {
+      let profileId = userId
+
+      if (username) {
+        const resolution = await resolveUsername(username)
+        if (cancelled) return
+        if (!resolution.success) {
+          setError(resolution.error || 'Failed to load profile')
+          setIsLoading(false)
+          return
+        }
+        if (!resolution.resolved) {
+          setProfile(null)
+          setError(null)
+          setIsLoading(false)
+          return
+        }
+
+        // Old handle or different casing: send the visitor to the current handle
+        if (resolution.resolved.username !== username) {
+          router.replace(getProfilePath(resolution.resolved.user_id, resolution.resolved.username))
+          return
+        }
+        profileId = resolution.resolved.user_id
+      }
+
+      if (!profileId) return
+      const result = await getPublicProfile(profileId)
+      if (cancelled) return
+
+      if (!result.success) {
+        setError(result.error || 'Failed to load profile')
+        setIsLoading(false)
+        return
+      }
+
+      // UUID links redirect to the vanity URL once the viewer may see the handle
+      if (!username && result.profile?.can_view && result.profile.username) {
+        router.replace(getProfilePath(result.profile.id, result.profile.username))
+        return
+      }
+
+      setProfile(result.profile || null)
+      setError(null)
+      setIsLoading(false)
+    }
+
+    loadProfile()
+
+    return () => {
+      cancelled = true
+    }
+  }, [userId, username, authLoading, user?.id])
+
+  const renderMessage = (icon: string, title: string, description: string, action?: { label: string; href: string }) => (
+    <View style={{
+      backgroundColor: '#ffffff',
+      borderRadius: 16,
+      padding: 48,
+      alignItems: 'center',
+      borderWidth: 1,
+      borderColor: '#e2e8f0',
+      gap: 12
+    }}>
+      <Text style={{ fontSize: 48 }}>{icon}</Text>
+      <Text style={{ fontSize: 20, fontWeight: '700', color: '#0f172a', textAlign: 'center' }}>
+        {title}
+      </Text>
+      <Text style={{ fontSize: 14, color: '#64748b', textAlign: 'center', lineHeight: 20 }}>
+        {description}
+      </Text>
+      {action && (
+        <Pressable
+          onPress={() => router.push(action.href)}
+          onHoverIn={() => setHoveredButton('primary-action')}
+          onHoverOut={() => setHoveredButton(null)}
+          style={{
+            marginTop: 8,
+            backgroundColor: hoveredButton === 'primary-action' ? '#5b6cf0' : '#667eea',
+            borderRadius: 8,
+            paddingHorizontal: 20,
+            paddingVertical: 10
+          }}
+        >
+          <Text style={{ fontSize: 14, fontWeight: '600', color: '#ffffff' }}>
+            {action.label}
+          </Text>
+        </Pressable>
+      )}
+    </View>
+  )
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <View style={{ alignItems: 'center', paddingVertical: 64 }}>
+          <ActivityIndicator size="large" color="#667eea" />
+        </View>
+      )
+    }
+
+    if (error) {
+      return renderMessage('❌', 'Something went wrong', error)
+    }
+
+    if (!profile) {
+      return renderMessage('🔍', 'Profile not found', 'This developer does not exist or their account is no longer active.')
+    }
+
+    if (!profile.can_view) {
+      return profile.profile_visibility === 'limited'
+        ? renderMessage('👥', 'Sign in to view this profile', 'This developer only shares their profile with registered members.', { label: 'Sign In', href: '/signin' })
+        : renderMessage('🔒', 'This profile is private', 'This developer has chosen not to share their profile.')
+    }
+
+    const education = EDUCATION_OPTIONS.find(option => option.value === profile.education_status)
+    const languages = profile.coding_languages || []
+
+    return (
+      <View style={{ gap: 24 }}>
+        {profile.is_owner && (
+          <View style={{
+            backgroundColor: '#f0f4ff',
+            borderRadius: 12,
+            padding: 16,
+            borderWidth: 1,
+            borderColor: '#c7d2fe',
+            flexDirection: 'row',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            flexWrap: 'wrap',
+            gap: 12
+          }}>
+            <Text style={{ fontSize: 14, color: '#3730a3', flex: 1 }}>
+              This is how other developers see your profile ({VISIBILITY_LABELS[profile.profile_visibility]}).
+            </Text>
+            <Pressable onPress={() => router.push('/dashboard')}>
+              <Text style={{ fontSize: 14, fontWeight: '600', color: '#667eea' }}>
+                Edit profile & privacy →
+              </Text>
+            </Pressable>
+          </View>
+        )}
+
+        {/* Header */}
+        <View style={{
+          backgroundColor: '#ffffff',
+          borderRadius: 16,
+          padding: 32,
+          borderWidth: 1,
+          borderColor: '#e2e8f0',
+          alignItems: 'center',
+          gap: 12
+        }}>
+          <Avatar
+            src={profile.avatar_url}
+            name={profile.full_name || undefined}
+            username={profile.username || undefined}
+            size={96}
+          />
+          <View style={{ alignItems: 'center', gap: 4 }}>
+            <Text style={{ fontSize: 26, fontWeight: '800', color: '#0f172a' }}>
+              {profile.full_name || profile.username || 'Developer'}
+            </Text>
+            {profile.username && (
+              <Text style={{ fontSize: 15, color: '#64748b' }}>
+                @{profile.username}
+              </Text>
+            )}
+          </View>
+          {education && (
+            <Text style={{ fontSize: 14, color: '#374151' }}>
+              {education.icon} {education.label}
+            </Text>
+          )}
+          {profile.email && (
+            <Text style={{ fontSize: 14, color: '#667eea' }}>
+              ✉️ {profile.email}
+            </Text>
+          )}
+          {profile.created_at && (
+            <Text style={{ fontSize: 12, color: '#94a3b8' }}>
+              Member since {new Date(profile.created_at).toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+            </Text>
+          )}
+        </View>
+
+        {/* About */}
+        {profile.about_me && (
+          <View style={{
+            backgroundColor: '#ffffff',
+            borderRadius: 16,
+            padding: 24,
+            borderWidth: 1,
+            borderColor: '#e2e8f0',
+            gap: 12
+          }}>
+            <Text style={{ fontSize: 18, fontWeight: '700', color: '#0f172a' }}>
+              About
+            </Text>
+            <Text style={{ fontSize: 15, color: '#374151', lineHeight: 24 }}>
+              {profile.about_me}
+            </Text>
+          </View>
+        )}
+
+        {/* Languages */}
+        {languages.length > 0 && (
+          <View style={{
+            backgroundColor: '#ffffff',
+            borderRadius: 16,
+            padding: 24,
+            borderWidth: 1,
+            borderColor: '#e2e8f0',
+            gap: 12
+          }}>
+            <Text style={{ fontSize: 18, fontWeight: '700', color: '#0f172a' }}>
+              Coding Languages
+            </Text>
+            <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8 }}>
+              {languages.map(language => (
+                <View key={language} style={{
+                  backgroundColor: '#f1f5f9',
+                  paddingHorizontal: 12,
+                  paddingVertical: 6,
+                  borderRadius: 12,
+                  borderWidth: 1,
+                  borderColor: '#e2e8f0'
+                }}>
+                  <Text style={{ fontSize: 13, color: '#475569', fontWeight: '500' }}>
+                    {language}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
+        {/* GitHub */}
+        {profile.github_username && (
+          <View style={{
+            backgroundColor: '#ffffff',
+            borderRadius: 16,
+            padding: 24,
+            borderWidth: 1,
+            borderColor: '#e2e8f0',
+            gap: 16
+          }}>
+            <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' }}>
+              <Text style={{ fontSize: 18, fontWeight: '700', color: '#0f172a' }}>
+                GitHub
+              </Text>
+              <Text style={{ fontSize: 14, color: '#64748b' }}>
+                @{profile.github_username}
+              </Text>
+            </View>
+            <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 16 }}>
+              {[
+                { label: 'Repositories', value: profile.github_repository_count },
+                { label: 'Commits', value: profile.github_commit_count },
+                { label: 'Pull Requests', value: profile.github_pull_request_count },
+                { label: 'Reviews', value: profile.github_review_count }
+              ].map(stat => (
+                <View key={stat.label} style={{
+                  flex: 1,
+                  minWidth: 120,
+                  backgroundColor: '#f8fafc',
+                  borderRadius: 12,
+                  padding: 16,
+                  alignItems: 'center',
+                  gap: 4
+                }}>
+                  <Text style={{ fontSize: 24, fontWeight: '800', color: '#667eea' }}>
+                    {stat.value ?? '—'}
+                  </Text>
+                  <Text style={{ fontSize: 13, color: '#64748b' }}>
+                    {stat.label}
+                  </Text>
+                </View>
+              ))}
+            </View>
+            {profile.github_language_breakdown && profile.github_language_breakdown.length > 0 && (
+              <View style={{ gap: 12 }}>
+                <Text style={{ fontSize: 15, fontWeight: '600', color: '#374151' }}>
+                  Tech Stack
+                </Text>
+                <LanguageBreakdownChart languages={profile.github_language_breakdown} />
+              </View>
+            )}
+            {profile.github_repositories && profile.github_repositories.length > 0 && (
+              <View style={{ gap: 12 }}>
+                <Text style={{ fontSize: 15, fontWeight: '600', color: '#374151' }}>
+                  Repositories
+                </Text>
+                <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 12 }}>
+                  {/* Hidden repositories are already filtered out by get_public_profile */}
+                  {selectShowcaseRepositories(profile.github_repositories).map(repository => (
+                    <RepositoryCard key={repository.fullName} repository={repository} />
+                  ))}
+                </View>
+              </View>
+            )}
+          </View>
+        )}
+      </View>
+    )
+  }
+
+  return (
+    <ScrollView style={{ flex: 1, backgroundColor: '#fafbfc' }}>
+      <View style={{
+        width: '100%',
+        maxWidth: 720,
+        alignSelf: 'center',
+        padding: 24,
+        gap: 24
+      }}>
+        <Pressable
+          onPress={() => router.back()}
+          onHoverIn={() => setHoveredButton('back')}
+          onHoverOut={() => setHoveredButton(null)}
+          style={{ alignSelf: 'flex-start' }}
+        >
+          <Text style={{
+            fontSize: 14,
+            fontWeight: '600',
+            color: hoveredButton === 'back' ? '#5b6cf0' : '#667eea'
+          }}>
+            ← Back
+          </Text>
+        </Pressable>
+
+        {renderContent()}
+      </View>
+    </ScrollView>
+  )
+}
@@ -0,0 +1,11 @@
+'use client'
+
+import { useParams } from 'solito/navigation'
+import { PublicProfileScreen } from './public-profile'
+
+const useUsernameParams = useParams<{ username: string }>
+
+export function UsernameProfileScreen() {
+  const { username } = useUsernameParams()
+  return <PublicProfileScreen username={username ? decodeURIComponent(username) : undefined} />
+}
@@ -0,0 +1,68 @@
+import { useEffect, useRef, useState } from 'react'
+import { ASYNC_VALIDATION_DELAY_MS } from '../utils/constants'
+import { inputValidator, ValidationRule } from '../utils/validation'
+
+export interface AsyncFieldInput {
+  name: string
+  value: any
+  rules: ValidationRule
+  // Don't look this value up (e.g. the user's current username)
+  skip?: boolean
+}
+
+export interface AsyncFieldCheck {
+  status: 'idle' | 'checking' | 'valid' | 'invalid'
+  error: string
+  suggestions: string[]
+}
+
+export const IDLE_FIELD_CHECK: AsyncFieldCheck = { status: 'idle', error: '', suggestions: [] }
+
+// Runs the asyncValidator of each field (e.g. username availability) while the user types.
+// Lookups are debounced per field through inputValidator.validateFieldDebounced, and only
+// start once the field's other rules pass, so the server only sees plausible values.
+export const useAsyncFieldChecks = (
+  scope: string,
+  fields: AsyncFieldInput[],
+  delayMs: number = ASYNC_VALIDATION_DELAY_MS
+): Record<string, AsyncFieldCheck> => {
+  const [checks, setChecks] = useState<Record<string, AsyncFieldCheck>>({})
+  const checkedFields = fields.filter(field => field.rules.asyncValidator)
+  const keys = useRef(new Set<string>())
+
+  const setCheck = (name: string, check: AsyncFieldCheck) => {
+    setChecks(prev => ({ ...prev, [name]: check }))
+  }
+
+  useEffect(() => {
+    for (const field of checkedFields) {
+      const key = `${scope}:${field.name}`
+      keys.current.add(key)
+
+      const isEmpty = String(field.value ?? '').trim().length === 0
+      if (field.skip || isEmpty || !inputValidator.validateField(field.value, field.name, field.rules).isValid) {
+        inputValidator.cancelDebounced(key)
+        setCheck(field.name, IDLE_FIELD_CHECK)
+        continue
+      }
+
+      setCheck(field.name, { status: 'checking', error: '', suggestions: [] })
+      inputValidator.validateFieldDebounced(key, field.value, field.name, field.rules, delayMs).then(result => {
+        if (!result) return
+        setCheck(field.name, {
+          status: result.isValid ? 'valid' : 'invalid',
+          error: result.errors[0] || '',
+          suggestions: result.suggestions || []
+        })
+      })
+    }
+  }, [scope, JSON.stringify(checkedFields.map(field => [field.name, field.value, !!field.skip]))])
+
+  useEffect(() => {
+    return () => {
+      keys.current.forEach(key => inputValidator.cancelDebounced(key))
+    }
+  }, [])
+
+  return checks
+}
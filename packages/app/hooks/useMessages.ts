@@ -0,0 +1,121 @@
+import { useCallback, useEffect, useState } from 'react'
+import {
+  ConversationSummary,
+  getConversations,
+  getMessages,
+  markConversationRead,
+  Message,
+  sendMessage,
+  subscribeToConversation,
+  subscribeToInbox
+} from '../utils/messaging'
+
+// Conversation list with unread counts, refreshed live through Supabase Realtime
+export const useConversations = (userId?: string) => {
+  const [conversations, setConversations] = useState<ConversationSummary[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    if (!userId) return
+    const result = await getConversations(userId)
+    if (result.success) {
+      setConversations(result.conversations || [])
+      setError(null)
+    } else {
+      setError(result.error || 'Failed to load conversations')
+    }
+    setIsLoading(false)
+  }, [userId])
+
+  useEffect(() => {
+    if (!userId) return
+
+    refresh()
+    return subscribeToInbox(userId, refresh)
+  }, [userId, refresh])
+
+  const unreadCount = conversations.reduce((total, conversation) => total + conversation.unread_count, 0)
+
+  return { conversations, unreadCount, isLoading, error, refresh }
+}
+
+// Messages in a single conversation: initial page, older pages, live inserts and read receipts
+export const useConversationThread = (userId: string, conversationId: string | null) => {
+  const [messages, setMessages] = useState<Message[]>([])
+  const [hasMore, setHasMore] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSending, setIsSending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!conversationId) {
+      setMessages([])
+      return
+    }
+
+    let cancelled = false
+    setIsLoading(true)
+    setError(null)
+
+    getMessages(conversationId).then(result => {
+      if (cancelled) return
+      if (result.success) {
+        setMessages(result.messages || [])
+        setHasMore(!!result.hasMore)
+        markConversationRead(userId, conversationId)
+      } else {
+        setError(result.error || 'Failed to load messages')
+      }
+      setIsLoading(false)
+    })
+
+    const unsubscribe = subscribeToConversation(conversationId, {
+      onInsert: (message) => {
+        setMessages(prev => prev.some(item => item.id === message.id) ? prev : [...prev, message])
+        if (message.sender_id !== userId) {
+          markConversationRead(userId, conversationId)
+        }
+      },
+      onUpdate: (message) => {
+        setMessages(prev => prev.map(item => item.id === message.id ? message : item))
+      }
+    })
+
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [userId, conversationId])
+
+  const loadOlder = async () => {
+    if (!conversationId || messages.length === 0) return
+    const result = await getMessages(conversationId, messages[0]?.created_at)
+    if (result.success) {
+      setMessages(prev => [...(result.messages || []), ...prev])
+      setHasMore(!!result.hasMore)
+    }
+  }
+
+  const send = async (body: string): Promise<boolean> => {
+    if (!conversationId) return false
+
+    setIsSending(true)
+    setError(null)
+    try {
+      const result = await sendMessage(userId, conversationId, body)
+      if (!result.success || !result.message) {
+        setError(result.error || 'Failed to send message')
+        return false
+      }
+
+      const sent = result.message
+      setMessages(prev => prev.some(item => item.id === sent.id) ? prev : [...prev, sent])
+      return true
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return { messages, hasMore, isLoading, isSending, error, loadOlder, send }
+}
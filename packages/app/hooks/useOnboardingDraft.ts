@@ -0,0 +1,106 @@
+import { useEffect, useRef, useState } from 'react'
+import { useAuth } from '../provider/auth'
+import { ONBOARDING_DRAFT_SAVE_DELAY_MS } from '../utils/constants'
+import type { OwnProfile } from '../utils/profiles'
+
+// Unfinished onboarding is kept in profiles.onboarding_draft (supabase-onboarding-drafts-schema.sql)
+// so a reload or app kill resumes on the same step. Drafts arrive from other devices through
+// the profile Realtime subscription; the server clears the draft once onboarding is completed.
+
+export type OnboardingDraft = NonNullable<OwnProfile['onboarding_draft']>
+
+interface UseOnboardingDraftOptions<T> {
+  step: number
+  data: T
+  stepCount: number
+  // Called with a saved draft that is newer than what this screen has
+  onRestore: (step: number, data: Partial<T>) => void
+}
+
+// Key order differs once data has been through JSONB, so compare sorted entries
+const snapshot = (step: number, data: Record<string, any>): string => {
+  return JSON.stringify([step, Object.keys(data).sort().map(key => [key, data[key]])])
+}
+
+const parseDraft = (value: unknown, stepCount: number): OnboardingDraft | null => {
+  if (!value || typeof value !== 'object') return null
+  const draft = value as Partial<OnboardingDraft>
+  if (typeof draft.updated_at !== 'string' || !draft.data || typeof draft.data !== 'object') return null
+
+  const step = Number(draft.step)
+  return {
+    step: Number.isInteger(step) ? Math.min(Math.max(step, 1), stepCount) : 1,
+    data: draft.data,
+    updated_at: draft.updated_at
+  }
+}
+
+export const useOnboardingDraft = <T extends Record<string, any>>({
+  step,
+  data,
+  stepCount,
+  onRestore
+}: UseOnboardingDraftOptions<T>) => {
+  const { profile, updateProfile } = useAuth()
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null)
+  // updated_at of the draft this screen last saved or restored; echoes of our own saves are skipped
+  const syncedAt = useRef<string | null>(null)
+  const saveTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+  // The step and data last saved or restored; unchanged forms are not saved again.
+  // Null until the stored draft has been checked, so an empty form can't overwrite it
+  const syncedSnapshot = useRef<string | null>(null)
+
+  const draft = parseDraft(profile?.onboarding_draft, stepCount)
+
+  useEffect(() => {
+    if (!profile) return
+
+    if (draft && draft.updated_at > (syncedAt.current || '') && !saveTimer.current) {
+      console.log(`🔄 Restoring onboarding draft from step ${draft.step}`)
+      syncedAt.current = draft.updated_at
+      syncedSnapshot.current = snapshot(draft.step, { ...data, ...draft.data })
+      setLastSavedAt(draft.updated_at)
+      onRestore(draft.step, draft.data as Partial<T>)
+    } else if (syncedSnapshot.current === null) {
+      syncedSnapshot.current = snapshot(step, data)
+    }
+  }, [profile?.id, draft?.updated_at])
+
+  const currentSnapshot = snapshot(step, data)
+
+  useEffect(() => {
+    if (syncedSnapshot.current === null || syncedSnapshot.current === currentSnapshot) return
+    if (profile?.onboarding_completed) return
+
+    if (saveTimer.current) clearTimeout(saveTimer.current)
+    saveTimer.current = setTimeout(async () => {
+      saveTimer.current = null
+      const updatedAt = new Date().toISOString()
+      syncedAt.current = updatedAt
+      syncedSnapshot.current = currentSnapshot
+
+      const result = await updateProfile({ onboarding_draft: { step, data, updated_at: updatedAt } })
+      if (result.success) {
+        setLastSavedAt(updatedAt)
+      } else {
+        console.log('⚠️ Could not save onboarding draft:', result.error)
+      }
+    }, ONBOARDING_DRAFT_SAVE_DELAY_MS)
+  }, [currentSnapshot])
+
+  useEffect(() => {
+    return () => {
+      if (saveTimer.current) clearTimeout(saveTimer.current)
+    }
+  }, [])
+
+  // Call before completing onboarding so a pending save doesn't race the final update
+  const cancelPendingSave = () => {
+    if (saveTimer.current) {
+      clearTimeout(saveTimer.current)
+      saveTimer.current = null
+    }
+  }
+
+  return { lastSavedAt, cancelPendingSave }
+}
@@ -0,0 +1,116 @@
+import { useState } from 'react'
+import {
+  OnboardingStep,
+  getActiveSteps,
+  getStepErrors,
+  validateOnboardingField
+} from '../utils/onboardingSteps'
+import { useAsyncFieldChecks } from './useAsyncFieldChecks'
+
+// Walks a list of onboarding step definitions: answers, per-field errors (including
+// async checks such as username availability) and next/back/skip over the steps whose
+// `when` matches the answers so far.
+// Steps are tracked by id, so a branch change never lands the user on another step's fields.
+
+export const useOnboardingSteps = <T extends Record<string, any>>(
+  steps: OnboardingStep<T>[],
+  initialData: T
+) => {
+  const [data, setData] = useState<T>(initialData)
+  const [currentStepId, setCurrentStepId] = useState(steps[0]?.id)
+  // Errors for fields the user has touched
+  const [errors, setErrors] = useState<Record<string, string>>({})
+
+  const activeSteps = getActiveSteps(steps, data)
+  // The current step can be hidden by a changed answer; fall back to the first
+  const stepIndex = Math.max(activeSteps.findIndex(step => step.id === currentStepId), 0)
+  const step = activeSteps[stepIndex]!
+  const isFirstStep = stepIndex === 0
+  const isLastStep = stepIndex === activeSteps.length - 1
+  // Async rules (asyncValidator) on the active steps, e.g. username availability
+  const checks = useAsyncFieldChecks(
+    'onboarding',
+    activeSteps.flatMap(activeStep => activeStep.fields).map(field => ({
+      name: field.name,
+      value: data[field.name],
+      rules: field.rules
+    }))
+  )
+  const blockedByChecks = step.fields.some(field => {
+    const status = checks[field.name]?.status
+    return status === 'checking' || status === 'invalid'
+  })
+  const canContinue = Object.keys(getStepErrors(step, data)).length === 0 && !blockedByChecks
+
+  const setAnswer = <K extends keyof T & string>(name: K, value: T[K]) => {
+    const next = { ...data, [name]: value }
+    setData(next)
+
+    const field = step.fields.find(stepField => stepField.name === name)
+    if (field) {
+      setErrors(prev => ({ ...prev, [name]: validateOnboardingField(step, field, next) }))
+    }
+  }
+
+  const goToIndex = (index: number, answers: T = data) => {
+    const target = getActiveSteps(steps, answers)[index]
+    if (target) setCurrentStepId(target.id)
+  }
+
+  const goNext = () => {
+    if (canContinue && !isLastStep) goToIndex(stepIndex + 1)
+  }
+
+  const goBack = () => {
+    if (!isFirstStep) goToIndex(stepIndex - 1)
+  }
+
+  /**
+   * Clear a skippable step's answers and move on
+   * Returns the answers without it, for submitting when the last step is skipped
+   */
+  const skip = (): T => {
+    if (!step.skippable) return data
+
+    const next = { ...data }
+    for (const field of step.fields) {
+      next[field.name] = initialData[field.name]
+    }
+    setData(next)
+    setErrors(prev => {
+      const remaining = { ...prev }
+      step.fields.forEach(field => delete remaining[field.name])
+      return remaining
+    })
+    if (!isLastStep) goToIndex(stepIndex + 1, next)
+    return next
+  }
+
+  /**
+   * Resume from a saved draft: merge its answers and go to its (1-based) step
+   */
+  const restore = (stepNumber: number, answers: Partial<T>) => {
+    setData(prev => ({ ...prev, ...answers }))
+    goToIndex(stepNumber - 1, { ...data, ...answers })
+  }
+
+  return {
+    data,
+    setData,
+    setAnswer,
+    errors,
+    setErrors,
+    checks,
+    step,
+    stepNumber: stepIndex + 1,
+    stepCount: activeSteps.length,
+    activeSteps,
+    isFirstStep,
+    isLastStep,
+    canContinue,
+    goNext,
+    goBack,
+    skip,
+    restore
+  }
+}
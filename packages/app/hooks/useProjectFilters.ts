@@ -0,0 +1,96 @@
+import { useCallback, useMemo } from 'react'
+import { useSearchParams, useUpdateSearchParams } from 'solito/navigation'
+import {
+  CODING_LANGUAGES,
+  EDUCATION_STATUSES,
+  POSTED_WITHIN_OPTIONS,
+  PROJECT_SORT_OPTIONS,
+  PROJECT_STATUSES,
+  TEAM_SIZE_BUCKETS
+} from '../utils/constants'
+import { DEFAULT_PROJECT_FILTERS, ProjectFilters } from '../utils/projects'
+
+// Browse filters are stored as string params so they survive reloads:
+// in the URL query on web and in React Navigation route params on native
+type ProjectFilterParams = {
+  lang: string
+  edu: string
+  team: string
+  posted: string
+  status: string
+  sort: string
+  page: string
+}
+
+const parseList = <T extends string>(value: string | null | undefined, allowed: readonly T[]): T[] => {
+  if (!value) return []
+  return value
+    .split(',')
+    .map(item => item.trim())
+    .filter((item): item is T => (allowed as readonly string[]).includes(item))
+}
+
+const parseOption = <T extends string>(value: string | null | undefined, allowed: readonly T[]): T | null => {
+  return value && (allowed as readonly string[]).includes(value) ? value as T : null
+}
+
+export const parseProjectFilters = (params?: { get: (key: string) => string | null } | null): ProjectFilters => {
+  const page = parseInt(params?.get('page') || '', 10)
+
+  return {
+    languages: parseList(params?.get('lang'), CODING_LANGUAGES),
+    education: parseList(params?.get('edu'), EDUCATION_STATUSES),
+    teamSize: parseOption(params?.get('team'), TEAM_SIZE_BUCKETS.map(bucket => bucket.value)),
+    postedWithin: parseOption(params?.get('posted'), POSTED_WITHIN_OPTIONS.map(option => option.value)),
+    statuses: parseList(params?.get('status'), PROJECT_STATUSES),
+    sort: parseOption(params?.get('sort'), PROJECT_SORT_OPTIONS.map(option => option.value)) || DEFAULT_PROJECT_FILTERS.sort,
+    page: Number.isFinite(page) && page > 0 ? page : 1
+  }
+}
+
+// Every key is always written (undefined removes it) so stale params never linger
+export const serializeProjectFilters = (filters: ProjectFilters): Partial<ProjectFilterParams> => ({
+  lang: filters.languages.length > 0 ? filters.languages.join(',') : undefined,
+  edu: filters.education.length > 0 ? filters.education.join(',') : undefined,
+  team: filters.teamSize || undefined,
+  posted: filters.postedWithin || undefined,
+  status: filters.statuses.length > 0 ? filters.statuses.join(',') : undefined,
+  sort: filters.sort !== DEFAULT_PROJECT_FILTERS.sort ? filters.sort : undefined,
+  page: filters.page > 1 ? String(filters.page) : undefined
+})
+
+export const useProjectFilters = () => {
+  const searchParams = useSearchParams<ProjectFilterParams>()
+  const updateSearchParams = useUpdateSearchParams<ProjectFilterParams>()
+
+  const searchKey = searchParams?.toString() || ''
+  const filters = useMemo(() => parseProjectFilters(searchParams), [searchKey])
+
+  // Changing any facet sends the user back to the first page
+  const setFilters = useCallback((changes: Partial<Omit<ProjectFilters, 'page'>>) => {
+    updateSearchParams(
+      serializeProjectFilters({ ...filters, ...changes, page: 1 }),
+      { webBehavior: 'replace' }
+    )
+  }, [filters, updateSearchParams])
+
+  const setPage = useCallback((page: number) => {
+    updateSearchParams(
+      serializeProjectFilters({ ...filters, page: Math.max(1, page) }),
+      { webBehavior: 'push' }
+    )
+  }, [filters, updateSearchParams])
+
+  const resetFilters = useCallback(() => {
+    updateSearchParams(serializeProjectFilters(DEFAULT_PROJECT_FILTERS), { webBehavior: 'replace' })
+  }, [updateSearchParams])
+
+  const activeFilterCount =
+    filters.languages.length +
+    filters.education.length +
+    filters.statuses.length +
+    (filters.teamSize ? 1 : 0) +
+    (filters.postedWithin ? 1 : 0)
+
+  return { filters, setFilters, setPage, resetFilters, activeFilterCount }
+}
@@ -0,0 +1,86 @@
+import { useEffect, useRef, useState } from 'react'
+import {
+  normalizeSearchQuery,
+  searchDevelopers,
+  searchProjects,
+  SearchFunction
+} from '../utils/search'
+
+interface UseSearchOptions {
+  debounceMs?: number
+  // Run the search function even when the query is empty (e.g. directory listings)
+  searchOnEmpty?: boolean
+  initialQuery?: string
+}
+
+// Shared search state: debounced query, pagination and out-of-order response protection
+export const useSearch = <T>(searchFn: SearchFunction<T>, options: UseSearchOptions = {}) => {
+  const { debounceMs = 300, searchOnEmpty = false, initialQuery = '' } = options
+  const [query, setQueryState] = useState(initialQuery)
+  const [page, setPage] = useState(1)
+  const [results, setResults] = useState<T[]>([])
+  const [totalCount, setTotalCount] = useState(0)
+  const [isSearching, setIsSearching] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const latestRequest = useRef(0)
+
+  const normalizedQuery = normalizeSearchQuery(query)
+  const isActive = normalizedQuery.length > 0 || searchOnEmpty
+
+  useEffect(() => {
+    const requestId = ++latestRequest.current
+
+    if (!isActive) {
+      setResults([])
+      setTotalCount(0)
+      setError(null)
+      setIsSearching(false)
+      return
+    }
+
+    setIsSearching(true)
+    const timeout = setTimeout(async () => {
+      const response = await searchFn(normalizedQuery, page)
+      if (requestId !== latestRequest.current) return
+
+      if (response.success) {
+        setResults(response.results || [])
+        setTotalCount(response.totalCount || 0)
+        setError(null)
+      } else {
+        setResults([])
+        setTotalCount(0)
+        setError(response.error || 'Search failed')
+      }
+      setIsSearching(false)
+    }, debounceMs)
+
+    return () => clearTimeout(timeout)
+  }, [normalizedQuery, page, isActive, searchFn, debounceMs])
+
+  // A new query always starts from the first page
+  const setQuery = (value: string) => {
+    setQueryState(value)
+    setPage(1)
+  }
+
+  const clearSearch = () => setQuery('')
+
+  return {
+    query,
+    setQuery,
+    clearSearch,
+    page,
+    setPage,
+    results,
+    totalCount,
+    isSearching,
+    isActive,
+    error
+  }
+}
+
+export const useProjectSearch = (options?: UseSearchOptions) => useSearch(searchProjects, options)
+
+export const useDeveloperSearch = (options?: UseSearchOptions) =>
+  useSearch(searchDevelopers, { searchOnEmpty: true, ...options })
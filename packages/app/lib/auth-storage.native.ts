@@ -0,0 +1,68 @@
+import 'react-native-url-polyfill/auto'
+import * as Crypto from 'expo-crypto'
+import * as SecureStore from 'expo-secure-store'
+import type { SupabaseClientOptions } from '@supabase/supabase-js'
+
+// Native session storage: the Keychain / Keystore via expo-secure-store.
+// Sessions use the PKCE flow, so the code verifier lives here too and the
+// deep-link callback only ever carries a one-time code (see lib/oauth.native.ts).
+
+// Hermes has no crypto.getRandomValues; without it supabase-js would build the
+// PKCE verifier from Math.random
+if (typeof globalThis.crypto?.getRandomValues !== 'function') {
+  Object.defineProperty(globalThis, 'crypto', {
+    configurable: true,
+    value: { ...globalThis.crypto, getRandomValues: Crypto.getRandomValues }
+  })
+}
+
+// SecureStore values above ~2 KB are rejected on some Android versions and a
+// session with a GitHub provider token is larger, so values are split into chunks
+const CHUNK_SIZE = 1800
+
+const chunkCountKey = (key: string) => `${key}.chunks`
+const chunkKey = (key: string, index: number) => `${key}.${index}`
+
+const removeChunks = async (key: string) => {
+  const count = Number(await SecureStore.getItemAsync(chunkCountKey(key))) || 0
+  for (let index = 0; index < count; index++) {
+    await SecureStore.deleteItemAsync(chunkKey(key, index))
+  }
+  await SecureStore.deleteItemAsync(chunkCountKey(key))
+}
+
+export const secureStoreAdapter = {
+  getItem: async (key: string): Promise<string | null> => {
+    const count = Number(await SecureStore.getItemAsync(chunkCountKey(key)))
+    if (!count) return null
+
+    const chunks: string[] = []
+    for (let index = 0; index < count; index++) {
+      const chunk = await SecureStore.getItemAsync(chunkKey(key, index))
+      // A partially written value is treated as missing rather than returned corrupt
+      if (chunk === null) return null
+      chunks.push(chunk)
+    }
+    return chunks.join('')
+  },
+
+  setItem: async (key: string, value: string): Promise<void> => {
+    await removeChunks(key)
+    const count = Math.max(Math.ceil(value.length / CHUNK_SIZE), 1)
+    for (let index = 0; index < count; index++) {
+      await SecureStore.setItemAsync(chunkKey(key, index), value.slice(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE))
+    }
+    await SecureStore.setItemAsync(chunkCountKey(key), String(count))
+  },
+
+  removeItem: async (key: string): Promise<void> => {
+    await removeChunks(key)
+  }
+}
+
+export const authStorageOptions: SupabaseClientOptions<'public'>['auth'] = {
+  storage: secureStoreAdapter,
+  flowType: 'pkce',
+  // There is no URL to read; lib/oauth.native.ts exchanges the code from the deep link
+  detectSessionInUrl: false
+}
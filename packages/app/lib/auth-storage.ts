@@ -0,0 +1,8 @@
+import type { SupabaseClientOptions } from '@supabase/supabase-js'
+
+// Web session storage: localStorage, with the OAuth result read from the
+// /auth/callback URL (see auth-storage.native.ts for the Expo app)
+export const authStorageOptions: SupabaseClientOptions<'public'>['auth'] = {
+  storage: typeof window !== 'undefined' ? window.localStorage : undefined,
+  detectSessionInUrl: true
+}
@@ -0,0 +1,130 @@
+import { AppState } from 'react-native'
+import * as Linking from 'expo-linking'
+import * as WebBrowser from 'expo-web-browser'
+import type { Provider } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+
+// Native OAuth with PKCE
+// 1. signInWithOAuth (skipBrowserRedirect) stores the code verifier in SecureStore and returns the provider URL
+// 2. an auth session browser opens it; Supabase redirects back to devrecruit://auth/callback?code=...
+// 3. the code is exchanged for a session with the stored verifier
+// The callback URL must be listed under Redirect URLs in the Supabase dashboard.
+
+WebBrowser.maybeCompleteAuthSession()
+
+const CALLBACK_PATH = 'auth/callback'
+
+// Android can deliver the callback both as the auth session result and as a
+// deep link; a code can only be exchanged once
+const handledCodes = new Set<string>()
+
+export const getOAuthRedirectUrl = (): string => Linking.createURL(CALLBACK_PATH)
+
+// devrecruit://auth/callback parses as hostname "auth" + path "callback";
+// in Expo Go (exp://host/--/auth/callback) the whole route is the path
+const isOAuthCallbackUrl = (url: string): boolean => {
+  const { hostname, path } = Linking.parse(url)
+  return [hostname, path].filter(Boolean).join('/').endsWith(CALLBACK_PATH)
+}
+
+/**
+ * Exchange the code from a deep-link callback for a session
+ * Returns false when the URL carries no new code
+ */
+export const completeOAuthFromUrl = async (url: string): Promise<boolean> => {
+  const { queryParams } = Linking.parse(url)
+  const errorDescription = queryParams?.error_description || queryParams?.error
+  if (errorDescription) {
+    throw new Error(String(errorDescription))
+  }
+
+  const code = typeof queryParams?.code === 'string' ? queryParams.code : null
+  if (!code || handledCodes.has(code)) return false
+  handledCodes.add(code)
+
+  const { error } = await supabase.auth.exchangeCodeForSession(code)
+  if (error) {
+    console.error('❌ OAuth code exchange error:', error)
+    throw error
+  }
+
+  console.log('✅ OAuth session established from deep link')
+  return true
+}
+
+/**
+ * Open the provider page in an auth session browser and finish with the returned code
+ */
+const runAuthSession = async (url: string, redirectTo: string): Promise<void> => {
+  const result = await WebBrowser.openAuthSessionAsync(url, redirectTo)
+  if (result.type !== 'success') {
+    console.log('⚠️ OAuth browser session ended:', result.type)
+    return
+  }
+
+  await completeOAuthFromUrl(result.url)
+}
+
+export const signInWithOAuthProvider = async (provider: Provider, scopes?: string): Promise<void> => {
+  const redirectTo = getOAuthRedirectUrl()
+  console.log('🔗 Redirect URL:', redirectTo)
+
+  const { data, error } = await supabase.auth.signInWithOAuth({
+    provider,
+    options: { redirectTo, scopes, skipBrowserRedirect: true }
+  })
+
+  if (error || !data.url) {
+    console.error('❌ OAuth error:', error)
+    throw error || new Error('No authorization URL returned')
+  }
+
+  await runAuthSession(data.url, redirectTo)
+}
+
+/**
+ * Add another provider's identity to the signed-in user
+ * Requires "Allow manual linking" in the Supabase auth settings
+ */
+export const linkOAuthIdentity = async (provider: Provider, scopes?: string): Promise<void> => {
+  const redirectTo = getOAuthRedirectUrl()
+
+  const { data, error } = await supabase.auth.linkIdentity({
+    provider,
+    options: { redirectTo, scopes, skipBrowserRedirect: true }
+  })
+
+  if (error || !data.url) {
+    console.error('❌ Identity linking error:', error)
+    throw error || new Error('No authorization URL returned')
+  }
+
+  await runAuthSession(data.url, redirectTo)
+}
+
+/**
+ * Handle callbacks that arrive as deep links (cold starts, Android) and only
+ * refresh tokens while the app is in the foreground
+ */
+export const subscribeToOAuthCallbacks = (): (() => void) => {
+  const handleUrl = (url: string | null) => {
+    if (!url || !isOAuthCallbackUrl(url)) return
+    completeOAuthFromUrl(url).catch(error => console.error('❌ OAuth callback error:', error))
+  }
+
+  Linking.getInitialURL().then(handleUrl)
+  const linkSubscription = Linking.addEventListener('url', ({ url }) => handleUrl(url))
+
+  const appStateSubscription = AppState.addEventListener('change', state => {
+    if (state === 'active') {
+      supabase.auth.startAutoRefresh()
+    } else {
+      supabase.auth.stopAutoRefresh()
+    }
+  })
+
+  return () => {
+    linkSubscription.remove()
+    appStateSubscription.remove()
+  }
+}
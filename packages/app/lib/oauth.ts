@@ -0,0 +1,44 @@
+import type { Provider } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+
+// Web OAuth: Supabase redirects the whole page to the provider and back to
+// /auth/callback, where detectSessionInUrl picks up the session
+// (see oauth.native.ts for the Expo app)
+
+export const getOAuthRedirectUrl = (): string => `${window.location.origin}/auth/callback`
+
+export const signInWithOAuthProvider = async (provider: Provider, scopes?: string): Promise<void> => {
+  const redirectTo = getOAuthRedirectUrl()
+  console.log('🔗 Redirect URL:', redirectTo)
+
+  const { data, error } = await supabase.auth.signInWithOAuth({
+    provider,
+    options: { redirectTo, scopes }
+  })
+
+  if (error) {
+    console.error('❌ OAuth error:', error)
+    throw error
+  }
+
+  console.log('✅ OAuth initiated:', data)
+}
+
+/**
+ * Add another provider's identity to the signed-in user
+ * Requires "Allow manual linking" in the Supabase auth settings
+ */
+export const linkOAuthIdentity = async (provider: Provider, scopes?: string): Promise<void> => {
+  const { error } = await supabase.auth.linkIdentity({
+    provider,
+    options: { redirectTo: getOAuthRedirectUrl(), scopes }
+  })
+
+  if (error) {
+    console.error('❌ Identity linking error:', error)
+    throw error
+  }
+}
+
+// The callback page handles the redirect on web, so there is nothing to listen for
+export const subscribeToOAuthCallbacks = (): (() => void) => () => {}
@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js'
+import { authStorageOptions } from './auth-storage'
 
 // Function to get environment variables with better error handling
 function getEnvVar(name: string): string {
@@ -33,11 +34,10 @@ console.log('✅ Supabase configuration loaded successfully')
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
   auth: {
-    // Configure for cross-platform compatibility
-    storage: typeof window !== 'undefined' ? window.localStorage : undefined,
+    // Storage and callback handling differ per platform (lib/auth-storage.native.ts)
+    ...authStorageOptions,
     autoRefreshToken: true,
-    persistSession: true,
-    detectSessionInUrl: true
+    persistSession: true
   }
 })
 
@@ -58,7 +58,19 @@ export type Database = {
           github_username: string | null
           github_repository_count: number | null
           github_commit_count: number | null
+          github_pull_request_count: number
+          github_issue_count: number
+          github_review_count: number
+          github_contributions_by_year: Record<string, { commits: number; pullRequests: number; issues: number; reviews: number }>
+          github_language_breakdown: { language: string; bytes: number; percentage: number }[]
+          github_repositories: { name: string; fullName: string; description: string | null; url: string; stars: number; primaryLanguage: string | null; pushedAt: string | null; pinned: boolean }[]
+          github_hidden_repositories: string[]
+          github_contribution_calendar: { date: string; count: number }[]
+          github_stats_synced_at: string | null
+          github_sync_failures: number
+          github_sync_retry_at: string | null
           onboarding_completed: boolean | null
+          onboarding_draft: { step: number; data: Record<string, any>; updated_at: string } | null
           account_status: string | null
           privacy_settings: Record<string, any> | null
           created_at: string
@@ -77,7 +89,19 @@ export type Database = {
           github_username?: string | null
           github_repository_count?: number | null
           github_commit_count?: number | null
+          github_pull_request_count?: number
+          github_issue_count?: number
+          github_review_count?: number
+          github_contributions_by_year?: Record<string, { commits: number; pullRequests: number; issues: number; reviews: number }>
+          github_language_breakdown?: { language: string; bytes: number; percentage: number }[]
+          github_repositories?: { name: string; fullName: string; description: string | null; url: string; stars: number; primaryLanguage: string | null; pushedAt: string | null; pinned: boolean }[]
+          github_hidden_repositories?: string[]
+          github_contribution_calendar?: { date: string; count: number }[]
+          github_stats_synced_at?: string | null
+          github_sync_failures?: number
+          github_sync_retry_at?: string | null
           onboarding_completed?: boolean | null
+          onboarding_draft?: { step: number; data: Record<string, any>; updated_at: string } | null
           account_status?: string | null
           privacy_settings?: Record<string, any> | null
           created_at?: string
@@ -96,12 +120,515 @@ export type Database = {
           github_username?: string | null
           github_repository_count?: number | null
           github_commit_count?: number | null
+          github_pull_request_count?: number
+          github_issue_count?: number
+          github_review_count?: number
+          github_contributions_by_year?: Record<string, { commits: number; pullRequests: number; issues: number; reviews: number }>
+          github_language_breakdown?: { language: string; bytes: number; percentage: number }[]
+          github_repositories?: { name: string; fullName: string; description: string | null; url: string; stars: number; primaryLanguage: string | null; pushedAt: string | null; pinned: boolean }[]
+          github_hidden_repositories?: string[]
+          github_contribution_calendar?: { date: string; count: number }[]
+          github_stats_synced_at?: string | null
+          github_sync_failures?: number
+          github_sync_retry_at?: string | null
           onboarding_completed?: boolean | null
+          onboarding_draft?: { step: number; data: Record<string, any>; updated_at: string } | null
           account_status?: string | null
           privacy_settings?: Record<string, any> | null
           updated_at?: string
         }
       }
+      projects: {
+        Row: {
+          id: string
+          owner_id: string
+          title: string
+          description: string
+          coding_languages: string[]
+          team_size: number
+          time_commitment: 'few_hours_week' | 'part_time' | 'full_time' | 'flexible'
+          status: 'open' | 'in_progress' | 'completed' | 'closed'
+          repository_url: string | null
+          topics: string[]
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          owner_id: string
+          title: string
+          description: string
+          coding_languages: string[]
+          team_size: number
+          time_commitment: 'few_hours_week' | 'part_time' | 'full_time' | 'flexible'
+          status?: 'open' | 'in_progress' | 'completed' | 'closed'
+          repository_url?: string | null
+          topics?: string[]
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          title?: string
+          description?: string
+          coding_languages?: string[]
+          team_size?: number
+          time_commitment?: 'few_hours_week' | 'part_time' | 'full_time' | 'flexible'
+          status?: 'open' | 'in_progress' | 'completed' | 'closed'
+          repository_url?: string | null
+          topics?: string[]
+          updated_at?: string
+        }
+      }
+      project_tasks: {
+        Row: {
+          id: string
+          project_id: string
+          title: string
+          url: string
+          labels: string[]
+          github_issue_number: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          project_id: string
+          title: string
+          url: string
+          labels?: string[]
+          github_issue_number: number
+          created_at?: string
+        }
+        Update: {
+          title?: string
+          url?: string
+          labels?: string[]
+        }
+      }
+      project_activity_metrics: {
+        Row: {
+          project_id: string
+          commit_count: number
+          issues_opened_count: number
+          issues_closed_count: number
+          pull_requests_opened_count: number
+          pull_requests_merged_count: number
+          release_count: number
+          latest_release_tag: string | null
+          last_activity_at: string | null
+          updated_at: string
+        }
+        Insert: never
+        Update: never
+      }
+      project_activity: {
+        Row: {
+          id: string
+          project_id: string
+          delivery_id: string
+          event_type: 'push' | 'issues' | 'pull_request' | 'release'
+          action: string | null
+          actor_login: string | null
+          title: string | null
+          url: string | null
+          commit_count: number
+          occurred_at: string
+          created_at: string
+        }
+        Insert: never
+        Update: never
+      }
+      project_applications: {
+        Row: {
+          id: string
+          project_id: string
+          applicant_id: string
+          pitch: string
+          links: string[]
+          status: 'pending' | 'shortlisted' | 'accepted' | 'rejected' | 'withdrawn'
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          project_id: string
+          applicant_id: string
+          pitch: string
+          links?: string[]
+          status?: 'pending'
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          status?: 'shortlisted' | 'accepted' | 'rejected' | 'withdrawn'
+        }
+      }
+      application_audit_log: {
+        Row: {
+          id: string
+          application_id: string
+          actor_id: string | null
+          from_status: string | null
+          to_status: string
+          created_at: string
+        }
+        Insert: never
+        Update: never
+      }
+      project_invitations: {
+        Row: {
+          id: string
+          project_id: string
+          inviter_id: string
+          invitee_id: string
+          message: string | null
+          status: 'pending' | 'accepted' | 'declined' | 'cancelled'
+          responded_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          project_id: string
+          inviter_id: string
+          invitee_id: string
+          message?: string | null
+          status?: 'pending'
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          status?: 'accepted' | 'declined' | 'cancelled'
+        }
+      }
+      conversations: {
+        Row: {
+          id: string
+          participant_a: string
+          participant_b: string
+          last_message_at: string | null
+          last_message_preview: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: never
+        Update: never
+      }
+      messages: {
+        Row: {
+          id: string
+          conversation_id: string
+          sender_id: string
+          body: string
+          read_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          conversation_id: string
+          sender_id: string
+          body: string
+          created_at?: string
+        }
+        Update: {
+          read_at?: string | null
+        }
+      }
+      github_sync_log: {
+        Row: {
+          id: string
+          user_id: string
+          run_id: string
+          outcome: 'synced' | 'failed' | 'not_found' | 'rate_limited'
+          attempts: number
+          error: string | null
+          duration_ms: number | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          run_id: string
+          outcome: 'synced' | 'failed' | 'not_found' | 'rate_limited'
+          attempts?: number
+          error?: string | null
+          duration_ms?: number | null
+          created_at?: string
+        }
+        Update: never
+      }
+      github_etag_cache: {
+        Row: {
+          cache_key: string
+          etag: string
+          status: number
+          data: unknown
+          stored_at: string
+        }
+        Insert: {
+          cache_key: string
+          etag: string
+          status?: number
+          data: unknown
+          stored_at?: string
+        }
+        Update: {
+          etag?: string
+          status?: number
+          data?: unknown
+          stored_at?: string
+        }
+      }
+      username_history: {
+        Row: {
+          id: string
+          user_id: string
+          username: string
+          retired_at: string
+          redirect_until: string
+        }
+        Insert: never
+        Update: never
+      }
+    }
+    Functions: {
+      get_review_queue: {
+        Args: Record<string, never>
+        Returns: {
+          id: string
+          project_id: string
+          project_title: string
+          applicant_id: string
+          applicant_username: string | null
+          applicant_full_name: string | null
+          applicant_avatar_url: string | null
+          applicant_coding_languages: string[] | null
+          pitch: string
+          links: string[]
+          status: 'pending' | 'shortlisted' | 'accepted' | 'rejected' | 'withdrawn'
+          created_at: string
+          updated_at: string
+        }[]
+      }
+      browse_projects: {
+        Args: {
+          p_languages?: string[] | null
+          p_education?: string[] | null
+          p_min_team_size?: number | null
+          p_max_team_size?: number | null
+          p_posted_since?: string | null
+          p_statuses?: string[] | null
+          p_sort?: 'newest' | 'best_match'
+          p_match_languages?: string[] | null
+          p_limit?: number
+          p_offset?: number
+        }
+        Returns: {
+          id: string
+          owner_id: string
+          title: string
+          description: string
+          coding_languages: string[]
+          team_size: number
+          time_commitment: 'few_hours_week' | 'part_time' | 'full_time' | 'flexible'
+          status: 'open' | 'in_progress' | 'completed' | 'closed'
+          repository_url: string | null
+          topics: string[]
+          created_at: string
+          updated_at: string
+          owner_username: string | null
+          owner_full_name: string | null
+          owner_avatar_url: string | null
+          owner_education_status: string | null
+          match_score: number
+          total_count: number
+        }[]
+      }
+      search_projects: {
+        Args: {
+          p_query: string
+          p_limit?: number
+          p_offset?: number
+        }
+        Returns: {
+          id: string
+          owner_id: string
+          title: string
+          description: string
+          coding_languages: string[]
+          team_size: number
+          time_commitment: 'few_hours_week' | 'part_time' | 'full_time' | 'flexible'
+          status: 'open' | 'in_progress' | 'completed' | 'closed'
+          repository_url: string | null
+          topics: string[]
+          created_at: string
+          updated_at: string
+          owner_username: string | null
+          rank: number
+          snippet: string | null
+          total_count: number
+        }[]
+      }
+      search_developers: {
+        Args: {
+          p_query?: string | null
+          p_limit?: number
+          p_offset?: number
+        }
+        Returns: {
+          id: string
+          username: string | null
+          full_name: string | null
+          avatar_url: string | null
+          education_status: string | null
+          coding_languages: string[] | null
+          rank: number
+          snippet: string | null
+          total_count: number
+        }[]
+      }
+      invite_to_project: {
+        Args: {
+          p_project_id: string
+          p_username: string
+          p_message?: string | null
+        }
+        Returns: Database['public']['Tables']['project_invitations']['Row']
+      }
+      get_received_invitations: {
+        Args: Record<string, never>
+        Returns: {
+          id: string
+          project_id: string
+          project_title: string
+          project_status: 'open' | 'in_progress' | 'completed' | 'closed'
+          inviter_username: string | null
+          inviter_full_name: string | null
+          inviter_avatar_url: string | null
+          message: string | null
+          status: 'pending' | 'accepted' | 'declined' | 'cancelled'
+          responded_at: string | null
+          created_at: string
+        }[]
+      }
+      get_sent_invitations: {
+        Args: Record<string, never>
+        Returns: {
+          id: string
+          project_id: string
+          project_title: string
+          invitee_username: string | null
+          invitee_full_name: string | null
+          invitee_avatar_url: string | null
+          message: string | null
+          status: 'pending' | 'accepted' | 'declined' | 'cancelled'
+          responded_at: string | null
+          created_at: string
+        }[]
+      }
+      start_conversation: {
+        Args: {
+          p_recipient_id: string
+        }
+        Returns: Database['public']['Tables']['conversations']['Row']
+      }
+      get_conversations: {
+        Args: Record<string, never>
+        Returns: {
+          id: string
+          other_user_id: string
+          other_username: string | null
+          other_full_name: string | null
+          other_avatar_url: string | null
+          other_accepts_messages: boolean
+          last_message_at: string | null
+          last_message_preview: string | null
+          unread_count: number
+          created_at: string
+        }[]
+      }
+      get_public_profile: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: {
+          id: string
+          username: string | null
+          full_name: string | null
+          avatar_url: string | null
+          about_me: string | null
+          education_status: string | null
+          coding_languages: string[] | null
+          email: string | null
+          github_username: string | null
+          github_repository_count: number | null
+          github_commit_count: number | null
+          github_pull_request_count: number | null
+          github_issue_count: number | null
+          github_review_count: number | null
+          github_language_breakdown: { language: string; bytes: number; percentage: number }[] | null
+          github_repositories: { name: string; fullName: string; description: string | null; url: string; stars: number; primaryLanguage: string | null; pushedAt: string | null; pinned: boolean }[] | null
+          profile_visibility: 'public' | 'private' | 'limited'
+          is_owner: boolean
+          can_view: boolean
+          created_at: string | null
+        }[]
+      }
+      record_project_activity: {
+        Args: {
+          p_project_ids: string[]
+          p_repository_url: string
+          p_delivery_id: string
+          p_event_type: 'push' | 'issues' | 'pull_request' | 'release'
+          p_action?: string | null
+          p_actor_login?: string | null
+          p_title?: string | null
+          p_url?: string | null
+          p_commit_count?: number
+          p_issue_number?: number | null
+          p_release_tag?: string | null
+          p_occurred_at?: string
+        }
+        Returns: number
+      }
+      get_project_webhook_secret: {
+        Args: { p_project_id: string }
+        Returns: string
+      }
+      get_project_webhook_secrets: {
+        Args: { p_repository_url: string }
+        Returns: { project_id: string; secret: string }[]
+      }
+      get_github_sync_candidates: {
+        Args: {
+          p_stale_before: string
+          p_limit?: number
+        }
+        Returns: {
+          id: string
+          github_username: string
+          github_sync_failures: number
+        }[]
+      }
+      resolve_username: {
+        Args: {
+          p_username: string
+        }
+        Returns: {
+          user_id: string
+          username: string
+          is_redirect: boolean
+        }[]
+      }
+      check_username_availability: {
+        Args: {
+          p_username: string
+        }
+        Returns: {
+          available: boolean
+          reason: 'reserved' | 'taken' | null
+          suggestions: string[]
+        }[]
+      }
     }
   }
 } 
\ No newline at end of file
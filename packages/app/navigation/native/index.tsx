@@ -2,19 +2,52 @@ import { createNativeStackNavigator } from '@react-navigation/native-stack'
 
 import { HomeScreen } from 'app/features/home/screen'
 import { UserDetailScreen } from 'app/features/user/detail-screen'
+import { UsernameProfileScreen } from 'app/features/user/username-screen'
 import { LoginScreen } from 'app/features/auth/login-screen'
 import { DashboardScreen } from 'app/features/dashboard/screen'
+import { OnboardingScreen } from 'app/features/onboarding/screen'
+import { RequireAuth, RequireOnboarding } from 'app/provider/route-guard'
 
 const Stack = createNativeStackNavigator<{
   home: undefined
   'user-detail': {
-    id: string
+    userId: string
+  }
+  'user-profile': {
+    username: string
   }
   signin: undefined
   join: undefined
-  dashboard: undefined
+  onboarding: undefined
+  // Browse Projects filters are kept as string params (see hooks/useProjectFilters)
+  dashboard: {
+    lang?: string
+    edu?: string
+    team?: string
+    posted?: string
+    status?: string
+    sort?: string
+    page?: string
+  } | undefined
 }>()
 
+// Same guards as the Next layouts for /onboarding and /dashboard
+function GuardedOnboardingScreen() {
+  return (
+    <RequireAuth>
+      <OnboardingScreen />
+    </RequireAuth>
+  )
+}
+
+function GuardedDashboardScreen() {
+  return (
+    <RequireOnboarding loadingMessage="Loading dashboard...">
+      <DashboardScreen />
+    </RequireOnboarding>
+  )
+}
+
 export function NativeNavigation() {
   return (
     <Stack.Navigator>
@@ -32,6 +65,13 @@ export function NativeNavigation() {
           title: 'User',
         }}
       />
+      <Stack.Screen
+        name="user-profile"
+        component={UsernameProfileScreen}
+        options={{
+          title: 'Profile',
+        }}
+      />
       <Stack.Screen
         name="signin"
         component={LoginScreen}
@@ -46,9 +86,16 @@ export function NativeNavigation() {
           headerShown: false,
         }}
       />
+      <Stack.Screen
+        name="onboarding"
+        component={GuardedOnboardingScreen}
+        options={{
+          headerShown: false,
+        }}
+      />
       <Stack.Screen
         name="dashboard"
-        component={DashboardScreen}
+        component={GuardedDashboardScreen}
         options={{
           headerShown: false,
         }}
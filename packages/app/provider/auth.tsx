@@ -1,14 +1,50 @@
 'use client'
 
-import React, { createContext, useContext, useEffect, useState } from 'react'
-import { Session, User } from '@supabase/supabase-js'
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react'
+import { Session, User, UserIdentity } from '@supabase/supabase-js'
 import { supabase } from '../lib/supabase'
+import {
+  getOAuthRedirectUrl,
+  linkOAuthIdentity,
+  signInWithOAuthProvider,
+  subscribeToOAuthCallbacks
+} from '../lib/oauth'
+import { AUTH_OAUTH_PROVIDERS } from '../utils/constants'
+import {
+  getOwnProfile,
+  OwnProfile,
+  OwnProfileResult,
+  OwnProfileUpdate,
+  subscribeToOwnProfile,
+  updateOwnProfile
+} from '../utils/profiles'
+
+export type AuthOAuthProvider = typeof AUTH_OAUTH_PROVIDERS[number]['value']
 
 interface AuthContextType {
   user: User | null
   session: Session | null
   loading: boolean
+  // The signed-in user's profile, loaded once per user and shared by every screen
+  profile: OwnProfile | null
+  // True while the profile of the current user has not been loaded yet
+  profileLoading: boolean
+  // Set when the last profile load failed; `profile` is then the last one loaded (or null),
+  // which says nothing about onboarding
+  profileError: string | null
+  refreshProfile: () => Promise<void>
+  // Saves to the database and updates the cached profile; other tabs and devices
+  // pick the change up through the Realtime subscription
+  updateProfile: (updates: OwnProfileUpdate) => Promise<OwnProfileResult>
+  // Sign-in methods linked to this account (github, gitlab, email)
+  identities: UserIdentity[]
   signInWithGitHub: () => Promise<void>
+  signInWithGitLab: () => Promise<void>
+  // Emails a one-time sign-in link; the account is created on first use
+  signInWithMagicLink: (email: string) => Promise<void>
+  linkIdentity: (provider: AuthOAuthProvider) => Promise<void>
+  // Throws when it is the account's only identity, which would lock the user out
+  unlinkIdentity: (identity: UserIdentity) => Promise<void>
   signOut: () => Promise<void>
 }
 
@@ -18,6 +54,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null)
   const [session, setSession] = useState<Session | null>(null)
   const [loading, setLoading] = useState(true)
+  const [profile, setProfile] = useState<OwnProfile | null>(null)
+  // Whose profile `profile` is; token refreshes replace the user object but not the id
+  const [profileUserId, setProfileUserId] = useState<string | null>(null)
+  const [profileError, setProfileError] = useState<string | null>(null)
+  // Bumped by every load and sign-out, so a slower earlier load can't overwrite newer data
+  const profileRequest = useRef(0)
 
   useEffect(() => {
     // Get initial session
@@ -38,31 +80,139 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       setLoading(false)
     })
 
-    return () => subscription.unsubscribe()
+    // Native: exchange OAuth codes that arrive as deep links (no-op on web)
+    const unsubscribeCallbacks = subscribeToOAuthCallbacks()
+
+    return () => {
+      subscription.unsubscribe()
+      unsubscribeCallbacks()
+    }
+  }, [])
+
+  const loadProfile = useCallback(async (currentUser: User) => {
+    const requestId = ++profileRequest.current
+    const result = await getOwnProfile(currentUser)
+    if (requestId !== profileRequest.current) {
+      console.log('⚠️ Ignoring out-of-date profile load')
+      return
+    }
+
+    if (!result.success) {
+      console.error('❌ Profile load error:', result.error)
+      setProfileError(result.error || 'Failed to load your profile')
+      // Keep what we had for this user rather than treating them as a new one
+      setProfile(previous => previous?.id === currentUser.id ? previous : null)
+      setProfileUserId(currentUser.id)
+      return
+    }
+
+    setProfile(result.profile ?? null)
+    setProfileError(null)
+    setProfileUserId(currentUser.id)
+
+    // Profiles created here missed the signup trigger, so fetch their GitHub stats too
+    const githubUsername = result.profile?.github_username
+    if (result.created && githubUsername) {
+      const { updateUserGitHubStats } = await import('../utils/githubStats')
+      const statsResult = await updateUserGitHubStats(currentUser.id, githubUsername)
+      if (!statsResult.success) {
+        console.log('⚠️ Initial GitHub stats fetch failed:', statsResult.error)
+      }
+    }
   }, [])
 
+  // A saved or pushed row is newer than any load still in flight
+  const applyProfile = (updatedProfile: OwnProfile) => {
+    profileRequest.current++
+    setProfile(updatedProfile)
+    setProfileUserId(updatedProfile.id)
+    setProfileError(null)
+  }
+
+  useEffect(() => {
+    if (!user) {
+      profileRequest.current++
+      setProfile(null)
+      setProfileUserId(null)
+      setProfileError(null)
+      return
+    }
+    if (profileUserId !== user.id) {
+      loadProfile(user)
+    }
+  }, [user?.id])
+
+  // Keep the cached profile in sync with edits made elsewhere
+  useEffect(() => {
+    if (!user) return
+    return subscribeToOwnProfile(user.id, updatedProfile => {
+      console.log('🔄 Profile updated remotely')
+      applyProfile(updatedProfile)
+    })
+  }, [user?.id])
+
+  const refreshProfile = async () => {
+    if (user) await loadProfile(user)
+  }
+
+  const updateProfile = async (updates: OwnProfileUpdate): Promise<OwnProfileResult> => {
+    if (!user) return { success: false, error: 'You must be signed in to update your profile' }
+
+    const result = await updateOwnProfile(user.id, updates)
+    if (result.success && result.profile) {
+      applyProfile(result.profile)
+    }
+    return result
+  }
+
+  const getScopes = (provider: AuthOAuthProvider) => {
+    return AUTH_OAUTH_PROVIDERS.find(option => option.value === provider)?.scopes
+  }
+
   const signInWithGitHub = async () => {
     console.log('🔐 Initiating GitHub OAuth...')
-    const redirectUrl = typeof window !== 'undefined' 
-      ? `${window.location.origin}/auth/callback`
-      : 'devrecruit://dashboard'
-    
-    console.log('🔗 Redirect URL:', redirectUrl)
-    
-    const { data, error } = await supabase.auth.signInWithOAuth({
-      provider: 'github',
-      options: {
-        redirectTo: redirectUrl,
-        scopes: 'read:user user:email',
-      },
+    // Web redirects to /auth/callback; native opens an auth session and returns here
+    await signInWithOAuthProvider('github', getScopes('github'))
+  }
+
+  const signInWithGitLab = async () => {
+    console.log('🔐 Initiating GitLab OAuth...')
+    await signInWithOAuthProvider('gitlab', getScopes('gitlab'))
+  }
+
+  const signInWithMagicLink = async (email: string) => {
+    console.log('✉️ Sending magic link...')
+    const { error } = await supabase.auth.signInWithOtp({
+      email: email.trim(),
+      options: { emailRedirectTo: getOAuthRedirectUrl() }
     })
-    
+
     if (error) {
-      console.error('❌ OAuth error:', error)
+      console.error('❌ Magic link error:', error)
       throw error
     }
-    
-    console.log('✅ OAuth initiated:', data)
+  }
+
+  const linkIdentity = async (provider: AuthOAuthProvider) => {
+    console.log(`🔗 Linking ${provider} identity...`)
+    await linkOAuthIdentity(provider, getScopes(provider))
+  }
+
+  const unlinkIdentity = async (identity: UserIdentity) => {
+    // Check the server's list rather than the cached user, which may be stale
+    const { data, error: identitiesError } = await supabase.auth.getUserIdentities()
+    if (identitiesError) throw identitiesError
+    if ((data?.identities.length ?? 0) <= 1) {
+      throw new Error('You cannot remove your only sign-in method. Link another account first.')
+    }
+
+    const { error } = await supabase.auth.unlinkIdentity(identity)
+    if (error) throw error
+
+    // unlinkIdentity does not emit an auth event, so reload the user for its identities
+    const { data: { user: updatedUser } } = await supabase.auth.getUser()
+    setUser(updatedUser)
+    console.log(`✅ Unlinked ${identity.provider} identity`)
   }
 
   const signOut = async () => {
@@ -74,7 +224,17 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     user,
     session,
     loading,
+    profile,
+    profileLoading: !!user && profileUserId !== user.id,
+    profileError,
+    refreshProfile,
+    updateProfile,
+    identities: user?.identities ?? [],
     signInWithGitHub,
+    signInWithGitLab,
+    signInWithMagicLink,
+    linkIdentity,
+    unlinkIdentity,
     signOut,
   }
 
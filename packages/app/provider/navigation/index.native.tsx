@@ -16,9 +16,11 @@ export function NavigationProvider({
             initialRouteName: 'home',
             screens: {
               home: '',
-              'user-detail': 'users/:id',
+              'user-detail': 'users/:userId',
+              'user-profile': 'u/:username',
               signin: 'signin',
               join: 'join',
+              onboarding: 'onboarding',
               dashboard: 'dashboard',
             },
           },
@@ -0,0 +1,164 @@
+'use client'
+
+import React, { useEffect, useRef, useState } from 'react'
+import { View, Text, Pressable } from 'react-native'
+import { useAuth } from './auth'
+import { useAppRouter } from '../hooks/useAppRouter'
+import { logSecurityEvent } from '../utils/monitoring'
+import type { OwnProfile } from '../utils/profiles'
+
+// Route guards for screens that need a signed-in (and onboarded) user
+// Both read the user and the cached profile from useAuth, so a guarded screen can
+// rely on them being present and never queries profiles for redirects itself.
+// Web wraps routes in a layout (apps/next/app/dashboard/layout.tsx); native wraps
+// the stack screens (app/navigation/native).
+
+/**
+ * Where a signed-in user belongs: onboarding until it is completed, the dashboard after
+ * Without a profile (the load failed) we can't tell, so go to the dashboard, whose guard
+ * offers a retry instead of sending an onboarded user back through onboarding
+ */
+export const getPostSignInPath = (profile: OwnProfile | null): string => {
+  return profile && !profile.onboarding_completed ? '/onboarding' : '/dashboard'
+}
+
+function GuardLoading({ message }: { message: string }) {
+  return (
+    <View style={{
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: '#fafbfc'
+    }}>
+      <Text style={{
+        fontSize: 18,
+        color: '#64748b',
+        fontWeight: '500'
+      }}>
+        {message}
+      </Text>
+    </View>
+  )
+}
+
+function GuardError({ message, onRetry }: { message: string; onRetry: () => Promise<void> }) {
+  const [isRetrying, setIsRetrying] = useState(false)
+  const [hoveredButton, setHoveredButton] = useState(false)
+
+  const handleRetry = async () => {
+    setIsRetrying(true)
+    await onRetry()
+    setIsRetrying(false)
+  }
+
+  return (
+    <View style={{
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: '#fafbfc',
+      padding: 24
+    }}>
+      <Text style={{
+        fontSize: 18,
+        color: '#0f172a',
+        fontWeight: '600',
+        marginBottom: 8
+      }}>
+        We couldn't load your profile
+      </Text>
+      <Text style={{
+        fontSize: 14,
+        color: '#64748b',
+        textAlign: 'center',
+        marginBottom: 20
+      }}>
+        {message}
+      </Text>
+      <Pressable
+        onPress={handleRetry}
+        disabled={isRetrying}
+        onHoverIn={() => setHoveredButton(true)}
+        onHoverOut={() => setHoveredButton(false)}
+        style={{
+          backgroundColor: hoveredButton ? '#5b6cf0' : '#667eea',
+          paddingHorizontal: 20,
+          paddingVertical: 10,
+          borderRadius: 8,
+          opacity: isRetrying ? 0.7 : 1
+        }}
+      >
+        <Text style={{ color: '#ffffff', fontSize: 15, fontWeight: '600' }}>
+          {isRetrying ? 'Retrying...' : 'Try again'}
+        </Text>
+      </Pressable>
+    </View>
+  )
+}
+
+interface GuardProps {
+  children: React.ReactNode
+  loadingMessage?: string
+}
+
+/**
+ * Render children only for a signed-in user whose profile has loaded; otherwise go home
+ */
+export function RequireAuth({ children, loadingMessage = 'Loading...' }: GuardProps) {
+  const { user, loading, profileLoading } = useAuth()
+  const router = useAppRouter()
+  // Signing out from a guarded screen is not an unauthorized visit
+  const hadUser = useRef(false)
+
+  useEffect(() => {
+    if (user) hadUser.current = true
+    if (loading || user) return
+
+    router.replace('/')
+    if (hadUser.current) return
+
+    logSecurityEvent({
+      type: 'authentication',
+      severity: 'medium',
+      details: {
+        action: 'unauthorized_access',
+        redirected: true,
+        userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : 'unknown'
+      },
+      timestamp: new Date().toISOString()
+    })
+  }, [user, loading])
+
+  if (loading || profileLoading || !user) {
+    return <GuardLoading message={loadingMessage} />
+  }
+
+  return <>{children}</>
+}
+
+/**
+ * RequireAuth, plus a completed onboarding; otherwise go to /onboarding
+ * A failed profile load is not "not onboarded": without a profile it shows a retry instead
+ */
+export function RequireOnboarding({ children, loadingMessage = 'Loading...' }: GuardProps) {
+  const { user, profile, loading, profileLoading, profileError, refreshProfile } = useAuth()
+  const router = useAppRouter()
+  const needsOnboarding = !!user && !profileLoading && !!profile && !profile.onboarding_completed
+  const cannotTell = !!user && !profileLoading && !profile
+
+  useEffect(() => {
+    if (!loading && needsOnboarding) {
+      router.replace('/onboarding')
+    }
+  }, [loading, needsOnboarding])
+
+  return (
+    <RequireAuth loadingMessage={loadingMessage}>
+      {cannotTell ? (
+        <GuardError message={profileError || 'Please try again in a moment.'} onRetry={refreshProfile} />
+      ) : needsOnboarding ? (
+        <GuardLoading message={loadingMessage} />
+      ) : children}
+    </RequireAuth>
+  )
+}
@@ -0,0 +1,288 @@
+import { supabase, Database } from '../lib/supabase'
+import { errorHandler } from './errorHandler'
+import { validateApplication } from './validation'
+
+export type Application = Database['public']['Tables']['project_applications']['Row']
+export type ApplicationStatus = Application['status']
+export type ApplicationAuditEntry = Database['public']['Tables']['application_audit_log']['Row']
+export type ReviewQueueItem = Database['public']['Functions']['get_review_queue']['Returns'][number]
+
+export interface MyApplication extends Application {
+  project: {
+    id: string
+    title: string
+    status: string
+  } | null
+}
+
+export interface ApplicationFormData {
+  pitch: string
+  links: string[]
+}
+
+export interface ApplicationResult {
+  success: boolean
+  application?: Application
+  error?: string
+  validationErrors?: string[]
+}
+
+export interface ApplicationListResult<T> {
+  success: boolean
+  applications?: T[]
+  error?: string
+}
+
+// Mirrors the UPDATE policies in supabase-applications-schema.sql so the UI only offers
+// transitions the database will accept
+export const OWNER_TRANSITIONS: Record<ApplicationStatus, ApplicationStatus[]> = {
+  pending: ['shortlisted', 'accepted', 'rejected'],
+  shortlisted: ['accepted', 'rejected'],
+  accepted: [],
+  rejected: [],
+  withdrawn: []
+}
+
+export const APPLICANT_TRANSITIONS: Record<ApplicationStatus, ApplicationStatus[]> = {
+  pending: ['withdrawn'],
+  shortlisted: ['withdrawn'],
+  accepted: [],
+  rejected: [],
+  withdrawn: []
+}
+
+export const canTransition = (
+  role: 'owner' | 'applicant',
+  from: ApplicationStatus,
+  to: ApplicationStatus
+): boolean => {
+  const transitions = role === 'owner' ? OWNER_TRANSITIONS : APPLICANT_TRANSITIONS
+  return transitions[from].includes(to)
+}
+
+/**
+ * Apply to a project as the current user
+ */
+export const applyToProject = async (
+  applicantId: string,
+  projectId: string,
+  formData: ApplicationFormData
+): Promise<ApplicationResult> => {
+  try {
+    // Verify user authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user || user.id !== applicantId) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    const validation = validateApplication(formData)
+    if (!validation.isValid) {
+      return {
+        success: false,
+        error: 'Please fix the highlighted fields',
+        validationErrors: validation.errors
+      }
+    }
+
+    const sanitized = validation.sanitizedValue
+    const { data: application, error: insertError } = await supabase
+      .from('project_applications')
+      .insert({
+        project_id: projectId,
+        applicant_id: applicantId,
+        pitch: sanitized.pitch,
+        links: Array.isArray(sanitized.links) ? sanitized.links : []
+      })
+      .select()
+      .single()
+
+    if (insertError) {
+      // Unique (project_id, applicant_id) violation
+      if (insertError.code === '23505') {
+        return { success: false, error: 'You have already applied to this project' }
+      }
+
+      const errorResponse = errorHandler.handleError(insertError, {
+        userId: applicantId,
+        action: 'apply_to_project',
+        component: 'applications',
+        metadata: { projectId }
+      })
+      return { success: false, error: errorResponse.userMessage }
+    }
+
+    console.log(`✅ Application submitted: ${application.id}`)
+    return { success: true, application }
+
+  } catch (error) {
+    const errorResponse = errorHandler.handleError(error, {
+      userId: applicantId,
+      action: 'apply_to_project',
+      component: 'applications'
+    })
+    return { success: false, error: errorResponse.userMessage }
+  }
+}
+
+/**
+ * Get the current user's applications with the project they applied to
+ */
+export const getMyApplications = async (
+  applicantId: string
+): Promise<ApplicationListResult<MyApplication>> => {
+  try {
+    const { data: applications, error } = await supabase
+      .from('project_applications')
+      .select('*, project:projects(id, title, status)')
+      .eq('applicant_id', applicantId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      const errorResponse = errorHandler.handleError(error, {
+        userId: applicantId,
+        action: 'get_my_applications',
+        component: 'applications'
+      })
+      return { success: false, error: errorResponse.userMessage }
+    }
+
+    return { success: true, applications: (applications || []) as MyApplication[] }
+
+  } catch (error) {
+    const errorResponse = errorHandler.handleError(error, {
+      userId: applicantId,
+      action: 'get_my_applications',
+      component: 'applications'
+    })
+    return { success: false, error: errorResponse.userMessage }
+  }
+}
+
+/**
+ * Get applications to every project owned by the current user, active ones first
+ */
+export const getReviewQueue = async (
+  ownerId: string
+): Promise<ApplicationListResult<ReviewQueueItem>> => {
+  try {
+    const { data: applications, error } = await supabase.rpc('get_review_queue')
+
+    if (error) {
+      const errorResponse = errorHandler.handleError(error, {
+        userId: ownerId,
+        action: 'get_review_queue',
+        component: 'applications'
+      })
+      return { success: false, error: errorResponse.userMessage }
+    }
+
+    return { success: true, applications: (applications || []) as ReviewQueueItem[] }
+
+  } catch (error) {
+    const errorResponse = errorHandler.handleError(error, {
+      userId: ownerId,
+      action: 'get_review_queue',
+      component: 'applications'
+    })
+    return { success: false, error: errorResponse.userMessage }
+  }
+}
+
+/**
+ * Move an application to a new status
+ * RLS rejects transitions the current user is not allowed to make; those surface as "not allowed"
+ */
+export const updateApplicationStatus = async (
+  userId: string,
+  application: Pick<Application, 'id' | 'status'>,
+  nextStatus: ApplicationStatus,
+  role: 'owner' | 'applicant'
+): Promise<ApplicationResult> => {
+  try {
+    // Verify user authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user || user.id !== userId) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    if (!canTransition(role, application.status, nextStatus)) {
+      return { success: false, error: `An application that is ${application.status} cannot be moved to ${nextStatus}` }
+    }
+
+    const { data: updated, error: updateError } = await supabase
+      .from('project_applications')
+      .update({ status: nextStatus as Exclude<ApplicationStatus, 'pending'> })
+      .eq('id', application.id)
+      .eq('status', application.status)
+      .select()
+      .maybeSingle()
+
+    if (updateError) {
+      const errorResponse = errorHandler.handleError(updateError, {
+        userId,
+        action: 'update_application_status',
+        component: 'applications',
+        metadata: { applicationId: application.id, nextStatus }
+      })
+      return { success: false, error: errorResponse.userMessage }
+    }
+
+    // No row means RLS filtered it out or the status changed in the meantime
+    if (!updated) {
+      return { success: false, error: 'This application has changed. Please refresh and try again.' }
+    }
+
+    console.log(`✅ Application ${application.id}: ${application.status} → ${nextStatus}`)
+    return { success: true, application: updated }
+
+  } catch (error) {
+    const errorResponse = errorHandler.handleError(error, {
+      userId,
+      action: 'update_application_status',
+      component: 'applications'
+    })
+    return { success: false, error: errorResponse.userMessage }
+  }
+}
+
+/**
+ * Withdraw one of the current user's applications
+ */
+export const withdrawApplication = (
+  applicantId: string,
+  application: Pick<Application, 'id' | 'status'>
+): Promise<ApplicationResult> =>
+  updateApplicationStatus(applicantId, application, 'withdrawn', 'applicant')
+
+/**
+ * Get the status history of an application, oldest first
+ */
+export const getApplicationHistory = async (
+  applicationId: string
+): Promise<{ success: boolean; history?: ApplicationAuditEntry[]; error?: string }> => {
+  try {
+    const { data: history, error } = await supabase
+      .from('application_audit_log')
+      .select('*')
+      .eq('application_id', applicationId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      const errorResponse = errorHandler.handleError(error, {
+        action: 'get_application_history',
+        component: 'applications',
+        metadata: { applicationId }
+      })
+      return { success: false, error: errorResponse.userMessage }
+    }
+
+    return { success: true, history: history || [] }
+
+  } catch (error) {
+    const errorResponse = errorHandler.handleError(error, {
+      action: 'get_application_history',
+      component: 'applications'
+    })
+    return { success: false, error: errorResponse.userMessage }
+  }
+}
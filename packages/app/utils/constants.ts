@@ -0,0 +1,163 @@
+// DevRecruit shared option lists
+// Used by onboarding, the dashboard and project forms so every screen offers the same choices
+
+// The database checks profiles against copies of CODING_LANGUAGES and EDUCATION_STATUSES
+// in profile_rule_violation() (supabase-profile-rules-schema.sql); update both together
+export const CODING_LANGUAGES = [
+  'JavaScript', 'TypeScript', 'Python', 'Java', 'C++', 'C#', 'Go', 'Rust',
+  'PHP', 'Ruby', 'Swift', 'Kotlin', 'Dart', 'HTML/CSS', 'SQL', 'R',
+  'Scala', 'Perl', 'Haskell', 'Lua', 'Assembly', 'MATLAB', 'Shell/Bash'
+]
+
+export const EDUCATION_OPTIONS = [
+  { value: 'highschool', label: 'High School', icon: '🎓', description: 'Currently in high school' },
+  { value: 'college', label: 'College/University', icon: '🏫', description: 'Currently in college or university' },
+  { value: 'professional', label: 'Working Professional', icon: '💼', description: 'Working in the industry' },
+  { value: 'not_in_school', label: 'Self-Learning', icon: '📚', description: 'Learning independently' }
+]
+
+export const EDUCATION_STATUSES = EDUCATION_OPTIONS.map(option => option.value)
+
+export const PROJECT_STATUS_OPTIONS = [
+  { value: 'open', label: 'Open', icon: '🟢', description: 'Looking for collaborators' },
+  { value: 'in_progress', label: 'In Progress', icon: '🛠️', description: 'Team is working, may still accept help' },
+  { value: 'completed', label: 'Completed', icon: '✅', description: 'Project is finished' },
+  { value: 'closed', label: 'Closed', icon: '🔒', description: 'No longer accepting collaborators' }
+] as const
+
+export const TIME_COMMITMENT_OPTIONS = [
+  { value: 'few_hours_week', label: 'A few hours a week', icon: '⏱️' },
+  { value: 'part_time', label: 'Part-time (10-20 hrs/week)', icon: '🌓' },
+  { value: 'full_time', label: 'Full-time (30+ hrs/week)', icon: '🌕' },
+  { value: 'flexible', label: 'Flexible', icon: '🔄' }
+] as const
+
+export const PROJECT_TEAM_SIZE = { min: 1, max: 20 }
+
+export const PROJECT_STATUSES = PROJECT_STATUS_OPTIONS.map(option => option.value)
+export const TIME_COMMITMENTS = TIME_COMMITMENT_OPTIONS.map(option => option.value)
+
+// Browse Projects facets
+export const TEAM_SIZE_BUCKETS = [
+  { value: 'solo', label: 'Solo (1)', min: 1, max: 1 },
+  { value: 'small', label: 'Small (2-4)', min: 2, max: 4 },
+  { value: 'medium', label: 'Medium (5-9)', min: 5, max: 9 },
+  { value: 'large', label: 'Large (10+)', min: 10, max: 20 }
+] as const
+
+export const POSTED_WITHIN_OPTIONS = [
+  { value: '24h', label: 'Last 24 hours', days: 1 },
+  { value: '7d', label: 'Last 7 days', days: 7 },
+  { value: '30d', label: 'Last 30 days', days: 30 }
+] as const
+
+export const PROJECT_SORT_OPTIONS = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'best_match', label: 'Best match' }
+] as const
+
+export const PROJECTS_PAGE_SIZE = 10
+
+// Importing a project from a GitHub repository
+export const PROJECT_TOPICS_MAX = 20
+export const GITHUB_IMPORT_ISSUE_LABELS = ['good first issue', 'help wanted'] as const
+export const GITHUB_IMPORT_MAX_STARTER_TASKS = 10
+
+// Full-text search
+export const SEARCH_PAGE_SIZE = 10
+export const SEARCH_QUERY_MAX_LENGTH = 100
+
+// Project applications
+export const APPLICATION_STATUS_OPTIONS = [
+  { value: 'pending', label: 'Pending', icon: '⏳', description: 'Waiting for the project owner to review' },
+  { value: 'shortlisted', label: 'Shortlisted', icon: '⭐', description: 'The owner is considering this application' },
+  { value: 'accepted', label: 'Accepted', icon: '✅', description: 'Welcome to the team' },
+  { value: 'rejected', label: 'Rejected', icon: '❌', description: 'Not a fit this time' },
+  { value: 'withdrawn', label: 'Withdrawn', icon: '↩️', description: 'Withdrawn by the applicant' }
+] as const
+
+export const APPLICATION_STATUSES = APPLICATION_STATUS_OPTIONS.map(option => option.value)
+export const APPLICATION_LINKS_MAX = 3
+
+// Project invitations
+export const INVITATION_STATUS_OPTIONS = [
+  { value: 'pending', label: 'Pending', icon: '✉️' },
+  { value: 'accepted', label: 'Accepted', icon: '✅' },
+  { value: 'declined', label: 'Declined', icon: '🚫' },
+  { value: 'cancelled', label: 'Cancelled', icon: '↩️' }
+] as const
+
+// Sign-in providers
+// OAuth providers offered on the login screen and under Settings > Connected accounts
+export const AUTH_OAUTH_PROVIDERS = [
+  { value: 'github', label: 'GitHub', icon: '🐙', scopes: 'read:user user:email' },
+  { value: 'gitlab', label: 'GitLab', icon: '🦊', scopes: 'read_user' }
+] as const
+
+// Onboarding drafts are saved this long after the last change
+export const ONBOARDING_DRAFT_SAVE_DELAY_MS = 1000
+
+// Usernames
+// Handles nobody can claim; mirrored by is_reserved_username() in supabase-username-availability-schema.sql
+// (update both together)
+export const RESERVED_USERNAMES = [
+  'admin', 'administrator', 'root', 'devrecruit', 'api', 'www', 'mail',
+  'support', 'help', 'info', 'contact', 'about', 'team', 'staff',
+  'moderator', 'test', 'demo', 'example', 'null', 'undefined',
+  'dashboard', 'onboarding', 'settings', 'login', 'signup', 'auth',
+  'users', 'projects', 'messages'
+]
+// Server-side field checks (username availability) run this long after the last keystroke
+export const ASYNC_VALIDATION_DELAY_MS = 400
+
+// Direct messages
+export const MESSAGE_MAX_LENGTH = 2000
+export const MESSAGES_PAGE_SIZE = 50
+
+// GitHub language breakdown
+// GitHub (linguist) language names that map onto a different CODING_LANGUAGES entry;
+// names not listed here are matched against CODING_LANGUAGES as-is
+export const GITHUB_LANGUAGE_ALIASES: Record<string, string> = {
+  HTML: 'HTML/CSS',
+  CSS: 'HTML/CSS',
+  SCSS: 'HTML/CSS',
+  Sass: 'HTML/CSS',
+  Less: 'HTML/CSS',
+  Shell: 'Shell/Bash',
+  PowerShell: 'Shell/Bash',
+  PLpgSQL: 'SQL',
+  TSQL: 'SQL',
+  PLSQL: 'SQL',
+  'Objective-C++': 'C++',
+  Vue: 'JavaScript',
+  Svelte: 'JavaScript'
+}
+
+// Languages below this share of bytes are not suggested during onboarding
+export const GITHUB_LANGUAGE_SUGGESTION_MIN_PERCENT = 5
+// Unauthenticated requests cost one REST call per repository, so only the most recently pushed are sampled
+export const GITHUB_LANGUAGE_REPO_LIMIT = 10
+
+// Repository cards shown on a profile, and how many are cached so hiding a few still leaves a full showcase
+export const GITHUB_SHOWCASE_REPO_LIMIT = 6
+export const GITHUB_SHOWCASE_CACHE_LIMIT = 12
+
+// GitHub stats sync
+export const GITHUB_STATS_MAX_AGE_HOURS = 24
+export const GITHUB_SYNC_BATCH_SIZE = 25
+// Attempts per user within one run, waiting GITHUB_SYNC_BACKOFF_BASE_MS * 2^n between them
+export const GITHUB_SYNC_MAX_ATTEMPTS = 3
+export const GITHUB_SYNC_BACKOFF_BASE_MS = 1000
+// After a failed run a profile is skipped for 2^(failures - 1) hours, capped at this many
+export const GITHUB_SYNC_MAX_RETRY_HOURS = 48
+
+// GitHub API client
+// Once this few calls remain in a rate-limit window, requests are queued until the window resets
+export const GITHUB_RATE_LIMIT_LOW_WATERMARK = 5
+// Queued requests fail with a rate-limit error instead of waiting longer than this for the reset
+export const GITHUB_RATE_LIMIT_MAX_WAIT_MS = 60 * 1000
+// Conditional-request cache (ETag + last response body); 304 responses don't count against the quota
+export const GITHUB_ETAG_CACHE_MAX_ENTRIES = 100
+export const GITHUB_ETAG_CACHE_STORAGE_KEY = 'devrecruit_github_etags'
+// Server-side cache rows not refreshed for this long are deleted after each sync run
+export const GITHUB_ETAG_CACHE_MAX_AGE_DAYS = 30
@@ -0,0 +1,624 @@
+/**
+ * GitHub HTTP layer for DevRecruit
+ *
+ * All GitHub REST and GraphQL traffic goes through this client so that:
+ * - the fetch implementation can be swapped (tests, fixture servers)
+ * - the API base URL can point at a local fixture server
+ * - OAuth tokens and error statuses are handled in one place
+ * - REST GETs are conditional (If-None-Match) against a persisted ETag cache,
+ *   so unchanged resources come back as free 304s (Supabase on the server, localStorage
+ *   for anonymous requests on web)
+ * - X-RateLimit-* headers are tracked per token and resource; once the remaining
+ *   quota runs low, requests are queued until X-RateLimit-Reset
+ * - failures carry a structured GitHubApiError and are reported through handleNetworkError
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { handleNetworkError } from './errorHandler'
+import {
+  GITHUB_ETAG_CACHE_MAX_AGE_DAYS,
+  GITHUB_ETAG_CACHE_MAX_ENTRIES,
+  GITHUB_ETAG_CACHE_STORAGE_KEY,
+  GITHUB_RATE_LIMIT_LOW_WATERMARK,
+  GITHUB_RATE_LIMIT_MAX_WAIT_MS
+} from './constants'
+
+export type GitHubFetch = (url: string, init?: RequestInit) => Promise<Response>
+
+export type GitHubErrorKind =
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'rate_limited'
+  | 'invalid_request'
+  | 'server'
+  | 'network'
+
+export interface GitHubApiError {
+  kind: GitHubErrorKind
+  // 0 when the request never got a response
+  status: number
+  message: string
+  // When the rate-limit window resets; set for rate_limited errors
+  resetAt?: string
+  // Tracking code from the central error handler
+  errorCode?: string
+}
+
+export interface GitHubRateLimit {
+  limit: number
+  remaining: number
+  resetAt: Date
+  // 'core', 'graphql', 'search', ...
+  resource: string
+}
+
+export interface GitHubCachedResponse {
+  etag: string
+  // Status of the response the ETag came with
+  status: number
+  data: unknown
+  storedAt: number
+}
+
+/**
+ * Where ETags and their response bodies are kept between requests
+ */
+export interface GitHubETagStore {
+  get(key: string): Promise<GitHubCachedResponse | null>
+  set(key: string, entry: GitHubCachedResponse): Promise<void>
+}
+
+// Subset of Web Storage used by the persisted ETag store
+export interface GitHubStorageLike {
+  getItem(key: string): string | null
+  setItem(key: string, value: string): void
+}
+
+export interface GitHubClientOptions {
+  fetch?: GitHubFetch
+  // Defaults to https://api.github.com; GraphQL is served from `${apiBaseUrl}/graphql`
+  apiBaseUrl?: string
+  token?: string | null
+  // Defaults to localStorage (anonymous requests only) on web and an in-memory store elsewhere;
+  // servers pass createSupabaseETagStore. null disables conditional requests
+  etagStore?: GitHubETagStore | null
+  lowQuotaWatermark?: number
+  maxRateLimitWaitMs?: number
+  sleep?: (ms: number) => Promise<void>
+  now?: () => number
+}
+
+export interface GitHubResponse<T> {
+  ok: boolean
+  status: number
+  data?: T
+  error?: string
+  apiError?: GitHubApiError
+  // True when the data was served from the ETag cache after a 304
+  fromCache?: boolean
+}
+
+interface GraphQLPayload<T> {
+  data?: T
+  errors?: { type?: string; message: string }[]
+}
+
+// State shared by a client and every client derived from it with withToken()
+interface GitHubClientShared {
+  fetchImpl: GitHubFetch
+  apiBaseUrl: string
+  etagStore: GitHubETagStore | null
+  lowQuotaWatermark: number
+  maxRateLimitWaitMs: number
+  sleep: (ms: number) => Promise<void>
+  now: () => number
+  rateLimits: Map<string, GitHubRateLimit>
+  queues: Map<string, Promise<void>>
+}
+
+const DEFAULT_API_BASE_URL = 'https://api.github.com'
+// Cache key and rate-limit scope of requests made without a token
+const ANONYMOUS_SCOPE = 'anonymous'
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms))
+
+/**
+ * In-memory ETag store, evicting the oldest entries beyond maxEntries
+ */
+export const createMemoryETagStore = (maxEntries: number = GITHUB_ETAG_CACHE_MAX_ENTRIES): GitHubETagStore => {
+  const entries = new Map<string, GitHubCachedResponse>()
+
+  return {
+    async get(key) {
+      return entries.get(key) || null
+    },
+    async set(key, entry) {
+      entries.delete(key)
+      entries.set(key, entry)
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value
+        if (oldest === undefined) break
+        entries.delete(oldest)
+      }
+    }
+  }
+}
+
+/**
+ * ETag store persisted as one JSON object in Web Storage, so ETags survive reloads
+ * Only anonymous (public) responses are written to storage; responses fetched with a
+ * token stay in memory, so nothing read with the user's token outlives the tab
+ */
+export const createStorageETagStore = (
+  storage: GitHubStorageLike,
+  storageKey: string = GITHUB_ETAG_CACHE_STORAGE_KEY,
+  maxEntries: number = GITHUB_ETAG_CACHE_MAX_ENTRIES
+): GitHubETagStore => {
+  const authenticated = createMemoryETagStore(maxEntries)
+  const isAnonymous = (key: string) => key.startsWith(`${ANONYMOUS_SCOPE}:`)
+
+  const read = (): Record<string, GitHubCachedResponse> => {
+    try {
+      return JSON.parse(storage.getItem(storageKey) || '{}')
+    } catch {
+      return {}
+    }
+  }
+
+  // Drop authenticated responses written by earlier versions
+  const stored = Object.entries(read())
+  if (stored.some(([key]) => !isAnonymous(key))) {
+    try {
+      storage.setItem(storageKey, JSON.stringify(Object.fromEntries(stored.filter(([key]) => isAnonymous(key)))))
+    } catch (error) {
+      console.warn('⚠️ Could not clean up GitHub ETag cache:', error)
+    }
+  }
+
+  return {
+    async get(key) {
+      if (!isAnonymous(key)) return authenticated.get(key)
+      return read()[key] || null
+    },
+    async set(key, entry) {
+      if (!isAnonymous(key)) return authenticated.set(key, entry)
+
+      const entries = read()
+      entries[key] = entry
+
+      const kept = Object.entries(entries)
+        .sort(([, a], [, b]) => b.storedAt - a.storedAt)
+        .slice(0, maxEntries)
+
+      try {
+        storage.setItem(storageKey, JSON.stringify(Object.fromEntries(kept)))
+      } catch (error) {
+        // Quota exceeded: the cache is an optimisation, requests still work without it
+        console.warn('⚠️ Could not persist GitHub ETag cache:', error)
+      }
+    }
+  }
+}
+
+/**
+ * ETag store in the github_etag_cache table (supabase-github-etag-cache-schema.sql), for
+ * server-side clients whose memory does not survive between runs
+ * `db` must use the service role; cache errors are logged and treated as misses
+ */
+export const createSupabaseETagStore = (db: SupabaseClient): GitHubETagStore => {
+  return {
+    async get(key) {
+      const { data, error } = await db
+        .from('github_etag_cache')
+        .select('etag, status, data, stored_at')
+        .eq('cache_key', key)
+        .maybeSingle()
+
+      if (error) {
+        console.warn('⚠️ Could not read GitHub ETag cache:', error.message)
+        return null
+      }
+      if (!data) return null
+
+      return {
+        etag: data.etag,
+        status: data.status,
+        data: data.data,
+        storedAt: new Date(data.stored_at).getTime()
+      }
+    },
+    async set(key, entry) {
+      const { error } = await db
+        .from('github_etag_cache')
+        .upsert({
+          cache_key: key,
+          etag: entry.etag,
+          status: entry.status,
+          data: entry.data,
+          stored_at: new Date(entry.storedAt).toISOString()
+        })
+
+      if (error) {
+        // The cache is an optimisation, requests still work without it
+        console.warn('⚠️ Could not persist GitHub ETag cache:', error.message)
+      }
+    }
+  }
+}
+
+/**
+ * Delete github_etag_cache rows stored more than maxAgeDays ago, so the table only holds
+ * responses recent syncs still use; returns how many were removed
+ * `db` must use the service role; failures are logged and leave the rows in place
+ */
+export const pruneSupabaseETagStore = async (
+  db: SupabaseClient,
+  maxAgeDays: number = GITHUB_ETAG_CACHE_MAX_AGE_DAYS
+): Promise<number> => {
+  const cutoff = new Date(Date.now() - maxAgeDays * 24 * 60 * 60 * 1000).toISOString()
+  const { count, error } = await db
+    .from('github_etag_cache')
+    .delete({ count: 'exact' })
+    .lt('stored_at', cutoff)
+
+  if (error) {
+    console.warn('⚠️ Could not prune GitHub ETag cache:', error.message)
+    return 0
+  }
+
+  return count || 0
+}
+
+const createDefaultETagStore = (): GitHubETagStore => {
+  if (typeof window !== 'undefined' && window.localStorage) {
+    return createStorageETagStore(window.localStorage)
+  }
+  return createMemoryETagStore()
+}
+
+/**
+ * Short stable fingerprint so cache keys never contain the token itself (cyrb53)
+ */
+const fingerprint = (value: string): string => {
+  let h1 = 0xdeadbeef
+  let h2 = 0x41c6ce57
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i)
+    h1 = Math.imul(h1 ^ ch, 2654435761)
+    h2 = Math.imul(h2 ^ ch, 1597334677)
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16)
+}
+
+const parseIntHeader = (response: Response, name: string): number | null => {
+  const value = response.headers.get(name)
+  if (value === null) return null
+  const parsed = parseInt(value, 10)
+  return Number.isNaN(parsed) ? null : parsed
+}
+
+export class GitHubClient {
+  private readonly shared: GitHubClientShared
+  private readonly token: string | null
+
+  constructor(options: GitHubClientOptions = {}, shared?: GitHubClientShared) {
+    this.token = options.token || null
+    this.shared = shared || {
+      // Bind so the global fetch keeps its receiver in browsers
+      fetchImpl: options.fetch || ((url, init) => fetch(url, init)),
+      apiBaseUrl: (options.apiBaseUrl || DEFAULT_API_BASE_URL).replace(/\/+$/, ''),
+      etagStore: options.etagStore === undefined ? createDefaultETagStore() : options.etagStore,
+      lowQuotaWatermark: options.lowQuotaWatermark ?? GITHUB_RATE_LIMIT_LOW_WATERMARK,
+      maxRateLimitWaitMs: options.maxRateLimitWaitMs ?? GITHUB_RATE_LIMIT_MAX_WAIT_MS,
+      sleep: options.sleep || defaultSleep,
+      now: options.now || (() => Date.now()),
+      rateLimits: new Map(),
+      queues: new Map()
+    }
+  }
+
+  /**
+   * Same transport, ETag cache and rate-limit tracking, authenticated with a different token
+   */
+  withToken(token: string | null | undefined): GitHubClient {
+    return new GitHubClient({ token }, this.shared)
+  }
+
+  get isAuthenticated(): boolean {
+    return !!this.token
+  }
+
+  /**
+   * Last known quota for a resource under this client's token
+   */
+  getRateLimit(resource: string = 'core'): GitHubRateLimit | null {
+    return this.shared.rateLimits.get(this.bucketKey(resource)) || null
+  }
+
+  private get authScope(): string {
+    return this.token ? `token:${fingerprint(this.token)}` : ANONYMOUS_SCOPE
+  }
+
+  private bucketKey(resource: string): string {
+    return `${this.authScope}:${resource}`
+  }
+
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = {
+      Accept: 'application/vnd.github+json',
+      'Content-Type': 'application/json'
+    }
+    if (this.token) {
+      headers.Authorization = `Bearer ${this.token}`
+    }
+    return headers
+  }
+
+  /**
+   * Record X-RateLimit-* headers; secondary limits only send Retry-After
+   */
+  private trackRateLimit(response: Response, fallbackResource: string): void {
+    const resource = response.headers.get('x-ratelimit-resource') || fallbackResource
+    const key = this.bucketKey(resource)
+    const remaining = parseIntHeader(response, 'x-ratelimit-remaining')
+    const reset = parseIntHeader(response, 'x-ratelimit-reset')
+    const retryAfter = parseIntHeader(response, 'retry-after')
+
+    if (retryAfter !== null && (response.status === 403 || response.status === 429)) {
+      const previous = this.shared.rateLimits.get(key)
+      this.shared.rateLimits.set(key, {
+        limit: previous?.limit ?? 0,
+        remaining: 0,
+        resetAt: new Date(this.shared.now() + retryAfter * 1000),
+        resource
+      })
+      return
+    }
+
+    if (remaining === null || reset === null) return
+
+    this.shared.rateLimits.set(key, {
+      limit: parseIntHeader(response, 'x-ratelimit-limit') ?? remaining,
+      remaining,
+      resetAt: new Date(reset * 1000),
+      resource
+    })
+  }
+
+  /**
+   * True while the known quota is at or below the watermark and the window hasn't reset
+   */
+  private isQuotaLow(resource: string): boolean {
+    const rateLimit = this.shared.rateLimits.get(this.bucketKey(resource))
+    return !!rateLimit &&
+      rateLimit.remaining <= this.shared.lowQuotaWatermark &&
+      rateLimit.resetAt.getTime() > this.shared.now()
+  }
+
+  /**
+   * Run requests for a bucket one at a time, in the order they were made
+   */
+  private enqueue<R>(resource: string, task: () => Promise<R>): Promise<R> {
+    const key = this.bucketKey(resource)
+    const previous = this.shared.queues.get(key) || Promise.resolve()
+    const result = previous.then(task)
+    const tail = result.then(() => undefined, () => undefined)
+
+    this.shared.queues.set(key, tail)
+    tail.then(() => {
+      if (this.shared.queues.get(key) === tail) {
+        this.shared.queues.delete(key)
+      }
+    })
+
+    return result
+  }
+
+  /**
+   * Once quota runs low, queue the request and hold it until the window resets.
+   * When the reset is further away than maxRateLimitWaitMs, the remaining calls are
+   * spent one at a time and an exhausted quota resolves to a rate_limited error.
+   */
+  private schedule<T>(resource: string, task: () => Promise<GitHubResponse<T>>): Promise<GitHubResponse<T>> {
+    if (!this.isQuotaLow(resource) && !this.shared.queues.has(this.bucketKey(resource))) {
+      return task()
+    }
+
+    return this.enqueue(resource, async () => {
+      const rateLimit = this.shared.rateLimits.get(this.bucketKey(resource))
+      if (rateLimit && this.isQuotaLow(resource)) {
+        const waitMs = rateLimit.resetAt.getTime() - this.shared.now()
+        if (waitMs > this.shared.maxRateLimitWaitMs) {
+          if (rateLimit.remaining > 0) return task()
+          return this.fail<T>({
+            kind: 'rate_limited',
+            status: 429,
+            message: 'GitHub API rate limit exceeded',
+            resetAt: rateLimit.resetAt.toISOString()
+          }, { resource, queued: true })
+        }
+
+        console.log(`⚠️ GitHub ${resource} quota low (${rateLimit.remaining} left), waiting ${Math.ceil(waitMs / 1000)}s for reset`)
+        await this.shared.sleep(waitMs)
+      }
+      return task()
+    })
+  }
+
+  private describeError(response: Response, resource: string): GitHubApiError {
+    const status = response.status
+
+    if (status === 401) {
+      return { kind: 'unauthorized', status, message: 'GitHub token is invalid or expired' }
+    }
+    if (status === 404) {
+      return { kind: 'not_found', status, message: 'Not found on GitHub' }
+    }
+    if (status === 403 || status === 429) {
+      // Primary limits report zero remaining, secondary limits send Retry-After;
+      // any other 403 is a permissions problem and retrying won't help
+      const rateLimited = response.headers.get('x-ratelimit-remaining') === '0' || response.headers.has('retry-after')
+      if (rateLimited) {
+        return {
+          kind: 'rate_limited',
+          status,
+          message: 'GitHub API rate limit exceeded',
+          resetAt: this.getRateLimit(resource)?.resetAt.toISOString()
+        }
+      }
+      return { kind: 'forbidden', status, message: 'GitHub API access denied' }
+    }
+    if (status >= 500) {
+      return { kind: 'server', status, message: `GitHub API error: ${status}` }
+    }
+    return { kind: 'invalid_request', status, message: `GitHub API error: ${status}` }
+  }
+
+  /**
+   * Report through the central error handler and shape the failed response
+   */
+  private fail<T>(apiError: GitHubApiError, metadata: Record<string, unknown>): GitHubResponse<T> {
+    const { errorCode } = handleNetworkError(apiError, {
+      component: 'github_client',
+      metadata: { ...metadata, kind: apiError.kind, status: apiError.status, resetAt: apiError.resetAt }
+    })
+
+    return {
+      ok: false,
+      status: apiError.status,
+      error: apiError.message,
+      apiError: { ...apiError, errorCode }
+    }
+  }
+
+  private async send(url: string, init: RequestInit): Promise<Response | GitHubApiError> {
+    try {
+      return await this.shared.fetchImpl(url, init)
+    } catch (error) {
+      console.error('❌ GitHub request failed:', error)
+      return {
+        kind: 'network',
+        status: 0,
+        message: error instanceof Error ? error.message : 'Network request to GitHub failed'
+      }
+    }
+  }
+
+  /**
+   * Parse a successful response; a proxy error page or cut-off body fails like a server error
+   */
+  private async readJson<T>(response: Response): Promise<{ data: T } | { apiError: GitHubApiError }> {
+    try {
+      return { data: await response.json() as T }
+    } catch (error) {
+      console.error('❌ GitHub response was not valid JSON:', error)
+      return {
+        apiError: {
+          kind: 'server',
+          status: response.status,
+          message: 'GitHub returned an unreadable response'
+        }
+      }
+    }
+  }
+
+  /**
+   * GET a REST endpoint, e.g. rest('/users/octocat')
+   */
+  async rest<T>(path: string): Promise<GitHubResponse<T>> {
+    return this.schedule<T>('core', async () => {
+      const url = `${this.shared.apiBaseUrl}${path}`
+      const cacheKey = `${this.authScope}:${url}`
+      const cached = await this.shared.etagStore?.get(cacheKey)
+
+      const headers = this.headers()
+      if (cached) {
+        headers['If-None-Match'] = cached.etag
+      }
+
+      const response = await this.send(url, { headers })
+      if ('kind' in response) {
+        return this.fail<T>(response, { path })
+      }
+
+      this.trackRateLimit(response, 'core')
+
+      if (response.status === 304 && cached) {
+        return { ok: true, status: cached.status || 200, data: cached.data as T, fromCache: true }
+      }
+
+      if (!response.ok) {
+        return this.fail<T>(this.describeError(response, 'core'), { path })
+      }
+
+      const body = await this.readJson<T>(response)
+      if ('apiError' in body) {
+        return this.fail<T>(body.apiError, { path })
+      }
+
+      const { data } = body
+      const etag = response.headers.get('etag')
+      if (etag && this.shared.etagStore) {
+        await this.shared.etagStore.set(cacheKey, { etag, status: response.status, data, storedAt: this.shared.now() })
+      }
+
+      return { ok: true, status: response.status, data }
+    })
+  }
+
+  /**
+   * Run a GraphQL query. GitHub's GraphQL API always requires a token.
+   * POSTs can't be conditional, so GraphQL responses are never served from the ETag cache.
+   */
+  async graphql<T>(query: string, variables: Record<string, unknown> = {}): Promise<GitHubResponse<T>> {
+    if (!this.token) {
+      return { ok: false, status: 401, error: 'GitHub token required for GraphQL' }
+    }
+
+    return this.schedule<T>('graphql', async () => {
+      const response = await this.send(`${this.shared.apiBaseUrl}/graphql`, {
+        method: 'POST',
+        headers: this.headers(),
+        body: JSON.stringify({ query, variables })
+      })
+      if ('kind' in response) {
+        return this.fail<T>(response, { path: '/graphql' })
+      }
+
+      this.trackRateLimit(response, 'graphql')
+
+      if (!response.ok) {
+        return this.fail<T>(this.describeError(response, 'graphql'), { path: '/graphql' })
+      }
+
+      const body = await this.readJson<GraphQLPayload<T>>(response)
+      if ('apiError' in body) {
+        return this.fail<T>(body.apiError, { path: '/graphql' })
+      }
+
+      const payload = body.data
+      const firstError = payload.errors?.[0]
+      if (firstError) {
+        const apiError: GitHubApiError = firstError.type === 'NOT_FOUND'
+          ? { kind: 'not_found', status: 404, message: firstError.message }
+          : firstError.type === 'RATE_LIMITED'
+            ? {
+                kind: 'rate_limited',
+                status: 403,
+                message: firstError.message,
+                resetAt: this.getRateLimit('graphql')?.resetAt.toISOString()
+              }
+            : { kind: 'invalid_request', status: 400, message: firstError.message }
+        return this.fail<T>(apiError, { path: '/graphql', graphqlErrorType: firstError.type })
+      }
+
+      return { ok: true, status: response.status, data: payload.data }
+    })
+  }
+}
+
+// Shared unauthenticated client; use withToken() for per-user requests
+export const githubClient = new GitHubClient()
@@ -0,0 +1,299 @@
+import { supabase } from '../lib/supabase'
+import type { GitHubClient } from './githubClient'
+import { resolveGitHubClient, FetchGitHubStatsOptions } from './githubStats'
+import {
+  CODING_LANGUAGES,
+  GITHUB_IMPORT_ISSUE_LABELS,
+  GITHUB_IMPORT_MAX_STARTER_TASKS,
+  GITHUB_LANGUAGE_ALIASES,
+  PROJECT_TOPICS_MAX
+} from './constants'
+
+// Importing a GitHub repository as a DevRecruit project
+// Uses the GitHub token from signInWithGitHub when the session has one, so the
+// repository list comes from /user/repos; otherwise the profile's github_username.
+// Only public data is read (the OAuth scopes are read:user and user:email).
+
+export interface ImportableRepository {
+  name: string
+  fullName: string
+  description: string | null
+  url: string
+  language: string | null
+  stars: number
+  pushedAt: string | null
+}
+
+export interface StarterTask {
+  title: string
+  url: string
+  labels: string[]
+  number: number
+}
+
+// Prefilled create-project fields plus the issues that can become starter tasks
+export interface GitHubProjectImport {
+  title: string
+  description: string
+  coding_languages: string[]
+  topics: string[]
+  repository_url: string
+  starterTasks: StarterTask[]
+}
+
+export interface ImportableRepositoriesResult {
+  success: boolean
+  repositories?: ImportableRepository[]
+  error?: string
+}
+
+export interface GitHubProjectImportResult {
+  success: boolean
+  projectImport?: GitHubProjectImport
+  error?: string
+}
+
+interface RestRepository {
+  name: string
+  full_name: string
+  description: string | null
+  html_url: string
+  language: string | null
+  stargazers_count: number
+  pushed_at: string | null
+  fork: boolean
+  archived: boolean
+  private: boolean
+  topics?: string[]
+}
+
+interface RestIssue {
+  number: number
+  title: string
+  html_url: string
+  labels: ({ name?: string } | string)[]
+  // Present when the "issue" is a pull request
+  pull_request?: unknown
+}
+
+const PROJECT_DESCRIPTION_MAX_LENGTH = 2000
+
+const repositoryPath = (fullName: string): string => {
+  const [owner = '', name = ''] = fullName.split('/')
+  return `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(name)}`
+}
+
+/**
+ * "my-cool_app" -> "My Cool App"
+ */
+export const humanizeRepositoryName = (name: string): string => {
+  return name
+    .split(/[-_.\s]+/)
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ')
+}
+
+/**
+ * Decode the base64 README payload; falls back to Latin-1 where TextDecoder is missing
+ */
+const decodeBase64 = (encoded: string): string => {
+  const binary = atob(encoded.replace(/\s/g, ''))
+  if (typeof TextDecoder === 'undefined') return binary
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)))
+}
+
+/**
+ * Turn a README into a plain-text project description
+ * Markup, badges, code blocks and headings are dropped; whole paragraphs are kept
+ * until maxLength is reached
+ */
+export const summarizeReadme = (markdown: string, maxLength: number = PROJECT_DESCRIPTION_MAX_LENGTH): string => {
+  const text = markdown
+    .replace(/\r\n/g, '\n')
+    .replace(/```[\s\S]*?```/g, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<[^>]+>/g, '')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^#{1,6}\s.*$/gm, '')
+    .replace(/^\s*[-*+]\s+/gm, '• ')
+    .replace(/[*_`]/g, '')
+
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.replace(/[ \t]+/g, ' ').trim())
+    .filter(paragraph => paragraph.length > 0)
+
+  let description = ''
+  for (const paragraph of paragraphs) {
+    const next = description ? `${description}\n\n${paragraph}` : paragraph
+    if (next.length > maxLength) {
+      if (!description) {
+        description = `${paragraph.slice(0, maxLength - 1).replace(/\s+\S*$/, '')}…`
+      }
+      break
+    }
+    description = next
+  }
+
+  return description
+}
+
+/**
+ * Map repository language byte counts onto CODING_LANGUAGES, largest first
+ */
+const toCodingLanguages = (languages: Record<string, number>): string[] => {
+  const mapped = Object.entries(languages)
+    .sort(([, a], [, b]) => b - a)
+    .map(([language]) => GITHUB_LANGUAGE_ALIASES[language] || language)
+    .filter(language => CODING_LANGUAGES.includes(language))
+
+  return Array.from(new Set(mapped)).slice(0, 10)
+}
+
+/**
+ * List the current user's own repositories, most recently pushed first
+ */
+export const listImportableRepositories = async (
+  userId: string,
+  options: FetchGitHubStatsOptions = {}
+): Promise<ImportableRepositoriesResult> => {
+  try {
+    const client = await resolveGitHubClient(options)
+    let path: string
+
+    if (client.isAuthenticated) {
+      path = '/user/repos?affiliation=owner&sort=pushed&per_page=100'
+    } else {
+      const { data: profile, error: profileError } = await supabase
+        .from('profiles')
+        .select('github_username')
+        .eq('id', userId)
+        .single()
+
+      if (profileError || !profile?.github_username) {
+        return { success: false, error: 'Link your GitHub account to import a repository' }
+      }
+      path = `/users/${encodeURIComponent(profile.github_username)}/repos?type=owner&sort=pushed&per_page=100`
+    }
+
+    const response = await client.rest<RestRepository[]>(path)
+    if (!response.ok || !response.data) {
+      return { success: false, error: response.error || 'Failed to load your GitHub repositories' }
+    }
+
+    const repositories = response.data
+      .filter(repository => !repository.fork && !repository.archived && !repository.private)
+      .map(repository => ({
+        name: repository.name,
+        fullName: repository.full_name,
+        description: repository.description,
+        url: repository.html_url,
+        language: repository.language,
+        stars: repository.stargazers_count,
+        pushedAt: repository.pushed_at
+      }))
+
+    return { success: true, repositories }
+
+  } catch (error) {
+    console.error('❌ Error listing GitHub repositories:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load your GitHub repositories'
+    }
+  }
+}
+
+/**
+ * Open issues labelled for newcomers (GITHUB_IMPORT_ISSUE_LABELS), without pull requests
+ * GitHub ANDs comma-separated labels, so each label is its own request
+ */
+const fetchStarterTasks = async (
+  client: GitHubClient,
+  fullName: string
+): Promise<StarterTask[]> => {
+  const tasks = new Map<number, StarterTask>()
+
+  for (const label of GITHUB_IMPORT_ISSUE_LABELS) {
+    const response = await client.rest<RestIssue[]>(
+      `${repositoryPath(fullName)}/issues?state=open&labels=${encodeURIComponent(label)}&per_page=${GITHUB_IMPORT_MAX_STARTER_TASKS}`
+    )
+    if (!response.ok || !response.data) continue
+
+    for (const issue of response.data) {
+      if (issue.pull_request || tasks.has(issue.number)) continue
+      tasks.set(issue.number, {
+        title: issue.title,
+        url: issue.html_url,
+        labels: issue.labels
+          .map(issueLabel => typeof issueLabel === 'string' ? issueLabel : issueLabel.name || '')
+          .filter(Boolean),
+        number: issue.number
+      })
+    }
+  }
+
+  return Array.from(tasks.values()).slice(0, GITHUB_IMPORT_MAX_STARTER_TASKS)
+}
+
+/**
+ * Build prefilled project fields from a repository: README, languages, topics and link
+ * The starter-task issues are fetched too so the form can offer them
+ */
+export const fetchGitHubProjectImport = async (
+  fullName: string,
+  options: FetchGitHubStatsOptions = {}
+): Promise<GitHubProjectImportResult> => {
+  try {
+    const client = await resolveGitHubClient(options)
+    const path = repositoryPath(fullName)
+
+    const repositoryResponse = await client.rest<RestRepository>(path)
+    if (!repositoryResponse.ok || !repositoryResponse.data) {
+      return {
+        success: false,
+        error: repositoryResponse.status === 404 ? 'Repository not found on GitHub' : repositoryResponse.error
+      }
+    }
+    const repository = repositoryResponse.data
+
+    const languagesResponse = await client.rest<Record<string, number>>(`${path}/languages`)
+    const codingLanguages = toCodingLanguages(languagesResponse.data || {})
+    const primaryLanguage = repository.language
+      ? GITHUB_LANGUAGE_ALIASES[repository.language] || repository.language
+      : null
+    if (codingLanguages.length === 0 && primaryLanguage && CODING_LANGUAGES.includes(primaryLanguage)) {
+      codingLanguages.push(primaryLanguage)
+    }
+
+    // A missing README is a 404; fall back to the repository description
+    const readmeResponse = await client.rest<{ content?: string; encoding?: string }>(`${path}/readme`)
+    const readme = readmeResponse.ok && readmeResponse.data?.content && readmeResponse.data.encoding === 'base64'
+      ? summarizeReadme(decodeBase64(readmeResponse.data.content))
+      : ''
+
+    const starterTasks = await fetchStarterTasks(client, fullName)
+
+    console.log(`✅ Prepared GitHub import for ${fullName} (${starterTasks.length} starter tasks)`)
+    return {
+      success: true,
+      projectImport: {
+        title: humanizeRepositoryName(repository.name),
+        description: readme || repository.description || '',
+        coding_languages: codingLanguages,
+        topics: (repository.topics || []).slice(0, PROJECT_TOPICS_MAX),
+        repository_url: repository.html_url,
+        starterTasks
+      }
+    }
+
+  } catch (error) {
+    console.error('❌ Error importing GitHub repository:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to import the repository'
+    }
+  }
+}
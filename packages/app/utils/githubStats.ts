@@ -1,29 +1,234 @@
 import { supabase } from '../lib/supabase'
+import { GitHubClient, GitHubErrorKind, githubClient } from './githubClient'
+import {
+  CODING_LANGUAGES,
+  GITHUB_LANGUAGE_ALIASES,
+  GITHUB_LANGUAGE_REPO_LIMIT,
+  GITHUB_LANGUAGE_SUGGESTION_MIN_PERCENT,
+  GITHUB_SHOWCASE_CACHE_LIMIT,
+  GITHUB_SHOWCASE_REPO_LIMIT,
+  GITHUB_STATS_MAX_AGE_HOURS
+} from './constants'
+
+export interface GitHubContributionCounts {
+  commits: number
+  pullRequests: number
+  issues: number
+  reviews: number
+}
+
+// One square of the contribution heatmap
+export interface GitHubContributionDay {
+  // YYYY-MM-DD
+  date: string
+  count: number
+}
 
 export interface GitHubStats {
   username: string
   repositoryCount: number
   commitCount: number
+  pullRequestCount: number
+  issueCount: number
+  reviewCount: number
+  // Keyed by calendar year, e.g. { "2024": { commits: 120, ... } }
+  contributionsByYear: Record<string, GitHubContributionCounts>
+  // Daily counts for the last year, oldest first (empty until synced with a token)
+  contributionCalendar: GitHubContributionDay[]
+  lastUpdated: string
+}
+
+export interface FetchedGitHubStats {
+  username: string
+  repositoryCount: number
+  // null when no GitHub token was available (GraphQL requires one)
+  contributions: {
+    totals: GitHubContributionCounts
+    byYear: Record<string, GitHubContributionCounts>
+    calendar: GitHubContributionDay[]
+  } | null
   lastUpdated: string
 }
 
+// One entry of a developer's tech stack, weighted by bytes of code across their repositories
+export interface GitHubLanguageShare {
+  language: string
+  bytes: number
+  percentage: number
+}
+
+export interface GitHubLanguageProfileResult {
+  success: boolean
+  // Sorted by share, largest first
+  languages?: GitHubLanguageShare[]
+  error?: string
+  status?: number
+  errorKind?: GitHubErrorKind
+}
+
+// A repository card on a developer's profile
+export interface GitHubRepositorySummary {
+  name: string
+  // owner/name; hidden repositories are stored by this
+  fullName: string
+  description: string | null
+  url: string
+  stars: number
+  primaryLanguage: string | null
+  pushedAt: string | null
+  pinned: boolean
+}
+
+export interface GitHubRepositoriesResult {
+  success: boolean
+  // Pinned repositories first, then the most starred
+  repositories?: GitHubRepositorySummary[]
+  error?: string
+  status?: number
+  errorKind?: GitHubErrorKind
+}
+
+export interface CachedGitHubRepositoriesResult {
+  success: boolean
+  repositories?: GitHubRepositorySummary[]
+  hiddenRepositories?: string[]
+  error?: string
+}
+
+export interface FetchGitHubStatsOptions {
+  // OAuth provider token of the GitHub user; enables contribution counts.
+  // Defaults to the client's own token, then to the current session's GitHub token.
+  token?: string | null
+  // Injectable HTTP layer (defaults to the shared client against api.github.com)
+  client?: GitHubClient
+}
+
 export interface GitHubStatsResult {
   success: boolean
   stats?: GitHubStats
   error?: string
 }
 
+export interface FetchGitHubStatsResult {
+  success: boolean
+  stats?: FetchedGitHubStats
+  error?: string
+  // HTTP status of the failed GitHub request
+  status?: number
+  // Classified failure, so callers can tell rate limits from missing users or revoked access
+  errorKind?: GitHubErrorKind
+}
+
+interface ContributionYearsQuery {
+  user: {
+    repositories: { totalCount: number }
+    contributionsCollection: {
+      contributionYears: number[]
+      contributionCalendar: {
+        weeks: { contributionDays: { date: string; contributionCount: number }[] }[]
+      }
+    }
+  } | null
+}
+
+interface ContributionCollection {
+  totalCommitContributions: number
+  totalPullRequestContributions: number
+  totalIssueContributions: number
+  totalPullRequestReviewContributions: number
+}
+
+type ContributionsByYearQuery = {
+  user: Record<string, ContributionCollection> | null
+}
+
+const CONTRIBUTION_YEARS_QUERY = `
+  query ContributionYears($login: String!) {
+    user(login: $login) {
+      repositories(ownerAffiliations: OWNER, privacy: PUBLIC) { totalCount }
+      contributionsCollection {
+        contributionYears
+        contributionCalendar {
+          weeks { contributionDays { date contributionCount } }
+        }
+      }
+    }
+  }
+`
+
+// contributionsCollection spans at most one year, so each year gets an aliased field
+const buildContributionsByYearQuery = (years: number[]): string => `
+  query ContributionsByYear($login: String!) {
+    user(login: $login) {
+      ${years.map(year => `
+      y${year}: contributionsCollection(from: "${year}-01-01T00:00:00Z", to: "${year}-12-31T23:59:59Z") {
+        totalCommitContributions
+        totalPullRequestContributions
+        totalIssueContributions
+        totalPullRequestReviewContributions
+      }`).join('')}
+    }
+  }
+`
+
+const EMPTY_CONTRIBUTIONS: GitHubContributionCounts = { commits: 0, pullRequests: 0, issues: 0, reviews: 0 }
+
+/**
+ * OAuth token GitHub handed out at sign-in, if the current session came from GitHub
+ * Supabase only keeps it in the session that was created by the OAuth redirect
+ */
+const getGitHubProviderToken = async (): Promise<string | null> => {
+  const { data: { session } } = await supabase.auth.getSession()
+  if (!session?.provider_token || session.user.app_metadata?.provider !== 'github') {
+    return null
+  }
+  return session.provider_token
+}
+
+/**
+ * Client for a request: explicit token, else the client's own, else the session's GitHub token
+ */
+export const resolveGitHubClient = async (options: FetchGitHubStatsOptions): Promise<GitHubClient> => {
+  const client = options.client || githubClient
+  if (options.token !== undefined) return client.withToken(options.token)
+  if (client.isAuthenticated) return client
+  return client.withToken(await getGitHubProviderToken())
+}
+
 /**
- * Check if GitHub stats need updating (older than 24 hours)
+ * Check if GitHub stats need updating (never synced, or older than GITHUB_STATS_MAX_AGE_HOURS)
+ * Uses github_stats_synced_at so profile edits don't reset the clock
  */
-const shouldUpdateGitHubStats = (lastUpdated: string): boolean => {
-  const oneDayAgo = new Date()
-  oneDayAgo.setDate(oneDayAgo.getDate() - 1)
-  
-  const lastUpdateDate = new Date(lastUpdated)
-  return lastUpdateDate < oneDayAgo
+export const shouldUpdateGitHubStats = (lastSynced: string | null, now: Date = new Date()): boolean => {
+  if (!lastSynced) return true
+  return now.getTime() - new Date(lastSynced).getTime() > GITHUB_STATS_MAX_AGE_HOURS * 60 * 60 * 1000
 }
 
+/**
+ * Profile columns written after a successful fetch
+ * Without contributions (no token) only the repository count is refreshed; stored counts are kept
+ */
+export const buildGitHubStatsUpdate = (
+  stats: FetchedGitHubStats,
+  languages?: GitHubLanguageShare[] | null,
+  repositories?: GitHubRepositorySummary[] | null
+) => ({
+  github_repository_count: stats.repositoryCount,
+  ...(stats.contributions && {
+    github_commit_count: stats.contributions.totals.commits,
+    github_pull_request_count: stats.contributions.totals.pullRequests,
+    github_issue_count: stats.contributions.totals.issues,
+    github_review_count: stats.contributions.totals.reviews,
+    github_contributions_by_year: stats.contributions.byYear,
+    github_contribution_calendar: stats.contributions.calendar
+  }),
+  ...(languages && { github_language_breakdown: languages }),
+  ...(repositories && { github_repositories: repositories }),
+  github_stats_synced_at: stats.lastUpdated,
+  github_sync_failures: 0,
+  github_sync_retry_at: null
+})
+
 /**
  * Get cached GitHub statistics from the user's profile
  * Automatically updates if data is older than 24 hours
@@ -32,7 +237,7 @@ export const getCachedGitHubStats = async (userId: string): Promise<GitHubStatsR
   try {
     const { data: profile, error } = await supabase
       .from('profiles')
-      .select('github_username, github_repository_count, github_commit_count, updated_at')
+      .select('github_username, github_repository_count, github_commit_count, github_pull_request_count, github_issue_count, github_review_count, github_contributions_by_year, github_contribution_calendar, github_stats_synced_at')
       .eq('id', userId)
       .single()
 
@@ -46,10 +251,10 @@ export const getCachedGitHubStats = async (userId: string): Promise<GitHubStatsR
     }
 
     // Check if stats need updating (older than 24 hours)
-    const needsUpdate = shouldUpdateGitHubStats(profile.updated_at || new Date().toISOString())
+    const needsUpdate = shouldUpdateGitHubStats(profile.github_stats_synced_at)
     
     if (needsUpdate) {
-      console.log('🔄 GitHub stats are older than 24 hours, updating automatically...')
+      console.log(`🔄 GitHub stats are older than ${GITHUB_STATS_MAX_AGE_HOURS} hours, updating automatically...`)
       
       // Try to update stats in the background
       try {
@@ -68,7 +273,12 @@ export const getCachedGitHubStats = async (userId: string): Promise<GitHubStatsR
       username: profile.github_username,
       repositoryCount: profile.github_repository_count || 0,
       commitCount: profile.github_commit_count || 0,
-      lastUpdated: profile.updated_at || new Date().toISOString()
+      pullRequestCount: profile.github_pull_request_count || 0,
+      issueCount: profile.github_issue_count || 0,
+      reviewCount: profile.github_review_count || 0,
+      contributionsByYear: profile.github_contributions_by_year || {},
+      contributionCalendar: profile.github_contribution_calendar || [],
+      lastUpdated: profile.github_stats_synced_at || new Date().toISOString()
     }
 
     return { success: true, stats }
@@ -84,9 +294,13 @@ export const getCachedGitHubStats = async (userId: string): Promise<GitHubStatsR
 
 /**
  * Fetch GitHub statistics from the GitHub API
- * This makes actual API calls to get fresh data
+ * With a token, commit/PR/issue/review counts come from the GraphQL contributionsCollection;
+ * without one only the public repository count is available
  */
-export const fetchGitHubStats = async (githubUsername: string): Promise<GitHubStatsResult> => {
+export const fetchGitHubStats = async (
+  githubUsername: string,
+  options: FetchGitHubStatsOptions = {}
+): Promise<FetchGitHubStatsResult> => {
   try {
     if (!githubUsername) {
       return { success: false, error: 'GitHub username is required' }
@@ -94,35 +308,91 @@ export const fetchGitHubStats = async (githubUsername: string): Promise<GitHubSt
 
     console.log(`🔍 Fetching GitHub stats for: ${githubUsername}`)
 
-    // Fetch user data from GitHub API
-    const userResponse = await fetch(`https://api.github.com/users/${githubUsername}`)
-    
-    if (!userResponse.ok) {
-      if (userResponse.status === 404) {
-        return { success: false, error: 'GitHub user not found' }
+    const client = await resolveGitHubClient(options)
+
+    if (!client.isAuthenticated) {
+      const userResponse = await client.rest<{ public_repos?: number }>(`/users/${encodeURIComponent(githubUsername)}`)
+      if (!userResponse.ok || !userResponse.data) {
+        return {
+          success: false,
+          error: userResponse.status === 404 ? 'GitHub user not found' : userResponse.error,
+          status: userResponse.status,
+          errorKind: userResponse.apiError?.kind
+        }
+      }
+
+      return {
+        success: true,
+        stats: {
+          username: githubUsername,
+          repositoryCount: userResponse.data.public_repos || 0,
+          contributions: null,
+          lastUpdated: new Date().toISOString()
+        }
       }
-      if (userResponse.status === 403) {
-        return { success: false, error: 'GitHub API rate limit exceeded' }
+    }
+
+    const yearsResponse = await client.graphql<ContributionYearsQuery>(CONTRIBUTION_YEARS_QUERY, { login: githubUsername })
+    if (!yearsResponse.ok || !yearsResponse.data?.user) {
+      const notFound = yearsResponse.status === 404 || (yearsResponse.ok && !yearsResponse.data?.user)
+      return {
+        success: false,
+        error: notFound ? 'GitHub user not found' : yearsResponse.error,
+        status: notFound ? 404 : yearsResponse.status,
+        errorKind: notFound ? 'not_found' : yearsResponse.apiError?.kind
       }
-      return { success: false, error: `GitHub API error: ${userResponse.status}` }
     }
 
-    const userData = await userResponse.json()
-    const repositoryCount = userData.public_repos || 0
+    const { repositories, contributionsCollection } = yearsResponse.data.user
+    const years = contributionsCollection.contributionYears
+    const byYear: Record<string, GitHubContributionCounts> = {}
+    const totals: GitHubContributionCounts = { ...EMPTY_CONTRIBUTIONS }
 
-    // For commit count, we'll use a simplified approach
-    // Getting exact commit counts requires iterating through all repos which is expensive
-    // For now, we'll estimate based on repository count
-    const estimatedCommitCount = Math.max(repositoryCount * 10, 0) // Rough estimate
+    if (years.length > 0) {
+      const countsResponse = await client.graphql<ContributionsByYearQuery>(
+        buildContributionsByYearQuery(years),
+        { login: githubUsername }
+      )
+      if (!countsResponse.ok || !countsResponse.data?.user) {
+        return {
+          success: false,
+          error: countsResponse.error || 'Failed to fetch GitHub contributions',
+          status: countsResponse.status,
+          errorKind: countsResponse.apiError?.kind
+        }
+      }
 
-    const stats: GitHubStats = {
+      for (const year of years) {
+        const collection = countsResponse.data.user[`y${year}`]
+        if (!collection) continue
+
+        const counts: GitHubContributionCounts = {
+          commits: collection.totalCommitContributions,
+          pullRequests: collection.totalPullRequestContributions,
+          issues: collection.totalIssueContributions,
+          reviews: collection.totalPullRequestReviewContributions
+        }
+        byYear[String(year)] = counts
+        totals.commits += counts.commits
+        totals.pullRequests += counts.pullRequests
+        totals.issues += counts.issues
+        totals.reviews += counts.reviews
+      }
+    }
+
+    // The default contributionsCollection range is the last year, which is what the heatmap shows
+    const calendar: GitHubContributionDay[] = contributionsCollection.contributionCalendar.weeks
+      .flatMap(week => week.contributionDays)
+      .map(day => ({ date: day.date, count: day.contributionCount }))
+
+    const stats: FetchedGitHubStats = {
       username: githubUsername,
-      repositoryCount,
-      commitCount: estimatedCommitCount,
+      repositoryCount: repositories.totalCount,
+      contributions: { totals, byYear, calendar },
       lastUpdated: new Date().toISOString()
     }
 
-    console.log(`✅ GitHub stats fetched:`, stats)
+    console.log(`✅ GitHub stats fetched:`, stats.contributions?.totals)
     return { success: true, stats }
 
   } catch (error) {
@@ -139,7 +409,8 @@ export const fetchGitHubStats = async (githubUsername: string): Promise<GitHubSt
  */
 export const updateUserGitHubStats = async (
   userId: string,
-  githubUsername: string
+  githubUsername: string,
+  options: FetchGitHubStatsOptions = {}
 ): Promise<GitHubStatsResult> => {
   try {
     // Verify user authentication
@@ -148,29 +419,46 @@ export const updateUserGitHubStats = async (
       return { success: false, error: 'Authentication required' }
     }
 
-    // Fetch fresh GitHub statistics
-    const statsResult = await fetchGitHubStats(githubUsername)
+    // Fetch fresh GitHub statistics, using the sign-in token when we have one
+    const client = await resolveGitHubClient(options)
+    const statsResult = await fetchGitHubStats(githubUsername, { client })
     if (!statsResult.success || !statsResult.stats) {
-      return statsResult
+      return { success: false, error: statsResult.error }
     }
 
-    // Update the profile in the database
-    const { error: updateError } = await supabase
+    // The language breakdown is cheap with a token (one GraphQL query), so it rides along
+    const languagesResult = client.isAuthenticated
+      ? await fetchGitHubLanguageProfile(githubUsername, { client })
+      : null
+    // One request either way, and unchanged repository lists come back as 304s
+    const repositoriesResult = await fetchGitHubRepositories(githubUsername, { client })
+    const { data: profile, error: updateError } = await supabase
       .from('profiles')
-      .update({
-        github_repository_count: statsResult.stats.repositoryCount,
-        github_commit_count: statsResult.stats.commitCount,
-        updated_at: new Date().toISOString()
-      })
+      .update(buildGitHubStatsUpdate(statsResult.stats, languagesResult?.languages, repositoriesResult.repositories))
       .eq('id', userId)
+      .select('github_commit_count, github_pull_request_count, github_issue_count, github_review_count, github_contributions_by_year, github_contribution_calendar')
+      .single()
 
-    if (updateError) {
+    if (updateError || !profile) {
       console.error('❌ Error updating GitHub stats in database:', updateError)
       return { success: false, error: 'Failed to update profile with GitHub statistics' }
     }
 
     console.log(`✅ GitHub stats updated in database for user ${userId}`)
-    return { success: true, stats: statsResult.stats }
+    return {
+      success: true,
+      stats: {
+        username: githubUsername,
+        repositoryCount: statsResult.stats.repositoryCount,
+        commitCount: profile.github_commit_count || 0,
+        pullRequestCount: profile.github_pull_request_count || 0,
+        issueCount: profile.github_issue_count || 0,
+        reviewCount: profile.github_review_count || 0,
+        contributionsByYear: profile.github_contributions_by_year || {},
+        contributionCalendar: profile.github_contribution_calendar || [],
+        lastUpdated: statsResult.stats.lastUpdated
+      }
+    }
 
   } catch (error) {
     console.error('❌ Error updating user GitHub stats:', error)
@@ -212,4 +500,430 @@ export const refreshCurrentUserGitHubStats = async (): Promise<GitHubStatsResult
       error: error instanceof Error ? error.message : 'Failed to refresh GitHub statistics' 
     }
   }
-} 
\ No newline at end of file
+}
+
+interface RepositoryLanguagesQuery {
+  user: {
+    repositories: {
+      nodes: {
+        languages: { edges: { size: number; node: { name: string } }[] }
+      }[]
+    }
+  } | null
+}
+
+const REPOSITORY_LANGUAGES_QUERY = `
+  query RepositoryLanguages($login: String!) {
+    user(login: $login) {
+      repositories(first: 100, ownerAffiliations: OWNER, isFork: false, orderBy: { field: PUSHED_AT, direction: DESC }) {
+        nodes {
+          languages(first: 20, orderBy: { field: SIZE, direction: DESC }) {
+            edges { size node { name } }
+          }
+        }
+      }
+    }
+  }
+`
+
+/**
+ * Combine per-repository /languages byte counts into one weighted language profile
+ * Percentages are rounded to one decimal place
+ */
+export const computeLanguageProfile = (repositories: Record<string, number>[]): GitHubLanguageShare[] => {
+  const totals: Record<string, number> = {}
+  for (const languages of repositories) {
+    for (const [language, bytes] of Object.entries(languages)) {
+      totals[language] = (totals[language] || 0) + bytes
+    }
+  }
+
+  const totalBytes = Object.values(totals).reduce((sum, bytes) => sum + bytes, 0)
+  if (totalBytes === 0) return []
+
+  return Object.entries(totals)
+    .map(([language, bytes]) => ({
+      language,
+      bytes,
+      percentage: Math.round((bytes / totalBytes) * 1000) / 10
+    }))
+    .sort((a, b) => b.bytes - a.bytes)
+}
+
+/**
+ * Map a GitHub language profile onto CODING_LANGUAGES for onboarding suggestions
+ * Languages with a small share, or that we don't list, are skipped
+ */
+export const suggestCodingLanguages = (
+  languages: GitHubLanguageShare[],
+  minPercent: number = GITHUB_LANGUAGE_SUGGESTION_MIN_PERCENT
+): string[] => {
+  const shares: Record<string, number> = {}
+  for (const share of languages) {
+    const codingLanguage = GITHUB_LANGUAGE_ALIASES[share.language] || share.language
+    if (!CODING_LANGUAGES.includes(codingLanguage)) continue
+    shares[codingLanguage] = (shares[codingLanguage] || 0) + share.percentage
+  }
+
+  return Object.entries(shares)
+    .filter(([, percentage]) => percentage >= minPercent)
+    .sort(([, a], [, b]) => b - a)
+    .map(([language]) => language)
+}
+
+/**
+ * Fetch a developer's language profile from their own (non-fork) repositories
+ * With a token one GraphQL query covers up to 100 repositories; without one,
+ * the most recently pushed GITHUB_LANGUAGE_REPO_LIMIT repositories are sampled over REST
+ */
+export const fetchGitHubLanguageProfile = async (
+  githubUsername: string,
+  options: FetchGitHubStatsOptions = {}
+): Promise<GitHubLanguageProfileResult> => {
+  try {
+    if (!githubUsername) {
+      return { success: false, error: 'GitHub username is required' }
+    }
+
+    const client = await resolveGitHubClient(options)
+
+    if (client.isAuthenticated) {
+      const response = await client.graphql<RepositoryLanguagesQuery>(REPOSITORY_LANGUAGES_QUERY, { login: githubUsername })
+      if (!response.ok || !response.data?.user) {
+        const notFound = response.status === 404 || (response.ok && !response.data?.user)
+        return {
+          success: false,
+          error: notFound ? 'GitHub user not found' : response.error,
+          status: notFound ? 404 : response.status,
+          errorKind: notFound ? 'not_found' : response.apiError?.kind
+        }
+      }
+
+      const repositories = response.data.user.repositories.nodes.map(repository =>
+        Object.fromEntries(repository.languages.edges.map(edge => [edge.node.name, edge.size]))
+      )
+      return { success: true, languages: computeLanguageProfile(repositories) }
+    }
+
+    const reposResponse = await client.rest<{ name: string; fork: boolean }[]>(
+      `/users/${encodeURIComponent(githubUsername)}/repos?type=owner&sort=pushed&per_page=100`
+    )
+    if (!reposResponse.ok || !reposResponse.data) {
+      return {
+        success: false,
+        error: reposResponse.status === 404 ? 'GitHub user not found' : reposResponse.error,
+        status: reposResponse.status,
+        errorKind: reposResponse.apiError?.kind
+      }
+    }
+
+    const sampled = reposResponse.data.filter(repository => !repository.fork).slice(0, GITHUB_LANGUAGE_REPO_LIMIT)
+    const repositories: Record<string, number>[] = []
+    for (const repository of sampled) {
+      const languagesResponse = await client.rest<Record<string, number>>(
+        `/repos/${encodeURIComponent(githubUsername)}/${encodeURIComponent(repository.name)}/languages`
+      )
+      if (!languagesResponse.ok || !languagesResponse.data) {
+        return {
+          success: false,
+          error: languagesResponse.error || 'Failed to fetch repository languages',
+          status: languagesResponse.status,
+          errorKind: languagesResponse.apiError?.kind
+        }
+      }
+      repositories.push(languagesResponse.data)
+    }
+
+    return { success: true, languages: computeLanguageProfile(repositories) }
+
+  } catch (error) {
+    console.error('❌ Error fetching GitHub language profile:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch GitHub languages'
+    }
+  }
+}
+
+/**
+ * Store a language profile on the user's profile for the tech-stack chart
+ */
+export const saveGitHubLanguageProfile = async (
+  userId: string,
+  languages: GitHubLanguageShare[]
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user || user.id !== userId) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    const { error: updateError } = await supabase
+      .from('profiles')
+      .update({
+        github_language_breakdown: languages,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', userId)
+
+    if (updateError) {
+      console.error('❌ Error saving GitHub language profile:', updateError)
+      return { success: false, error: 'Failed to save GitHub languages' }
+    }
+
+    return { success: true }
+
+  } catch (error) {
+    console.error('❌ Error saving GitHub language profile:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save GitHub languages'
+    }
+  }
+}
+
+interface ShowcaseRepositoryNode {
+  name: string
+  nameWithOwner: string
+  description: string | null
+  url: string
+  stargazerCount: number
+  pushedAt: string | null
+  isPrivate: boolean
+  primaryLanguage: { name: string } | null
+}
+
+interface ShowcaseRepositoriesQuery {
+  user: {
+    pinnedItems: { nodes: (ShowcaseRepositoryNode | Record<string, never>)[] }
+    repositories: { nodes: ShowcaseRepositoryNode[] }
+  } | null
+}
+
+interface RestRepository {
+  name: string
+  full_name: string
+  description: string | null
+  html_url: string
+  stargazers_count: number
+  language: string | null
+  pushed_at: string | null
+  fork: boolean
+  private: boolean
+}
+
+const SHOWCASE_REPOSITORIES_QUERY = `
+  fragment ShowcaseRepository on Repository {
+    name
+    nameWithOwner
+    description
+    url
+    stargazerCount
+    pushedAt
+    isPrivate
+    primaryLanguage { name }
+  }
+
+  query ShowcaseRepositories($login: String!, $first: Int!) {
+    user(login: $login) {
+      pinnedItems(first: 6, types: REPOSITORY) {
+        nodes { ...ShowcaseRepository }
+      }
+      repositories(first: $first, ownerAffiliations: OWNER, isFork: false, privacy: PUBLIC, orderBy: { field: STARGAZERS, direction: DESC }) {
+        nodes { ...ShowcaseRepository }
+      }
+    }
+  }
+`
+
+const toRepositorySummary = (node: ShowcaseRepositoryNode, pinned: boolean): GitHubRepositorySummary => ({
+  name: node.name,
+  fullName: node.nameWithOwner,
+  description: node.description,
+  url: node.url,
+  stars: node.stargazerCount,
+  primaryLanguage: node.primaryLanguage?.name || null,
+  pushedAt: node.pushedAt,
+  pinned
+})
+
+/**
+ * Repositories to show on a profile: hidden ones removed, capped at GITHUB_SHOWCASE_REPO_LIMIT
+ */
+export const selectShowcaseRepositories = (
+  repositories: GitHubRepositorySummary[],
+  hiddenRepositories: string[] = [],
+  limit: number = GITHUB_SHOWCASE_REPO_LIMIT
+): GitHubRepositorySummary[] => {
+  return repositories
+    .filter(repository => !hiddenRepositories.includes(repository.fullName))
+    .slice(0, limit)
+}
+
+/**
+ * Fetch the repositories a developer wants to show off
+ * With a token their pinned repositories come first, topped up with their most starred;
+ * REST has no pinned items, so without one the most starred non-fork repositories are used
+ */
+export const fetchGitHubRepositories = async (
+  githubUsername: string,
+  options: FetchGitHubStatsOptions = {}
+): Promise<GitHubRepositoriesResult> => {
+  try {
+    if (!githubUsername) {
+      return { success: false, error: 'GitHub username is required' }
+    }
+
+    const client = await resolveGitHubClient(options)
+
+    if (client.isAuthenticated) {
+      const response = await client.graphql<ShowcaseRepositoriesQuery>(SHOWCASE_REPOSITORIES_QUERY, {
+        login: githubUsername,
+        first: GITHUB_SHOWCASE_CACHE_LIMIT
+      })
+      if (!response.ok || !response.data?.user) {
+        const notFound = response.status === 404 || (response.ok && !response.data?.user)
+        return {
+          success: false,
+          error: notFound ? 'GitHub user not found' : response.error,
+          status: notFound ? 404 : response.status,
+          errorKind: notFound ? 'not_found' : response.apiError?.kind
+        }
+      }
+
+      const { pinnedItems, repositories } = response.data.user
+      const pinned = pinnedItems.nodes
+        .filter((node): node is ShowcaseRepositoryNode => 'nameWithOwner' in node && !node.isPrivate)
+        .map(node => toRepositorySummary(node, true))
+      const pinnedNames = new Set(pinned.map(repository => repository.fullName))
+      const starred = repositories.nodes
+        .filter(node => !pinnedNames.has(node.nameWithOwner))
+        .map(node => toRepositorySummary(node, false))
+
+      return { success: true, repositories: [...pinned, ...starred].slice(0, GITHUB_SHOWCASE_CACHE_LIMIT) }
+    }
+
+    // Same listing the language profile samples, so the ETag cache usually answers it
+    const reposResponse = await client.rest<RestRepository[]>(
+      `/users/${encodeURIComponent(githubUsername)}/repos?type=owner&sort=pushed&per_page=100`
+    )
+    if (!reposResponse.ok || !reposResponse.data) {
+      return {
+        success: false,
+        error: reposResponse.status === 404 ? 'GitHub user not found' : reposResponse.error,
+        status: reposResponse.status,
+        errorKind: reposResponse.apiError?.kind
+      }
+    }
+
+    const repositories = reposResponse.data
+      .filter(repository => !repository.fork && !repository.private)
+      .sort((a, b) => b.stargazers_count - a.stargazers_count)
+      .slice(0, GITHUB_SHOWCASE_CACHE_LIMIT)
+      .map(repository => ({
+        name: repository.name,
+        fullName: repository.full_name,
+        description: repository.description,
+        url: repository.html_url,
+        stars: repository.stargazers_count,
+        primaryLanguage: repository.language,
+        pushedAt: repository.pushed_at,
+        pinned: false
+      }))
+
+    return { success: true, repositories }
+
+  } catch (error) {
+    console.error('❌ Error fetching GitHub repositories:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch GitHub repositories'
+    }
+  }
+}
+
+/**
+ * Get the cached repository showcase and the repositories the user has hidden
+ */
+export const getCachedGitHubRepositories = async (userId: string): Promise<CachedGitHubRepositoriesResult> => {
+  try {
+    const { data: profile, error } = await supabase
+      .from('profiles')
+      .select('github_repositories, github_hidden_repositories')
+      .eq('id', userId)
+      .single()
+
+    if (error) {
+      console.error('❌ Error fetching cached GitHub repositories:', error)
+      return { success: false, error: 'Failed to fetch profile data' }
+    }
+
+    return {
+      success: true,
+      repositories: profile?.github_repositories || [],
+      hiddenRepositories: profile?.github_hidden_repositories || []
+    }
+
+  } catch (error) {
+    console.error('❌ Error getting cached GitHub repositories:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to get GitHub repositories'
+    }
+  }
+}
+
+/**
+ * Hide a repository from (or show it again on) the user's profile
+ */
+export const setGitHubRepositoryHidden = async (
+  userId: string,
+  fullName: string,
+  hidden: boolean
+): Promise<{ success: boolean; hiddenRepositories?: string[]; error?: string }> => {
+  try {
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user || user.id !== userId) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('github_hidden_repositories')
+      .eq('id', userId)
+      .single()
+
+    if (profileError) {
+      console.error('❌ Error fetching hidden repositories:', profileError)
+      return { success: false, error: 'Failed to fetch profile data' }
+    }
+
+    const current: string[] = profile?.github_hidden_repositories || []
+    const hiddenRepositories = hidden
+      ? Array.from(new Set([...current, fullName]))
+      : current.filter(name => name !== fullName)
+
+    const { error: updateError } = await supabase
+      .from('profiles')
+      .update({
+        github_hidden_repositories: hiddenRepositories,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', userId)
+
+    if (updateError) {
+      console.error('❌ Error updating hidden repositories:', updateError)
+      return { success: false, error: 'Failed to update repository visibility' }
+    }
+
+    console.log(`✅ Repository ${fullName} ${hidden ? 'hidden' : 'shown'} on profile`)
+    return { success: true, hiddenRepositories }
+
+  } catch (error) {
+    console.error('❌ Error updating repository visibility:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to update repository visibility'
+    }
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * Server-side GitHub stats refresh for DevRecruit
+ *
+ * Refreshes stale profiles in batches so stats stay fresh for profiles other
+ * developers are viewing, not only when the owner opens their dashboard.
+ * - transient failures (rate limits, 5xx, network) are retried with exponential backoff;
+ *   the shared GitHubClient also holds requests until X-RateLimit-Reset once quota runs low
+ * - profiles that keep failing are skipped for a growing period (github_sync_retry_at)
+ * - every attempt is recorded in github_sync_log with its outcome
+ *
+ * Runs with a service-role Supabase client; see apps/next/app/api/github/sync/route.ts
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { GitHubClient, githubClient } from './githubClient'
+import {
+  buildGitHubStatsUpdate,
+  fetchGitHubLanguageProfile,
+  fetchGitHubRepositories,
+  fetchGitHubStats,
+  FetchGitHubStatsResult
+} from './githubStats'
+import {
+  GITHUB_STATS_MAX_AGE_HOURS,
+  GITHUB_SYNC_BACKOFF_BASE_MS,
+  GITHUB_SYNC_BATCH_SIZE,
+  GITHUB_SYNC_MAX_ATTEMPTS,
+  GITHUB_SYNC_MAX_RETRY_HOURS
+} from './constants'
+import type { Database } from '../lib/supabase'
+
+export type GitHubSyncOutcome = Database['public']['Tables']['github_sync_log']['Row']['outcome']
+type SyncCandidate = Database['public']['Functions']['get_github_sync_candidates']['Returns'][number]
+
+export interface GitHubSyncUserResult {
+  userId: string
+  githubUsername: string
+  outcome: GitHubSyncOutcome
+  attempts: number
+  error?: string
+  durationMs: number
+}
+
+export interface GitHubSyncRunResult {
+  success: boolean
+  runId: string
+  results: GitHubSyncUserResult[]
+  // True when the run stopped early because GitHub kept rate limiting us
+  rateLimited: boolean
+  error?: string
+}
+
+export interface GitHubSyncOptions {
+  // Service-role client: candidates include other users' profiles
+  db: SupabaseClient
+  // Authenticated client (server token) so contribution counts can be fetched
+  client?: GitHubClient
+  batchSize?: number
+  maxAttempts?: number
+  backoffBaseMs?: number
+  sleep?: (ms: number) => Promise<void>
+  now?: () => Date
+}
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms))
+
+const isRetryable = (result: FetchGitHubStatsResult): boolean => {
+  if (result.errorKind) {
+    return result.errorKind === 'rate_limited' || result.errorKind === 'server' || result.errorKind === 'network'
+  }
+  return result.status === undefined || result.status === 429 || result.status >= 500
+}
+
+const classifyFailure = (result: FetchGitHubStatsResult): GitHubSyncOutcome => {
+  if (result.errorKind === 'not_found' || result.status === 404) return 'not_found'
+  if (result.errorKind === 'rate_limited' || result.status === 429) return 'rate_limited'
+  return 'failed'
+}
+
+/**
+ * How long a profile is skipped after its Nth consecutive failed run: 1h, 2h, 4h ... capped
+ */
+export const getSyncRetryDelayHours = (failures: number): number => {
+  return Math.min(2 ** Math.max(failures - 1, 0), GITHUB_SYNC_MAX_RETRY_HOURS)
+}
+
+/**
+ * Fetch one user's stats, retrying transient failures with exponential backoff
+ */
+const syncCandidate = async (
+  candidate: SyncCandidate,
+  options: Required<Omit<GitHubSyncOptions, 'db'>>
+): Promise<{ result: FetchGitHubStatsResult; attempts: number }> => {
+  let attempts = 0
+  let result: FetchGitHubStatsResult = { success: false, error: 'Not attempted' }
+
+  while (attempts < options.maxAttempts) {
+    if (attempts > 0) {
+      await options.sleep(options.backoffBaseMs * 2 ** (attempts - 1))
+    }
+    attempts++
+
+    result = await fetchGitHubStats(candidate.github_username, { client: options.client })
+    if (result.success || !isRetryable(result)) break
+  }
+
+  return { result, attempts }
+}
+
+/**
+ * Refresh one batch of stale profiles and record the outcome for each user
+ */
+export const syncStaleGitHubProfiles = async (options: GitHubSyncOptions): Promise<GitHubSyncRunResult> => {
+  const settings = {
+    client: options.client || githubClient,
+    batchSize: options.batchSize || GITHUB_SYNC_BATCH_SIZE,
+    maxAttempts: options.maxAttempts || GITHUB_SYNC_MAX_ATTEMPTS,
+    backoffBaseMs: options.backoffBaseMs ?? GITHUB_SYNC_BACKOFF_BASE_MS,
+    sleep: options.sleep || defaultSleep,
+    now: options.now || (() => new Date())
+  }
+  const { db } = options
+  const runId = globalThis.crypto.randomUUID()
+  const results: GitHubSyncUserResult[] = []
+
+  const staleBefore = new Date(settings.now().getTime() - GITHUB_STATS_MAX_AGE_HOURS * 60 * 60 * 1000)
+  const { data: candidates, error: candidatesError } = await db.rpc('get_github_sync_candidates', {
+    p_stale_before: staleBefore.toISOString(),
+    p_limit: settings.batchSize
+  })
+
+  if (candidatesError) {
+    console.error('❌ Error loading GitHub sync candidates:', candidatesError)
+    return { success: false, runId, results, rateLimited: false, error: 'Failed to load profiles to sync' }
+  }
+
+  let rateLimited = false
+
+  for (const candidate of (candidates || []) as SyncCandidate[]) {
+    const startedAt = Date.now()
+    const { result, attempts } = await syncCandidate(candidate, settings)
+
+    let outcome: GitHubSyncOutcome
+    let error = result.error
+
+    if (result.success && result.stats) {
+      const languagesResult = settings.client.isAuthenticated
+        ? await fetchGitHubLanguageProfile(candidate.github_username, { client: settings.client })
+        : null
+      const repositoriesResult = await fetchGitHubRepositories(candidate.github_username, { client: settings.client })
+
+      const { error: updateError } = await db
+        .from('profiles')
+        .update(buildGitHubStatsUpdate(result.stats, languagesResult?.languages, repositoriesResult.repositories))
+        .eq('id', candidate.id)
+
+      outcome = updateError ? 'failed' : 'synced'
+      error = updateError ? 'Failed to save GitHub statistics' : undefined
+    } else {
+      outcome = classifyFailure(result)
+    }
+
+    if (outcome !== 'synced') {
+      const failures = candidate.github_sync_failures + 1
+      const retryAt = new Date(settings.now().getTime() + getSyncRetryDelayHours(failures) * 60 * 60 * 1000)
+      const { error: backoffError } = await db
+        .from('profiles')
+        .update({ github_sync_failures: failures, github_sync_retry_at: retryAt.toISOString() })
+        .eq('id', candidate.id)
+
+      // Without the backoff the profile is picked again on the next run
+      if (backoffError) {
+        console.error('❌ Error scheduling GitHub sync retry:', backoffError)
+        error = [error, 'Failed to schedule the next retry'].filter(Boolean).join('; ')
+      }
+    }
+
+    results.push({
+      userId: candidate.id,
+      githubUsername: candidate.github_username,
+      outcome,
+      attempts,
+      error,
+      durationMs: Date.now() - startedAt
+    })
+
+    // Still rate limited after backing off: the rest of the batch would fail the same way
+    if (outcome === 'rate_limited') {
+      rateLimited = true
+      break
+    }
+  }
+
+  if (results.length > 0) {
+    const { error: logError } = await db.from('github_sync_log').insert(results.map(result => ({
+      user_id: result.userId,
+      run_id: runId,
+      outcome: result.outcome,
+      attempts: result.attempts,
+      error: result.error || null,
+      duration_ms: result.durationMs
+    })))
+
+    if (logError) {
+      console.error('❌ Error recording GitHub sync outcomes:', logError)
+    }
+  }
+
+  console.log(`✅ GitHub sync run ${runId}: ${results.filter(r => r.outcome === 'synced').length}/${results.length} synced`)
+  return { success: true, runId, results, rateLimited }
+}
@@ -0,0 +1,330 @@
+/**
+ * GitHub webhook handling for DevRecruit projects
+ *
+ * Repositories linked to a project (projects.repository_url) can send push, issues,
+ * pull_request and release deliveries to apps/next/app/api/github/webhook/route.ts.
+ * - signatures are checked against X-Hub-Signature-256 (HMAC SHA-256 of the raw body), using
+ *   the webhook secret of each project linked to the payload's repository; a delivery is
+ *   only recorded for the projects whose secret signed it
+ * - payloads are reduced to a GitHubActivityEvent; noise (other branches, label edits) is ignored
+ * - record_project_activity() stores the event once per X-GitHub-Delivery id and bumps
+ *   project_activity_metrics, so redeliveries and local replays are safe
+ *
+ * Runs with a service-role Supabase client
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '../lib/supabase'
+
+export type GitHubWebhookEventName = Database['public']['Tables']['project_activity']['Row']['event_type']
+
+export const GITHUB_WEBHOOK_EVENTS: GitHubWebhookEventName[] = ['push', 'issues', 'pull_request', 'release']
+
+// Actions worth a feed entry; everything else (labeled, edited, synchronize ...) is ignored
+const TRACKED_ACTIONS: Record<Exclude<GitHubWebhookEventName, 'push'>, string[]> = {
+  issues: ['opened', 'closed', 'reopened'],
+  pull_request: ['opened', 'closed', 'reopened'],
+  release: ['published']
+}
+
+export interface GitHubActivityEvent {
+  repositoryUrl: string
+  eventType: GitHubWebhookEventName
+  // 'merged' for pull requests closed by a merge
+  action: string | null
+  actorLogin: string | null
+  title: string | null
+  url: string | null
+  commitCount: number
+  issueNumber: number | null
+  releaseTag: string | null
+  occurredAt: string
+}
+
+export interface ParseGitHubWebhookResult {
+  event?: GitHubActivityEvent
+  // Why the delivery was accepted but not recorded
+  ignoredReason?: string
+}
+
+export interface VerifyGitHubDeliveryResult {
+  success: boolean
+  // Projects linked to the repository whose webhook secret signed the delivery
+  projectIds: string[]
+  error?: string
+}
+
+export interface RecordGitHubActivityResult {
+  success: boolean
+  // Projects that recorded the delivery; 0 for unlinked repositories and replays
+  recorded: number
+  error?: string
+}
+
+interface WebhookRepository {
+  html_url: string
+  default_branch?: string
+}
+
+interface WebhookUser {
+  login: string
+}
+
+interface PushPayload {
+  ref: string
+  deleted?: boolean
+  compare?: string
+  commits?: { message: string }[]
+  head_commit?: { message: string; url: string; timestamp: string } | null
+  pusher?: { name?: string }
+  sender?: WebhookUser
+  repository: WebhookRepository
+}
+
+interface IssuesPayload {
+  action: string
+  issue: { number: number; title: string; html_url: string; updated_at: string; pull_request?: unknown }
+  sender?: WebhookUser
+  repository: WebhookRepository
+}
+
+interface PullRequestPayload {
+  action: string
+  pull_request: { number: number; title: string; html_url: string; updated_at: string; merged?: boolean }
+  sender?: WebhookUser
+  repository: WebhookRepository
+}
+
+interface ReleasePayload {
+  action: string
+  release: { tag_name: string; name: string | null; html_url: string; published_at: string | null }
+  sender?: WebhookUser
+  repository: WebhookRepository
+}
+
+const SIGNATURE_PREFIX = 'sha256='
+
+const toHex = (buffer: ArrayBuffer): string => {
+  return Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Compare without returning early, so timing does not reveal how much of the signature matched
+ */
+const timingSafeEqual = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false
+  let difference = 0
+  for (let index = 0; index < a.length; index++) {
+    difference |= a.charCodeAt(index) ^ b.charCodeAt(index)
+  }
+  return difference === 0
+}
+
+/**
+ * HMAC SHA-256 signature of a body, formatted like X-Hub-Signature-256
+ */
+export const signGitHubWebhookPayload = async (body: string, secret: string): Promise<string> => {
+  const encoder = new TextEncoder()
+  const key = await globalThis.crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await globalThis.crypto.subtle.sign('HMAC', key, encoder.encode(body))
+  return `${SIGNATURE_PREFIX}${toHex(signature)}`
+}
+
+/**
+ * Check X-Hub-Signature-256 against the raw request body
+ * The body must be the exact bytes GitHub sent, before any JSON parsing
+ */
+export const verifyGitHubSignature = async (
+  body: string,
+  signatureHeader: string | null,
+  secret: string
+): Promise<boolean> => {
+  if (!signatureHeader?.startsWith(SIGNATURE_PREFIX) || !secret) return false
+  const expected = await signGitHubWebhookPayload(body, secret)
+  return timingSafeEqual(expected, signatureHeader.toLowerCase())
+}
+
+/**
+ * Repository URL of a delivery, used to look up the secrets to verify it with
+ * Read from the unverified payload, so it only selects secrets; it is never trusted on its own
+ */
+export const getGitHubWebhookRepositoryUrl = (payload: unknown): string | null => {
+  if (!payload || typeof payload !== 'object' || !('repository' in payload)) return null
+  const repository = (payload as { repository?: Partial<WebhookRepository> | null }).repository
+  return typeof repository?.html_url === 'string' ? repository.html_url : null
+}
+
+/**
+ * Check a delivery against the webhook secret of every project linked to its repository
+ */
+export const verifyGitHubDelivery = async (
+  db: SupabaseClient,
+  body: string,
+  signatureHeader: string | null,
+  repositoryUrl: string
+): Promise<VerifyGitHubDeliveryResult> => {
+  const { data, error } = await db.rpc('get_project_webhook_secrets', {
+    p_repository_url: repositoryUrl
+  })
+
+  if (error) {
+    console.error('❌ Error loading project webhook secrets:', error)
+    return { success: false, projectIds: [], error: 'Failed to load webhook secrets' }
+  }
+
+  const secrets = (data as { project_id: string; secret: string }[] | null) || []
+  const projectIds: string[] = []
+  for (const { project_id, secret } of secrets) {
+    if (await verifyGitHubSignature(body, signatureHeader, secret)) {
+      projectIds.push(project_id)
+    }
+  }
+
+  return { success: true, projectIds }
+}
+
+const firstLine = (message: string): string => message.split('\n')[0]?.trim() || message
+
+/**
+ * Reduce a webhook payload to the activity we track
+ * Pushes only count on the default branch; branch deletions are ignored
+ */
+export const parseGitHubWebhookEvent = (eventName: string, payload: unknown): ParseGitHubWebhookResult => {
+  if (!GITHUB_WEBHOOK_EVENTS.includes(eventName as GitHubWebhookEventName)) {
+    return { ignoredReason: `Unsupported event: ${eventName}` }
+  }
+  if (!payload || typeof payload !== 'object' || !('repository' in payload)) {
+    return { ignoredReason: 'Payload has no repository' }
+  }
+
+  switch (eventName as GitHubWebhookEventName) {
+    case 'push': {
+      const push = payload as PushPayload
+      const defaultBranch = push.repository.default_branch
+      if (push.deleted) return { ignoredReason: 'Branch deleted' }
+      if (defaultBranch && push.ref !== `refs/heads/${defaultBranch}`) {
+        return { ignoredReason: `Push to non-default branch ${push.ref}` }
+      }
+
+      const commitCount = push.commits?.length || 0
+      if (commitCount === 0) return { ignoredReason: 'Push without commits' }
+
+      return {
+        event: {
+          repositoryUrl: push.repository.html_url,
+          eventType: 'push',
+          action: null,
+          actorLogin: push.sender?.login || push.pusher?.name || null,
+          title: push.head_commit ? firstLine(push.head_commit.message) : null,
+          url: push.compare || push.head_commit?.url || null,
+          commitCount,
+          issueNumber: null,
+          releaseTag: null,
+          occurredAt: push.head_commit?.timestamp || new Date().toISOString()
+        }
+      }
+    }
+
+    case 'issues': {
+      const { action, issue, sender, repository } = payload as IssuesPayload
+      if (!TRACKED_ACTIONS.issues.includes(action)) return { ignoredReason: `Untracked issues action: ${action}` }
+
+      return {
+        event: {
+          repositoryUrl: repository.html_url,
+          eventType: 'issues',
+          action,
+          actorLogin: sender?.login || null,
+          title: `#${issue.number} ${issue.title}`,
+          url: issue.html_url,
+          commitCount: 0,
+          issueNumber: issue.number,
+          releaseTag: null,
+          occurredAt: issue.updated_at
+        }
+      }
+    }
+
+    case 'pull_request': {
+      const { action, pull_request: pullRequest, sender, repository } = payload as PullRequestPayload
+      if (!TRACKED_ACTIONS.pull_request.includes(action)) {
+        return { ignoredReason: `Untracked pull_request action: ${action}` }
+      }
+
+      return {
+        event: {
+          repositoryUrl: repository.html_url,
+          eventType: 'pull_request',
+          action: action === 'closed' && pullRequest.merged ? 'merged' : action,
+          actorLogin: sender?.login || null,
+          title: `#${pullRequest.number} ${pullRequest.title}`,
+          url: pullRequest.html_url,
+          commitCount: 0,
+          issueNumber: null,
+          releaseTag: null,
+          occurredAt: pullRequest.updated_at
+        }
+      }
+    }
+
+    case 'release': {
+      const { action, release, sender, repository } = payload as ReleasePayload
+      if (!TRACKED_ACTIONS.release.includes(action)) return { ignoredReason: `Untracked release action: ${action}` }
+
+      return {
+        event: {
+          repositoryUrl: repository.html_url,
+          eventType: 'release',
+          action,
+          actorLogin: sender?.login || null,
+          title: release.name || release.tag_name,
+          url: release.html_url,
+          commitCount: 0,
+          issueNumber: null,
+          releaseTag: release.tag_name,
+          occurredAt: release.published_at || new Date().toISOString()
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Store a parsed delivery for the verified projects linked to its repository
+ */
+export const recordGitHubActivity = async (
+  db: SupabaseClient,
+  deliveryId: string,
+  event: GitHubActivityEvent,
+  projectIds: string[]
+): Promise<RecordGitHubActivityResult> => {
+  const { data, error } = await db.rpc('record_project_activity', {
+    p_project_ids: projectIds,
+    p_repository_url: event.repositoryUrl,
+    p_delivery_id: deliveryId,
+    p_event_type: event.eventType,
+    p_action: event.action,
+    p_actor_login: event.actorLogin,
+    p_title: event.title,
+    p_url: event.url,
+    p_commit_count: event.commitCount,
+    p_issue_number: event.issueNumber,
+    p_release_tag: event.releaseTag,
+    p_occurred_at: event.occurredAt
+  })
+
+  if (error) {
+    console.error('❌ Error recording GitHub activity:', error)
+    return { success: false, recorded: 0, error: 'Failed to record GitHub activity' }
+  }
+
+  const recorded = (data as number | null) || 0
+  console.log(`✅ GitHub ${event.eventType} delivery ${deliveryId} recorded for ${recorded} project(s)`)
+  return { success: true, recorded }
+}
@@ -0,0 +1,222 @@
+import { supabase, Database } from '../lib/supabase'
+import { errorHandler } from './errorHandler'
+import { validateInvitation } from './validation'
+
+export type Invitation = Database['public']['Tables']['project_invitations']['Row']
+export type InvitationStatus = Invitation['status']
+export type ReceivedInvitation = Database['public']['Functions']['get_received_invitations']['Returns'][number]
+export type SentInvitation = Database['public']['Functions']['get_sent_invitations']['Returns'][number]
+
+export interface InvitationFormData {
+  username: string
+  message: string
+}
+
+export interface InvitationResult {
+  success: boolean
+  invitation?: Invitation
+  error?: string
+  validationErrors?: string[]
+}
+
+export interface InvitationListResult<T> {
+  success: boolean
+  invitations?: T[]
+  error?: string
+}
+
+// Refusal reasons raised by invite_to_project() in supabase-invitations-schema.sql
+const INVITE_ERROR_MESSAGES: Record<string, string> = {
+  project_not_found: 'You can only invite developers to your own projects',
+  project_not_accepting: 'This project is no longer accepting collaborators',
+  user_not_found: 'No developer found with that username',
+  cannot_invite_self: 'You cannot invite yourself to your own project',
+  invites_disabled: 'This developer is not accepting project invitations',
+  already_invited: 'This developer has already been invited to this project'
+}
+
+/**
+ * Invite a developer to one of the current user's projects by username
+ * The database refuses invitations to developers who turned off allowProjectInvites
+ */
+export const inviteToProject = async (
+  inviterId: string,
+  projectId: string,
+  formData: InvitationFormData
+): Promise<InvitationResult> => {
+  try {
+    // Verify user authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user || user.id !== inviterId) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    const validation = validateInvitation({
+      username: formData.username.trim().replace(/^@/, ''),
+      message: formData.message
+    })
+    if (!validation.isValid) {
+      return {
+        success: false,
+        error: 'Please fix the highlighted fields',
+        validationErrors: validation.errors
+      }
+    }
+
+    const sanitized = validation.sanitizedValue
+    const { data: invitation, error: inviteError } = await supabase.rpc('invite_to_project', {
+      p_project_id: projectId,
+      p_username: sanitized.username,
+      p_message: sanitized.message || null
+    })
+
+    if (inviteError) {
+      const knownError = INVITE_ERROR_MESSAGES[inviteError.message]
+      if (knownError) {
+        return { success: false, error: knownError }
+      }
+
+      const errorResponse = errorHandler.handleError(inviteError, {
+        userId: inviterId,
+        action: 'invite_to_project',
+        component: 'invitations',
+        metadata: { projectId }
+      })
+      return { success: false, error: errorResponse.userMessage }
+    }
+
+    console.log(`✅ Invitation sent: ${invitation.id}`)
+    return { success: true, invitation: invitation as Invitation }
+
+  } catch (error) {
+    const errorResponse = errorHandler.handleError(error, {
+      userId: inviterId,
+      action: 'invite_to_project',
+      component: 'invitations'
+    })
+    return { success: false, error: errorResponse.userMessage }
+  }
+}
+
+/**
+ * Get invitations the current user has received, pending first
+ */
+export const getReceivedInvitations = async (
+  userId: string
+): Promise<InvitationListResult<ReceivedInvitation>> => {
+  try {
+    const { data: invitations, error } = await supabase.rpc('get_received_invitations')
+
+    if (error) {
+      const errorResponse = errorHandler.handleError(error, {
+        userId,
+        action: 'get_received_invitations',
+        component: 'invitations'
+      })
+      return { success: false, error: errorResponse.userMessage }
+    }
+
+    return { success: true, invitations: (invitations || []) as ReceivedInvitation[] }
+
+  } catch (error) {
+    const errorResponse = errorHandler.handleError(error, {
+      userId,
+      action: 'get_received_invitations',
+      component: 'invitations'
+    })
+    return { success: false, error: errorResponse.userMessage }
+  }
+}
+
+/**
+ * Get invitations the current user has sent, pending first
+ */
+export const getSentInvitations = async (
+  userId: string
+): Promise<InvitationListResult<SentInvitation>> => {
+  try {
+    const { data: invitations, error } = await supabase.rpc('get_sent_invitations')
+
+    if (error) {
+      const errorResponse = errorHandler.handleError(error, {
+        userId,
+        action: 'get_sent_invitations',
+        component: 'invitations'
+      })
+      return { success: false, error: errorResponse.userMessage }
+    }
+
+    return { success: true, invitations: (invitations || []) as SentInvitation[] }
+
+  } catch (error) {
+    const errorResponse = errorHandler.handleError(error, {
+      userId,
+      action: 'get_sent_invitations',
+      component: 'invitations'
+    })
+    return { success: false, error: errorResponse.userMessage }
+  }
+}
+
+/**
+ * Change the status of a pending invitation
+ * Invitees may accept or decline, inviters may cancel; RLS enforces who can do what
+ */
+const setInvitationStatus = async (
+  userId: string,
+  invitationId: string,
+  nextStatus: Exclude<InvitationStatus, 'pending'>
+): Promise<InvitationResult> => {
+  try {
+    // Verify user authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user || user.id !== userId) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    const { data: invitation, error: updateError } = await supabase
+      .from('project_invitations')
+      .update({ status: nextStatus })
+      .eq('id', invitationId)
+      .eq('status', 'pending')
+      .select()
+      .maybeSingle()
+
+    if (updateError) {
+      const errorResponse = errorHandler.handleError(updateError, {
+        userId,
+        action: 'update_invitation_status',
+        component: 'invitations',
+        metadata: { invitationId, nextStatus }
+      })
+      return { success: false, error: errorResponse.userMessage }
+    }
+
+    // No row means RLS filtered it out or it was already answered
+    if (!invitation) {
+      return { success: false, error: 'This invitation is no longer pending' }
+    }
+
+    console.log(`✅ Invitation ${invitationId} ${nextStatus}`)
+    return { success: true, invitation }
+
+  } catch (error) {
+    const errorResponse = errorHandler.handleError(error, {
+      userId,
+      action: 'update_invitation_status',
+      component: 'invitations'
+    })
+    return { success: false, error: errorResponse.userMessage }
+  }
+}
+
+export const respondToInvitation = (
+  inviteeId: string,
+  invitationId: string,
+  response: 'accepted' | 'declined'
+): Promise<InvitationResult> => setInvitationStatus(inviteeId, invitationId, response)
+
+export const cancelInvitation = (
+  inviterId: string,
+  invitationId: string
+): Promise<InvitationResult> => setInvitationStatus(inviterId, invitationId, 'cancelled')
@@ -0,0 +1,294 @@
+import { supabase, Database } from '../lib/supabase'
+import { errorHandler } from './errorHandler'
+import { validateMessage } from './validation'
+import { MESSAGES_PAGE_SIZE } from './constants'
+
+export type Conversation = Database['public']['Tables']['conversations']['Row']
+export type Message = Database['public']['Tables']['messages']['Row']
+export type ConversationSummary = Database['public']['Functions']['get_conversations']['Returns'][number]
+
+export interface ConversationResult {
+  success: boolean
+  conversation?: Conversation
+  error?: string
+}
+
+export interface MessageResult {
+  success: boolean
+  message?: Message
+  error?: string
+}
+
+// Refusal reasons raised by start_conversation() in supabase-messaging-schema.sql
+const MESSAGING_ERROR_MESSAGES: Record<string, string> = {
+  not_authenticated: 'Authentication required',
+  user_not_found: 'This developer could not be found',
+  cannot_message_self: 'You cannot message yourself',
+  dms_disabled: 'This developer is not accepting direct messages'
+}
+
+// Postgres insufficient_privilege: the INSERT policy refused the message
+const RLS_VIOLATION_CODE = '42501'
+
+/**
+ * Get the current user's conversations with unread counts, most recent first
+ */
+export const getConversations = async (
+  userId: string
+): Promise<{ success: boolean; conversations?: ConversationSummary[]; error?: string }> => {
+  try {
+    const { data: conversations, error } = await supabase.rpc('get_conversations')
+
+    if (error) {
+      const errorResponse = errorHandler.handleError(error, {
+        userId,
+        action: 'get_conversations',
+        component: 'messaging'
+      })
+      return { success: false, error: errorResponse.userMessage }
+    }
+
+    const summaries = ((conversations || []) as ConversationSummary[]).map(conversation => ({
+      ...conversation,
+      unread_count: Number(conversation.unread_count)
+    }))
+    return { success: true, conversations: summaries }
+
+  } catch (error) {
+    const errorResponse = errorHandler.handleError(error, {
+      userId,
+      action: 'get_conversations',
+      component: 'messaging'
+    })
+    return { success: false, error: errorResponse.userMessage }
+  }
+}
+
+/**
+ * Find or create the conversation between the current user and another developer
+ * Refused when the recipient has turned off allowDirectMessages
+ */
+export const startConversation = async (
+  userId: string,
+  recipientId: string
+): Promise<ConversationResult> => {
+  try {
+    // Verify user authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user || user.id !== userId) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    const { data: conversation, error } = await supabase.rpc('start_conversation', {
+      p_recipient_id: recipientId
+    })
+
+    if (error) {
+      const knownError = MESSAGING_ERROR_MESSAGES[error.message]
+      if (knownError) {
+        return { success: false, error: knownError }
+      }
+
+      const errorResponse = errorHandler.handleError(error, {
+        userId,
+        action: 'start_conversation',
+        component: 'messaging',
+        metadata: { recipientId }
+      })
+      return { success: false, error: errorResponse.userMessage }
+    }
+
+    return { success: true, conversation: conversation as Conversation }
+
+  } catch (error) {
+    const errorResponse = errorHandler.handleError(error, {
+      userId,
+      action: 'start_conversation',
+      component: 'messaging'
+    })
+    return { success: false, error: errorResponse.userMessage }
+  }
+}
+
+/**
+ * Get a page of messages in a conversation, returned oldest first
+ * Pass `before` (a created_at timestamp) to load older messages
+ */
+export const getMessages = async (
+  conversationId: string,
+  before?: string
+): Promise<{ success: boolean; messages?: Message[]; hasMore?: boolean; error?: string }> => {
+  try {
+    let query = supabase
+      .from('messages')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .order('created_at', { ascending: false })
+      .limit(MESSAGES_PAGE_SIZE)
+
+    if (before) {
+      query = query.lt('created_at', before)
+    }
+
+    const { data: messages, error } = await query
+
+    if (error) {
+      const errorResponse = errorHandler.handleError(error, {
+        action: 'get_messages',
+        component: 'messaging',
+        metadata: { conversationId }
+      })
+      return { success: false, error: errorResponse.userMessage }
+    }
+
+    const page = (messages || []) as Message[]
+    return {
+      success: true,
+      messages: page.reverse(),
+      hasMore: page.length === MESSAGES_PAGE_SIZE
+    }
+
+  } catch (error) {
+    const errorResponse = errorHandler.handleError(error, {
+      action: 'get_messages',
+      component: 'messaging'
+    })
+    return { success: false, error: errorResponse.userMessage }
+  }
+}
+
+/**
+ * Send a message in a conversation
+ * The database refuses the insert when the recipient has turned off allowDirectMessages
+ */
+export const sendMessage = async (
+  senderId: string,
+  conversationId: string,
+  body: string
+): Promise<MessageResult> => {
+  try {
+    // Verify user authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user || user.id !== senderId) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    const validation = validateMessage({ body })
+    if (!validation.isValid) {
+      return { success: false, error: validation.errors[0] }
+    }
+
+    const { data: message, error: insertError } = await supabase
+      .from('messages')
+      .insert({
+        conversation_id: conversationId,
+        sender_id: senderId,
+        body: validation.sanitizedValue.body
+      })
+      .select()
+      .single()
+
+    if (insertError) {
+      if (insertError.code === RLS_VIOLATION_CODE) {
+        return { success: false, error: MESSAGING_ERROR_MESSAGES.dms_disabled }
+      }
+
+      const errorResponse = errorHandler.handleError(insertError, {
+        userId: senderId,
+        action: 'send_message',
+        component: 'messaging',
+        metadata: { conversationId }
+      })
+      return { success: false, error: errorResponse.userMessage }
+    }
+
+    return { success: true, message }
+
+  } catch (error) {
+    const errorResponse = errorHandler.handleError(error, {
+      userId: senderId,
+      action: 'send_message',
+      component: 'messaging'
+    })
+    return { success: false, error: errorResponse.userMessage }
+  }
+}
+
+/**
+ * Mark every message the current user received in a conversation as read
+ */
+export const markConversationRead = async (
+  userId: string,
+  conversationId: string
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const { error } = await supabase
+      .from('messages')
+      .update({ read_at: new Date().toISOString() })
+      .eq('conversation_id', conversationId)
+      .neq('sender_id', userId)
+      .is('read_at', null)
+
+    if (error) {
+      const errorResponse = errorHandler.handleError(error, {
+        userId,
+        action: 'mark_conversation_read',
+        component: 'messaging',
+        metadata: { conversationId }
+      })
+      return { success: false, error: errorResponse.userMessage }
+    }
+
+    return { success: true }
+
+  } catch (error) {
+    const errorResponse = errorHandler.handleError(error, {
+      userId,
+      action: 'mark_conversation_read',
+      component: 'messaging'
+    })
+    return { success: false, error: errorResponse.userMessage }
+  }
+}
+
+/**
+ * Subscribe to new messages and read receipts in one conversation
+ * Returns an unsubscribe function
+ */
+export const subscribeToConversation = (
+  conversationId: string,
+  handlers: {
+    onInsert: (message: Message) => void
+    onUpdate?: (message: Message) => void
+  }
+): (() => void) => {
+  const filter = `conversation_id=eq.${conversationId}`
+  const channel = supabase
+    .channel(`conversation:${conversationId}`)
+    .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'messages', filter }, (payload) => {
+      handlers.onInsert(payload.new as Message)
+    })
+    .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'messages', filter }, (payload) => {
+      handlers.onUpdate?.(payload.new as Message)
+    })
+    .subscribe()
+
+  return () => {
+    supabase.removeChannel(channel)
+  }
+}
+
+/**
+ * Subscribe to any message activity visible to the current user (RLS limits it to their conversations)
+ * Used to keep unread counts and the conversation list fresh
+ */
+export const subscribeToInbox = (userId: string, onChange: () => void): (() => void) => {
+  const channel = supabase
+    .channel(`inbox:${userId}`)
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'messages' }, () => onChange())
+    .subscribe()
+
+  return () => {
+    supabase.removeChannel(channel)
+  }
+}
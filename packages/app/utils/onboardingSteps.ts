@@ -0,0 +1,179 @@
+import { inputValidator, ValidationRule } from './validation'
+import type { OwnProfileUpdate } from './profiles'
+
+// Onboarding is driven by step definitions (features/onboarding/steps.ts)
+// Each step lists its fields with their ValidationSchemas rules and the profile column
+// they save to. `when` hides a step for users on another path (e.g. recruiters) and
+// `skippable` lets it be left empty. The screen renders whatever steps are active, so
+// a new step is a new definition plus, if it saves something new, a profile column.
+
+export interface OnboardingOption {
+  value: string
+  label: string
+  icon?: string
+  description?: string
+}
+
+interface OnboardingFieldBase<T> {
+  name: keyof T & string
+  label: string
+  rules: ValidationRule
+  // Profile column the answer is saved to; leave out for answers that only steer branching
+  column?: keyof OwnProfileUpdate
+  toColumn?: (value: any) => unknown
+  helperText?: string
+}
+
+export interface OnboardingTextField<T> extends OnboardingFieldBase<T> {
+  kind: 'text'
+  placeholder?: string
+  maxLength?: number
+  keyboardType?: 'default' | 'numeric'
+  // Applied to every keystroke (e.g. lowercasing usernames)
+  format?: (value: string) => string
+  showCount?: boolean
+  multiline?: boolean
+  validText?: string
+}
+
+export interface OnboardingSelectField<T> extends OnboardingFieldBase<T> {
+  kind: 'select'
+  options: readonly OnboardingOption[]
+}
+
+export interface OnboardingMultiSelectField<T> extends OnboardingFieldBase<T> {
+  kind: 'multi-select'
+  options: readonly OnboardingOption[]
+  // Selections past this are flagged, and trimmed when saved
+  recommendedMax?: number
+}
+
+// Image URL shown as a preview that can be removed
+export interface OnboardingAvatarField<T> extends OnboardingFieldBase<T> {
+  kind: 'avatar'
+}
+
+export type OnboardingField<T> =
+  | OnboardingTextField<T>
+  | OnboardingSelectField<T>
+  | OnboardingMultiSelectField<T>
+  | OnboardingAvatarField<T>
+
+export interface OnboardingStep<T> {
+  id: string
+  title: string
+  subtitle: string
+  fields: OnboardingField<T>[]
+  skippable?: boolean
+  // Show the step only when this returns true for the answers so far
+  when?: (data: T) => boolean
+}
+
+export const isEmptyAnswer = (value: unknown): boolean => {
+  if (Array.isArray(value)) return value.length === 0
+  return String(value ?? '').trim().length === 0
+}
+
+/**
+ * Steps that apply to the current answers, in order
+ */
+export const getActiveSteps = <T>(steps: OnboardingStep<T>[], data: T): OnboardingStep<T>[] => {
+  return steps.filter(step => !step.when || step.when(data))
+}
+
+/**
+ * First error for a field, or '' when it is valid
+ * Empty answers on a skippable step are valid
+ */
+export const validateOnboardingField = <T>(
+  step: OnboardingStep<T>,
+  field: OnboardingField<T>,
+  data: T
+): string => {
+  const value = data[field.name]
+  if (step.skippable && isEmptyAnswer(value)) return ''
+
+  const result = inputValidator.validateField(value, field.name, field.rules)
+  return result.isValid ? '' : result.errors[0] || ''
+}
+
+/**
+ * Errors by field name for one step; empty when the step can be completed
+ */
+export const getStepErrors = <T>(step: OnboardingStep<T>, data: T): Record<string, string> => {
+  const errors: Record<string, string> = {}
+  for (const field of step.fields) {
+    const error = validateOnboardingField(step, field, data)
+    if (error) errors[field.name] = error
+  }
+  return errors
+}
+
+/**
+ * Errors across every active step, prefixed with the field label, for the check before saving
+ */
+export const validateOnboardingSteps = <T>(steps: OnboardingStep<T>[], data: T): string[] => {
+  return getActiveSteps(steps, data).flatMap(step =>
+    step.fields
+      .map(field => ({ field, error: validateOnboardingField(step, field, data) }))
+      .filter(({ error }) => error)
+      .map(({ field, error }) => `${field.label}: ${error}`)
+  )
+}
+
+/**
+ * Drop prefilled answers that would fail their field rules, so a prefill never starts
+ * the user on an error they did not type
+ */
+export const keepValidAnswers = <T>(steps: OnboardingStep<T>[], answers: Partial<T>): Partial<T> => {
+  const valid: Partial<T> = {}
+
+  for (const field of steps.flatMap(step => step.fields)) {
+    const value = answers[field.name]
+    if (value === undefined || isEmptyAnswer(value)) continue
+    if (inputValidator.validateField(value, field.name, field.rules).isValid) {
+      valid[field.name] = value as T[keyof T & string]
+    }
+  }
+
+  return valid
+}
+
+/**
+ * Fill answers the user has not given yet; anything already entered is kept
+ */
+export const fillEmptyAnswers = <T>(data: T, answers: Partial<T>): T => {
+  const next = { ...data }
+  let changed = false
+
+  for (const name of Object.keys(answers) as (keyof T)[]) {
+    const value = answers[name]
+    if (value !== undefined && isEmptyAnswer(next[name])) {
+      next[name] = value as T[keyof T]
+      changed = true
+    }
+  }
+
+  return changed ? next : data
+}
+
+/**
+ * Profile columns for the answers on active steps
+ * Empty answers on skippable steps are left out so they don't overwrite anything
+ */
+export const buildOnboardingProfileUpdate = <T>(
+  steps: OnboardingStep<T>[],
+  data: T
+): OwnProfileUpdate => {
+  const update: OwnProfileUpdate = {}
+
+  for (const step of getActiveSteps(steps, data)) {
+    for (const field of step.fields) {
+      const value = data[field.name]
+      if (!field.column || (step.skippable && isEmptyAnswer(value))) continue
+      Object.assign(update, { [field.column]: field.toColumn ? field.toColumn(value) : value })
+    }
+  }
+
+  return update
+}
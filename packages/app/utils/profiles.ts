@@ -0,0 +1,333 @@
+import type { User } from '@supabase/supabase-js'
+import { supabase, Database } from '../lib/supabase'
+import { errorHandler } from './errorHandler'
+import { ValidationRule, ValidationSchemas, validateProfileField, validateProfileUpdate } from './validation'
+
+// Public developer profiles, filtered by the owner's privacy settings
+// Backed by get_public_profile (supabase-public-profile-function.sql),
+// resolve_username (supabase-username-redirects-schema.sql) and
+// check_username_availability (supabase-username-availability-schema.sql)
+
+export type PublicProfile = Database['public']['Functions']['get_public_profile']['Returns'][number]
+// The signed-in user's own profile row, cached in AuthContext
+export type OwnProfile = Database['public']['Tables']['profiles']['Row']
+export type OwnProfileUpdate = Database['public']['Tables']['profiles']['Update']
+export type ResolvedUsername = Database['public']['Functions']['resolve_username']['Returns'][number]
+type UsernameAvailability = Database['public']['Functions']['check_username_availability']['Returns'][number]
+
+export interface PublicProfileResult {
+  success: boolean
+  // Undefined when the profile does not exist or the account is inactive
+  profile?: PublicProfile
+  error?: string
+}
+
+export interface OwnProfileResult {
+  success: boolean
+  profile?: OwnProfile
+  // True when the row was missing and has just been created
+  created?: boolean
+  error?: string
+}
+
+export interface ResolveUsernameResult {
+  success: boolean
+  // Undefined when no current or recently retired handle matches a profile the caller can view
+  resolved?: ResolvedUsername
+  error?: string
+}
+
+export interface UsernameAvailabilityResult {
+  success: boolean
+  available: boolean
+  reason?: 'reserved' | 'taken'
+  // Free alternatives, when the username is unavailable
+  suggestions: string[]
+  error?: string
+}
+
+/**
+ * Canonical profile URL: /u/<username> when the developer has a handle, /users/<id> otherwise
+ */
+export const getProfilePath = (userId: string, username?: string | null): string => {
+  return username ? `/u/${encodeURIComponent(username)}` : `/users/${userId}`
+}
+
+/**
+ * Get a developer's profile as the current viewer is allowed to see it
+ * Restricted profiles come back with can_view = false and no profile data
+ */
+export const getPublicProfile = async (userId: string): Promise<PublicProfileResult> => {
+  try {
+    const { data: profiles, error } = await supabase.rpc('get_public_profile', {
+      p_user_id: userId
+    })
+
+    if (error) {
+      const errorResponse = errorHandler.handleError(error, {
+        action: 'get_public_profile',
+        component: 'profiles',
+        metadata: { userId }
+      })
+      return { success: false, error: errorResponse.userMessage }
+    }
+
+    const profile = ((profiles || []) as PublicProfile[])[0]
+    return { success: true, profile }
+
+  } catch (error) {
+    const errorResponse = errorHandler.handleError(error, {
+      action: 'get_public_profile',
+      component: 'profiles',
+      metadata: { userId }
+    })
+    return { success: false, error: errorResponse.userMessage }
+  }
+}
+
+/**
+ * Resolve a handle from a /u/<username> link to a profile
+ * Old handles keep resolving for a while after a rename (is_redirect = true)
+ */
+export const resolveUsername = async (username: string): Promise<ResolveUsernameResult> => {
+  try {
+    const handle = username.trim().replace(/^@/, '')
+    if (!handle) {
+      return { success: true }
+    }
+
+    const { data: matches, error } = await supabase.rpc('resolve_username', {
+      p_username: handle
+    })
+
+    if (error) {
+      const errorResponse = errorHandler.handleError(error, {
+        action: 'resolve_username',
+        component: 'profiles',
+        metadata: { username: handle }
+      })
+      return { success: false, error: errorResponse.userMessage }
+    }
+
+    const resolved = ((matches || []) as ResolvedUsername[])[0]
+    return { success: true, resolved }
+
+  } catch (error) {
+    const errorResponse = errorHandler.handleError(error, {
+      action: 'resolve_username',
+      component: 'profiles',
+      metadata: { username }
+    })
+    return { success: false, error: errorResponse.userMessage }
+  }
+}
+
+/**
+ * Whether the signed-in user can claim a username, with alternatives when they can't
+ * Reserved handles, other users' handles (any case) and retired handles that still
+ * redirect are all unavailable
+ */
+export const checkUsernameAvailability = async (username: string): Promise<UsernameAvailabilityResult> => {
+  try {
+    const { data, error } = await supabase.rpc('check_username_availability', {
+      p_username: username.trim()
+    })
+
+    if (error) {
+      const errorResponse = errorHandler.handleError(error, {
+        action: 'check_username_availability',
+        component: 'profiles',
+        metadata: { username }
+      })
+      return { success: false, available: false, suggestions: [], error: errorResponse.userMessage }
+    }
+
+    const check = ((data || []) as UsernameAvailability[])[0]
+    return {
+      success: true,
+      available: !!check?.available,
+      reason: check?.reason || undefined,
+      suggestions: check?.suggestions || []
+    }
+
+  } catch (error) {
+    const errorResponse = errorHandler.handleError(error, {
+      action: 'check_username_availability',
+      component: 'profiles',
+      metadata: { username }
+    })
+    return { success: false, available: false, suggestions: [], error: errorResponse.userMessage }
+  }
+}
+
+/**
+ * ValidationSchemas.PROFILE.username plus the availability lookup, for
+ * inputValidator.validateFieldAsync and the onboarding username field
+ */
+export const USERNAME_AVAILABILITY_RULES: ValidationRule = {
+  ...ValidationSchemas.PROFILE.username,
+  asyncValidator: async (username: string) => {
+    const result = await checkUsernameAvailability(username)
+    if (!result.success) throw new Error(result.error)
+    if (result.available) return true
+
+    return {
+      error: result.reason === 'reserved' ? 'This username is reserved' : 'This username is already taken',
+      suggestions: result.suggestions
+    }
+  }
+}
+
+/**
+ * Load the signed-in user's profile, creating it if the signup trigger did not
+ * New profiles start with onboarding_completed = false
+ */
+export const getOwnProfile = async (user: User): Promise<OwnProfileResult> => {
+  try {
+    const { data: profile, error } = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('id', user.id)
+      .maybeSingle()
+
+    if (error) {
+      const errorResponse = errorHandler.handleError(error, {
+        userId: user.id,
+        action: 'get_own_profile',
+        component: 'profiles'
+      })
+      return { success: false, error: errorResponse.userMessage }
+    }
+
+    if (profile) {
+      return { success: true, profile: profile as OwnProfile }
+    }
+
+    console.log('🆕 No profile found, creating one...')
+    const isGitHubAccount = user.app_metadata?.provider === 'github'
+    // Provider details only seed the profile when they pass PROFILE_RULES; onboarding asks for the rest
+    const validOrNull = (field: 'username' | 'full_name' | 'avatar_url', value: string | undefined) => {
+      const validation = validateProfileField(field, value)
+      return value && validation.isValid ? (validation.sanitizedValue as string) : null
+    }
+    const { data: newProfile, error: createError } = await supabase
+      .from('profiles')
+      .insert({
+        id: user.id,
+        username: validOrNull('username', user.email?.split('@')[0]),
+        full_name: validOrNull('full_name', user.user_metadata?.full_name || user.user_metadata?.name),
+        email: user.email,
+        avatar_url: validOrNull('avatar_url', user.user_metadata?.avatar_url || user.user_metadata?.picture),
+        about_me: null,
+        github_username: isGitHubAccount ? user.user_metadata?.user_name || user.user_metadata?.login || null : null,
+        github_repository_count: 0,
+        github_commit_count: 0,
+        onboarding_completed: false,
+        account_status: 'active',
+        privacy_settings: {
+          showEmail: false,
+          showGithub: true,
+          analyticsConsent: true
+        }
+      })
+      .select()
+      .single()
+
+    if (createError) {
+      const errorResponse = errorHandler.handleError(createError, {
+        userId: user.id,
+        action: 'create_own_profile',
+        component: 'profiles'
+      })
+      return { success: false, error: errorResponse.userMessage }
+    }
+
+    console.log('✅ Created new profile')
+    return { success: true, profile: newProfile as OwnProfile, created: true }
+
+  } catch (error) {
+    const errorResponse = errorHandler.handleError(error, {
+      userId: user.id,
+      action: 'get_own_profile',
+      component: 'profiles'
+    })
+    return { success: false, error: errorResponse.userMessage }
+  }
+}
+
+/**
+ * Update the signed-in user's profile and return the saved row
+ * Profile fields are checked with ValidationSchemas.PROFILE (the rules /api/profile
+ * enforces) and saved sanitized; other columns are passed through
+ */
+export const updateOwnProfile = async (
+  userId: string,
+  updates: OwnProfileUpdate
+): Promise<OwnProfileResult> => {
+  try {
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user || user.id !== userId) {
+      return { success: false, error: 'You can only update your own profile' }
+    }
+
+    const validation = validateProfileUpdate(updates)
+    if (!validation.isValid) {
+      console.log('❌ Profile update rejected:', validation.errors)
+      return { success: false, error: validation.errors[0] }
+    }
+
+    const { data: profile, error } = await supabase
+      .from('profiles')
+      .update({ ...updates, ...validation.sanitizedValue, updated_at: new Date().toISOString() })
+      .eq('id', userId)
+      .select()
+      .single()
+
+    // Rejected by enforce_profile_rules (supabase-profile-rules-schema.sql); its message is the PROFILE_RULES one
+    if (error?.code === '23514') {
+      console.log('❌ Profile update rejected by the database:', error.message)
+      return { success: false, error: error.message }
+    }
+
+    if (error) {
+      const errorResponse = errorHandler.handleError(error, {
+        userId,
+        action: 'update_own_profile',
+        component: 'profiles',
+        metadata: { fields: Object.keys(updates) }
+      })
+      return { success: false, error: errorResponse.userMessage }
+    }
+
+    return { success: true, profile: profile as OwnProfile }
+
+  } catch (error) {
+    const errorResponse = errorHandler.handleError(error, {
+      userId,
+      action: 'update_own_profile',
+      component: 'profiles',
+      metadata: { fields: Object.keys(updates) }
+    })
+    return { success: false, error: errorResponse.userMessage }
+  }
+}
+
+/**
+ * Subscribe to changes to the signed-in user's profile row from any tab or device
+ * Returns an unsubscribe function
+ */
+export const subscribeToOwnProfile = (
+  userId: string,
+  onUpdate: (profile: OwnProfile) => void
+): (() => void) => {
+  const channel = supabase
+    .channel(`profile:${userId}`)
+    .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'profiles', filter: `id=eq.${userId}` }, (payload) => {
+      onUpdate(payload.new as OwnProfile)
+    })
+    .subscribe()
+
+  return () => {
+    supabase.removeChannel(channel)
+  }
+}
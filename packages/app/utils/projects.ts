@@ -0,0 +1,350 @@
+import { supabase, Database } from '../lib/supabase'
+import { errorHandler } from './errorHandler'
+import { validateProject } from './validation'
+import type { StarterTask } from './githubImport'
+import {
+  POSTED_WITHIN_OPTIONS,
+  PROJECT_SORT_OPTIONS,
+  PROJECTS_PAGE_SIZE,
+  TEAM_SIZE_BUCKETS
+} from './constants'
+
+export type Project = Database['public']['Tables']['projects']['Row']
+export type ProjectTask = Database['public']['Tables']['project_tasks']['Row']
+export type ProjectStatus = Project['status']
+export type TimeCommitment = Project['time_commitment']
+export type ProjectListing = Database['public']['Functions']['browse_projects']['Returns'][number]
+export type TeamSizeBucket = typeof TEAM_SIZE_BUCKETS[number]['value']
+export type PostedWithin = typeof POSTED_WITHIN_OPTIONS[number]['value']
+export type ProjectSort = typeof PROJECT_SORT_OPTIONS[number]['value']
+
+export interface ProjectFormData {
+  title: string
+  description: string
+  coding_languages: string[]
+  team_size: string | number
+  time_commitment: TimeCommitment | ''
+  status: ProjectStatus
+  // Set when the project was imported from GitHub
+  repository_url: string
+  topics: string[]
+}
+
+export interface ProjectResult {
+  success: boolean
+  project?: Project
+  error?: string
+  validationErrors?: string[]
+}
+
+export interface ProjectTaskListResult {
+  success: boolean
+  tasks?: ProjectTask[]
+  error?: string
+}
+
+export interface ProjectListResult {
+  success: boolean
+  projects?: Project[]
+  error?: string
+}
+
+export interface ProjectFilters {
+  languages: string[]
+  education: string[]
+  teamSize: TeamSizeBucket | null
+  postedWithin: PostedWithin | null
+  statuses: ProjectStatus[]
+  sort: ProjectSort
+  page: number
+}
+
+export interface ProjectWebhookSecretResult {
+  success: boolean
+  secret?: string
+  error?: string
+}
+
+export interface ProjectBrowseResult {
+  success: boolean
+  projects?: ProjectListing[]
+  totalCount?: number
+  error?: string
+}
+
+export const DEFAULT_PROJECT_FILTERS: ProjectFilters = {
+  languages: [],
+  education: [],
+  teamSize: null,
+  postedWithin: null,
+  statuses: [],
+  sort: 'newest',
+  page: 1
+}
+
+/**
+ * Create a new project owned by the current user
+ * Input is validated with ValidationSchemas.PROJECT before it reaches the database
+ */
+export const createProject = async (
+  ownerId: string,
+  formData: ProjectFormData
+): Promise<ProjectResult> => {
+  try {
+    // Verify user authentication
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user || user.id !== ownerId) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    const validation = validateProject(formData)
+    if (!validation.isValid) {
+      return {
+        success: false,
+        error: 'Please fix the highlighted fields',
+        validationErrors: validation.errors
+      }
+    }
+
+    const sanitized = validation.sanitizedValue
+    const { data: project, error: insertError } = await supabase
+      .from('projects')
+      .insert({
+        owner_id: ownerId,
+        title: sanitized.title,
+        description: sanitized.description,
+        coding_languages: sanitized.coding_languages,
+        team_size: sanitized.team_size,
+        time_commitment: sanitized.time_commitment,
+        status: sanitized.status,
+        repository_url: sanitized.repository_url || null,
+        topics: sanitized.topics || []
+      })
+      .select()
+      .single()
+
+    if (insertError) {
+      const errorResponse = errorHandler.handleError(insertError, {
+        userId: ownerId,
+        action: 'create_project',
+        component: 'projects'
+      })
+      return { success: false, error: errorResponse.userMessage }
+    }
+
+    console.log(`✅ Project created: ${project.id}`)
+    return { success: true, project }
+
+  } catch (error) {
+    const errorResponse = errorHandler.handleError(error, {
+      userId: ownerId,
+      action: 'create_project',
+      component: 'projects'
+    })
+    return { success: false, error: errorResponse.userMessage }
+  }
+}
+
+/**
+ * Attach starter tasks (imported GitHub issues) to a project the user owns
+ */
+export const addProjectTasks = async (
+  ownerId: string,
+  projectId: string,
+  tasks: StarterTask[]
+): Promise<ProjectTaskListResult> => {
+  try {
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user || user.id !== ownerId) {
+      return { success: false, error: 'Authentication required' }
+    }
+
+    if (tasks.length === 0) {
+      return { success: true, tasks: [] }
+    }
+
+    const { data: inserted, error: insertError } = await supabase
+      .from('project_tasks')
+      .upsert(
+        tasks.map(task => ({
+          project_id: projectId,
+          title: task.title.slice(0, 256),
+          url: task.url,
+          labels: task.labels,
+          github_issue_number: task.number
+        })),
+        { onConflict: 'project_id,github_issue_number', ignoreDuplicates: true }
+      )
+      .select()
+
+    if (insertError) {
+      const errorResponse = errorHandler.handleError(insertError, {
+        userId: ownerId,
+        action: 'add_project_tasks',
+        component: 'projects',
+        metadata: { projectId, count: tasks.length }
+      })
+      return { success: false, error: errorResponse.userMessage }
+    }
+
+    console.log(`✅ Added ${tasks.length} starter tasks to project ${projectId}`)
+    return { success: true, tasks: (inserted || []) as ProjectTask[] }
+
+  } catch (error) {
+    const errorResponse = errorHandler.handleError(error, {
+      userId: ownerId,
+      action: 'add_project_tasks',
+      component: 'projects',
+      metadata: { projectId }
+    })
+    return { success: false, error: errorResponse.userMessage }
+  }
+}
+
+/**
+ * Get a project's starter tasks in issue order
+ */
+export const getProjectTasks = async (projectId: string): Promise<ProjectTaskListResult> => {
+  try {
+    const { data: tasks, error } = await supabase
+      .from('project_tasks')
+      .select('*')
+      .eq('project_id', projectId)
+      .order('github_issue_number', { ascending: true })
+
+    if (error) {
+      const errorResponse = errorHandler.handleError(error, {
+        action: 'get_project_tasks',
+        component: 'projects',
+        metadata: { projectId }
+      })
+      return { success: false, error: errorResponse.userMessage }
+    }
+
+    return { success: true, tasks: tasks || [] }
+
+  } catch (error) {
+    const errorResponse = errorHandler.handleError(error, {
+      action: 'get_project_tasks',
+      component: 'projects',
+      metadata: { projectId }
+    })
+    return { success: false, error: errorResponse.userMessage }
+  }
+}
+
+/**
+ * Get all projects owned by a user, newest first
+ */
+export const getOwnedProjects = async (ownerId: string): Promise<ProjectListResult> => {
+  try {
+    const { data: projects, error } = await supabase
+      .from('projects')
+      .select('*')
+      .eq('owner_id', ownerId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      const errorResponse = errorHandler.handleError(error, {
+        userId: ownerId,
+        action: 'get_owned_projects',
+        component: 'projects'
+      })
+      return { success: false, error: errorResponse.userMessage }
+    }
+
+    return { success: true, projects: projects || [] }
+
+  } catch (error) {
+    const errorResponse = errorHandler.handleError(error, {
+      userId: ownerId,
+      action: 'get_owned_projects',
+      component: 'projects'
+    })
+    return { success: false, error: errorResponse.userMessage }
+  }
+}
+
+/**
+ * Get the secret the owner configures on the repository's GitHub webhook
+ * Created on first use; only the project owner can read it
+ */
+export const getProjectWebhookSecret = async (projectId: string): Promise<ProjectWebhookSecretResult> => {
+  try {
+    const { data: secret, error } = await supabase.rpc('get_project_webhook_secret', {
+      p_project_id: projectId
+    })
+
+    if (error || !secret) {
+      const errorResponse = errorHandler.handleError(error || new Error('No webhook secret returned'), {
+        action: 'get_project_webhook_secret',
+        component: 'projects',
+        metadata: { projectId }
+      })
+      return { success: false, error: errorResponse.userMessage }
+    }
+
+    return { success: true, secret }
+
+  } catch (error) {
+    const errorResponse = errorHandler.handleError(error, {
+      action: 'get_project_webhook_secret',
+      component: 'projects',
+      metadata: { projectId }
+    })
+    return { success: false, error: errorResponse.userMessage }
+  }
+}
+
+/**
+ * Browse projects with faceted filters, one page at a time
+ * matchLanguages are the viewer's own languages and drive the best_match sort
+ */
+export const browseProjects = async (
+  filters: ProjectFilters,
+  matchLanguages: string[] = []
+): Promise<ProjectBrowseResult> => {
+  try {
+    const teamSize = TEAM_SIZE_BUCKETS.find(bucket => bucket.value === filters.teamSize)
+    const postedWithin = POSTED_WITHIN_OPTIONS.find(option => option.value === filters.postedWithin)
+    const postedSince = postedWithin
+      ? new Date(Date.now() - postedWithin.days * 24 * 60 * 60 * 1000).toISOString()
+      : null
+    const page = Math.max(1, filters.page)
+
+    const { data: projects, error } = await supabase.rpc('browse_projects', {
+      p_languages: filters.languages.length > 0 ? filters.languages : null,
+      p_education: filters.education.length > 0 ? filters.education : null,
+      p_min_team_size: teamSize ? teamSize.min : null,
+      p_max_team_size: teamSize ? teamSize.max : null,
+      p_posted_since: postedSince,
+      p_statuses: filters.statuses.length > 0 ? filters.statuses : null,
+      p_sort: filters.sort,
+      p_match_languages: matchLanguages.length > 0 ? matchLanguages : null,
+      p_limit: PROJECTS_PAGE_SIZE,
+      p_offset: (page - 1) * PROJECTS_PAGE_SIZE
+    })
+
+    if (error) {
+      const errorResponse = errorHandler.handleError(error, {
+        action: 'browse_projects',
+        component: 'projects'
+      })
+      return { success: false, error: errorResponse.userMessage }
+    }
+
+    const listings = (projects || []) as ProjectListing[]
+    return {
+      success: true,
+      projects: listings,
+      totalCount: Number(listings[0]?.total_count ?? 0)
+    }
+
+  } catch (error) {
+    const errorResponse = errorHandler.handleError(error, {
+      action: 'browse_projects',
+      component: 'projects'
+    })
+    return { success: false, error: errorResponse.userMessage }
+  }
+}
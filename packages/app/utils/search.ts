@@ -0,0 +1,130 @@
+import { supabase, Database } from '../lib/supabase'
+import { errorHandler } from './errorHandler'
+import { SEARCH_PAGE_SIZE, SEARCH_QUERY_MAX_LENGTH } from './constants'
+
+// Full-text search over projects and developer profiles
+// Backed by the search_projects / search_developers RPCs in supabase-search-schema.sql
+
+export type ProjectSearchResult = Database['public']['Functions']['search_projects']['Returns'][number]
+export type DeveloperSearchResult = Database['public']['Functions']['search_developers']['Returns'][number]
+
+export interface SearchResponse<T> {
+  success: boolean
+  results?: T[]
+  totalCount?: number
+  error?: string
+}
+
+export type SearchFunction<T> = (query: string, page: number) => Promise<SearchResponse<T>>
+
+export interface HighlightSegment {
+  text: string
+  highlighted: boolean
+}
+
+// Must match StartSel/StopSel passed to ts_headline
+const HIGHLIGHT_START = '«'
+const HIGHLIGHT_END = '»'
+
+/**
+ * Normalize user input before it is handed to plainto_tsquery
+ */
+export const normalizeSearchQuery = (query: string): string => {
+  return query.replace(/\s+/g, ' ').trim().slice(0, SEARCH_QUERY_MAX_LENGTH)
+}
+
+/**
+ * Split a ts_headline snippet into plain and highlighted segments for rendering
+ */
+export const parseHighlightedSnippet = (snippet: string | null | undefined): HighlightSegment[] => {
+  if (!snippet) return []
+
+  const segments: HighlightSegment[] = []
+  let remaining = snippet
+
+  while (remaining.length > 0) {
+    const start = remaining.indexOf(HIGHLIGHT_START)
+    const end = start === -1 ? -1 : remaining.indexOf(HIGHLIGHT_END, start + 1)
+
+    if (start === -1 || end === -1) {
+      segments.push({ text: remaining, highlighted: false })
+      break
+    }
+
+    if (start > 0) {
+      segments.push({ text: remaining.slice(0, start), highlighted: false })
+    }
+    segments.push({ text: remaining.slice(start + 1, end), highlighted: true })
+    remaining = remaining.slice(end + 1)
+  }
+
+  return segments.filter(segment => segment.text.length > 0)
+}
+
+/**
+ * Ranked full-text search over projects
+ */
+export const searchProjects: SearchFunction<ProjectSearchResult> = async (query, page) => {
+  const normalizedQuery = normalizeSearchQuery(query)
+  if (!normalizedQuery) {
+    return { success: true, results: [], totalCount: 0 }
+  }
+
+  try {
+    const { data, error } = await supabase.rpc('search_projects', {
+      p_query: normalizedQuery,
+      p_limit: SEARCH_PAGE_SIZE,
+      p_offset: (Math.max(1, page) - 1) * SEARCH_PAGE_SIZE
+    })
+
+    if (error) {
+      const errorResponse = errorHandler.handleError(error, {
+        action: 'search_projects',
+        component: 'search'
+      })
+      return { success: false, error: errorResponse.userMessage }
+    }
+
+    const results = (data || []) as ProjectSearchResult[]
+    return { success: true, results, totalCount: Number(results[0]?.total_count ?? 0) }
+
+  } catch (error) {
+    const errorResponse = errorHandler.handleError(error, {
+      action: 'search_projects',
+      component: 'search'
+    })
+    return { success: false, error: errorResponse.userMessage }
+  }
+}
+
+/**
+ * Ranked full-text search over developer profiles; 'limited' profiles only show up for signed-in users
+ * An empty query lists every searchable developer, newest first
+ */
+export const searchDevelopers: SearchFunction<DeveloperSearchResult> = async (query, page) => {
+  try {
+    const { data, error } = await supabase.rpc('search_developers', {
+      p_query: normalizeSearchQuery(query) || null,
+      p_limit: SEARCH_PAGE_SIZE,
+      p_offset: (Math.max(1, page) - 1) * SEARCH_PAGE_SIZE
+    })
+
+    if (error) {
+      const errorResponse = errorHandler.handleError(error, {
+        action: 'search_developers',
+        component: 'search'
+      })
+      return { success: false, error: errorResponse.userMessage }
+    }
+
+    const results = (data || []) as DeveloperSearchResult[]
+    return { success: true, results, totalCount: Number(results[0]?.total_count ?? 0) }
+
+  } catch (error) {
+    const errorResponse = errorHandler.handleError(error, {
+      action: 'search_developers',
+      component: 'search'
+    })
+    return { success: false, error: errorResponse.userMessage }
+  }
+}
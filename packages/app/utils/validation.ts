@@ -9,31 +9,87 @@
  * - SQL injection prevention
  */
 
-export interface ValidationResult {
+import {
+  APPLICATION_LINKS_MAX,
+  CODING_LANGUAGES,
+  EDUCATION_STATUSES,
+  MESSAGE_MAX_LENGTH,
+  PROJECT_STATUSES,
+  PROJECT_TEAM_SIZE,
+  PROJECT_TOPICS_MAX,
+  RESERVED_USERNAMES,
+  TIME_COMMITMENTS
+} from './constants'
+
+export interface ValidationResult<T = any> {
   isValid: boolean
   errors: string[]
-  sanitizedValue?: any
+  sanitizedValue?: T
   warnings?: string[]
+  // Alternatives offered by an async check (e.g. free usernames)
+  suggestions?: string[]
 }
 
+// true when valid; otherwise an error message, optionally with alternatives to offer
+export type AsyncValidatorResult = boolean | string | { error: string; suggestions?: string[] }
+
 export interface ValidationRule {
   required?: boolean
+  // Shape of the sanitized value (defaults to 'string'); also what InferSchema reports
+  type?: 'string' | 'number' | 'array'
+  // Empty values sanitize to null rather than '' (optional nullable columns)
+  nullable?: boolean
   minLength?: number
   maxLength?: number
   pattern?: RegExp
   customValidator?: (value: any) => boolean | string
   sanitizer?: (value: any) => any
+  // Allowed values for select-style fields (applies to each item of an array field)
+  allowedValues?: readonly string[]
+  // Item count limits for array fields
+  minItems?: number
+  maxItems?: number
+  // Prose fields (titles, descriptions) where quotes and punctuation are legitimate.
+  // Markup/XSS checks still apply; line breaks are preserved when sanitizing.
+  freeText?: boolean
+  // Server lookups (e.g. username availability); only run by validateFieldAsync,
+  // and only once the other rules pass
+  asyncValidator?: (value: string) => Promise<AsyncValidatorResult>
 }
 
 export interface ValidationSchema {
   [key: string]: ValidationRule
 }
 
+export interface SchemaValidationResult<T> extends ValidationResult<T> {
+  sanitizedValue: T
+  fieldErrors: Record<string, string>
+}
+
+export interface SchemaValidationOptions {
+  // Only check fields present in the data (updates); missing required fields are not errors
+  partial?: boolean
+}
+
+type RuleValue<R> =
+  | (R extends { type: 'number' } ? number : R extends { type: 'array' } ? string[] : string)
+  | (R extends { nullable: true } ? null : never)
+
+/**
+ * Sanitized data type for a schema, e.g. InferSchema<typeof ValidationSchemas.PROFILE>
+ */
+export type InferSchema<S extends ValidationSchema> = {
+  [K in keyof S]: RuleValue<S[K]>
+}
+
+/**
+ * Declare a schema, keeping its literal rule types so InferSchema can read them
+ */
+export const defineSchema = <S extends ValidationSchema>(schema: S): S => schema
+
 // Common validation patterns
+// Usernames have no pattern here: PROFILE_RULES.username is the single username rule
 export const ValidationPatterns = {
-  // Username: 3-20 chars, letters, numbers, underscores only
-  USERNAME: /^[a-zA-Z0-9_]{3,20}$/,
-  
   // Email: standard email format
   EMAIL: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
   
@@ -46,6 +102,12 @@ export const ValidationPatterns = {
   // GitHub username: GitHub's rules (alphanumeric, hyphens, max 39 chars)
   GITHUB_USERNAME: /^[a-zA-Z0-9]([a-zA-Z0-9\-]){0,38}$/,
   
+  // GitHub repository URL: https://github.com/<owner>/<name>, optionally ending in / (see formatRepositoryUrl)
+  GITHUB_REPOSITORY_URL: /^https:\/\/github\.com\/[A-Za-z0-9_.-]+\/[A-Za-z0-9_.-]+\/?$/,
+
+  // GitHub topic: lowercase letters, numbers and hyphens (max 50 chars)
+  GITHUB_TOPIC: /^[a-z0-9][a-z0-9-]{0,49}$/,
+
   // URL: basic URL validation
   URL: /^https?:\/\/(www\.)?[-a-zA-Z0-9@:%._\+~#=]{1,256}\.[a-zA-Z0-9()]{1,6}\b([-a-zA-Z0-9()@:%_\+.~#?&//=]*)$/,
   
@@ -56,18 +118,22 @@ export const ValidationPatterns = {
   NO_SQL_INJECTION: /^(?!.*('|"|;|--|\/\*|\*\/|xp_|sp_|exec|execute|select|insert|update|delete|drop|create|alter|union|script)).+$/i
 }
 
-// Dangerous patterns to check for
-const DANGEROUS_PATTERNS = [
-  // XSS patterns
+// XSS patterns (checked for every field, including free text)
+const XSS_PATTERNS = [
   /<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi,
   /javascript:/gi,
   /on\w+\s*=/gi,
   /<iframe/gi,
   /<object/gi,
-  /<embed/gi,
+  /<embed/gi
+]
+
+// Dangerous patterns to check for
+const DANGEROUS_PATTERNS = [
+  ...XSS_PATTERNS,
   
   // SQL injection patterns
-  /('|(\\')|(;)|(\\;)|(--)|(\s*(union|select|insert|update|delete|drop|create|alter|exec|execute)\s+)/gi,
+  /('|(\\')|(;)|(\\;)|(--)|(\s*(union|select|insert|update|delete|drop|create|alter|exec|execute)\s+))/gi,
   
   // Command injection patterns
   /(\||&|;|\$\(|\`)/g,
@@ -79,6 +145,9 @@ const DANGEROUS_PATTERNS = [
 
 class InputValidator {
   private static instance: InputValidator
+  // Debounced async checks by key: the pending timer and the latest call's sequence number
+  private pendingChecks = new Map<string, { timer: ReturnType<typeof setTimeout>; resolve: (result: ValidationResult | null) => void }>()
+  private checkSequence = new Map<string, number>()
 
   private constructor() {}
 
@@ -93,6 +162,14 @@ class InputValidator {
    * Validate a single field
    */
   validateField(value: any, fieldName: string, rules: ValidationRule): ValidationResult {
+    if (rules.type === 'array' && !Array.isArray(value) && value != null && value !== '') {
+      return { isValid: false, errors: [`${this.formatFieldName(fieldName)} must be a list`], sanitizedValue: [] }
+    }
+
+    if (Array.isArray(value) || rules.type === 'array') {
+      return this.validateArrayField(Array.isArray(value) ? value : [], fieldName, rules)
+    }
+
     const errors: string[] = []
     const warnings: string[] = []
     let sanitizedValue = value
@@ -108,7 +185,7 @@ class InputValidator {
 
     // Skip other validations if field is empty and not required
     if (!stringValue && !rules.required) {
-      return { isValid: true, errors: [], sanitizedValue: '' }
+      return { isValid: true, errors: [], sanitizedValue: rules.nullable ? null : '' }
     }
 
     // Length validations
@@ -125,8 +202,16 @@ class InputValidator {
       errors.push(this.getPatternErrorMessage(fieldName, rules.pattern))
     }
 
+    // Select-style validation
+    if (rules.allowedValues && !rules.allowedValues.includes(stringValue)) {
+      errors.push(`Please select a valid ${this.formatFieldName(fieldName).toLowerCase()}`)
+    }
+
     // Security validations
-    const securityCheck = this.checkForDangerousPatterns(stringValue)
+    const securityCheck = this.checkForDangerousPatterns(
+      stringValue,
+      rules.freeText ? XSS_PATTERNS : DANGEROUS_PATTERNS
+    )
     if (!securityCheck.isValid) {
       errors.push(`${this.formatFieldName(fieldName)} contains invalid characters`)
     }
@@ -144,6 +229,10 @@ class InputValidator {
     // Sanitization
     if (rules.sanitizer) {
       sanitizedValue = rules.sanitizer(stringValue)
+    } else if (rules.type === 'number') {
+      sanitizedValue = Number(stringValue)
+    } else if (rules.freeText) {
+      sanitizedValue = this.sanitizeFreeText(stringValue, rules.maxLength)
     } else {
       sanitizedValue = this.defaultSanitize(stringValue)
     }
@@ -161,20 +250,162 @@ class InputValidator {
     }
   }
 
+  /**
+   * validateField, then the rule's asyncValidator if everything else passed
+   * A failed lookup is reported as a warning rather than an error; the database has the final say
+   */
+  async validateFieldAsync(value: any, fieldName: string, rules: ValidationRule): Promise<ValidationResult> {
+    const result = this.validateField(value, fieldName, rules)
+    const stringValue = String(value ?? '').trim()
+    if (!result.isValid || !rules.asyncValidator || !stringValue) return result
+
+    try {
+      const outcome = await rules.asyncValidator(stringValue)
+      if (outcome === true) return result
+      if (outcome === false) {
+        return { ...result, isValid: false, errors: [`${this.formatFieldName(fieldName)} is invalid`] }
+      }
+      if (typeof outcome === 'string') {
+        return { ...result, isValid: false, errors: [outcome] }
+      }
+      return { ...result, isValid: false, errors: [outcome.error], suggestions: outcome.suggestions }
+    } catch (error) {
+      console.log(`⚠️ Could not check ${fieldName}:`, error)
+      return {
+        ...result,
+        warnings: [...(result.warnings || []), `Could not check ${this.formatFieldName(fieldName).toLowerCase()} right now`]
+      }
+    }
+  }
+
+  /**
+   * validateFieldAsync once `key` has been quiet for delayMs (e.g. while typing)
+   * Resolves to null when a newer call for the same key supersedes this one, including
+   * while its lookup is still in flight
+   */
+  validateFieldDebounced(
+    key: string,
+    value: any,
+    fieldName: string,
+    rules: ValidationRule,
+    delayMs: number
+  ): Promise<ValidationResult | null> {
+    const sequence = (this.checkSequence.get(key) || 0) + 1
+    this.checkSequence.set(key, sequence)
+    this.cancelPendingCheck(key)
+
+    return new Promise(resolve => {
+      const timer = setTimeout(async () => {
+        this.pendingChecks.delete(key)
+        const result = await this.validateFieldAsync(value, fieldName, rules)
+        resolve(this.checkSequence.get(key) === sequence ? result : null)
+      }, delayMs)
+      this.pendingChecks.set(key, { timer, resolve })
+    })
+  }
+
+  /**
+   * Drop the debounced check for `key`, waiting or in flight; its promise resolves to null
+   */
+  cancelDebounced(key: string) {
+    this.checkSequence.set(key, (this.checkSequence.get(key) || 0) + 1)
+    this.cancelPendingCheck(key)
+  }
+
+  private cancelPendingCheck(key: string) {
+    const pending = this.pendingChecks.get(key)
+    if (!pending) return
+    clearTimeout(pending.timer)
+    pending.resolve(null)
+    this.pendingChecks.delete(key)
+  }
+
+  /**
+   * Validate a multi-select field (e.g. coding languages)
+   */
+  private validateArrayField(values: any[], fieldName: string, rules: ValidationRule): ValidationResult {
+    const errors: string[] = []
+    const field = this.formatFieldName(fieldName)
+    const items = values
+      .map(item => String(item ?? '').trim())
+      .filter(item => item.length > 0)
+
+    if (rules.required && items.length === 0) {
+      errors.push(`${field} is required`)
+      return { isValid: false, errors, sanitizedValue: [] }
+    }
+
+    if (rules.minItems && items.length < rules.minItems) {
+      errors.push(`Please select at least ${rules.minItems} ${field.toLowerCase()}`)
+    }
+
+    if (rules.maxItems && items.length > rules.maxItems) {
+      errors.push(`Please select no more than ${rules.maxItems} ${field.toLowerCase()}`)
+    }
+
+    if (rules.allowedValues) {
+      const unsupported = items.filter(item => !rules.allowedValues!.includes(item))
+      if (unsupported.length > 0) {
+        errors.push(`${field} contains unsupported values: ${unsupported.join(', ')}`)
+      }
+    }
+
+    const patterns = rules.freeText ? XSS_PATTERNS : DANGEROUS_PATTERNS
+    if (items.some(item => !this.checkForDangerousPatterns(item, patterns).isValid)) {
+      errors.push(`${field} contains invalid characters`)
+    }
+
+    if (rules.customValidator) {
+      const customResult = rules.customValidator(items)
+      if (typeof customResult === 'string') {
+        errors.push(customResult)
+      } else if (!customResult) {
+        errors.push(`${field} is invalid`)
+      }
+    }
+
+    // Sanitize each item and drop duplicates
+    const sanitizedItems = items.map(item =>
+      rules.sanitizer ? rules.sanitizer(item) : this.defaultSanitize(item)
+    )
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      sanitizedValue: Array.from(new Set(sanitizedItems))
+    }
+  }
+
   /**
    * Validate multiple fields using a schema
+   * The sanitized value is typed from the schema (see InferSchema), so it can be written
+   * straight to the database, including from a Next route handler
    */
-  validateSchema(data: Record<string, any>, schema: ValidationSchema): ValidationResult {
+  validateSchema<S extends ValidationSchema>(data: Record<string, any>, schema: S): SchemaValidationResult<InferSchema<S>>
+  validateSchema<S extends ValidationSchema>(
+    data: Record<string, any>,
+    schema: S,
+    options: SchemaValidationOptions
+  ): SchemaValidationResult<Partial<InferSchema<S>>>
+  validateSchema(
+    data: Record<string, any>,
+    schema: ValidationSchema,
+    options: SchemaValidationOptions = {}
+  ): SchemaValidationResult<Record<string, any>> {
     const allErrors: string[] = []
     const allWarnings: string[] = []
+    const fieldErrors: Record<string, string> = {}
     const sanitizedData: Record<string, any> = {}
 
     for (const [fieldName, rules] of Object.entries(schema)) {
       const fieldValue = data[fieldName]
+      if (options.partial && fieldValue === undefined) continue
+
       const result = this.validateField(fieldValue, fieldName, rules)
       
       if (!result.isValid) {
         allErrors.push(...result.errors)
+        fieldErrors[fieldName] = result.errors[0] || `${this.formatFieldName(fieldName)} is invalid`
       }
       
       if (result.warnings) {
@@ -187,6 +418,7 @@ class InputValidator {
     return {
       isValid: allErrors.length === 0,
       errors: allErrors,
+      fieldErrors,
       sanitizedValue: sanitizedData,
       warnings: allWarnings.length > 0 ? allWarnings : undefined
     }
@@ -195,10 +427,15 @@ class InputValidator {
   /**
    * Check for dangerous patterns
    */
-  private checkForDangerousPatterns(value: string): { isValid: boolean; threats: string[] } {
+  private checkForDangerousPatterns(
+    value: string,
+    patterns: RegExp[] = DANGEROUS_PATTERNS
+  ): { isValid: boolean; threats: string[] } {
     const threats: string[] = []
 
-    for (const pattern of DANGEROUS_PATTERNS) {
+    for (const pattern of patterns) {
+      // The patterns are global, so test() would otherwise resume from the last match
+      pattern.lastIndex = 0
       if (pattern.test(value)) {
         if (pattern.source.includes('script|iframe|object')) {
           threats.push('XSS')
@@ -243,6 +480,19 @@ class InputValidator {
       .substring(0, 1000) // Limit length as safety measure
   }
 
+  /**
+   * Free text sanitization (keeps line breaks and punctuation)
+   */
+  private sanitizeFreeText(value: string, maxLength: number = 5000): string {
+    return value
+      .trim()
+      .replace(/\r\n/g, '\n')
+      .replace(/[ \t]+/g, ' ') // Normalize spaces but keep line breaks
+      .replace(/\n{3,}/g, '\n\n') // Collapse long runs of blank lines
+      .replace(/[<>]/g, '') // Remove angle brackets
+      .substring(0, maxLength)
+  }
+
   /**
    * Format field name for error messages
    */
@@ -259,9 +509,6 @@ class InputValidator {
   private getPatternErrorMessage(fieldName: string, pattern: RegExp): string {
     const field = this.formatFieldName(fieldName)
 
-    if (pattern === ValidationPatterns.USERNAME) {
-      return `${field} must be 3-20 characters and contain only letters, numbers, and underscores`
-    }
     if (pattern === ValidationPatterns.EMAIL) {
       return `${field} must be a valid email address`
     }
@@ -277,6 +524,9 @@ class InputValidator {
     if (pattern === ValidationPatterns.URL) {
       return `${field} must be a valid URL`
     }
+    if (pattern === ValidationPatterns.GITHUB_REPOSITORY_URL) {
+      return `${field} must be a GitHub repository link (https://github.com/owner/name)`
+    }
 
     return `${field} format is invalid`
   }
@@ -285,83 +535,245 @@ class InputValidator {
 // Export singleton instance
 export const inputValidator = InputValidator.getInstance()
 
+/**
+ * Auto-format full name (capitalize each word)
+ */
+export const formatFullName = (name: string): string => {
+  return name
+    .trim()
+    .split(/\s+/)
+    .map(word => 
+      word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()
+    )
+    .join(' ')
+}
+
+/**
+ * Format a repository link the way GitHub reports it in webhooks (repository.html_url):
+ * no trailing slash or .git, so deliveries match the project it is saved on
+ */
+export const formatRepositoryUrl = (url: string): string => {
+  return url
+    .trim()
+    .replace(/\/+$/, '')
+    .replace(/\.git$/i, '')
+}
+
+/**
+ * Format username (convert to lowercase, remove invalid chars)
+ */
+export const formatUsername = (username: string): string => {
+  return username
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]/g, '') // Remove invalid characters
+}
+
+// Profile columns, the one definition of a valid profile
+// Onboarding, the dashboard editor, updateOwnProfile and /api/profile all check these rules,
+// and enforce_profile_rules (supabase-profile-rules-schema.sql) applies them to every write
+const PROFILE_RULES = defineSchema({
+  username: {
+    required: true,
+    minLength: 3,
+    maxLength: 22,
+    sanitizer: formatUsername,
+    customValidator: (value: string) => {
+      const username = value.toLowerCase()
+      if (!/^[a-z0-9_-]+$/.test(username)) {
+        return 'Username can only contain letters, numbers, underscores, and hyphens'
+      }
+      if (!/^[a-z0-9]/.test(username)) return 'Username must start with a letter or number'
+      if (/[-_]$/.test(username)) return 'Username cannot end with a hyphen or underscore'
+      if (RESERVED_USERNAMES.includes(username)) {
+        return 'This username is reserved. Please choose a different one.'
+      }
+      return true
+    }
+  },
+  full_name: {
+    required: true,
+    maxLength: 50,
+    // Apostrophes are legitimate in names (O'Brien)
+    freeText: true,
+    sanitizer: formatFullName,
+    customValidator: (value: string) => {
+      const words = value.split(/\s+/)
+      if (words.length < 2) return 'Please enter your first and last name'
+      if (!/^[a-zA-Z\s\-']+$/.test(value)) {
+        return 'Name can only contain letters, spaces, hyphens, and apostrophes'
+      }
+      if (words.some(word => word.replace(/[-']/g, '').length < 2)) {
+        return 'Each part of your name must be at least 2 characters long'
+      }
+      return true
+    }
+  },
+  age: {
+    required: true,
+    type: 'number',
+    customValidator: (value: string) => {
+      const age = Number(value)
+      if (!Number.isInteger(age)) return 'Please enter a valid age'
+      if (age < 13) return 'You must be at least 13 years old to use DevRecruit'
+      if (age > 120) return 'Please enter a realistic age'
+      return true
+    }
+  },
+  about_me: {
+    required: false,
+    nullable: true,
+    maxLength: 500,
+    freeText: true,
+    customValidator: (value: string) => {
+      if (value.length < 10) return 'If provided, About Me should be at least 10 characters long'
+      // Repeated characters (aaaaa) or no letters at all
+      if (/(.)\1{4,}/.test(value) || /^[^a-zA-Z]*$/.test(value)) {
+        return 'Please write a meaningful description about yourself'
+      }
+      return true
+    }
+  },
+  education_status: {
+    required: true,
+    allowedValues: EDUCATION_STATUSES
+  },
+  coding_languages: {
+    required: true,
+    type: 'array',
+    maxItems: 15,
+    allowedValues: CODING_LANGUAGES
+  },
+  avatar_url: {
+    required: false,
+    nullable: true,
+    maxLength: 500,
+    pattern: ValidationPatterns.URL,
+    // Query strings (?v=4&s=200) are fine in image links
+    freeText: true
+  }
+})
+
 // Predefined validation schemas for common forms
 export const ValidationSchemas = {
-  // User registration/profile
-  USER_PROFILE: {
-    username: {
+  // Editable profile columns (see PROFILE_RULES)
+  PROFILE: PROFILE_RULES,
+
+  // Onboarding form (fields in features/onboarding/steps.ts); the profile rules under
+  // the onboarding field names
+  ONBOARDING: defineSchema({
+    username: PROFILE_RULES.username,
+    fullName: PROFILE_RULES.full_name,
+    age: PROFILE_RULES.age,
+    educationStatus: PROFILE_RULES.education_status,
+    // More can be picked here; only the first 15 are saved
+    codingLanguages: { ...PROFILE_RULES.coding_languages, maxItems: undefined },
+    aboutMe: PROFILE_RULES.about_me,
+    avatarUrl: PROFILE_RULES.avatar_url
+  }),
+
+  // Project posting form
+  PROJECT: defineSchema({
+    title: {
       required: true,
-      minLength: 3,
-      maxLength: 20,
-      pattern: ValidationPatterns.USERNAME,
-      sanitizer: (value: string) => value.toLowerCase().replace(/[^a-z0-9_]/g, '')
+      minLength: 5,
+      maxLength: 100,
+      freeText: true
     },
-    full_name: {
+    description: {
       required: true,
-      minLength: 2,
-      maxLength: 50,
-      pattern: ValidationPatterns.FULL_NAME
+      minLength: 30,
+      maxLength: 2000,
+      freeText: true
     },
-    email: {
+    coding_languages: {
       required: true,
-      pattern: ValidationPatterns.EMAIL,
-      sanitizer: (value: string) => value.toLowerCase().trim()
+      type: 'array',
+      minItems: 1,
+      maxItems: 10,
+      allowedValues: CODING_LANGUAGES
     },
-    age: {
+    team_size: {
       required: true,
-      pattern: ValidationPatterns.AGE,
+      type: 'number',
       customValidator: (value: string) => {
-        const age = parseInt(value)
-        if (age < 13) return 'You must be at least 13 years old to use DevRecruit'
-        if (age > 120) return 'Please enter a valid age'
+        const size = parseInt(value)
+        if (isNaN(size)) return 'Team size must be a number'
+        if (size < PROJECT_TEAM_SIZE.min || size > PROJECT_TEAM_SIZE.max) {
+          return `Team size must be between ${PROJECT_TEAM_SIZE.min} and ${PROJECT_TEAM_SIZE.max}`
+        }
         return true
-      }
+      },
+      sanitizer: (value: string) => parseInt(value)
     },
-    github_username: {
-      required: false,
-      pattern: ValidationPatterns.GITHUB_USERNAME
-    }
-  },
-
-  // Onboarding form
-  ONBOARDING: {
-    username: {
+    time_commitment: {
       required: true,
-      minLength: 3,
-      maxLength: 20,
-      pattern: ValidationPatterns.USERNAME
+      allowedValues: TIME_COMMITMENTS
     },
-    fullName: {
+    status: {
       required: true,
-      minLength: 2,
-      maxLength: 50,
-      pattern: ValidationPatterns.FULL_NAME
+      allowedValues: PROJECT_STATUSES
     },
-    age: {
-      required: true,
-      pattern: ValidationPatterns.AGE,
-      customValidator: (value: string) => {
-        const age = parseInt(value)
-        return age >= 13 && age <= 120
-      }
+    repository_url: {
+      required: false,
+      maxLength: 200,
+      pattern: ValidationPatterns.GITHUB_REPOSITORY_URL,
+      freeText: true,
+      sanitizer: formatRepositoryUrl
     },
-    educationStatus: {
-      required: true,
-      customValidator: (value: string) => {
-        const validStatuses = ['highschool', 'college', 'professional', 'not_in_school']
-        return validStatuses.includes(value)
+    topics: {
+      required: false,
+      type: 'array',
+      maxItems: PROJECT_TOPICS_MAX,
+      customValidator: (topics: string[]) => {
+        const invalid = topics.find(topic => !ValidationPatterns.GITHUB_TOPIC.test(topic))
+        return invalid ? `"${invalid}" is not a valid topic` : true
       }
-    },
-    codingLanguages: {
+    }
+  }),
+
+  // Project application validation
+  APPLICATION: defineSchema({
+    pitch: {
       required: true,
-      customValidator: (value: string[]) => {
-        return Array.isArray(value) && value.length > 0 && value.length <= 10
+      minLength: 20,
+      maxLength: 1000,
+      freeText: true
+    },
+    links: {
+      required: false,
+      type: 'array',
+      maxItems: APPLICATION_LINKS_MAX,
+      freeText: true,
+      customValidator: (links: string[]) => {
+        const invalid = links.find(link => !ValidationPatterns.URL.test(link))
+        return invalid ? `"${invalid}" is not a valid link (include https://)` : true
       }
     }
-  },
+  }),
+
+  // Project invitation validation
+  INVITATION: defineSchema({
+    // Any handle a profile can have
+    username: PROFILE_RULES.username,
+    message: {
+      required: false,
+      maxLength: 500,
+      freeText: true
+    }
+  }),
+
+  // Direct message validation
+  MESSAGE: defineSchema({
+    body: {
+      required: true,
+      maxLength: MESSAGE_MAX_LENGTH,
+      freeText: true
+    }
+  }),
 
   // File upload validation
-  FILE_UPLOAD: {
+  FILE_UPLOAD: defineSchema({
     filename: {
       required: true,
       maxLength: 255,
@@ -375,16 +787,36 @@ export const ValidationSchemas = {
         return !dangerousExtensions.includes(ext)
       }
     }
-  }
+  })
 }
 
 // Convenience functions
-export const validateUserProfile = (data: Record<string, any>) =>
-  inputValidator.validateSchema(data, ValidationSchemas.USER_PROFILE)
+export const validateProfile = (data: Record<string, any>) =>
+  inputValidator.validateSchema(data, ValidationSchemas.PROFILE)
+
+export const validateProfileUpdate = (updates: Record<string, any>) =>
+  inputValidator.validateSchema(updates, ValidationSchemas.PROFILE, { partial: true })
+
+export type ProfileField = keyof typeof ValidationSchemas.PROFILE
+
+export const validateProfileField = (fieldName: ProfileField, value: any) =>
+  inputValidator.validateField(value, fieldName, ValidationSchemas.PROFILE[fieldName])
 
 export const validateOnboarding = (data: Record<string, any>) =>
   inputValidator.validateSchema(data, ValidationSchemas.ONBOARDING)
 
+export const validateProject = (data: Record<string, any>) =>
+  inputValidator.validateSchema(data, ValidationSchemas.PROJECT)
+
+export const validateApplication = (data: Record<string, any>) =>
+  inputValidator.validateSchema(data, ValidationSchemas.APPLICATION)
+
+export const validateInvitation = (data: Record<string, any>) =>
+  inputValidator.validateSchema(data, ValidationSchemas.INVITATION)
+
+export const validateMessage = (data: Record<string, any>) =>
+  inputValidator.validateSchema(data, ValidationSchemas.MESSAGE)
+
 export const validateFileUpload = (filename: string) =>
   inputValidator.validateField(filename, 'filename', ValidationSchemas.FILE_UPLOAD.filename)
 
@@ -393,59 +825,22 @@ export const useValidation = () => {
   return {
     validateField: (value: any, fieldName: string, rules: ValidationRule) =>
       inputValidator.validateField(value, fieldName, rules),
+    validateFieldAsync: (value: any, fieldName: string, rules: ValidationRule) =>
+      inputValidator.validateFieldAsync(value, fieldName, rules),
     validateSchema: (data: Record<string, any>, schema: ValidationSchema) =>
       inputValidator.validateSchema(data, schema),
-    validateUserProfile,
+    validateProfile,
+    validateProfileUpdate,
+    validateProfileField,
     validateOnboarding,
+    validateProject,
+    validateApplication,
+    validateInvitation,
+    validateMessage,
     validateFileUpload
   }
 }
 
-// Age validation helper
-export const validateAge = (age: string | number): ValidationResult => {
-  const ageNum = typeof age === 'string' ? parseInt(age) : age
-  
-  if (isNaN(ageNum)) {
-    return { isValid: false, errors: ['Age must be a number'] }
-  }
-  
-  if (ageNum < 13) {
-    return { isValid: false, errors: ['You must be at least 13 years old to use DevRecruit'] }
-  }
-  
-  if (ageNum > 120) {
-    return { isValid: false, errors: ['Please enter a valid age'] }
-  }
-  
-  return { isValid: true, errors: [], sanitizedValue: ageNum }
-}
-
-// Username validation helper
-export const validateUsername = (username: string): ValidationResult => {
-  return inputValidator.validateField(username, 'username', {
-    required: true,
-    minLength: 3,
-    maxLength: 20,
-    pattern: ValidationPatterns.USERNAME,
-    sanitizer: (value: string) => value.toLowerCase().replace(/[^a-z0-9_]/g, ''),
-    customValidator: (value: string) => {
-      // Additional checks
-      if (value.startsWith('_') || value.endsWith('_')) {
-        return 'Username cannot start or end with underscore'
-      }
-      if (value.includes('__')) {
-        return 'Username cannot contain consecutive underscores'
-      }
-      // Reserved usernames
-      const reserved = ['admin', 'root', 'api', 'www', 'mail', 'support', 'help', 'devrecruit']
-      if (reserved.includes(value.toLowerCase())) {
-        return 'This username is reserved'
-      }
-      return true
-    }
-  })
-}
-
 // Email validation helper
 export const validateEmail = (email: string): ValidationResult => {
   return inputValidator.validateField(email, 'email', {
@@ -466,318 +861,6 @@ export const validateEmail = (email: string): ValidationResult => {
   })
 }
 
-// DevRecruit Form Validation Utilities
-// Comprehensive validation for onboarding and profile creation
-
-export interface ProfileValidation {
-  fullName: ValidationResult
-  username: ValidationResult
-  age: ValidationResult
-  aboutMe: ValidationResult
-  educationStatus: ValidationResult
-  codingLanguages: ValidationResult
-  overall: boolean
-}
-
-/**
- * Validate full name (must be at least 2 words)
- */
-export const validateFullName = (name: string): ValidationResult => {
-  if (!name || name.trim().length === 0) {
-    return {
-      isValid: false,
-      error: "Full name is required"
-    }
-  }
-
-  const trimmedName = name.trim()
-  const words = trimmedName.split(/\s+/).filter(word => word.length > 0)
-
-  if (words.length < 2) {
-    return {
-      isValid: false,
-      error: "Please enter your first and last name",
-      suggestion: "Example: John Smith"
-    }
-  }
-
-  // Check for valid characters (letters, spaces, hyphens, apostrophes)
-  const validNameRegex = /^[a-zA-Z\s\-']+$/
-  if (!validNameRegex.test(trimmedName)) {
-    return {
-      isValid: false,
-      error: "Name can only contain letters, spaces, hyphens, and apostrophes"
-    }
-  }
-
-  // Check minimum length per word (at least 2 characters)
-  const hasShortWords = words.some(word => word.replace(/[-']/g, '').length < 2)
-  if (hasShortWords) {
-    return {
-      isValid: false,
-      error: "Each part of your name must be at least 2 characters long"
-    }
-  }
-
-  // Check maximum total length
-  if (trimmedName.length > 50) {
-    return {
-      isValid: false,
-      error: "Full name must be less than 50 characters"
-    }
-  }
-
-  return { isValid: true }
-}
-
-/**
- * Auto-format full name (capitalize each word)
- */
-export const formatFullName = (name: string): string => {
-  return name
-    .trim()
-    .split(/\s+/)
-    .map(word => 
-      word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()
-    )
-    .join(' ')
-}
-
-/**
- * Validate username (3-22 characters, specific rules)
- */
-export const validateUsername = (username: string): ValidationResult => {
-  if (!username || username.trim().length === 0) {
-    return {
-      isValid: false,
-      error: "Username is required"
-    }
-  }
-
-  const trimmedUsername = username.trim().toLowerCase()
-
-  // Length check
-  if (trimmedUsername.length < 3) {
-    return {
-      isValid: false,
-      error: "Username must be at least 3 characters long"
-    }
-  }
-
-  if (trimmedUsername.length > 22) {
-    return {
-      isValid: false,
-      error: "Username must be less than 22 characters long"
-    }
-  }
-
-  // Character validation (letters, numbers, underscore, hyphen)
-  const validUsernameRegex = /^[a-z0-9_-]+$/
-  if (!validUsernameRegex.test(trimmedUsername)) {
-    return {
-      isValid: false,
-      error: "Username can only contain letters, numbers, underscores, and hyphens"
-    }
-  }
-
-  // Must start with letter or number
-  if (!/^[a-z0-9]/.test(trimmedUsername)) {
-    return {
-      isValid: false,
-      error: "Username must start with a letter or number"
-    }
-  }
-
-  // Cannot end with special characters
-  if (/[-_]$/.test(trimmedUsername)) {
-    return {
-      isValid: false,
-      error: "Username cannot end with a hyphen or underscore"
-    }
-  }
-
-  // Reserved words
-  const reservedWords = [
-    'admin', 'administrator', 'root', 'devrecruit', 'api', 'www', 'mail', 
-    'support', 'help', 'info', 'contact', 'about', 'team', 'staff',
-    'moderator', 'test', 'demo', 'example', 'null', 'undefined'
-  ]
-  
-  if (reservedWords.includes(trimmedUsername)) {
-    return {
-      isValid: false,
-      error: "This username is reserved. Please choose a different one."
-    }
-  }
-
-  return { isValid: true }
-}
-
-/**
- * Format username (convert to lowercase, remove invalid chars)
- */
-export const formatUsername = (username: string): string => {
-  return username
-    .trim()
-    .toLowerCase()
-    .replace(/[^a-z0-9_-]/g, '') // Remove invalid characters
-}
-
-/**
- * Validate age (13+ years old)
- */
-export const validateAge = (age: string | number): ValidationResult => {
-  if (!age || age === '') {
-    return {
-      isValid: false,
-      error: "Age is required"
-    }
-  }
-
-  const ageNum = typeof age === 'string' ? parseInt(age) : age
-
-  if (isNaN(ageNum)) {
-    return {
-      isValid: false,
-      error: "Please enter a valid age"
-    }
-  }
-
-  if (ageNum < 13) {
-    return {
-      isValid: false,
-      error: "You must be at least 13 years old to use DevRecruit"
-    }
-  }
-
-  if (ageNum > 120) {
-    return {
-      isValid: false,
-      error: "Please enter a realistic age"
-    }
-  }
-
-  return { isValid: true }
-}
-
-/**
- * Validate About Me section (optional, max 500 chars)
- */
-export const validateAboutMe = (aboutMe: string): ValidationResult => {
-  // About Me is optional
-  if (!aboutMe || aboutMe.trim().length === 0) {
-    return { isValid: true }
-  }
-
-  const trimmedAboutMe = aboutMe.trim()
-
-  if (trimmedAboutMe.length > 500) {
-    return {
-      isValid: false,
-      error: `About Me must be less than 500 characters (currently ${trimmedAboutMe.length})`
-    }
-  }
-
-  // Check for minimum meaningful content if provided
-  if (trimmedAboutMe.length > 0 && trimmedAboutMe.length < 10) {
-    return {
-      isValid: false,
-      error: "If provided, About Me should be at least 10 characters long",
-      suggestion: "Tell us about your coding interests and experience"
-    }
-  }
-
-  // Basic profanity/spam check (simple version)
-  const suspiciousPatterns = [
-    /(.)\1{4,}/, // Repeated characters (aaaaa)
-    /^[^a-zA-Z]*$/, // Only special characters/numbers
-  ]
-
-  for (const pattern of suspiciousPatterns) {
-    if (pattern.test(trimmedAboutMe)) {
-      return {
-        isValid: false,
-        error: "Please write a meaningful description about yourself"
-      }
-    }
-  }
-
-  return { isValid: true }
-}
-
-/**
- * Validate education status
- */
-export const validateEducationStatus = (status: string): ValidationResult => {
-  if (!status || status.trim().length === 0) {
-    return {
-      isValid: false,
-      error: "Please select your education status"
-    }
-  }
-
-  const validStatuses = ['highschool', 'college', 'professional', 'not_in_school']
-  if (!validStatuses.includes(status)) {
-    return {
-      isValid: false,
-      error: "Please select a valid education status"
-    }
-  }
-
-  return { isValid: true }
-}
-
-/**
- * Validate coding languages (must select at least 1)
- */
-export const validateCodingLanguages = (languages: string[]): ValidationResult => {
-  if (!languages || languages.length === 0) {
-    return {
-      isValid: false,
-      error: "Please select at least one coding language"
-    }
-  }
-
-  if (languages.length > 15) {
-    return {
-      isValid: false,
-      error: "Please select no more than 15 coding languages to keep your profile focused"
-    }
-  }
-
-  return { isValid: true }
-}
-
-/**
- * Validate entire profile at once
- */
-export const validateProfile = (profile: {
-  full_name?: string
-  username?: string
-  age?: string | number
-  about_me?: string
-  education_status?: string
-  coding_languages?: string[]
-}): ProfileValidation => {
-  const fullName = validateFullName(profile.full_name || '')
-  const username = validateUsername(profile.username || '')
-  const age = validateAge(profile.age || '')
-  const aboutMe = validateAboutMe(profile.about_me || '')
-  const educationStatus = validateEducationStatus(profile.education_status || '')
-  const codingLanguages = validateCodingLanguages(profile.coding_languages || [])
-
-  return {
-    fullName,
-    username,
-    age,
-    aboutMe,
-    educationStatus,
-    codingLanguages,
-    overall: fullName.isValid && username.isValid && age.isValid && 
-             aboutMe.isValid && educationStatus.isValid && codingLanguages.isValid
-  }
-}
-
 /**
  * Get character count with color coding for limits
  */
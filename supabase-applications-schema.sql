@@ -0,0 +1,223 @@
+-- DevRecruit Project Applications Database Schema
+-- This script adds project applications, their review lifecycle and an audit trail
+-- Run after supabase-projects-schema.sql
+--
+-- Lifecycle (enforced by the RLS policies below):
+--   pending     -> shortlisted | accepted | rejected   (project owner)
+--   shortlisted -> accepted | rejected                 (project owner)
+--   pending | shortlisted -> withdrawn                 (applicant)
+--   accepted, rejected and withdrawn are final
+
+-- Create project applications table
+CREATE TABLE IF NOT EXISTS project_applications (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  applicant_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  pitch TEXT NOT NULL CHECK (char_length(pitch) BETWEEN 20 AND 1000),
+  links TEXT[] NOT NULL DEFAULT '{}' CHECK (cardinality(links) <= 3),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'shortlisted', 'accepted', 'rejected', 'withdrawn')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (project_id, applicant_id)
+);
+
+-- Create application audit log table (one row per status transition)
+CREATE TABLE IF NOT EXISTS application_audit_log (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  application_id UUID NOT NULL REFERENCES project_applications(id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Add indexes for applications
+CREATE INDEX IF NOT EXISTS idx_applications_project_id ON project_applications(project_id);
+CREATE INDEX IF NOT EXISTS idx_applications_applicant_id ON project_applications(applicant_id);
+CREATE INDEX IF NOT EXISTS idx_applications_status ON project_applications(status);
+CREATE INDEX IF NOT EXISTS idx_application_audit_application_id ON application_audit_log(application_id);
+CREATE INDEX IF NOT EXISTS idx_application_audit_created_at ON application_audit_log(created_at);
+
+-- Row Level Security Policies
+ALTER TABLE project_applications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE application_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Helper used by the policies below
+CREATE OR REPLACE FUNCTION is_project_owner(p_project_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM projects
+    WHERE projects.id = p_project_id
+      AND projects.owner_id = auth.uid()
+  );
+$$;
+
+CREATE POLICY "Applicants and project owners can view applications"
+ON project_applications FOR SELECT
+USING (auth.uid() = applicant_id OR is_project_owner(project_id));
+
+CREATE POLICY "Users can apply to open projects they do not own"
+ON project_applications FOR INSERT
+WITH CHECK (
+  auth.uid() = applicant_id
+  AND status = 'pending'
+  AND NOT is_project_owner(project_id)
+  AND EXISTS (
+    SELECT 1 FROM projects
+    WHERE projects.id = project_id
+      AND projects.status IN ('open', 'in_progress')
+  )
+);
+
+CREATE POLICY "Applicants can withdraw active applications"
+ON project_applications FOR UPDATE
+USING (auth.uid() = applicant_id AND status IN ('pending', 'shortlisted'))
+WITH CHECK (auth.uid() = applicant_id AND status = 'withdrawn');
+
+CREATE POLICY "Project owners can review active applications"
+ON project_applications FOR UPDATE
+USING (is_project_owner(project_id) AND status IN ('pending', 'shortlisted'))
+WITH CHECK (is_project_owner(project_id) AND status IN ('shortlisted', 'accepted', 'rejected'));
+
+CREATE POLICY "Applicants and project owners can view application history"
+ON application_audit_log FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM project_applications
+    WHERE project_applications.id = application_id
+      AND (project_applications.applicant_id = auth.uid() OR is_project_owner(project_applications.project_id))
+  )
+);
+
+-- Reviews may only change the status; everything else is fixed once submitted
+CREATE OR REPLACE FUNCTION protect_application_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.project_id IS DISTINCT FROM OLD.project_id
+    OR NEW.applicant_id IS DISTINCT FROM OLD.applicant_id
+    OR NEW.pitch IS DISTINCT FROM OLD.pitch
+    OR NEW.links IS DISTINCT FROM OLD.links
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Only the status of an application can be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS protect_project_applications_fields ON project_applications;
+CREATE TRIGGER protect_project_applications_fields
+  BEFORE UPDATE ON project_applications
+  FOR EACH ROW EXECUTE FUNCTION protect_application_fields();
+
+-- Write an audit row for the initial submission and every status transition
+CREATE OR REPLACE FUNCTION log_application_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO application_audit_log (application_id, actor_id, from_status, to_status)
+    VALUES (NEW.id, auth.uid(), NULL, NEW.status);
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO application_audit_log (application_id, actor_id, from_status, to_status)
+    VALUES (NEW.id, auth.uid(), OLD.status, NEW.status);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_project_applications_transition ON project_applications;
+CREATE TRIGGER log_project_applications_transition
+  AFTER INSERT OR UPDATE OF status ON project_applications
+  FOR EACH ROW EXECUTE FUNCTION log_application_transition();
+
+-- Triggers for updated_at timestamps
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS update_project_applications_updated_at ON project_applications;
+CREATE TRIGGER update_project_applications_updated_at
+  BEFORE UPDATE ON project_applications
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Review queue for project owners
+-- Profiles are private under RLS, so applicant details are exposed here for the owner only
+CREATE OR REPLACE FUNCTION get_review_queue()
+RETURNS TABLE (
+  id UUID,
+  project_id UUID,
+  project_title TEXT,
+  applicant_id UUID,
+  applicant_username TEXT,
+  applicant_full_name TEXT,
+  applicant_avatar_url TEXT,
+  applicant_coding_languages TEXT[],
+  pitch TEXT,
+  links TEXT[],
+  status TEXT,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    project_applications.id,
+    project_applications.project_id,
+    projects.title AS project_title,
+    project_applications.applicant_id,
+    profiles.username AS applicant_username,
+    profiles.full_name AS applicant_full_name,
+    profiles.avatar_url AS applicant_avatar_url,
+    profiles.coding_languages AS applicant_coding_languages,
+    project_applications.pitch,
+    project_applications.links,
+    project_applications.status,
+    project_applications.created_at,
+    project_applications.updated_at
+  FROM project_applications
+  JOIN projects ON projects.id = project_applications.project_id
+  LEFT JOIN profiles ON profiles.id = project_applications.applicant_id
+  WHERE projects.owner_id = auth.uid()
+  ORDER BY
+    CASE project_applications.status
+      WHEN 'pending' THEN 0
+      WHEN 'shortlisted' THEN 1
+      ELSE 2
+    END,
+    project_applications.created_at DESC;
+$$;
+
+-- Comments for documentation
+COMMENT ON TABLE project_applications IS 'Applications from developers to join a project';
+COMMENT ON TABLE application_audit_log IS 'Audit trail of every application status transition';
+COMMENT ON COLUMN project_applications.status IS 'Application lifecycle status (pending, shortlisted, accepted, rejected, withdrawn)';
+COMMENT ON COLUMN project_applications.links IS 'Up to 3 supporting links (portfolio, GitHub, demo)';
+COMMENT ON FUNCTION get_review_queue() IS 'Applications to projects owned by the current user, with applicant details';
+
+-- Grant necessary permissions
+GRANT SELECT, INSERT, UPDATE ON project_applications TO authenticated;
+GRANT SELECT ON application_audit_log TO authenticated;
+GRANT EXECUTE ON FUNCTION get_review_queue() TO authenticated;
+-- Policy helper only: not callable anonymously
+REVOKE EXECUTE ON FUNCTION is_project_owner(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION is_project_owner(UUID) TO authenticated;
+
+-- Verification queries (uncomment to test)
+-- SELECT 'Applications schema setup completed' as status;
+-- SELECT COUNT(*) as applications_count FROM project_applications;
+-- SELECT COUNT(*) as audit_log_count FROM application_audit_log;
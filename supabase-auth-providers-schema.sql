@@ -0,0 +1,108 @@
+-- DevRecruit Additional Sign-in Providers Schema
+-- This script updates new-user profile creation for GitLab and email magic-link sign-in
+-- Run after supabase-trigger-function.sql
+--
+-- The original trigger assumed every account came from GitHub. GitLab also sends
+-- user_name, which must not become github_username, and magic-link accounts only
+-- have an email, whose local part may already be someone's username. Linking a
+-- GitHub identity later (Settings > Connected accounts) fills in github_username.
+--
+-- Also enable in the Supabase dashboard: Authentication > Providers > GitLab and Email,
+-- and Authentication > Settings > "Allow manual linking".
+
+-- Create or replace the function that handles new user creation
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_provider TEXT := COALESCE(NEW.raw_app_meta_data->>'provider', 'email');
+  v_username TEXT;
+BEGIN
+  v_username := COALESCE(
+    NEW.raw_user_meta_data->>'user_name',
+    NEW.raw_user_meta_data->>'login',
+    NEW.raw_user_meta_data->>'preferred_username',
+    SPLIT_PART(NEW.email, '@', 1)
+  );
+
+  -- Usernames are unique; a taken one is left empty and chosen during onboarding
+  IF EXISTS (SELECT 1 FROM public.profiles WHERE lower(username) = lower(v_username)) THEN
+    v_username := NULL;
+  END IF;
+
+  INSERT INTO public.profiles (
+    id,
+    username,
+    full_name,
+    email,
+    avatar_url,
+    github_username,
+    github_repository_count,
+    github_commit_count,
+    onboarding_completed,
+    account_status,
+    privacy_settings,
+    created_at,
+    updated_at
+  )
+  VALUES (
+    NEW.id,
+    v_username,
+    COALESCE(
+      NEW.raw_user_meta_data->>'full_name',
+      NEW.raw_user_meta_data->>'name',
+      NEW.raw_user_meta_data->>'display_name'
+    ),
+    NEW.email,
+    COALESCE(
+      NEW.raw_user_meta_data->>'avatar_url',
+      NEW.raw_user_meta_data->>'picture'
+    ),
+    -- Only GitHub metadata describes a GitHub account
+    CASE WHEN v_provider = 'github' THEN COALESCE(
+      NEW.raw_user_meta_data->>'user_name',
+      NEW.raw_user_meta_data->>'login'
+    ) END,
+    CASE WHEN v_provider = 'github' THEN COALESCE((NEW.raw_user_meta_data->>'public_repos')::INTEGER, 0) ELSE 0 END,
+    CASE WHEN v_provider = 'github' THEN COALESCE((NEW.raw_user_meta_data->>'public_repos')::INTEGER * 10, 0) ELSE 0 END,
+    false,
+    'active',
+    jsonb_build_object(
+      'showEmail', false,
+      'showGithub', true,
+      'analyticsConsent', true
+    ),
+    NOW(),
+    NOW()
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Fill in github_username when a GitHub identity is linked to an existing account
+CREATE OR REPLACE FUNCTION public.handle_identity_linked()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.provider = 'github' THEN
+    UPDATE public.profiles
+    SET
+      github_username = COALESCE(NEW.identity_data->>'user_name', NEW.identity_data->>'preferred_username'),
+      updated_at = NOW()
+    WHERE id = NEW.user_id
+      AND github_username IS NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_auth_identity_linked ON auth.identities;
+CREATE TRIGGER on_auth_identity_linked
+  AFTER INSERT ON auth.identities
+  FOR EACH ROW EXECUTE FUNCTION public.handle_identity_linked();
+
+-- Comments for documentation
+COMMENT ON FUNCTION public.handle_new_user() IS 'Create a profile for a new GitHub, GitLab or magic-link account';
+COMMENT ON FUNCTION public.handle_identity_linked() IS 'Set github_username when a GitHub identity is linked to an existing account';
+
+-- Verification queries (uncomment to test)
+-- SELECT 'Auth providers schema setup completed' as status;
+-- SELECT i.provider, p.username, p.github_username FROM auth.identities i JOIN public.profiles p ON p.id = i.user_id ORDER BY i.created_at DESC LIMIT 20;
@@ -0,0 +1,120 @@
+-- DevRecruit Browse Projects Function
+-- This script adds the browse_projects() RPC used by the Browse Projects dashboard tab
+-- Run after supabase-projects-schema.sql, supabase-privacy-schema.sql and
+-- supabase-project-import-schema.sql
+
+-- Profiles are only readable by their owner under RLS, so owner details needed for
+-- the education facet and the project cards are exposed through a SECURITY DEFINER
+-- function that only reveals active, non-private profiles.
+-- The result columns changed when repository_url and topics were added, so drop before recreating
+DROP FUNCTION IF EXISTS browse_projects(TEXT[], TEXT[], INTEGER, INTEGER, TIMESTAMPTZ, TEXT[], TEXT, TEXT[], INTEGER, INTEGER);
+CREATE OR REPLACE FUNCTION browse_projects(
+  p_languages TEXT[] DEFAULT NULL,
+  p_education TEXT[] DEFAULT NULL,
+  p_min_team_size INTEGER DEFAULT NULL,
+  p_max_team_size INTEGER DEFAULT NULL,
+  p_posted_since TIMESTAMPTZ DEFAULT NULL,
+  p_statuses TEXT[] DEFAULT NULL,
+  p_sort TEXT DEFAULT 'newest',
+  p_match_languages TEXT[] DEFAULT NULL,
+  p_limit INTEGER DEFAULT 10,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  owner_id UUID,
+  title TEXT,
+  description TEXT,
+  coding_languages TEXT[],
+  team_size INTEGER,
+  time_commitment TEXT,
+  status TEXT,
+  repository_url TEXT,
+  topics TEXT[],
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  owner_username TEXT,
+  owner_full_name TEXT,
+  owner_avatar_url TEXT,
+  owner_education_status TEXT,
+  match_score INTEGER,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH visible_owners AS (
+    SELECT
+      profiles.id,
+      profiles.username,
+      profiles.full_name,
+      profiles.avatar_url,
+      profiles.education_status
+    FROM profiles
+    WHERE COALESCE(profiles.account_status, 'active') = 'active'
+      AND COALESCE(profiles.privacy_settings->>'profileVisibility', 'public') <> 'private'
+  ),
+  filtered AS (
+    SELECT
+      projects.*,
+      visible_owners.username AS owner_username,
+      visible_owners.full_name AS owner_full_name,
+      visible_owners.avatar_url AS owner_avatar_url,
+      visible_owners.education_status AS owner_education_status,
+      COALESCE(
+        cardinality(ARRAY(
+          SELECT unnest(projects.coding_languages)
+          INTERSECT
+          SELECT unnest(p_match_languages)
+        )),
+        0
+      ) AS match_score
+    FROM projects
+    LEFT JOIN visible_owners ON visible_owners.id = projects.owner_id
+    WHERE (p_languages IS NULL OR cardinality(p_languages) = 0 OR projects.coding_languages && p_languages)
+      AND (p_education IS NULL OR cardinality(p_education) = 0 OR visible_owners.education_status = ANY(p_education))
+      AND (p_min_team_size IS NULL OR projects.team_size >= p_min_team_size)
+      AND (p_max_team_size IS NULL OR projects.team_size <= p_max_team_size)
+      AND (p_posted_since IS NULL OR projects.created_at >= p_posted_since)
+      AND (p_statuses IS NULL OR cardinality(p_statuses) = 0 OR projects.status = ANY(p_statuses))
+  )
+  SELECT
+    filtered.id,
+    filtered.owner_id,
+    filtered.title,
+    filtered.description,
+    filtered.coding_languages,
+    filtered.team_size,
+    filtered.time_commitment,
+    filtered.status,
+    filtered.repository_url,
+    filtered.topics,
+    filtered.created_at,
+    filtered.updated_at,
+    filtered.owner_username,
+    filtered.owner_full_name,
+    filtered.owner_avatar_url,
+    filtered.owner_education_status,
+    filtered.match_score,
+    COUNT(*) OVER () AS total_count
+  FROM filtered
+  ORDER BY
+    CASE WHEN p_sort = 'best_match' THEN filtered.match_score ELSE 0 END DESC,
+    filtered.created_at DESC,
+    filtered.id
+  LIMIT LEAST(GREATEST(p_limit, 1), 50)
+  OFFSET GREATEST(p_offset, 0);
+$$;
+
+-- Comments for documentation
+COMMENT ON FUNCTION browse_projects(TEXT[], TEXT[], INTEGER, INTEGER, TIMESTAMPTZ, TEXT[], TEXT, TEXT[], INTEGER, INTEGER)
+  IS 'Faceted, paginated project listing for the Browse Projects tab (sort: newest or best_match)';
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION browse_projects(TEXT[], TEXT[], INTEGER, INTEGER, TIMESTAMPTZ, TEXT[], TEXT, TEXT[], INTEGER, INTEGER) TO anon, authenticated;
+
+-- Verification queries (uncomment to test)
+-- SELECT 'Browse projects function setup completed' as status;
+-- SELECT title, match_score, total_count FROM browse_projects(p_sort => 'best_match', p_match_languages => ARRAY['TypeScript']);
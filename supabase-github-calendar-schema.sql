@@ -0,0 +1,20 @@
+-- DevRecruit GitHub Contribution Calendar Schema
+-- This script caches each developer's daily contribution counts for the profile heatmap
+-- Run after supabase-github-repositories-schema.sql
+--
+-- Captured during GitHub sync from the GraphQL contributionCalendar (last 12 months,
+-- requires a token) and stored oldest first:
+--   [{"date": "2024-05-01", "count": 3}, ...]
+-- Without a token the previous calendar is kept, like the other contribution counts.
+
+-- Add contribution calendar column to profiles
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS github_contribution_calendar JSONB NOT NULL DEFAULT '[]'::JSONB
+  CHECK (jsonb_typeof(github_contribution_calendar) = 'array');
+
+-- Comments for documentation
+COMMENT ON COLUMN public.profiles.github_contribution_calendar IS 'Daily GitHub contribution counts for the last year, oldest first: [{date, count}]';
+
+-- Verification queries (uncomment to test)
+-- SELECT 'GitHub calendar schema setup completed' as status;
+-- SELECT github_username, jsonb_array_length(github_contribution_calendar) as days FROM profiles WHERE github_username IS NOT NULL LIMIT 10;
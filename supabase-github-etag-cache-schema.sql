@@ -0,0 +1,39 @@
+-- DevRecruit GitHub ETag Cache Schema
+-- This script persists the GitHub client's conditional-request cache for server-side syncs
+-- Run after supabase-github-sync-schema.sql
+--
+-- The batch refresh route (apps/next/app/api/github/sync) builds a new GitHubClient on
+-- every run, and serverless instances start cold, so an in-memory cache was empty by
+-- the next run. Each row keeps the ETag, status and body of the last 200 response for
+-- one token scope + URL, so unchanged resources come back as free 304s.
+-- Keys never contain tokens (they hold a fingerprint). Only the service role can read
+-- or write the table: the bodies may come from authenticated requests.
+-- Each sync run deletes rows older than GITHUB_ETAG_CACHE_MAX_AGE_DAYS
+-- (pruneSupabaseETagStore in packages/app/utils/githubClient.ts).
+
+-- Create ETag cache table
+CREATE TABLE IF NOT EXISTS github_etag_cache (
+  cache_key TEXT PRIMARY KEY,
+  etag TEXT NOT NULL,
+  status INTEGER NOT NULL DEFAULT 200,
+  data JSONB NOT NULL,
+  stored_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Add index for pruning old entries
+CREATE INDEX IF NOT EXISTS idx_github_etag_cache_stored_at ON github_etag_cache(stored_at);
+
+-- Row Level Security: no policies, so only the service role (which bypasses RLS) has access
+ALTER TABLE github_etag_cache ENABLE ROW LEVEL SECURITY;
+
+-- Comments for documentation
+COMMENT ON TABLE github_etag_cache IS 'Server-side GitHub conditional-request cache (ETag, status and body per token scope + URL)';
+COMMENT ON COLUMN github_etag_cache.cache_key IS '<token fingerprint or anonymous>:<request URL>';
+
+-- Grant necessary permissions
+REVOKE ALL ON github_etag_cache FROM PUBLIC, anon, authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON github_etag_cache TO service_role;
+
+-- Verification queries (uncomment to test)
+-- SELECT 'GitHub ETag cache schema setup completed' as status;
+-- SELECT COUNT(*) as cached_responses, MAX(stored_at) as newest FROM github_etag_cache;
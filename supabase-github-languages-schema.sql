@@ -0,0 +1,19 @@
+-- DevRecruit GitHub Language Breakdown Schema
+-- This script stores each developer's language mix derived from their GitHub repositories
+-- Run after supabase-github-stats-schema.sql
+--
+-- The breakdown is computed client-side from each repository's /languages byte counts
+-- and stored as an array sorted by share, largest first:
+--   [{"language": "TypeScript", "bytes": 120431, "percentage": 62.5}, ...]
+
+-- Add language breakdown column to profiles
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS github_language_breakdown JSONB NOT NULL DEFAULT '[]'::JSONB
+  CHECK (jsonb_typeof(github_language_breakdown) = 'array');
+
+-- Comments for documentation
+COMMENT ON COLUMN public.profiles.github_language_breakdown IS 'Languages across the user''s own GitHub repositories weighted by bytes: [{language, bytes, percentage}]';
+
+-- Verification queries (uncomment to test)
+-- SELECT 'GitHub languages schema setup completed' as status;
+-- SELECT github_username, jsonb_array_length(github_language_breakdown) as languages_count FROM profiles WHERE github_username IS NOT NULL LIMIT 10;
@@ -0,0 +1,23 @@
+-- DevRecruit GitHub Repository Showcase Schema
+-- This script caches each developer's pinned / top repositories for profile cards
+-- Run after supabase-github-sync-schema.sql
+--
+-- github_repositories is refreshed together with the other GitHub stats and holds
+-- pinned repositories first, then the most starred ones:
+--   [{"name": "app", "fullName": "octocat/app", "description": "...", "url": "https://github.com/octocat/app",
+--     "stars": 42, "primaryLanguage": "TypeScript", "pushedAt": "2024-05-01T12:00:00Z", "pinned": true}, ...]
+-- Hidden repositories are kept by full name, so hiding survives a refresh.
+
+-- Add repository showcase columns to profiles
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS github_repositories JSONB NOT NULL DEFAULT '[]'::JSONB
+  CHECK (jsonb_typeof(github_repositories) = 'array'),
+  ADD COLUMN IF NOT EXISTS github_hidden_repositories TEXT[] NOT NULL DEFAULT '{}';
+
+-- Comments for documentation
+COMMENT ON COLUMN public.profiles.github_repositories IS 'Cached pinned / top-starred public repositories: [{name, fullName, description, url, stars, primaryLanguage, pushedAt, pinned}]';
+COMMENT ON COLUMN public.profiles.github_hidden_repositories IS 'Full names (owner/name) of repositories the user hid from their profile';
+
+-- Verification queries (uncomment to test)
+-- SELECT 'GitHub repositories schema setup completed' as status;
+-- SELECT github_username, jsonb_array_length(github_repositories) as repositories_count, github_hidden_repositories FROM profiles WHERE github_username IS NOT NULL LIMIT 10;
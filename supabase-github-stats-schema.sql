@@ -0,0 +1,31 @@
+-- DevRecruit GitHub Contribution Stats Schema
+-- This script adds dedicated columns for GitHub contribution counts
+-- Run after fix-profiles-table.sql
+--
+-- Counts come from the GitHub GraphQL contributionsCollection (one query per
+-- contribution year) and replace the old "repositories x 10" commit estimate.
+-- github_commit_count keeps its name and now holds the real commit total.
+
+-- Add contribution count columns to profiles
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS github_pull_request_count INTEGER NOT NULL DEFAULT 0 CHECK (github_pull_request_count >= 0),
+  ADD COLUMN IF NOT EXISTS github_issue_count INTEGER NOT NULL DEFAULT 0 CHECK (github_issue_count >= 0),
+  ADD COLUMN IF NOT EXISTS github_review_count INTEGER NOT NULL DEFAULT 0 CHECK (github_review_count >= 0),
+  ADD COLUMN IF NOT EXISTS github_contributions_by_year JSONB NOT NULL DEFAULT '{}'::JSONB;
+
+-- Estimates written before this migration are not real commit counts
+UPDATE public.profiles
+SET github_commit_count = 0
+WHERE github_commit_count = github_repository_count * 10
+  AND github_contributions_by_year = '{}'::JSONB;
+
+-- Comments for documentation
+COMMENT ON COLUMN public.profiles.github_commit_count IS 'Total commit contributions across all contribution years (GitHub contributionsCollection)';
+COMMENT ON COLUMN public.profiles.github_pull_request_count IS 'Total pull request contributions across all contribution years';
+COMMENT ON COLUMN public.profiles.github_issue_count IS 'Total issue contributions across all contribution years';
+COMMENT ON COLUMN public.profiles.github_review_count IS 'Total pull request review contributions across all contribution years';
+COMMENT ON COLUMN public.profiles.github_contributions_by_year IS 'Per-year counts: {"2024": {"commits": 0, "pullRequests": 0, "issues": 0, "reviews": 0}}';
+
+-- Verification queries (uncomment to test)
+-- SELECT 'GitHub stats schema setup completed' as status;
+-- SELECT github_username, github_commit_count, github_pull_request_count, github_issue_count, github_review_count FROM profiles WHERE github_username IS NOT NULL LIMIT 10;
@@ -0,0 +1,94 @@
+-- DevRecruit GitHub Stats Sync Schema
+-- This script tracks GitHub stats freshness separately from profile edits and
+-- records the outcome of every server-side sync attempt
+-- Run after supabase-github-languages-schema.sql
+--
+-- Staleness used to be derived from profiles.updated_at, so any profile edit reset
+-- the 24h clock. github_stats_synced_at only moves when GitHub data is refreshed.
+-- The batch refresh route (apps/next/app/api/github/sync) uses the service role.
+
+-- Add sync tracking columns to profiles
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS github_stats_synced_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS github_sync_failures INTEGER NOT NULL DEFAULT 0 CHECK (github_sync_failures >= 0),
+  ADD COLUMN IF NOT EXISTS github_sync_retry_at TIMESTAMPTZ;
+
+-- Profiles with stats from before this migration were last synced at their last edit at the latest
+UPDATE public.profiles
+SET github_stats_synced_at = updated_at
+WHERE github_stats_synced_at IS NULL
+  AND github_username IS NOT NULL
+  AND github_username <> ''
+  AND (COALESCE(github_repository_count, 0) > 0 OR COALESCE(github_commit_count, 0) > 0);
+
+-- Create sync log table (one row per user per sync attempt)
+CREATE TABLE IF NOT EXISTS github_sync_log (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  run_id UUID NOT NULL,
+  outcome TEXT NOT NULL CHECK (outcome IN ('synced', 'failed', 'not_found', 'rate_limited')),
+  attempts INTEGER NOT NULL DEFAULT 1 CHECK (attempts >= 1),
+  error TEXT,
+  duration_ms INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Add indexes for the batch refresh
+CREATE INDEX IF NOT EXISTS idx_profiles_github_stats_synced_at
+  ON public.profiles(github_stats_synced_at NULLS FIRST)
+  WHERE github_username IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_github_sync_log_user_created ON github_sync_log(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_github_sync_log_run_id ON github_sync_log(run_id);
+
+-- Row Level Security Policies
+-- Rows are written by the service role only; users can see their own sync history
+ALTER TABLE github_sync_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own GitHub sync history"
+ON github_sync_log FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Profiles due for a server-side refresh, never-synced and oldest first
+-- Private and inactive profiles are left to the owner's own dashboard refresh
+CREATE OR REPLACE FUNCTION get_github_sync_candidates(
+  p_stale_before TIMESTAMPTZ,
+  p_limit INTEGER DEFAULT 25
+)
+RETURNS TABLE (
+  id UUID,
+  github_username TEXT,
+  github_sync_failures INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT profiles.id, profiles.github_username, profiles.github_sync_failures
+  FROM profiles
+  WHERE profiles.github_username IS NOT NULL
+    AND profiles.github_username <> ''
+    AND COALESCE(profiles.account_status, 'active') = 'active'
+    AND COALESCE(profiles.privacy_settings->>'profileVisibility', 'public') <> 'private'
+    AND (profiles.github_stats_synced_at IS NULL OR profiles.github_stats_synced_at < p_stale_before)
+    AND (profiles.github_sync_retry_at IS NULL OR profiles.github_sync_retry_at <= NOW())
+  ORDER BY profiles.github_stats_synced_at NULLS FIRST, profiles.id
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+$$;
+
+-- Comments for documentation
+COMMENT ON COLUMN public.profiles.github_stats_synced_at IS 'When GitHub stats were last refreshed (independent of profile edits)';
+COMMENT ON COLUMN public.profiles.github_sync_failures IS 'Consecutive failed server-side syncs, drives exponential backoff';
+COMMENT ON COLUMN public.profiles.github_sync_retry_at IS 'Server-side sync skips this profile until this time after a failure';
+COMMENT ON TABLE github_sync_log IS 'Per-user outcome of each GitHub stats sync run';
+COMMENT ON FUNCTION get_github_sync_candidates(TIMESTAMPTZ, INTEGER) IS 'Stale, non-private profiles for the batch GitHub stats refresh';
+
+-- Grant necessary permissions
+GRANT SELECT ON github_sync_log TO authenticated;
+REVOKE EXECUTE ON FUNCTION get_github_sync_candidates(TIMESTAMPTZ, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_github_sync_candidates(TIMESTAMPTZ, INTEGER) TO service_role;
+
+-- Verification queries (uncomment to test)
+-- SELECT 'GitHub sync schema setup completed' as status;
+-- SELECT COUNT(*) as stale_profiles FROM profiles WHERE github_username IS NOT NULL AND (github_stats_synced_at IS NULL OR github_stats_synced_at < NOW() - INTERVAL '24 hours');
+-- SELECT outcome, COUNT(*) FROM github_sync_log WHERE created_at > NOW() - INTERVAL '1 day' GROUP BY outcome;
@@ -0,0 +1,279 @@
+-- DevRecruit Project Invitations Database Schema
+-- This script adds invitations from project owners to developers
+-- Run after supabase-projects-schema.sql and supabase-privacy-schema.sql
+--
+-- Invitations honor privacy_settings.allowProjectInvites: both the invite_to_project()
+-- RPC and the INSERT policy refuse invitations to developers who opted out.
+--
+-- Lifecycle (enforced by the RLS policies below):
+--   pending -> accepted | declined   (invitee)
+--   pending -> cancelled             (project owner)
+
+-- Create project invitations table
+CREATE TABLE IF NOT EXISTS project_invitations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  inviter_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  invitee_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  message TEXT CHECK (message IS NULL OR char_length(message) <= 500),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'cancelled')),
+  responded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (inviter_id <> invitee_id),
+  UNIQUE (project_id, invitee_id)
+);
+
+-- Add indexes for invitations
+CREATE INDEX IF NOT EXISTS idx_invitations_project_id ON project_invitations(project_id);
+CREATE INDEX IF NOT EXISTS idx_invitations_invitee_id ON project_invitations(invitee_id);
+CREATE INDEX IF NOT EXISTS idx_invitations_status ON project_invitations(status);
+
+-- Privacy check shared by the INSERT policy and invite_to_project()
+-- Profiles are private under RLS, so this runs as SECURITY DEFINER and only returns a boolean
+CREATE OR REPLACE FUNCTION accepts_project_invites(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = p_user_id
+      AND COALESCE(profiles.account_status, 'active') = 'active'
+      AND COALESCE((profiles.privacy_settings->>'allowProjectInvites')::BOOLEAN, true)
+  );
+$$;
+
+-- Row Level Security Policies
+ALTER TABLE project_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Inviters and invitees can view invitations"
+ON project_invitations FOR SELECT
+USING (auth.uid() = inviter_id OR auth.uid() = invitee_id);
+
+-- is_project_owner() is defined in supabase-applications-schema.sql
+CREATE POLICY "Project owners can invite developers who accept invites"
+ON project_invitations FOR INSERT
+WITH CHECK (
+  auth.uid() = inviter_id
+  AND status = 'pending'
+  AND is_project_owner(project_id)
+  AND accepts_project_invites(invitee_id)
+);
+
+CREATE POLICY "Invitees can respond to pending invitations"
+ON project_invitations FOR UPDATE
+USING (auth.uid() = invitee_id AND status = 'pending')
+WITH CHECK (auth.uid() = invitee_id AND status IN ('accepted', 'declined'));
+
+CREATE POLICY "Inviters can cancel pending invitations"
+ON project_invitations FOR UPDATE
+USING (auth.uid() = inviter_id AND status = 'pending')
+WITH CHECK (auth.uid() = inviter_id AND status = 'cancelled');
+
+-- Responses may only change the status; everything else is fixed once sent
+CREATE OR REPLACE FUNCTION protect_invitation_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.project_id IS DISTINCT FROM OLD.project_id
+    OR NEW.inviter_id IS DISTINCT FROM OLD.inviter_id
+    OR NEW.invitee_id IS DISTINCT FROM OLD.invitee_id
+    OR NEW.message IS DISTINCT FROM OLD.message
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Only the status of an invitation can be changed';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.responded_at = NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS protect_project_invitations_fields ON project_invitations;
+CREATE TRIGGER protect_project_invitations_fields
+  BEFORE UPDATE ON project_invitations
+  FOR EACH ROW EXECUTE FUNCTION protect_invitation_fields();
+
+-- Triggers for updated_at timestamps
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS update_project_invitations_updated_at ON project_invitations;
+CREATE TRIGGER update_project_invitations_updated_at
+  BEFORE UPDATE ON project_invitations
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Invite a developer by username
+-- Raises one of these messages so the client can explain the refusal:
+--   project_not_found, project_not_accepting, user_not_found, cannot_invite_self,
+--   invites_disabled, already_invited
+CREATE OR REPLACE FUNCTION invite_to_project(
+  p_project_id UUID,
+  p_username TEXT,
+  p_message TEXT DEFAULT NULL
+)
+RETURNS project_invitations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_project projects%ROWTYPE;
+  target_user_id UUID;
+  existing_status TEXT;
+  invitation project_invitations%ROWTYPE;
+BEGIN
+  SELECT * INTO target_project
+  FROM projects
+  WHERE id = p_project_id AND owner_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'project_not_found';
+  END IF;
+
+  IF target_project.status NOT IN ('open', 'in_progress') THEN
+    RAISE EXCEPTION 'project_not_accepting';
+  END IF;
+
+  SELECT id INTO target_user_id
+  FROM profiles
+  WHERE lower(username) = lower(btrim(p_username))
+    AND COALESCE(account_status, 'active') = 'active';
+
+  IF target_user_id IS NULL THEN
+    RAISE EXCEPTION 'user_not_found';
+  END IF;
+
+  IF target_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'cannot_invite_self';
+  END IF;
+
+  IF NOT accepts_project_invites(target_user_id) THEN
+    RAISE EXCEPTION 'invites_disabled';
+  END IF;
+
+  SELECT status INTO existing_status
+  FROM project_invitations
+  WHERE project_id = p_project_id AND invitee_id = target_user_id;
+
+  IF existing_status = 'pending' OR existing_status = 'accepted' THEN
+    RAISE EXCEPTION 'already_invited';
+  END IF;
+
+  -- Declined or cancelled invitations can be sent again
+  DELETE FROM project_invitations
+  WHERE project_id = p_project_id AND invitee_id = target_user_id;
+
+  INSERT INTO project_invitations (project_id, inviter_id, invitee_id, message)
+  VALUES (p_project_id, auth.uid(), target_user_id, NULLIF(btrim(p_message), ''))
+  RETURNING * INTO invitation;
+
+  RETURN invitation;
+END;
+$$;
+
+-- Invitations received by the current user, with project and inviter details
+CREATE OR REPLACE FUNCTION get_received_invitations()
+RETURNS TABLE (
+  id UUID,
+  project_id UUID,
+  project_title TEXT,
+  project_status TEXT,
+  inviter_username TEXT,
+  inviter_full_name TEXT,
+  inviter_avatar_url TEXT,
+  message TEXT,
+  status TEXT,
+  responded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    project_invitations.id,
+    project_invitations.project_id,
+    projects.title AS project_title,
+    projects.status AS project_status,
+    profiles.username AS inviter_username,
+    profiles.full_name AS inviter_full_name,
+    profiles.avatar_url AS inviter_avatar_url,
+    project_invitations.message,
+    project_invitations.status,
+    project_invitations.responded_at,
+    project_invitations.created_at
+  FROM project_invitations
+  JOIN projects ON projects.id = project_invitations.project_id
+  LEFT JOIN profiles ON profiles.id = project_invitations.inviter_id
+  WHERE project_invitations.invitee_id = auth.uid()
+    AND project_invitations.status <> 'cancelled'
+  ORDER BY (project_invitations.status = 'pending') DESC, project_invitations.created_at DESC;
+$$;
+
+-- Invitations sent by the current user, with invitee details
+CREATE OR REPLACE FUNCTION get_sent_invitations()
+RETURNS TABLE (
+  id UUID,
+  project_id UUID,
+  project_title TEXT,
+  invitee_username TEXT,
+  invitee_full_name TEXT,
+  invitee_avatar_url TEXT,
+  message TEXT,
+  status TEXT,
+  responded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    project_invitations.id,
+    project_invitations.project_id,
+    projects.title AS project_title,
+    profiles.username AS invitee_username,
+    profiles.full_name AS invitee_full_name,
+    profiles.avatar_url AS invitee_avatar_url,
+    project_invitations.message,
+    project_invitations.status,
+    project_invitations.responded_at,
+    project_invitations.created_at
+  FROM project_invitations
+  JOIN projects ON projects.id = project_invitations.project_id
+  LEFT JOIN profiles ON profiles.id = project_invitations.invitee_id
+  WHERE project_invitations.inviter_id = auth.uid()
+  ORDER BY (project_invitations.status = 'pending') DESC, project_invitations.created_at DESC;
+$$;
+
+-- Comments for documentation
+COMMENT ON TABLE project_invitations IS 'Invitations from project owners to developers';
+COMMENT ON COLUMN project_invitations.status IS 'Invitation status (pending, accepted, declined, cancelled)';
+COMMENT ON FUNCTION accepts_project_invites(UUID) IS 'True when the user is active and has not turned off allowProjectInvites';
+COMMENT ON FUNCTION invite_to_project(UUID, TEXT, TEXT) IS 'Invite a developer to a project by username, honoring allowProjectInvites';
+COMMENT ON FUNCTION get_received_invitations() IS 'Invitations received by the current user';
+COMMENT ON FUNCTION get_sent_invitations() IS 'Invitations sent by the current user';
+
+-- Grant necessary permissions
+GRANT SELECT, INSERT, UPDATE ON project_invitations TO authenticated;
+GRANT EXECUTE ON FUNCTION invite_to_project(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_received_invitations() TO authenticated;
+GRANT EXECUTE ON FUNCTION get_sent_invitations() TO authenticated;
+-- Policy helper only: privacy flags are not readable anonymously
+REVOKE EXECUTE ON FUNCTION accepts_project_invites(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION accepts_project_invites(UUID) TO authenticated;
+
+-- Verification queries (uncomment to test)
+-- SELECT 'Invitations schema setup completed' as status;
+-- SELECT COUNT(*) as invitations_count FROM project_invitations;
@@ -0,0 +1,291 @@
+-- DevRecruit Direct Messaging Database Schema
+-- This script adds one-to-one conversations and messages between developers
+-- Run after supabase-privacy-schema.sql
+--
+-- Messaging honors privacy_settings.allowDirectMessages: new conversations and new
+-- messages are refused when the recipient has turned direct messages off.
+
+-- Create conversations table
+-- Participants are stored in a canonical order so each pair has exactly one conversation
+CREATE TABLE IF NOT EXISTS conversations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  participant_a UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  participant_b UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  last_message_at TIMESTAMPTZ,
+  last_message_preview TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (participant_a < participant_b),
+  UNIQUE (participant_a, participant_b)
+);
+
+-- Create messages table
+CREATE TABLE IF NOT EXISTS messages (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  sender_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 2000),
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Add indexes for messaging
+CREATE INDEX IF NOT EXISTS idx_conversations_participant_a ON conversations(participant_a);
+CREATE INDEX IF NOT EXISTS idx_conversations_participant_b ON conversations(participant_b);
+CREATE INDEX IF NOT EXISTS idx_conversations_last_message_at ON conversations(last_message_at DESC);
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_created ON messages(conversation_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_messages_unread ON messages(conversation_id) WHERE read_at IS NULL;
+
+-- Privacy and membership helpers (SECURITY DEFINER so policies can read private profiles)
+CREATE OR REPLACE FUNCTION accepts_direct_messages(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = p_user_id
+      AND COALESCE(profiles.account_status, 'active') = 'active'
+      AND COALESCE((profiles.privacy_settings->>'allowDirectMessages')::BOOLEAN, true)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION is_conversation_participant(p_conversation_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM conversations
+    WHERE conversations.id = p_conversation_id
+      AND auth.uid() IN (conversations.participant_a, conversations.participant_b)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION conversation_recipient(p_conversation_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN conversations.participant_a = auth.uid() THEN conversations.participant_b
+    ELSE conversations.participant_a
+  END
+  FROM conversations
+  WHERE conversations.id = p_conversation_id;
+$$;
+
+-- Row Level Security Policies
+ALTER TABLE conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
+
+-- Conversations are created through start_conversation(), so there is no INSERT policy
+CREATE POLICY "Participants can view their conversations"
+ON conversations FOR SELECT
+USING (auth.uid() IN (participant_a, participant_b));
+
+CREATE POLICY "Participants can view messages"
+ON messages FOR SELECT
+USING (is_conversation_participant(conversation_id));
+
+CREATE POLICY "Participants can message recipients who accept direct messages"
+ON messages FOR INSERT
+WITH CHECK (
+  auth.uid() = sender_id
+  AND read_at IS NULL
+  AND is_conversation_participant(conversation_id)
+  AND accepts_direct_messages(conversation_recipient(conversation_id))
+);
+
+CREATE POLICY "Recipients can mark messages as read"
+ON messages FOR UPDATE
+USING (is_conversation_participant(conversation_id) AND sender_id <> auth.uid())
+WITH CHECK (is_conversation_participant(conversation_id) AND sender_id <> auth.uid());
+
+-- Only read_at can change after a message is sent
+CREATE OR REPLACE FUNCTION protect_message_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.conversation_id IS DISTINCT FROM OLD.conversation_id
+    OR NEW.sender_id IS DISTINCT FROM OLD.sender_id
+    OR NEW.body IS DISTINCT FROM OLD.body
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Messages cannot be edited';
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS protect_messages_fields ON messages;
+CREATE TRIGGER protect_messages_fields
+  BEFORE UPDATE ON messages
+  FOR EACH ROW EXECUTE FUNCTION protect_message_fields();
+
+-- Keep the conversation list ordered by latest activity
+CREATE OR REPLACE FUNCTION update_conversation_last_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE conversations
+  SET
+    last_message_at = NEW.created_at,
+    last_message_preview = left(NEW.body, 140),
+    updated_at = NOW()
+  WHERE id = NEW.conversation_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS update_conversations_last_message ON messages;
+CREATE TRIGGER update_conversations_last_message
+  AFTER INSERT ON messages
+  FOR EACH ROW EXECUTE FUNCTION update_conversation_last_message();
+
+-- Start (or reopen) a conversation with another developer
+-- Raises one of these messages so the client can explain the refusal:
+--   user_not_found, cannot_message_self, dms_disabled
+CREATE OR REPLACE FUNCTION start_conversation(p_recipient_id UUID)
+RETURNS conversations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  conversation conversations%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  IF p_recipient_id = auth.uid() THEN
+    RAISE EXCEPTION 'cannot_message_self';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = p_recipient_id) THEN
+    RAISE EXCEPTION 'user_not_found';
+  END IF;
+
+  SELECT * INTO conversation
+  FROM conversations
+  WHERE participant_a = LEAST(auth.uid(), p_recipient_id)
+    AND participant_b = GREATEST(auth.uid(), p_recipient_id);
+
+  IF FOUND THEN
+    RETURN conversation;
+  END IF;
+
+  IF NOT accepts_direct_messages(p_recipient_id) THEN
+    RAISE EXCEPTION 'dms_disabled';
+  END IF;
+
+  INSERT INTO conversations (participant_a, participant_b)
+  VALUES (LEAST(auth.uid(), p_recipient_id), GREATEST(auth.uid(), p_recipient_id))
+  RETURNING * INTO conversation;
+
+  RETURN conversation;
+END;
+$$;
+
+-- Conversation list for the current user with the other participant and unread counts
+CREATE OR REPLACE FUNCTION get_conversations()
+RETURNS TABLE (
+  id UUID,
+  other_user_id UUID,
+  other_username TEXT,
+  other_full_name TEXT,
+  other_avatar_url TEXT,
+  other_accepts_messages BOOLEAN,
+  last_message_at TIMESTAMPTZ,
+  last_message_preview TEXT,
+  unread_count BIGINT,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    conversations.id,
+    profiles.id AS other_user_id,
+    profiles.username AS other_username,
+    profiles.full_name AS other_full_name,
+    profiles.avatar_url AS other_avatar_url,
+    accepts_direct_messages(profiles.id) AS other_accepts_messages,
+    conversations.last_message_at,
+    conversations.last_message_preview,
+    (
+      SELECT COUNT(*) FROM messages
+      WHERE messages.conversation_id = conversations.id
+        AND messages.sender_id <> auth.uid()
+        AND messages.read_at IS NULL
+    ) AS unread_count,
+    conversations.created_at
+  FROM conversations
+  JOIN profiles ON profiles.id = CASE
+    WHEN conversations.participant_a = auth.uid() THEN conversations.participant_b
+    ELSE conversations.participant_a
+  END
+  WHERE auth.uid() IN (conversations.participant_a, conversations.participant_b)
+  ORDER BY COALESCE(conversations.last_message_at, conversations.created_at) DESC;
+$$;
+
+-- Triggers for updated_at timestamps
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS update_conversations_updated_at ON conversations;
+CREATE TRIGGER update_conversations_updated_at
+  BEFORE UPDATE ON conversations
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Realtime: stream new messages and read receipts to participants (RLS still applies)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'messages'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE messages;
+  END IF;
+END $$;
+
+-- Comments for documentation
+COMMENT ON TABLE conversations IS 'One-to-one conversations between developers';
+COMMENT ON TABLE messages IS 'Direct messages within a conversation';
+COMMENT ON COLUMN messages.read_at IS 'When the recipient read the message (NULL = unread)';
+COMMENT ON FUNCTION accepts_direct_messages(UUID) IS 'True when the user is active and has not turned off allowDirectMessages';
+COMMENT ON FUNCTION start_conversation(UUID) IS 'Find or create the conversation with another developer, honoring allowDirectMessages';
+COMMENT ON FUNCTION get_conversations() IS 'Conversations of the current user with unread counts';
+
+-- Grant necessary permissions
+GRANT SELECT ON conversations TO authenticated;
+GRANT SELECT, INSERT, UPDATE ON messages TO authenticated;
+GRANT EXECUTE ON FUNCTION start_conversation(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_conversations() TO authenticated;
+-- Policy helpers only: privacy flags and conversation membership are not readable anonymously
+REVOKE EXECUTE ON FUNCTION accepts_direct_messages(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION is_conversation_participant(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION conversation_recipient(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION accepts_direct_messages(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION is_conversation_participant(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION conversation_recipient(UUID) TO authenticated;
+
+-- Verification queries (uncomment to test)
+-- SELECT 'Messaging schema setup completed' as status;
+-- SELECT COUNT(*) as conversations_count FROM conversations;
+-- SELECT COUNT(*) as messages_count FROM messages;
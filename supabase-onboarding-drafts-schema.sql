@@ -0,0 +1,40 @@
+-- DevRecruit Onboarding Drafts Schema
+-- This script stores unfinished onboarding answers on the profile so they survive
+-- reloads and can be finished on another device
+-- Run after supabase-profile-realtime-schema.sql
+--
+-- The onboarding screen saves { step, data, updated_at } as the user moves through
+-- the steps. Drafts stream to the user's other devices through the profile Realtime
+-- subscription, and are cleared by the trigger below once onboarding is completed.
+
+-- Add onboarding draft column
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS onboarding_draft JSONB
+  CHECK (onboarding_draft IS NULL OR jsonb_typeof(onboarding_draft) = 'object');
+
+-- Drop the draft as soon as onboarding is completed, even if a late save
+-- from another device arrives afterwards
+CREATE OR REPLACE FUNCTION clear_completed_onboarding_draft()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.onboarding_completed THEN
+    NEW.onboarding_draft = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS clear_profiles_onboarding_draft ON profiles;
+CREATE TRIGGER clear_profiles_onboarding_draft
+  BEFORE INSERT OR UPDATE OF onboarding_completed, onboarding_draft ON profiles
+  FOR EACH ROW EXECUTE FUNCTION clear_completed_onboarding_draft();
+
+-- Clear drafts left behind by profiles that are already onboarded
+UPDATE profiles SET onboarding_draft = NULL WHERE onboarding_completed AND onboarding_draft IS NOT NULL;
+
+-- Comments for documentation
+COMMENT ON COLUMN profiles.onboarding_draft IS 'Unfinished onboarding answers: { step, data, updated_at }; NULL once onboarding is completed';
+
+-- Verification queries (uncomment to test)
+-- SELECT 'Onboarding drafts setup completed' as status;
+-- SELECT id, onboarding_completed, onboarding_draft->>'step' AS step, onboarding_draft->>'updated_at' AS saved_at FROM profiles WHERE onboarding_draft IS NOT NULL;
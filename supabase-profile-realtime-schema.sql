@@ -0,0 +1,14 @@
+-- DevRecruit Profile Realtime Schema
+-- This script streams profile changes to the owner's other tabs and devices
+-- Run after supabase-trigger-function.sql
+--
+-- AuthProvider subscribes to UPDATE events on the signed-in user's own row
+-- (filter id=eq.<user id>). Realtime applies RLS, and "Users can view own profile"
+-- only lets a user read their own row, so nobody receives someone else's changes.
+
+-- Realtime: stream profile updates to their owner (RLS still applies)
+ALTER PUBLICATION supabase_realtime ADD TABLE profiles;
+
+-- Verification queries (uncomment to test)
+-- SELECT 'Profile realtime setup completed' as status;
+-- SELECT schemaname, tablename FROM pg_publication_tables WHERE pubname = 'supabase_realtime';
@@ -0,0 +1,178 @@
+-- DevRecruit Profile Rules Schema
+-- This script enforces the profile field rules in the database
+-- Run after supabase-username-availability-schema.sql
+--
+-- The app saves profiles straight through Supabase (onboarding, the dashboard editor,
+-- updateOwnProfile), so the checks in PROFILE_RULES (packages/app/utils/validation.ts)
+-- can be skipped by any client holding a session. This trigger applies the same rules
+-- to every write of the editable columns:
+-- - updates that change a column to a value PROFILE_RULES rejects fail with its message
+-- - new rows keep only the values that pass, the rest start empty and are filled in
+--   during onboarding (handle_new_user copies provider details that may not fit)
+-- Columns an update leaves unchanged are not re-checked, so rows saved before these
+-- rules existed can still be edited. Update both copies of the rules together.
+--
+-- Usernames are also checked against retired handles that still redirect to another
+-- developer (active_username_redirects() in supabase-username-redirects-schema.sql), so
+-- a handle stays unavailable for the whole redirect window however the row is written.
+
+-- Why a profile value breaks PROFILE_RULES, or NULL when it is fine
+-- p_value is the column as JSON; empty values are handled by enforce_profile_rules()
+CREATE OR REPLACE FUNCTION profile_rule_violation(p_field TEXT, p_value JSONB)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_text TEXT := p_value #>> '{}';
+  v_words TEXT[];
+  v_age NUMERIC;
+BEGIN
+  CASE p_field
+    WHEN 'username' THEN
+      IF char_length(v_text) < 3 THEN RETURN 'Username must be at least 3 characters'; END IF;
+      IF char_length(v_text) > 22 THEN RETURN 'Username must be no more than 22 characters'; END IF;
+      -- formatUsername stores handles in lowercase
+      IF v_text !~ '^[a-z0-9_-]+$' THEN
+        RETURN 'Username can only contain letters, numbers, underscores, and hyphens';
+      END IF;
+      IF v_text !~ '^[a-z0-9]' THEN RETURN 'Username must start with a letter or number'; END IF;
+      IF v_text ~ '[-_]$' THEN RETURN 'Username cannot end with a hyphen or underscore'; END IF;
+      IF is_reserved_username(v_text) THEN
+        RETURN 'This username is reserved. Please choose a different one.';
+      END IF;
+
+    WHEN 'full_name' THEN
+      IF char_length(v_text) > 50 THEN RETURN 'Full name must be no more than 50 characters'; END IF;
+      v_words := regexp_split_to_array(btrim(v_text), '\s+');
+      IF cardinality(v_words) < 2 THEN RETURN 'Please enter your first and last name'; END IF;
+      IF v_text !~ '^[a-zA-Z\s''-]+$' THEN
+        RETURN 'Name can only contain letters, spaces, hyphens, and apostrophes';
+      END IF;
+      IF EXISTS (
+        SELECT 1 FROM unnest(v_words) AS word
+        WHERE char_length(regexp_replace(word, '[-'']', '', 'g')) < 2
+      ) THEN
+        RETURN 'Each part of your name must be at least 2 characters long';
+      END IF;
+
+    WHEN 'age' THEN
+      v_age := v_text::NUMERIC;
+      IF v_age <> trunc(v_age) THEN RETURN 'Please enter a valid age'; END IF;
+      IF v_age < 13 THEN RETURN 'You must be at least 13 years old to use DevRecruit'; END IF;
+      IF v_age > 120 THEN RETURN 'Please enter a realistic age'; END IF;
+
+    WHEN 'about_me' THEN
+      v_text := btrim(v_text);
+      IF char_length(v_text) > 500 THEN RETURN 'About me must be no more than 500 characters'; END IF;
+      IF char_length(v_text) < 10 THEN
+        RETURN 'If provided, About Me should be at least 10 characters long';
+      END IF;
+      -- Repeated characters (aaaaa) or no letters at all
+      IF v_text ~ '(.)\1{4,}' OR v_text !~ '[a-zA-Z]' THEN
+        RETURN 'Please write a meaningful description about yourself';
+      END IF;
+
+    WHEN 'education_status' THEN
+      -- EDUCATION_STATUSES in packages/app/utils/constants.ts
+      IF v_text <> ALL(ARRAY['highschool', 'college', 'professional', 'not_in_school']) THEN
+        RETURN 'Please select a valid education status';
+      END IF;
+
+    WHEN 'coding_languages' THEN
+      IF jsonb_array_length(p_value) > 15 THEN
+        RETURN 'Please select no more than 15 coding languages';
+      END IF;
+      -- CODING_LANGUAGES in packages/app/utils/constants.ts
+      IF EXISTS (
+        SELECT 1 FROM jsonb_array_elements_text(p_value) AS language
+        WHERE language <> ALL(ARRAY[
+          'JavaScript', 'TypeScript', 'Python', 'Java', 'C++', 'C#', 'Go', 'Rust',
+          'PHP', 'Ruby', 'Swift', 'Kotlin', 'Dart', 'HTML/CSS', 'SQL', 'R',
+          'Scala', 'Perl', 'Haskell', 'Lua', 'Assembly', 'MATLAB', 'Shell/Bash'
+        ])
+      ) THEN
+        RETURN 'Coding languages contains unsupported values';
+      END IF;
+
+    WHEN 'avatar_url' THEN
+      IF char_length(v_text) > 500 THEN RETURN 'Avatar url must be no more than 500 characters'; END IF;
+      IF v_text !~ '^https?://[^\s]+\.[^\s]+$' THEN RETURN 'Avatar url must be a valid URL'; END IF;
+
+    ELSE
+      NULL;
+  END CASE;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Check the editable profile columns on every insert and update
+-- SECURITY DEFINER so it can read the redirects the caller cannot
+CREATE OR REPLACE FUNCTION enforce_profile_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_field TEXT;
+  v_value JSONB;
+  v_error TEXT;
+BEGIN
+  FOREACH v_field IN ARRAY ARRAY[
+    'username', 'full_name', 'age', 'about_me', 'education_status', 'coding_languages', 'avatar_url'
+  ] LOOP
+    IF TG_OP = 'UPDATE' AND (to_jsonb(NEW) -> v_field) IS NOT DISTINCT FROM (to_jsonb(OLD) -> v_field) THEN
+      CONTINUE;
+    END IF;
+
+    v_value := to_jsonb(NEW) -> v_field;
+    IF v_value IS NULL OR v_value IN ('null'::JSONB, '[]'::JSONB) OR btrim(v_value #>> '{}') = '' THEN
+      -- about_me and avatar_url are optional; the rest are filled in during onboarding
+      v_error := CASE
+        WHEN TG_OP = 'UPDATE' AND v_field NOT IN ('about_me', 'avatar_url')
+          THEN upper(left(v_field, 1)) || replace(substr(v_field, 2), '_', ' ') || ' is required'
+      END;
+    ELSE
+      v_error := profile_rule_violation(v_field, v_value);
+
+      -- Another developer's retired handle that still redirects to them
+      IF v_error IS NULL AND v_field = 'username' AND EXISTS (
+        SELECT 1 FROM active_username_redirects(NEW.username) AS redirects
+        WHERE redirects.user_id <> NEW.id
+      ) THEN
+        v_error := 'This username is already taken';
+      END IF;
+    END IF;
+
+    IF v_error IS NOT NULL THEN
+      IF TG_OP = 'INSERT' THEN
+        NEW := jsonb_populate_record(NEW, jsonb_build_object(v_field, NULL));
+      ELSE
+        RAISE EXCEPTION '%', v_error USING ERRCODE = 'check_violation';
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_profiles_rules ON profiles;
+CREATE TRIGGER enforce_profiles_rules
+  BEFORE INSERT OR UPDATE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION enforce_profile_rules();
+
+-- Comments for documentation
+COMMENT ON FUNCTION profile_rule_violation(TEXT, JSONB) IS 'Database copy of PROFILE_RULES: why a profile value is invalid, or NULL';
+COMMENT ON FUNCTION enforce_profile_rules() IS 'Rejects profile updates that break PROFILE_RULES or claim a redirecting handle, and drops invalid values from new profiles';
+
+-- Verification queries (uncomment to test)
+-- SELECT 'Profile rules schema setup completed' as status;
+-- SELECT profile_rule_violation('username', '"ab"');           -- too short
+-- SELECT profile_rule_violation('username', '"dev-recruiter"'); -- NULL (valid)
+-- SELECT profile_rule_violation('age', '12');                   -- too young
+-- Claiming a handle another developer retired less than 90 days ago fails with 'This username is already taken'
+-- Rows saved before these rules that would now be rejected:
+-- SELECT id, username FROM profiles WHERE profile_rule_violation('username', to_jsonb(username)) IS NOT NULL;
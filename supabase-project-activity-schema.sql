@@ -0,0 +1,219 @@
+-- DevRecruit Project Activity Schema
+-- This script records GitHub webhook deliveries for repositories linked to projects
+-- Run after supabase-project-import-schema.sql
+--
+-- apps/next/app/api/github/webhook verifies each delivery and calls
+-- record_project_activity() with the service role. Deliveries are keyed by their
+-- X-GitHub-Delivery id, so redelivered or replayed events are only counted once.
+-- Supported events: push (default branch), issues, pull_request, release.
+--
+-- Every project has its own webhook secret (get_project_webhook_secret(), owner only).
+-- A delivery is only recorded for the projects whose secret signed it, so knowing the
+-- secret of one repository's webhook does not let anyone write to another project.
+
+-- Create project activity metrics table (one row per project, created on first delivery)
+CREATE TABLE IF NOT EXISTS project_activity_metrics (
+  project_id UUID PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+  commit_count INTEGER NOT NULL DEFAULT 0 CHECK (commit_count >= 0),
+  issues_opened_count INTEGER NOT NULL DEFAULT 0 CHECK (issues_opened_count >= 0),
+  issues_closed_count INTEGER NOT NULL DEFAULT 0 CHECK (issues_closed_count >= 0),
+  pull_requests_opened_count INTEGER NOT NULL DEFAULT 0 CHECK (pull_requests_opened_count >= 0),
+  pull_requests_merged_count INTEGER NOT NULL DEFAULT 0 CHECK (pull_requests_merged_count >= 0),
+  release_count INTEGER NOT NULL DEFAULT 0 CHECK (release_count >= 0),
+  latest_release_tag TEXT,
+  last_activity_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create project activity feed table (one row per project per delivery)
+CREATE TABLE IF NOT EXISTS project_activity (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  delivery_id TEXT NOT NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('push', 'issues', 'pull_request', 'release')),
+  action TEXT,
+  actor_login TEXT,
+  title TEXT,
+  url TEXT,
+  commit_count INTEGER NOT NULL DEFAULT 0 CHECK (commit_count >= 0),
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (project_id, delivery_id)
+);
+
+-- Deliveries name the repository by repository.html_url, which never ends in .git;
+-- links saved before formatRepositoryUrl (packages/app/utils/validation.ts) could
+UPDATE projects
+SET repository_url = regexp_replace(repository_url, '\.git$', '', 'i')
+WHERE repository_url ~* '\.git$';
+
+-- Create webhook secrets table (one per project; kept out of the public projects table)
+CREATE TABLE IF NOT EXISTS project_webhook_secrets (
+  project_id UUID PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+  secret TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Add indexes for project activity
+CREATE INDEX IF NOT EXISTS idx_project_activity_project_occurred ON project_activity(project_id, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_projects_repository_url ON projects(lower(repository_url)) WHERE repository_url IS NOT NULL;
+
+-- Row Level Security Policies
+-- Projects are public, so is their activity; rows are written by the service role only
+ALTER TABLE project_activity_metrics ENABLE ROW LEVEL SECURITY;
+ALTER TABLE project_activity ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Project activity metrics are viewable by everyone"
+ON project_activity_metrics FOR SELECT
+USING (true);
+
+CREATE POLICY "Project activity is viewable by everyone"
+ON project_activity FOR SELECT
+USING (true);
+
+-- Secrets are read through get_project_webhook_secret() (owners) and
+-- get_project_webhook_secrets() (service role) only
+ALTER TABLE project_webhook_secrets ENABLE ROW LEVEL SECURITY;
+
+-- The project's webhook secret for its owner, created on first use
+CREATE OR REPLACE FUNCTION get_project_webhook_secret(p_project_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_secret TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM projects
+    WHERE projects.id = p_project_id
+      AND projects.owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only the project owner can view its webhook secret';
+  END IF;
+
+  INSERT INTO project_webhook_secrets (project_id, secret)
+  VALUES (p_project_id, replace(gen_random_uuid()::TEXT || gen_random_uuid()::TEXT, '-', ''))
+  ON CONFLICT (project_id) DO NOTHING;
+
+  SELECT project_webhook_secrets.secret INTO v_secret
+  FROM project_webhook_secrets
+  WHERE project_webhook_secrets.project_id = p_project_id;
+
+  RETURN v_secret;
+END;
+$$;
+
+-- Secrets of the projects linked to a repository, for verifying a delivery
+CREATE OR REPLACE FUNCTION get_project_webhook_secrets(p_repository_url TEXT)
+RETURNS TABLE (
+  project_id UUID,
+  secret TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT projects.id, project_webhook_secrets.secret
+  FROM projects
+  JOIN project_webhook_secrets ON project_webhook_secrets.project_id = projects.id
+  WHERE lower(projects.repository_url) = lower(p_repository_url);
+$$;
+
+-- Replaced by the version below, which only records for the verified projects
+DROP FUNCTION IF EXISTS record_project_activity(TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, TEXT, TIMESTAMPTZ);
+
+-- Record one webhook delivery against the given projects, if they are linked to the repository
+-- p_project_ids are the projects whose webhook secret verified the delivery
+-- Returns the number of projects that recorded it (0 for unknown repositories and replays)
+CREATE OR REPLACE FUNCTION record_project_activity(
+  p_project_ids UUID[],
+  p_repository_url TEXT,
+  p_delivery_id TEXT,
+  p_event_type TEXT,
+  p_action TEXT DEFAULT NULL,
+  p_actor_login TEXT DEFAULT NULL,
+  p_title TEXT DEFAULT NULL,
+  p_url TEXT DEFAULT NULL,
+  p_commit_count INTEGER DEFAULT 0,
+  p_issue_number INTEGER DEFAULT NULL,
+  p_release_tag TEXT DEFAULT NULL,
+  p_occurred_at TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_recorded UUID[];
+BEGIN
+  WITH inserted AS (
+    INSERT INTO project_activity (project_id, delivery_id, event_type, action, actor_login, title, url, commit_count, occurred_at)
+    SELECT projects.id, p_delivery_id, p_event_type, p_action, p_actor_login, left(p_title, 500), p_url,
+      GREATEST(COALESCE(p_commit_count, 0), 0), COALESCE(p_occurred_at, NOW())
+    FROM projects
+    WHERE projects.id = ANY(p_project_ids)
+      AND lower(projects.repository_url) = lower(p_repository_url)
+    ON CONFLICT (project_id, delivery_id) DO NOTHING
+    RETURNING project_id
+  )
+  SELECT COALESCE(array_agg(project_id), '{}') INTO v_recorded FROM inserted;
+
+  IF cardinality(v_recorded) = 0 THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO project_activity_metrics (project_id)
+  SELECT unnest(v_recorded)
+  ON CONFLICT (project_id) DO NOTHING;
+
+  UPDATE project_activity_metrics
+  SET
+    commit_count = commit_count + CASE WHEN p_event_type = 'push' THEN GREATEST(COALESCE(p_commit_count, 0), 0) ELSE 0 END,
+    issues_opened_count = issues_opened_count + CASE WHEN p_event_type = 'issues' AND p_action = 'opened' THEN 1 ELSE 0 END,
+    issues_closed_count = issues_closed_count + CASE WHEN p_event_type = 'issues' AND p_action = 'closed' THEN 1 ELSE 0 END,
+    pull_requests_opened_count = pull_requests_opened_count + CASE WHEN p_event_type = 'pull_request' AND p_action = 'opened' THEN 1 ELSE 0 END,
+    pull_requests_merged_count = pull_requests_merged_count + CASE WHEN p_event_type = 'pull_request' AND p_action = 'merged' THEN 1 ELSE 0 END,
+    release_count = release_count + CASE WHEN p_event_type = 'release' AND p_action = 'published' THEN 1 ELSE 0 END,
+    latest_release_tag = CASE WHEN p_event_type = 'release' AND p_action = 'published' THEN p_release_tag ELSE latest_release_tag END,
+    last_activity_at = GREATEST(COALESCE(last_activity_at, p_occurred_at), p_occurred_at),
+    updated_at = NOW()
+  WHERE project_id = ANY(v_recorded);
+
+  -- A closed issue is no longer a starter task
+  IF p_event_type = 'issues' AND p_action = 'closed' AND p_issue_number IS NOT NULL THEN
+    DELETE FROM project_tasks
+    WHERE project_id = ANY(v_recorded)
+      AND github_issue_number = p_issue_number;
+  END IF;
+
+  RETURN cardinality(v_recorded);
+END;
+$$;
+
+-- Comments for documentation
+COMMENT ON TABLE project_activity_metrics IS 'Running GitHub activity totals for projects with a linked repository';
+COMMENT ON TABLE project_activity IS 'Activity feed built from GitHub webhook deliveries (push, issues, pull_request, release)';
+COMMENT ON FUNCTION record_project_activity(UUID[], TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, TEXT, TIMESTAMPTZ) IS 'Idempotently record a verified GitHub webhook delivery for projects linked to a repository';
+COMMENT ON TABLE project_webhook_secrets IS 'Per-project secret for signing GitHub webhook deliveries';
+COMMENT ON FUNCTION get_project_webhook_secret(UUID) IS 'Webhook secret for a project, for its owner to configure on GitHub';
+COMMENT ON FUNCTION get_project_webhook_secrets(TEXT) IS 'Webhook secrets of the projects linked to a repository (service role only)';
+
+-- Grant necessary permissions
+GRANT SELECT ON project_activity_metrics TO anon, authenticated;
+GRANT SELECT ON project_activity TO anon, authenticated;
+REVOKE ALL ON project_webhook_secrets FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_project_activity(UUID[], TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, TEXT, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_project_activity(UUID[], TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, TEXT, INTEGER, INTEGER, TEXT, TIMESTAMPTZ) TO service_role;
+REVOKE EXECUTE ON FUNCTION get_project_webhook_secret(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_project_webhook_secret(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION get_project_webhook_secrets(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_project_webhook_secrets(TEXT) TO service_role;
+
+-- Verification queries (uncomment to test)
+-- SELECT 'Project activity schema setup completed' as status;
+-- SELECT p.title, m.* FROM project_activity_metrics m JOIN projects p ON p.id = m.project_id ORDER BY m.last_activity_at DESC;
+-- SELECT event_type, action, title, occurred_at FROM project_activity ORDER BY occurred_at DESC LIMIT 20;
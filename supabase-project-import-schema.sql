@@ -0,0 +1,58 @@
+-- DevRecruit GitHub Project Import Schema
+-- This script lets a project link to the GitHub repository it was imported from
+-- and stores open "good first issue" / "help wanted" issues as starter tasks
+-- Run after supabase-applications-schema.sql (uses is_project_owner)
+--
+-- Starter tasks are a snapshot taken at import time; they link back to the issue
+-- on GitHub, which stays the source of truth.
+
+-- Add repository columns to projects
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS repository_url TEXT
+  CHECK (repository_url IS NULL OR repository_url ~ '^https://github\.com/[A-Za-z0-9_.-]+/[A-Za-z0-9_.-]+$'),
+  ADD COLUMN IF NOT EXISTS topics TEXT[] NOT NULL DEFAULT '{}' CHECK (cardinality(topics) <= 20);
+
+-- Create project starter tasks table
+CREATE TABLE IF NOT EXISTS project_tasks (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  title TEXT NOT NULL CHECK (char_length(title) BETWEEN 1 AND 256),
+  url TEXT NOT NULL,
+  labels TEXT[] NOT NULL DEFAULT '{}',
+  github_issue_number INTEGER NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (project_id, github_issue_number)
+);
+
+-- Add indexes for project tasks
+CREATE INDEX IF NOT EXISTS idx_project_tasks_project_id ON project_tasks(project_id);
+CREATE INDEX IF NOT EXISTS idx_projects_topics ON projects USING GIN (topics);
+
+-- Row Level Security Policies
+ALTER TABLE project_tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Project tasks are viewable by everyone"
+ON project_tasks FOR SELECT
+USING (true);
+
+CREATE POLICY "Project owners can add tasks"
+ON project_tasks FOR INSERT
+WITH CHECK (is_project_owner(project_id));
+
+CREATE POLICY "Project owners can delete tasks"
+ON project_tasks FOR DELETE
+USING (is_project_owner(project_id));
+
+-- Comments for documentation
+COMMENT ON COLUMN projects.repository_url IS 'GitHub repository the project was imported from (https://github.com/owner/name)';
+COMMENT ON COLUMN projects.topics IS 'GitHub repository topics copied at import time';
+COMMENT ON TABLE project_tasks IS 'Starter tasks imported from open good first issue / help wanted GitHub issues';
+
+-- Grant necessary permissions
+GRANT SELECT ON project_tasks TO anon;
+GRANT SELECT, INSERT, DELETE ON project_tasks TO authenticated;
+
+-- Verification queries (uncomment to test)
+-- SELECT 'Project import schema setup completed' as status;
+-- SELECT title, repository_url, topics FROM projects WHERE repository_url IS NOT NULL LIMIT 10;
+-- SELECT project_id, COUNT(*) as tasks FROM project_tasks GROUP BY project_id;
@@ -0,0 +1,70 @@
+-- DevRecruit Projects Database Schema
+-- This script adds the projects table used by the Create Project and My Projects dashboard tabs
+
+-- Create projects table
+CREATE TABLE IF NOT EXISTS projects (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  owner_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  title TEXT NOT NULL CHECK (char_length(title) BETWEEN 5 AND 100),
+  description TEXT NOT NULL CHECK (char_length(description) BETWEEN 30 AND 2000),
+  coding_languages TEXT[] NOT NULL CHECK (cardinality(coding_languages) BETWEEN 1 AND 10),
+  team_size INTEGER NOT NULL CHECK (team_size BETWEEN 1 AND 20),
+  time_commitment TEXT NOT NULL CHECK (time_commitment IN ('few_hours_week', 'part_time', 'full_time', 'flexible')),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'in_progress', 'completed', 'closed')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Add indexes for projects
+CREATE INDEX IF NOT EXISTS idx_projects_owner_id ON projects(owner_id);
+CREATE INDEX IF NOT EXISTS idx_projects_status ON projects(status);
+CREATE INDEX IF NOT EXISTS idx_projects_created_at ON projects(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_projects_coding_languages ON projects USING GIN (coding_languages);
+
+-- Row Level Security Policies
+ALTER TABLE projects ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Projects are viewable by everyone"
+ON projects FOR SELECT
+USING (true);
+
+CREATE POLICY "Users can create their own projects"
+ON projects FOR INSERT
+WITH CHECK (auth.uid() = owner_id);
+
+CREATE POLICY "Owners can update their own projects"
+ON projects FOR UPDATE
+USING (auth.uid() = owner_id)
+WITH CHECK (auth.uid() = owner_id);
+
+CREATE POLICY "Owners can delete their own projects"
+ON projects FOR DELETE
+USING (auth.uid() = owner_id);
+
+-- Triggers for updated_at timestamps
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS update_projects_updated_at ON projects;
+CREATE TRIGGER update_projects_updated_at
+  BEFORE UPDATE ON projects
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Comments for documentation
+COMMENT ON TABLE projects IS 'Projects posted by developers looking for collaborators';
+COMMENT ON COLUMN projects.coding_languages IS 'Required languages, drawn from the CODING_LANGUAGES list in packages/app/utils/constants.ts';
+COMMENT ON COLUMN projects.time_commitment IS 'Expected weekly time commitment (few_hours_week, part_time, full_time, flexible)';
+COMMENT ON COLUMN projects.status IS 'Project lifecycle status (open, in_progress, completed, closed)';
+
+-- Grant necessary permissions
+GRANT SELECT ON projects TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON projects TO authenticated;
+
+-- Verification queries (uncomment to test)
+-- SELECT 'Projects schema setup completed' as status;
+-- SELECT COUNT(*) as projects_count FROM projects;
@@ -0,0 +1,111 @@
+-- DevRecruit Public Profile Function
+-- This script adds the get_public_profile() RPC used by the /users/[userId] page
+-- Run after supabase-privacy-schema.sql, supabase-github-stats-schema.sql,
+-- supabase-github-languages-schema.sql and supabase-github-repositories-schema.sql
+--
+-- Profiles are only readable by their owner under RLS. This SECURITY DEFINER function
+-- applies privacy_settings before anything leaves the database:
+--   profileVisibility 'public'  -> visible to everyone, including signed-out visitors
+--   profileVisibility 'limited' -> visible to signed-in users only
+--   profileVisibility 'private' -> visible to the owner only
+--   showEmail / showGithub      -> hide the email address / GitHub details when false
+--   github_hidden_repositories  -> left out of the repository showcase
+-- The owner always gets can_view = true but the same showEmail/showGithub filtering, so the
+-- page doubles as a preview of what other developers see.
+-- A restricted profile still returns one row (can_view = false, no profile data) so the
+-- page can explain why it is hidden instead of reporting "not found".
+-- The result columns changed when GitHub contribution counts, languages and repositories were added,
+-- so drop before recreating
+DROP FUNCTION IF EXISTS get_public_profile(UUID);
+CREATE OR REPLACE FUNCTION get_public_profile(p_user_id UUID)
+RETURNS TABLE (
+  id UUID,
+  username TEXT,
+  full_name TEXT,
+  avatar_url TEXT,
+  about_me TEXT,
+  education_status TEXT,
+  coding_languages TEXT[],
+  email TEXT,
+  github_username TEXT,
+  github_repository_count INTEGER,
+  github_commit_count INTEGER,
+  github_pull_request_count INTEGER,
+  github_issue_count INTEGER,
+  github_review_count INTEGER,
+  github_language_breakdown JSONB,
+  github_repositories JSONB,
+  profile_visibility TEXT,
+  is_owner BOOLEAN,
+  can_view BOOLEAN,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH target AS (
+    SELECT
+      profiles.*,
+      COALESCE(profiles.privacy_settings->>'profileVisibility', 'public') AS visibility,
+      COALESCE((profiles.privacy_settings->>'showEmail')::BOOLEAN, false) AS show_email,
+      COALESCE((profiles.privacy_settings->>'showGithub')::BOOLEAN, true) AS show_github,
+      profiles.id = auth.uid() AS is_owner
+    FROM profiles
+    WHERE profiles.id = p_user_id
+      AND (
+        profiles.id = auth.uid()
+        OR (
+          COALESCE(profiles.account_status, 'active') = 'active'
+          AND COALESCE(profiles.onboarding_completed, false) = true
+        )
+      )
+  ),
+  access AS (
+    SELECT
+      target.*,
+      (
+        target.is_owner
+        OR target.visibility = 'public'
+        OR (target.visibility = 'limited' AND auth.uid() IS NOT NULL)
+      ) AS can_view
+    FROM target
+  )
+  SELECT
+    access.id,
+    CASE WHEN access.can_view THEN access.username END,
+    CASE WHEN access.can_view THEN access.full_name END,
+    CASE WHEN access.can_view THEN access.avatar_url END,
+    CASE WHEN access.can_view THEN access.about_me END,
+    CASE WHEN access.can_view THEN access.education_status END,
+    CASE WHEN access.can_view THEN access.coding_languages END,
+    CASE WHEN access.can_view AND access.show_email THEN access.email END,
+    CASE WHEN access.can_view AND access.show_github THEN access.github_username END,
+    CASE WHEN access.can_view AND access.show_github THEN access.github_repository_count::INTEGER END,
+    CASE WHEN access.can_view AND access.show_github THEN access.github_commit_count::INTEGER END,
+    CASE WHEN access.can_view AND access.show_github THEN access.github_pull_request_count END,
+    CASE WHEN access.can_view AND access.show_github THEN access.github_issue_count END,
+    CASE WHEN access.can_view AND access.show_github THEN access.github_review_count END,
+    CASE WHEN access.can_view AND access.show_github THEN access.github_language_breakdown END,
+    CASE WHEN access.can_view AND access.show_github THEN (
+      SELECT COALESCE(jsonb_agg(repos.repo ORDER BY repos.position), '[]'::JSONB)
+      FROM jsonb_array_elements(access.github_repositories) WITH ORDINALITY AS repos(repo, position)
+      WHERE NOT (repos.repo->>'fullName' = ANY(access.github_hidden_repositories))
+    ) END,
+    access.visibility,
+    access.is_owner,
+    access.can_view,
+    CASE WHEN access.can_view THEN access.created_at END
+  FROM access;
+$$;
+
+-- Comments for documentation
+COMMENT ON FUNCTION get_public_profile(UUID) IS 'Developer profile for /users/[userId], filtered by profileVisibility, showEmail and showGithub';
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION get_public_profile(UUID) TO anon, authenticated;
+
+-- Verification queries (uncomment to test)
+-- SELECT 'Public profile function setup completed' as status;
+-- SELECT username, profile_visibility, can_view FROM get_public_profile('00000000-0000-0000-0000-000000000000');
@@ -0,0 +1,247 @@
+-- DevRecruit Full-Text Search Schema
+-- This script adds weighted tsvector columns and search RPCs for projects and developer profiles
+-- Run after supabase-projects-schema.sql, supabase-privacy-schema.sql and
+-- supabase-project-import-schema.sql
+
+-- Search vector builders
+-- Names and languages use the 'simple' config so handles and language names are not stemmed,
+-- free-text fields use 'english'. Weights: A = names/titles, B = languages, C = prose.
+CREATE OR REPLACE FUNCTION profile_search_vector(
+  p_username TEXT,
+  p_full_name TEXT,
+  p_about_me TEXT,
+  p_coding_languages TEXT[]
+)
+RETURNS tsvector
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    setweight(to_tsvector('simple', COALESCE(p_username, '')), 'A') ||
+    setweight(to_tsvector('simple', COALESCE(p_full_name, '')), 'A') ||
+    setweight(to_tsvector('simple', COALESCE(array_to_string(p_coding_languages, ' '), '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(p_about_me, '')), 'C');
+$$;
+
+CREATE OR REPLACE FUNCTION project_search_vector(
+  p_title TEXT,
+  p_description TEXT,
+  p_coding_languages TEXT[]
+)
+RETURNS tsvector
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    setweight(to_tsvector('english', COALESCE(p_title, '')), 'A') ||
+    setweight(to_tsvector('simple', COALESCE(array_to_string(p_coding_languages, ' '), '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(p_description, '')), 'C');
+$$;
+
+-- Add search_vector columns
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS search_vector tsvector;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS search_vector tsvector;
+
+-- Keep search vectors in sync with the underlying columns
+CREATE OR REPLACE FUNCTION update_profile_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector := profile_search_vector(NEW.username, NEW.full_name, NEW.about_me, NEW.coding_languages);
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE OR REPLACE FUNCTION update_project_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector := project_search_vector(NEW.title, NEW.description, NEW.coding_languages);
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS update_profiles_search_vector ON profiles;
+CREATE TRIGGER update_profiles_search_vector
+  BEFORE INSERT OR UPDATE OF username, full_name, about_me, coding_languages ON profiles
+  FOR EACH ROW EXECUTE FUNCTION update_profile_search_vector();
+
+DROP TRIGGER IF EXISTS update_projects_search_vector ON projects;
+CREATE TRIGGER update_projects_search_vector
+  BEFORE INSERT OR UPDATE OF title, description, coding_languages ON projects
+  FOR EACH ROW EXECUTE FUNCTION update_project_search_vector();
+
+-- Backfill existing rows
+UPDATE profiles
+SET search_vector = profile_search_vector(username, full_name, about_me, coding_languages)
+WHERE search_vector IS NULL;
+
+UPDATE projects
+SET search_vector = project_search_vector(title, description, coding_languages)
+WHERE search_vector IS NULL;
+
+-- Add search indexes
+CREATE INDEX IF NOT EXISTS idx_profiles_search_vector ON profiles USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_projects_search_vector ON projects USING GIN (search_vector);
+
+-- Search projects
+-- Snippets are highlighted with « and » so clients can render matches without parsing HTML
+-- The result columns changed when repository_url and topics were added, so drop before recreating
+DROP FUNCTION IF EXISTS search_projects(TEXT, INTEGER, INTEGER);
+CREATE OR REPLACE FUNCTION search_projects(
+  p_query TEXT,
+  p_limit INTEGER DEFAULT 10,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  owner_id UUID,
+  title TEXT,
+  description TEXT,
+  coding_languages TEXT[],
+  team_size INTEGER,
+  time_commitment TEXT,
+  status TEXT,
+  repository_url TEXT,
+  topics TEXT[],
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  owner_username TEXT,
+  rank REAL,
+  snippet TEXT,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH search_query AS (
+    SELECT plainto_tsquery('english', p_query) || plainto_tsquery('simple', p_query) AS query
+  ),
+  matches AS (
+    SELECT
+      projects.*,
+      ts_rank_cd(projects.search_vector, search_query.query) AS rank,
+      search_query.query
+    FROM projects, search_query
+    WHERE projects.search_vector @@ search_query.query
+  )
+  SELECT
+    matches.id,
+    matches.owner_id,
+    matches.title,
+    matches.description,
+    matches.coding_languages,
+    matches.team_size,
+    matches.time_commitment,
+    matches.status,
+    matches.repository_url,
+    matches.topics,
+    matches.created_at,
+    matches.updated_at,
+    CASE
+      WHEN COALESCE(profiles.account_status, 'active') = 'active'
+        AND (
+          COALESCE(profiles.privacy_settings->>'profileVisibility', 'public') = 'public'
+          OR (profiles.privacy_settings->>'profileVisibility' = 'limited' AND auth.uid() IS NOT NULL)
+        )
+      THEN profiles.username
+    END AS owner_username,
+    matches.rank,
+    ts_headline(
+      'english',
+      matches.description,
+      matches.query,
+      'StartSel=«, StopSel=», MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+    ) AS snippet,
+    COUNT(*) OVER () AS total_count
+  FROM matches
+  LEFT JOIN profiles ON profiles.id = matches.owner_id
+  ORDER BY matches.rank DESC, matches.created_at DESC, matches.id
+  LIMIT LEAST(GREATEST(p_limit, 1), 50)
+  OFFSET GREATEST(p_offset, 0);
+$$;
+
+-- Search developers
+-- Only active profiles that finished onboarding are searchable, with the same visibility
+-- as get_public_profile: 'public' for everyone, 'limited' for signed-in users only.
+-- An empty query lists the whole directory, newest members first.
+CREATE OR REPLACE FUNCTION search_developers(
+  p_query TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 10,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  username TEXT,
+  full_name TEXT,
+  avatar_url TEXT,
+  education_status TEXT,
+  coding_languages TEXT[],
+  rank REAL,
+  snippet TEXT,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH search_query AS (
+    SELECT
+      NULLIF(btrim(COALESCE(p_query, '')), '') IS NULL AS is_empty,
+      plainto_tsquery('english', COALESCE(p_query, '')) || plainto_tsquery('simple', COALESCE(p_query, '')) AS query
+  ),
+  matches AS (
+    SELECT
+      profiles.*,
+      CASE WHEN search_query.is_empty THEN 0 ELSE ts_rank_cd(profiles.search_vector, search_query.query) END AS rank,
+      search_query.is_empty,
+      search_query.query
+    FROM profiles, search_query
+    WHERE COALESCE(profiles.account_status, 'active') = 'active'
+      AND COALESCE(profiles.onboarding_completed, false) = true
+      AND (
+        COALESCE(profiles.privacy_settings->>'profileVisibility', 'public') = 'public'
+        OR (profiles.privacy_settings->>'profileVisibility' = 'limited' AND auth.uid() IS NOT NULL)
+      )
+      AND (search_query.is_empty OR profiles.search_vector @@ search_query.query)
+  )
+  SELECT
+    matches.id,
+    matches.username,
+    matches.full_name,
+    matches.avatar_url,
+    matches.education_status,
+    matches.coding_languages,
+    matches.rank::REAL,
+    CASE
+      WHEN matches.about_me IS NULL THEN NULL
+      WHEN matches.is_empty THEN left(matches.about_me, 160)
+      ELSE ts_headline(
+        'english',
+        matches.about_me,
+        matches.query,
+        'StartSel=«, StopSel=», MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+      )
+    END AS snippet,
+    COUNT(*) OVER () AS total_count
+  FROM matches
+  ORDER BY matches.rank DESC, matches.created_at DESC, matches.id
+  LIMIT LEAST(GREATEST(p_limit, 1), 50)
+  OFFSET GREATEST(p_offset, 0);
+$$;
+
+-- Comments for documentation
+COMMENT ON COLUMN profiles.search_vector IS 'Weighted full-text vector: username/full_name (A), coding_languages (B), about_me (C)';
+COMMENT ON COLUMN projects.search_vector IS 'Weighted full-text vector: title (A), coding_languages (B), description (C)';
+COMMENT ON FUNCTION search_projects(TEXT, INTEGER, INTEGER) IS 'Ranked full-text project search with highlighted description snippets';
+COMMENT ON FUNCTION search_developers(TEXT, INTEGER, INTEGER) IS 'Ranked full-text search over public developer profiles for the developer directory';
+
+-- Grant necessary permissions
+GRANT EXECUTE ON FUNCTION search_projects(TEXT, INTEGER, INTEGER) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_developers(TEXT, INTEGER, INTEGER) TO anon, authenticated;
+
+-- Verification queries (uncomment to test)
+-- SELECT 'Search schema setup completed' as status;
+-- SELECT title, rank, snippet FROM search_projects('react native');
+-- SELECT username, rank, snippet FROM search_developers('typescript');
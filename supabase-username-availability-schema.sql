@@ -0,0 +1,111 @@
+-- DevRecruit Username Availability Schema
+-- This script adds the live username check used by onboarding and profile editing
+-- Run after supabase-username-redirects-schema.sql
+--
+-- A handle is unavailable when it is reserved, belongs to another profile (any case)
+-- or is a retired handle that still redirects to its previous owner (the window is
+-- username_redirect_window() in supabase-username-redirects-schema.sql). Taken handles
+-- come back with up to three free alternatives. This is only the live check for the
+-- forms; enforce_profile_rules() (supabase-profile-rules-schema.sql) rejects reserved
+-- and redirecting handles when the profile is written.
+
+-- Reserved handles, the database's copy of RESERVED_USERNAMES in
+-- packages/app/utils/constants.ts (update both together)
+CREATE OR REPLACE FUNCTION is_reserved_username(p_username TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT lower(btrim(p_username)) = ANY(ARRAY[
+    'admin', 'administrator', 'root', 'devrecruit', 'api', 'www', 'mail',
+    'support', 'help', 'info', 'contact', 'about', 'team', 'staff',
+    'moderator', 'test', 'demo', 'example', 'null', 'undefined',
+    'dashboard', 'onboarding', 'settings', 'login', 'signup', 'auth',
+    'users', 'projects', 'messages'
+  ]);
+$$;
+
+-- Whether a handle is held by someone other than the caller
+CREATE OR REPLACE FUNCTION username_is_claimed(p_username TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE lower(profiles.username) = lower(btrim(p_username))
+      AND profiles.id IS DISTINCT FROM auth.uid()
+  ) OR EXISTS (
+    SELECT 1 FROM active_username_redirects(p_username) AS redirects
+    WHERE redirects.user_id IS DISTINCT FROM auth.uid()
+  );
+$$;
+
+-- Check a handle and suggest alternatives when it can't be used
+-- reason is 'reserved' or 'taken' when available is false
+CREATE OR REPLACE FUNCTION check_username_availability(p_username TEXT)
+RETURNS TABLE (
+  available BOOLEAN,
+  reason TEXT,
+  suggestions TEXT[]
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_username TEXT := lower(btrim(p_username));
+  v_reason TEXT;
+  v_base TEXT;
+  v_candidate TEXT;
+  v_suggestions TEXT[] := '{}';
+BEGIN
+  IF is_reserved_username(v_username) THEN
+    v_reason := 'reserved';
+  ELSIF username_is_claimed(v_username) THEN
+    v_reason := 'taken';
+  ELSE
+    RETURN QUERY SELECT TRUE, NULL::TEXT, '{}'::TEXT[];
+    RETURN;
+  END IF;
+
+  -- Leave room for a suffix within the 22 character limit
+  v_base := left(regexp_replace(v_username, '[^a-z0-9_-]|[-_]+$', '', 'g'), 16);
+  IF length(v_base) < 2 THEN
+    v_base := 'dev' || v_base;
+  END IF;
+
+  FOREACH v_candidate IN ARRAY ARRAY[
+    v_base || '_dev',
+    v_base || floor(random() * 90 + 10)::TEXT,
+    v_base || '_codes',
+    v_base || floor(random() * 900 + 100)::TEXT,
+    v_base || '_' || floor(random() * 9000 + 1000)::TEXT
+  ] LOOP
+    EXIT WHEN cardinality(v_suggestions) >= 3;
+    IF NOT is_reserved_username(v_candidate) AND NOT username_is_claimed(v_candidate) THEN
+      v_suggestions := array_append(v_suggestions, v_candidate);
+    END IF;
+  END LOOP;
+
+  RETURN QUERY SELECT FALSE, v_reason, v_suggestions;
+END;
+$$;
+
+-- Comments for documentation
+COMMENT ON FUNCTION is_reserved_username(TEXT) IS 'Handles nobody can claim (mirrors RESERVED_USERNAMES in the app)';
+COMMENT ON FUNCTION username_is_claimed(TEXT) IS 'True when a username belongs to, or still redirects to, another user';
+COMMENT ON FUNCTION check_username_availability(TEXT) IS 'Live username check with up to three alternatives for reserved or taken handles';
+
+-- Grant necessary permissions
+-- Signed-in users check handles through check_username_availability() only
+REVOKE EXECUTE ON FUNCTION username_is_claimed(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION check_username_availability(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION check_username_availability(TEXT) TO authenticated;
+
+-- Verification queries (uncomment to test)
+-- SELECT 'Username availability schema setup completed' as status;
+-- SELECT * FROM check_username_availability('octocat');
+-- SELECT * FROM check_username_availability('admin');
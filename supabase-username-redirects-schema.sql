@@ -0,0 +1,178 @@
+-- DevRecruit Vanity Profile URLs Schema
+-- This script adds username resolution for /u/<username> profile links
+-- Run after supabase-public-profile-function.sql
+--
+-- When a developer renames their handle, the old one keeps redirecting to their
+-- profile for 90 days so links shared on resumes keep working. Nobody else can claim
+-- the handle during that window: enforce_profile_rules() (supabase-profile-rules-schema.sql)
+-- rejects it on every profile write, and check_username_availability() reports it as taken.
+
+-- How long a retired handle keeps redirecting; it is unavailable to others for as long
+CREATE OR REPLACE FUNCTION username_redirect_window()
+RETURNS INTERVAL
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT INTERVAL '90 days';
+$$;
+
+-- Create username history table
+CREATE TABLE IF NOT EXISTS username_history (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  username TEXT NOT NULL,
+  retired_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  redirect_until TIMESTAMPTZ NOT NULL DEFAULT NOW() + username_redirect_window()
+);
+
+-- Tables created before username_redirect_window() existed
+ALTER TABLE username_history ALTER COLUMN redirect_until SET DEFAULT NOW() + username_redirect_window();
+
+-- Add indexes for username lookups
+CREATE INDEX IF NOT EXISTS idx_username_history_username ON username_history(lower(username), redirect_until DESC);
+CREATE INDEX IF NOT EXISTS idx_username_history_user_id ON username_history(user_id);
+
+-- Handles are unique in any case ("Alice" and "alice" are one handle), which every lookup
+-- here relies on. The original UNIQUE constraint is case-sensitive, so before indexing,
+-- the oldest profile keeps each duplicated handle and the others get user-<id prefix>
+-- (valid under PROFILE_RULES) until they pick a new one
+UPDATE profiles
+SET username = 'user-' || left(replace(profiles.id::TEXT, '-', ''), 12)
+FROM (
+  SELECT
+    profiles.id,
+    row_number() OVER (PARTITION BY lower(profiles.username) ORDER BY profiles.created_at, profiles.id) AS position
+  FROM profiles
+  WHERE profiles.username IS NOT NULL
+) AS handles
+WHERE handles.id = profiles.id
+  AND handles.position > 1;
+
+-- Replaces the non-unique index of the same expression
+DROP INDEX IF EXISTS idx_profiles_username_lower;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_profiles_username_lower_unique ON public.profiles(lower(username)) WHERE username IS NOT NULL;
+
+-- Row Level Security Policies
+-- History is written by the trigger below and read through resolve_username() only
+ALTER TABLE username_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own username history"
+ON username_history FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Record the old handle whenever a username changes
+CREATE OR REPLACE FUNCTION record_username_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.username IS NOT NULL AND NEW.username IS DISTINCT FROM OLD.username THEN
+    INSERT INTO username_history (user_id, username)
+    VALUES (NEW.id, OLD.username);
+  END IF;
+
+  -- A handle that is claimed again (by its owner, or by anyone once its window has passed)
+  -- no longer redirects to its previous owner
+  IF NEW.username IS NOT NULL THEN
+    DELETE FROM username_history
+    WHERE lower(username_history.username) = lower(NEW.username);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_profiles_username_change ON profiles;
+CREATE TRIGGER record_profiles_username_change
+  AFTER UPDATE OF username ON profiles
+  FOR EACH ROW EXECUTE FUNCTION record_username_change();
+
+-- Retired handles that still redirect, newest first; the one rule for "recently retired",
+-- shared by resolve_username() and username_is_claimed() (supabase-username-availability-schema.sql)
+CREATE OR REPLACE FUNCTION active_username_redirects(p_username TEXT)
+RETURNS TABLE (
+  user_id UUID,
+  retired_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT username_history.user_id, username_history.retired_at
+  FROM username_history
+  WHERE lower(username_history.username) = lower(btrim(p_username))
+    AND username_history.redirect_until > NOW()
+  ORDER BY username_history.retired_at DESC;
+$$;
+
+-- Resolve a handle (current or recently retired) to a profile
+-- Returns no rows when the handle is unknown or expired, or when the caller could not view
+-- the profile through get_public_profile() (inactive, not onboarded, private, or 'limited'
+-- for signed-out visitors), so handles and renames are not enumerable
+-- is_redirect is true when the handle is not the canonical one (old handle or different case)
+CREATE OR REPLACE FUNCTION resolve_username(p_username TEXT)
+RETURNS TABLE (
+  user_id UUID,
+  username TEXT,
+  is_redirect BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH candidates AS (
+    SELECT profiles.id AS user_id, 1 AS priority, NULL::TIMESTAMPTZ AS retired_at
+    FROM profiles
+    WHERE lower(profiles.username) = lower(btrim(p_username))
+
+    UNION ALL
+
+    SELECT redirects.user_id, 2 AS priority, redirects.retired_at
+    FROM active_username_redirects(p_username) AS redirects
+  )
+  SELECT
+    profiles.id,
+    profiles.username,
+    profiles.username IS DISTINCT FROM p_username AS is_redirect
+  FROM candidates
+  JOIN profiles ON profiles.id = candidates.user_id
+  WHERE profiles.username IS NOT NULL
+    AND (
+      profiles.id = auth.uid()
+      OR (
+        COALESCE(profiles.account_status, 'active') = 'active'
+        AND COALESCE(profiles.onboarding_completed, false) = true
+        AND (
+          COALESCE(profiles.privacy_settings->>'profileVisibility', 'public') = 'public'
+          OR (
+            COALESCE(profiles.privacy_settings->>'profileVisibility', 'public') = 'limited'
+            AND auth.uid() IS NOT NULL
+          )
+        )
+      )
+    )
+  ORDER BY candidates.priority, candidates.retired_at DESC NULLS LAST
+  LIMIT 1;
+$$;
+
+-- Comments for documentation
+COMMENT ON TABLE username_history IS 'Retired usernames that keep redirecting to their owner until redirect_until';
+COMMENT ON COLUMN username_history.redirect_until IS 'Old /u/<username> links redirect to the current handle until this time';
+COMMENT ON FUNCTION username_redirect_window() IS 'How long a retired username redirects to, and is held for, its previous owner';
+COMMENT ON FUNCTION active_username_redirects(TEXT) IS 'Owners a retired username still redirects to';
+COMMENT ON FUNCTION resolve_username(TEXT) IS 'Resolve a current or recently retired username to a profile for /u/<username>';
+
+-- Grant necessary permissions
+GRANT SELECT ON username_history TO authenticated;
+GRANT EXECUTE ON FUNCTION resolve_username(TEXT) TO anon, authenticated;
+-- Internal to resolve_username() and username_is_claimed(); not callable over the API
+REVOKE EXECUTE ON FUNCTION active_username_redirects(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Verification queries (uncomment to test)
+-- SELECT 'Username redirects schema setup completed' as status;
+-- SELECT COUNT(*) as retired_usernames_count FROM username_history WHERE redirect_until > NOW();
+-- SELECT * FROM resolve_username('octocat');